@@ -22,3 +22,7 @@ jest.mock('next/image', () => ({
   default: ({ src, alt, ...rest }) =>
     React.createElement('img', { src, alt, ...rest })
 }));
+
+// Tests mock fetch per test, so arXiv requests are neither spaced nor cached
+process.env.ARXIV_REQUEST_INTERVAL_MS = '0';
+process.env.ARXIV_CACHE_TTL_MS = '0';
@@ -0,0 +1,69 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/admin/arxiv';
+import { ArxivClient, setArxivClient } from '@/utils/arxivClient';
+
+global.fetch = jest.fn();
+
+describe('/api/admin/arxiv', () => {
+  const originalEnv = process.env;
+  let client: ArxivClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, ADMIN_API_TOKEN: 'secret-token' };
+    client = new ArxivClient({ intervalMs: 0, cacheTtlMs: 60 * 1000 });
+    setArxivClient(client);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setArxivClient(null);
+  });
+
+  const authorized = { authorization: 'Bearer secret-token' };
+
+  it('should require the admin token', async () => {
+    const { req, res } = createMocks({ method: 'GET', headers: { authorization: 'Bearer wrong' } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(401);
+  });
+
+  it('should report request and cache metrics', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, statusText: 'OK', text: async () => 'feed' });
+    await client.fetchText('http://export.arxiv.org/api/query?search_query=bert');
+    await client.fetchText('http://export.arxiv.org/api/query?search_query=bert');
+    const { req, res } = createMocks({ method: 'GET', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({
+      requests: 1,
+      retries: 0,
+      failures: 0,
+      rejected: 0,
+      cacheHits: 1,
+      cacheMisses: 1,
+      shared: 0,
+      cacheEntries: 1,
+      queued: 0,
+      cacheHitRate: 0.5,
+      intervalMs: 0,
+      cacheTtlMs: 60 * 1000,
+      maxQueued: 10
+    });
+  });
+
+  it('should clear the response cache on DELETE', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, statusText: 'OK', text: async () => 'feed' });
+    await client.fetchText('http://export.arxiv.org/api/query?search_query=bert');
+    const { req, res } = createMocks({ method: 'DELETE', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).cacheEntries).toBe(0);
+  });
+});
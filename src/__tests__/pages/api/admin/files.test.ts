@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/admin/files';
+import { setLLMProvider } from '@/utils/llm';
+import { FakeLLMProvider } from '@/utils/llm/fakeProvider';
+import { GeminiProvider } from '@/utils/llm/geminiProvider';
+import { ManagedFile } from '@/utils/llm/geminiFiles';
+import { PaperCache, setPaperCache } from '@/utils/paperCache';
+
+const managedFile: ManagedFile = {
+  name: 'files/arxiv-1706-03762-1700000000000',
+  displayName: 'arXiv-1706.03762.pdf',
+  paperKey: 'arxiv-1706-03762',
+  state: 'ACTIVE',
+  sizeBytes: 2048,
+  createTime: '2024-01-01T00:00:00Z',
+  expirationTime: '2024-01-03T00:00:00Z',
+  status: 'duplicate'
+};
+
+describe('/api/admin/files', () => {
+  const originalEnv = process.env;
+  let provider: GeminiProvider;
+  let cache: PaperCache;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ADMIN_API_TOKEN: 'secret-token', GEMINI_API_KEY: 'test-key' };
+    provider = new GeminiProvider({ apiKey: 'test-key' });
+    setLLMProvider(provider);
+    cache = new PaperCache({ directory: '/nonexistent/paper-cache' });
+    jest.spyOn(cache, 'stats').mockResolvedValue({ entries: 1, bytes: 2048, maxBytes: 100, maxEntries: 10 });
+    jest.spyOn(cache, 'removeDocuments').mockResolvedValue();
+    setPaperCache(cache);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setLLMProvider(null);
+    setPaperCache(null);
+  });
+
+  const authorized = { authorization: 'Bearer secret-token' };
+
+  it('should return 503 when no admin token is configured', async () => {
+    delete process.env.ADMIN_API_TOKEN;
+    const { req, res } = createMocks({ method: 'GET', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(503);
+  });
+
+  it('should reject missing or wrong tokens', async () => {
+    for (const headers of [{}, { authorization: 'Bearer wrong' }, { authorization: 'secret-token' }]) {
+      const { req, res } = createMocks({ method: 'GET', headers });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(401);
+      expect(res.getHeader('WWW-Authenticate')).toBe('Bearer');
+    }
+  });
+
+  it('should return 405 for unsupported methods', async () => {
+    const { req, res } = createMocks({ method: 'POST', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+
+  it('should require the Gemini provider', async () => {
+    setLLMProvider(new FakeLLMProvider());
+    const { req, res } = createMocks({ method: 'GET', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toContain('only available with the Gemini provider');
+  });
+
+  it('should list files with status counts and cache usage', async () => {
+    jest.spyOn(provider.files, 'list').mockResolvedValue([managedFile, { ...managedFile, status: 'active' }]);
+    const { req, res } = createMocks({ method: 'GET', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = JSON.parse(res._getData());
+    expect(data.files).toHaveLength(2);
+    expect(data.counts).toEqual({ duplicate: 1, active: 1 });
+    expect(data.cache.entries).toBe(1);
+  });
+
+  it('should purge stale files by default and forget their cached handles', async () => {
+    const purge = jest.spyOn(provider.files, 'purge').mockResolvedValue([managedFile.name]);
+    const { req, res } = createMocks({ method: 'DELETE', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({ deleted: [managedFile.name] });
+    expect(purge).toHaveBeenCalledWith('stale');
+    expect(cache.removeDocuments).toHaveBeenCalledWith('gemini', [managedFile.name]);
+  });
+
+  it('should delete a single file by name and validate parameters', async () => {
+    const remove = jest.spyOn(provider.files, 'delete').mockResolvedValue();
+
+    const single = createMocks({ method: 'DELETE', headers: authorized, query: { name: managedFile.name } });
+    await handler(single.req, single.res);
+    expect(single.res._getStatusCode()).toBe(200);
+    expect(remove).toHaveBeenCalledWith(managedFile.name);
+
+    const badScope = createMocks({ method: 'DELETE', headers: authorized, query: { scope: 'everything' } });
+    await handler(badScope.req, badScope.res);
+    expect(badScope.res._getStatusCode()).toBe(400);
+
+    const badName = createMocks({ method: 'DELETE', headers: authorized, query: { name: '../etc' } });
+    await handler(badName.req, badName.res);
+    expect(badName.res._getStatusCode()).toBe(400);
+  });
+
+  it('should return 502 when the Files API fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(provider.files, 'list').mockRejectedValue(new Error('quota exceeded'));
+    const { req, res } = createMocks({ method: 'GET', headers: authorized });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(502);
+    expect(JSON.parse(res._getData()).details).toBe('quota exceeded');
+  });
+});
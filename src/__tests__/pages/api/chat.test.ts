@@ -1,54 +1,43 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { createMocks } from 'node-mocks-http';
 import handler from '@/pages/api/chat';
+import { setLLMProvider } from '@/utils/llm';
+import { FakeLLMProvider, FakeProviderConfig } from '@/utils/llm/fakeProvider';
+import { MemoryChatSessionStore, setChatSessionStore } from '@/utils/chatSessions';
+import { PaperCache, setPaperCache } from '@/utils/paperCache';
+import { getSessionOwner } from '@/utils/chatSessionOwner';
 
-// Mock the Google Generative AI
-jest.mock('@google/genai', () => {
-  const mockGenerateContent = jest.fn();
-  const mockFilesList = jest.fn();
-  const mockFilesUpload = jest.fn();
-  const mockFilesGet = jest.fn();
-  const mockFilesDelete = jest.fn();
-
-  return {
-    GoogleGenAI: jest.fn().mockImplementation(() => ({
-      files: {
-        list: mockFilesList,
-        upload: mockFilesUpload,
-        get: mockFilesGet,
-        delete: mockFilesDelete,
-      },
-      models: {
-        generateContent: mockGenerateContent,
-      },
-    })),
-    createUserContent: jest.fn((content) => content),
-    createPartFromUri: jest.fn((uri, mimeType) => ({ uri, mimeType })),
-    Type: {
-      OBJECT: 'object',
-      STRING: 'string',
-      ARRAY: 'array',
-      NUMBER: 'number',
-      BOOLEAN: 'boolean',
-      NULL: 'null',
-    },
-    // Export mocks for use in tests
-    __mocks: {
-      mockGenerateContent,
-      mockFilesList,
-      mockFilesUpload,
-      mockFilesGet,
-      mockFilesDelete,
-    }
-  };
-});
+// Browser that owns the test sessions
+const ownerCookies = { 'asxiv-chat-owner': 'a'.repeat(64) };
+const ownerId = getSessionOwner(createMocks({ cookies: ownerCookies }).req) as string;
 
 // Mock arxivUtils
 jest.mock('@/utils/arxivUtils', () => ({
   getArxivFileName: jest.fn(),
-  checkFileExists: jest.fn(),
   getCategoryPromptContext: jest.fn(),
   parseArxivId: jest.fn(),
   getArxivPdfUrl: jest.fn(),
+  getVersionedArxivId: jest.requireActual('@/utils/arxivUtils').getVersionedArxivId,
+}));
+
+// Paper categories for the persona; abstracts still come from the real arXiv client
+jest.mock('@/utils/arxivSearch', () => ({
+  ...jest.requireActual('@/utils/arxivSearch'),
+  getArxivMetadata: jest.fn()
+}));
+
+// Mock PDF text extraction used for citation checks
+jest.mock('@/utils/pdfText', () => ({
+  extractPdfPages: jest.fn(async () => [
+    'Attention Is All You Need. We propose the Transformer, based solely on attention mechanisms.',
+    'The encoder is composed of a stack of six identical layers with multi-head self-attention.',
+    'On the WMT 2014 English-to-German translation task the model achieves 28.4 BLEU.'
+  ])
 }));
 
 // Mock fetch globally
@@ -57,29 +46,50 @@ global.fetch = jest.fn();
 describe('/api/chat', () => {
   let processEnv: NodeJS.ProcessEnv;
   let arxivUtils: any;
-  let mockGenAI: any;
-  let mockGenerateContent: jest.Mock;
-  let mockFilesList: jest.Mock;
-  let mockFilesUpload: jest.Mock;
-  // let mockFilesGet: jest.Mock;
-  let mockFilesDelete: jest.Mock;
+  let provider: FakeLLMProvider;
+  let paperCacheDir: string;
+  let paperCache: PaperCache;
+  const cachedHandle = {
+    name: 'files/mock-file-123',
+    uri: 'files/mock-file-123',
+    mimeType: 'application/pdf',
+    displayName: 'arXiv-1706.03762.pdf'
+  };
+  const answer = JSON.stringify({
+    content: 'This is a mock response about attention mechanisms.',
+    suggestedQuestions: [
+      { text: 'What is the main contribution?', description: 'Learn about key findings' }
+    ],
+    responseType: 'answer'
+  });
+
+  // Answer with the given responses (then the default answer) from a fresh provider
+  const useProvider = ({ responses = [answer], ...config }: FakeProviderConfig = {}) => {
+    provider = new FakeLLMProvider({ responses, ...config });
+    setLLMProvider(provider);
+    return provider;
+  };
+
+  // Text of a part of a message in a request the provider received
+  const partText = (message: number, part: number, request = 0): string => {
+    const found = provider.requests[request]?.messages[message]?.parts[part];
+    return found && 'text' in found ? found.text : '';
+  };
 
   beforeAll(() => {
     processEnv = process.env;
   });
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
-    process.env = { ...processEnv, GEMINI_API_KEY: 'test-api-key' };
+    process.env = { ...processEnv };
+    useProvider();
 
-           // Get the mocked functions
-           arxivUtils = jest.requireMock('@/utils/arxivUtils');
-           const genAIModule = jest.requireMock('@google/genai');
-    mockGenAI = new genAIModule.GoogleGenAI();
-    mockGenerateContent = mockGenAI.models.generateContent;
-    mockFilesList = mockGenAI.files.list;
-    mockFilesUpload = mockGenAI.files.upload;    
-    mockFilesDelete = mockGenAI.files.delete;
+    paperCacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'paper-cache-'));
+    paperCache = new PaperCache({ directory: paperCacheDir });
+    setPaperCache(paperCache);
+
+    arxivUtils = jest.requireMock('@/utils/arxivUtils');
 
     // Mock successful PDF download
     (global.fetch as jest.Mock).mockResolvedValue({
@@ -88,22 +98,11 @@ describe('/api/chat', () => {
       arrayBuffer: () => Promise.resolve(Buffer.from('%PDF-1.4\nMock PDF content')),
     });
 
-    // Mock successful Gemini response
-    mockGenerateContent.mockResolvedValue({
-      text: JSON.stringify({
-        content: 'This is a mock response about attention mechanisms.',
-        suggestedQuestions: [
-          { text: 'What is the main contribution?', description: 'Learn about key findings' }
-        ],
-        responseType: 'answer'
-      })
-    });
-
     // Mock file operations
-    arxivUtils.checkFileExists.mockResolvedValue(false);
     arxivUtils.getArxivFileName.mockReturnValue('arxiv-1706-03762');
     arxivUtils.getArxivPdfUrl.mockReturnValue('https://arxiv.org/pdf/1706.03762');
     arxivUtils.getCategoryPromptContext.mockReturnValue('Context for cs');
+    jest.requireMock('@/utils/arxivSearch').getArxivMetadata.mockResolvedValue(new Map());
     
     // Default mock for parseArxivId - valid ID
     arxivUtils.parseArxivId.mockReturnValue({
@@ -114,17 +113,12 @@ describe('/api/chat', () => {
       isOldFormat: false
     });
 
-    mockFilesList.mockResolvedValue({
-      [Symbol.asyncIterator]: async function* () {
-        // Empty iterator for new files
-      }
-    });
-    mockFilesUpload.mockResolvedValue({
-      name: 'files/mock-file-123',
-      displayName: 'arxiv-1706-03762',
-      uri: 'files/mock-file-123',
-      mimeType: 'application/pdf'
-    });
+  });
+
+  afterEach(async () => {
+    setLLMProvider(null);
+    setPaperCache(null);
+    await fs.rm(paperCacheDir, { recursive: true, force: true });
   });
 
   afterAll(() => {
@@ -158,6 +152,7 @@ describe('/api/chat', () => {
   });
 
   it('should return 500 for missing API key', async () => {
+    setLLMProvider(null);
     process.env.GEMINI_API_KEY = '';
     const { req, res } = createMocks({
       method: 'POST',
@@ -233,7 +228,7 @@ describe('/api/chat', () => {
     expect(JSON.parse(res._getData()).error).toBe('Last message must be from user');
   });
 
-  it('should handle PDF not available (404) and return welcome message', async () => {
+  it('should explain when neither the PDF nor the metadata is available', async () => {
     (global.fetch as jest.Mock).mockResolvedValue({
       ok: false,
       status: 404,
@@ -251,7 +246,80 @@ describe('/api/chat', () => {
     expect(res._getStatusCode()).toBe(200);
     const data = JSON.parse(res._getData());
     expect(data.structured.content).toContain('PDF Not Available');
-    expect(data.structured.responseType).toBe('welcome');
+    expect(data.structured.responseType).toBe('error');
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  describe('abstract-only fallback', () => {
+    const atomFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v2</id>
+    <updated>2017-06-19T00:00:00Z</updated>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You Need</title>
+    <summary>We propose the Transformer, based solely on attention mechanisms.</summary>
+    <author><name>Ashish Vaswani</name></author>
+    <arxiv:comment xmlns:arxiv="http://arxiv.org/schemas/atom">This paper has been withdrawn</arxiv:comment>
+    <category term="cs.CL" scheme="http://arxiv.org/schemas/atom"/>
+  </entry>
+</feed>`;
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        url.startsWith('http://export.arxiv.org/api/query')
+          ? { ok: true, status: 200, text: async () => atomFeed }
+          : { ok: false, status: 404 }
+      );
+    });
+
+    it('should ground the answer in the abstract and metadata and label it', async () => {
+      useProvider({
+        responses: [JSON.stringify({
+          content: 'The paper proposes the Transformer.',
+          evidence: [{ quote: 'based solely on attention mechanisms', page: 1, claim: 'It proposes the Transformer' }],
+          responseType: 'answer'
+        })]
+      });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What does it propose?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(provider.uploads).toHaveLength(0);
+      expect(partText(0, 0)).toContain('arXiv 1706.03762 (abstract and metadata only');
+      expect(partText(0, 0)).toContain('Comments: This paper has been withdrawn');
+      expect(partText(0, 0)).toContain('We propose the Transformer, based solely on attention mechanisms.');
+      expect(partText(0, 1)).toContain('NEVER cite page numbers');
+      expect(partText(0, 1)).toContain('filed under Computation and Language (cs.CL)');
+      expect(jest.requireMock('@/utils/arxivSearch').getArxivMetadata).not.toHaveBeenCalled();
+
+      const { structured } = JSON.parse(res._getData());
+      expect(structured.abstractOnly).toEqual(['1706.03762']);
+      expect(structured.evidence).toEqual([]);
+    });
+
+    it('should generate the welcome message from the abstract', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'Please provide a welcome message with suggested questions' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(partText(0, 1)).toContain('answers will be based on the abstract and metadata only');
+    });
   });
 
   it('should handle PDF download failure and return 500 error', async () => {
@@ -319,23 +387,57 @@ describe('/api/chat', () => {
     expect(data.error).toBe('Failed to generate response');
   });
 
-  it('should use existing file when file already exists and not re-upload', async () => {
-    arxivUtils.checkFileExists.mockResolvedValue(true);
-    
-    // Create an async iterable mock
-    const mockFiles = [{ 
-      name: 'files/mock-file-123', 
-      displayName: 'arxiv-1706-03762',
-      uri: 'files/mock-file-123',
-      mimeType: 'application/pdf'
-    }];
-    
-    mockFilesList.mockResolvedValue({
-      [Symbol.asyncIterator]: async function* () {
-        for (const file of mockFiles) {
-          yield file;
-        }
-      }
+  it('should use a cached document without looking up or re-uploading files', async () => {
+    const findDocument = jest.spyOn(useProvider({ hostsDocuments: true }), 'findDocument');
+    await paperCache.setDocument('arxiv-1706-03762', '1706.03762', 'fake', cachedHandle);
+
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: {
+        messages: [{ role: 'user', content: 'What is this paper about?' }],
+        arxivId: '1706.03762',
+      },
+    });
+
+    await handler(req, res);
+    expect(res._getStatusCode()).toBe(200);
+    expect(provider.uploads).toHaveLength(0);
+    expect(findDocument).not.toHaveBeenCalled();
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(provider.requests[0]?.messages[0]?.parts[0]).toEqual({ document: cachedHandle });
+  });
+
+  it('should cache the uploaded document and PDF for later requests', async () => {
+    useProvider({ hostsDocuments: true });
+    const request = () => createMocks({
+      method: 'POST',
+      body: {
+        messages: [{ role: 'user', content: 'What is this paper about?' }],
+        arxivId: '1706.03762',
+      },
+    });
+
+    const first = request();
+    await handler(first.req, first.res);
+    const second = request();
+    await handler(second.req, second.res);
+
+    expect(second.res._getStatusCode()).toBe(200);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(provider.uploads).toHaveLength(1);
+    expect(await paperCache.getDocument('arxiv-1706-03762', 'fake')).toEqual(
+      expect.objectContaining({ uri: expect.stringMatching(/^fake:\/\/arxiv-1706-03762-\d+$/) })
+    );
+    expect(await paperCache.getPdf('arxiv-1706-03762')).not.toBeNull();
+  });
+
+  it('should re-upload from the cached PDF when the document has expired', async () => {
+    useProvider({ hostsDocuments: true });
+    const pdf = Buffer.from('%PDF-1.4\nCached PDF content');
+    await paperCache.putPdf('arxiv-1706-03762', '1706.03762', pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength));
+    await paperCache.setDocument('arxiv-1706-03762', '1706.03762', 'fake', {
+      ...cachedHandle,
+      expiresAt: new Date(Date.now() - 1000).toISOString()
     });
 
     const { req, res } = createMocks({
@@ -348,11 +450,14 @@ describe('/api/chat', () => {
 
     await handler(req, res);
     expect(res._getStatusCode()).toBe(200);
-    expect(mockFilesUpload).not.toHaveBeenCalled();
-    expect(arxivUtils.checkFileExists).toHaveBeenCalledWith('arxiv-1706-03762');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(provider.uploads).toHaveLength(1);
   });
 
   it('should handle follow-up messages without re-uploading PDF', async () => {
+    useProvider({ hostsDocuments: true });
+    await paperCache.setDocument('arxiv-1706-03762', '1706.03762', 'fake', cachedHandle);
+
     const { req, res } = createMocks({
       method: 'POST',
       body: {
@@ -367,7 +472,31 @@ describe('/api/chat', () => {
 
     await handler(req, res);
     expect(res._getStatusCode()).toBe(200);
-    expect(mockFilesUpload).not.toHaveBeenCalled();
+    expect(provider.uploads).toHaveLength(0);
+  });
+
+  it('should ground follow-up messages in the PDF using multi-turn contents', async () => {
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: {
+        messages: [
+          { role: 'user', content: 'What is this paper about?' },
+          { role: 'assistant', content: 'This paper is about attention mechanisms.' },
+          { role: 'user', content: 'What is on page 12?' }
+        ],
+        arxivId: '1706.03762',
+      },
+    });
+
+    await handler(req, res);
+    expect(res._getStatusCode()).toBe(200);
+
+    const [request] = provider.requests;
+    expect(request?.messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(request?.messages[0]?.parts[0]).toEqual({ document: expect.objectContaining({ mimeType: 'application/pdf' }) });
+    expect(request?.messages[0]?.parts[1]).toEqual({ text: 'What is this paper about?' });
+    expect(request?.messages[1]?.parts).toEqual([{ text: 'This paper is about attention mechanisms.' }]);
+    expect(partText(2, 0)).toContain('Current question: What is on page 12?');
   });
 
   it('should handle welcome message request and return welcome response', async () => {
@@ -379,15 +508,15 @@ describe('/api/chat', () => {
       },
     });
 
-    mockGenerateContent.mockResolvedValue({
-      text: JSON.stringify({
+    useProvider({
+      responses: [JSON.stringify({
         content: 'Welcome! This paper is about attention mechanisms.',
         suggestedQuestions: [
           { text: 'What is the main contribution?', description: 'Learn about key findings' },
           { text: 'What methodology was used?', description: 'Understand the approach' }
         ],
         responseType: 'welcome'
-      })
+      })]
     });
 
     await handler(req, res);
@@ -418,26 +547,51 @@ describe('/api/chat', () => {
     expect(arxivUtils.getArxivFileName).toHaveBeenCalledWith('cs/0211011');
   });
 
-  it('should handle Gemini API errors and return 500 error', async () => {
-    mockGenerateContent.mockRejectedValue(new Error('Gemini API Error'));
+  describe('persona', () => {
+    const askAboutPaper = async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+        },
+      });
+      await handler(req, res);
+      expect(res._getStatusCode()).toBe(200);
+      return partText(0, 1);
+    };
 
-    const { req, res } = createMocks({
-      method: 'POST',
-      body: {
-        messages: [{ role: 'user', content: 'What is this paper about?' }],
-        arxivId: '1706.03762',
-      },
+    it('should build the persona from the primary and cross-listed categories', async () => {
+      const { getArxivMetadata } = jest.requireMock('@/utils/arxivSearch');
+      getArxivMetadata.mockResolvedValue(new Map([
+        ['1706.03762', { id: '1706.03762', primaryCategory: 'cs.CL', categories: ['cs.CL', 'stat.ML'] }]
+      ]));
+
+      const prompt = await askAboutPaper();
+
+      expect(getArxivMetadata).toHaveBeenCalledWith(['1706.03762']);
+      expect(prompt).toMatch(/^You are a Computer Science professor with a background in Statistics/);
+      expect(prompt).toContain('filed under Computation and Language (cs.CL) and cross-listed in Machine Learning (stat.ML)');
     });
 
-    await handler(req, res);
-    expect(res._getStatusCode()).toBe(500);
-    const data = JSON.parse(res._getData());
-    expect(data.error).toBe('Failed to generate response');
+    it('should fall back to the archive of old-style IDs when the metadata lookup fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.requireMock('@/utils/arxivSearch').getArxivMetadata.mockRejectedValue(new Error('arXiv is down'));
+      arxivUtils.parseArxivId.mockReturnValue({ id: 'hep-th/9711200', isValid: true, category: 'hep-th', version: null });
+
+      expect(await askAboutPaper()).toMatch(/^You are a High Energy Physics \(Theory\) professor/);
+    });
+
+    it('should use a generic assistant when the categories are unknown', async () => {
+      expect(await askAboutPaper()).toMatch(/^You are an AI assistant helping users understand and analyze research papers/);
+    });
   });
 
-  it('should handle invalid JSON response from Gemini and return 500 error', async () => {
-    mockGenerateContent.mockResolvedValue({
-      text: 'Invalid JSON response'
+  it('should handle provider errors and return 500 error', async () => {
+    useProvider({
+      responses: [() => {
+        throw new Error('Provider API Error');
+      }]
     });
 
     const { req, res } = createMocks({
@@ -454,10 +608,8 @@ describe('/api/chat', () => {
     expect(data.error).toBe('Failed to generate response');
   });
 
-  it('should handle empty response from Gemini and return 500 error', async () => {
-    mockGenerateContent.mockResolvedValue({
-      text: ''
-    });
+  it('should handle an invalid JSON response and return 500 error', async () => {
+    useProvider({ responses: ['Invalid JSON response'] });
 
     const { req, res } = createMocks({
       method: 'POST',
@@ -473,8 +625,8 @@ describe('/api/chat', () => {
     expect(data.error).toBe('Failed to generate response');
   });
 
-  it('should handle invalid model configuration and return 500 error', async () => {
-    process.env.GEMINI_MODEL = 'invalid-model';
+  it('should handle an empty response and return 500 error', async () => {
+    useProvider({ responses: [''] });
 
     const { req, res } = createMocks({
       method: 'POST',
@@ -490,16 +642,8 @@ describe('/api/chat', () => {
     expect(data.error).toBe('Failed to generate response');
   });
 
-  it('should keep uploaded file for reuse after processing', async () => {
-    const mockFile = {
-      name: 'files/mock-file-123',
-      displayName: 'arxiv-1706-03762',
-      uri: 'files/mock-file-123',
-      mimeType: 'application/pdf'
-    };
-    mockFilesUpload.mockResolvedValue(mockFile);
-
-    const { req, res } = createMocks({
+  it('should reuse the uploaded document for later requests', async () => {
+    const request = () => createMocks({
       method: 'POST',
       body: {
         messages: [{ role: 'user', content: 'What is this paper about?' }],
@@ -507,10 +651,465 @@ describe('/api/chat', () => {
       },
     });
 
-    await handler(req, res);
-    expect(res._getStatusCode()).toBe(200);
-    // Files are now kept for reuse, not deleted immediately
-    expect(mockFilesDelete).not.toHaveBeenCalled();
+    const first = request();
+    await handler(first.req, first.res);
+    const second = request();
+    await handler(second.req, second.res);
+
+    expect(second.res._getStatusCode()).toBe(200);
+    expect(provider.uploads).toHaveLength(1);
+    expect(provider.requests[1]?.messages[0]?.parts[0]).toEqual(provider.requests[0]?.messages[0]?.parts[0]);
   });
 
+  describe('citation verification', () => {
+    it('should attach per-citation confidence and drop citations of nonexistent pages', async () => {
+      useProvider({
+        responses: [JSON.stringify({
+          content: 'The model reaches 28.4 BLEU on English-to-German translation (page 3). '
+            + 'The encoder uses convolutional recurrence (page 2). Training took a decade (page 42).',
+          responseType: 'answer'
+        })]
+      });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What are the results?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      const { structured } = JSON.parse(res._getData());
+      expect(structured.content).toBe(
+        'The model reaches 28.4 BLEU on English-to-German translation (page 3). '
+          + 'The encoder uses convolutional recurrence (page 2). Training took a decade.'
+      );
+      expect(structured.citations).toEqual([
+        expect.objectContaining({ page: 3, verified: true }),
+        expect.objectContaining({ page: 2, verified: false })
+      ]);
+      expect(structured.citations[0].confidence).toBeGreaterThan(structured.citations[1].confidence);
+    });
+
+    it('should check evidence quotes against the text of their pages', async () => {
+      const { extractPdfPages } = jest.requireMock('@/utils/pdfText');
+      useProvider({
+        responses: [JSON.stringify({
+          content: 'The model reaches 28.4 BLEU.',
+          evidence: [
+            { quote: 'the model achieves 28.4 BLEU', page: 3, claim: 'The model reaches 28.4 BLEU' },
+            { quote: 'trained for a decade', page: 2, claim: 'Training was long' },
+            { quote: 'on page forty-two', page: 42, claim: 'Nonexistent page' }
+          ],
+          responseType: 'answer'
+        })]
+      });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What are the results?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      const { structured } = JSON.parse(res._getData());
+      expect(extractPdfPages).toHaveBeenCalled();
+      expect(structured.evidence).toEqual([
+        expect.objectContaining({ page: 3, verified: true }),
+        expect.objectContaining({ page: 2, verified: false })
+      ]);
+    });
+
+    it('should skip verification when the answer cites no pages', async () => {
+      const { extractPdfPages } = jest.requireMock('@/utils/pdfText');
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(JSON.parse(res._getData()).structured.citations).toBeUndefined();
+      expect(extractPdfPages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('versioned papers', () => {
+    beforeEach(() => {
+      arxivUtils.parseArxivId.mockReturnValue({
+        id: '1706.03762',
+        isValid: true,
+        category: null,
+        number: '1706.03762',
+        isOldFormat: false,
+        version: 2
+      });
+      arxivUtils.getArxivFileName.mockImplementation((id: string) => `arxiv-${id.replace('.', '-')}`);
+      arxivUtils.getArxivPdfUrl.mockImplementation((id: string) => `https://arxiv.org/pdf/${id}`);
+    });
+
+    it('should download, upload and discuss the requested version', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What changed in this version?' }],
+          arxivId: '1706.03762v2',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(global.fetch).toHaveBeenCalledWith('https://arxiv.org/pdf/1706.03762v2', expect.anything());
+      expect(provider.uploads[0]?.name).toMatch(/^arxiv-1706-03762v2-\d+$/);
+      expect(partText(0, 1)).toContain('arXiv paper 1706.03762v2');
+    });
+
+    it('should not reuse a session about another version', async () => {
+      const store = new MemoryChatSessionStore();
+      setChatSessionStore(store);
+      const session = await store.create('1706.03762', ownerId);
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        cookies: ownerCookies,
+        body: {
+          messages: [{ role: 'user', content: 'What changed?' }],
+          arxivId: '1706.03762v2',
+          sessionId: session.id,
+        },
+      });
+
+      await handler(req, res);
+      setChatSessionStore(null);
+
+      expect(res._getStatusCode()).toBe(400);
+      expect(JSON.parse(res._getData()).error).toBe('Session belongs to a different paper');
+    });
+  });
+
+  describe('multiple papers', () => {
+    beforeEach(() => {
+      arxivUtils.parseArxivId.mockImplementation((id: string) => ({
+        id,
+        isValid: /^\d{4}\.\d{4,5}$/.test(id),
+        category: null,
+        number: id,
+        isOldFormat: false
+      }));
+      arxivUtils.getArxivFileName.mockImplementation((id: string) => `arxiv-${id.replace('.', '-')}`);
+    });
+
+    it('should attach every PDF labelled with its ID and ask for labelled page references', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'How does BERT differ from the Transformer?' }],
+          arxivId: '1706.03762',
+          arxivIds: ['1706.03762', '1810.04805'],
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(provider.uploads).toHaveLength(2);
+      const [request] = provider.requests;
+      expect(request?.messages).toHaveLength(1);
+      const parts = request?.messages[0]?.parts;
+      expect(parts?.[0]).toEqual({ text: 'arXiv 1706.03762:' });
+      expect(parts?.[1]).toEqual({ document: expect.objectContaining({ name: expect.stringMatching(/^arxiv-1706-03762-/) }) });
+      expect(parts?.[2]).toEqual({ text: 'arXiv 1810.04805:' });
+      expect(parts?.[3]).toEqual({ document: expect.objectContaining({ name: expect.stringMatching(/^arxiv-1810-04805-/) }) });
+      expect(partText(0, 4)).toContain('arXiv papers 1706.03762, 1810.04805');
+      expect(partText(0, 4)).toContain('(1706.03762 page 2, 1810.04805 page 6)');
+    });
+
+    it('should check labelled citations against the named paper', async () => {
+      useProvider({
+        responses: [JSON.stringify({
+          content: 'BERT reports 28.4 BLEU on English-to-German translation (1810.04805 page 3). '
+            + 'It has an appendix (1810.04805 page 9).',
+          responseType: 'answer'
+        })]
+      });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What are the results?' }],
+          arxivIds: ['1706.03762', '1810.04805'],
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      const { structured } = JSON.parse(res._getData());
+      expect(structured.content).toBe(
+        'BERT reports 28.4 BLEU on English-to-German translation (1810.04805 page 3). It has an appendix.'
+      );
+      expect(structured.citations).toEqual([
+        expect.objectContaining({ page: 3, arxivId: '1810.04805', verified: true })
+      ]);
+    });
+
+    it('should reject invalid or too many papers', async () => {
+      const invalid = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'Compare them' }],
+          arxivIds: ['1706.03762', 'not-an-id'],
+        },
+      });
+      await handler(invalid.req, invalid.res);
+      expect(invalid.res._getStatusCode()).toBe(400);
+      expect(JSON.parse(invalid.res._getData()).error).toBe('Invalid ArXiv ID format: not-an-id');
+
+      const tooMany = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'Compare them' }],
+          arxivIds: ['2301.00001', '2301.00002', '2301.00003', '2301.00004', '2301.00005', '2301.00006'],
+        },
+      });
+      await handler(tooMany.req, tooMany.res);
+      expect(tooMany.res._getStatusCode()).toBe(400);
+      expect(provider.uploads).toHaveLength(0);
+    });
+  });
+
+  describe('streaming', () => {
+    const parseEvents = (data: string) =>
+      data.trim().split('\n').map((line) => JSON.parse(line));
+
+    it('should stream content deltas followed by the structured response', async () => {
+      const generateStream = jest.spyOn(useProvider({
+        responses: ['{"content": "Attention is all you need (page 1)", "suggestedQuestions": [{"text": "Why?"}], "responseType": "answer"}'],
+        chunkSize: 12
+      }), 'generateStream');
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+          stream: true
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(res.getHeader('Content-Type')).toContain('application/x-ndjson');
+      expect(generateStream).toHaveBeenCalledTimes(1);
+
+      const events = parseEvents(res._getData());
+      expect(events.filter((event) => event.type === 'delta').map((event) => event.content).join(''))
+        .toBe('Attention is all you need (page 1)');
+
+      const done = events[events.length - 1];
+      expect(done.type).toBe('done');
+      expect(done.response).toBe('Attention is all you need (page 1)');
+      expect(done.structured.suggestedQuestions).toEqual([{ text: 'Why?' }]);
+      expect(done.structured.responseType).toBe('answer');
+    });
+
+    it('should send an error event when the stream fails midway', async () => {
+      useProvider({ responses: ['{"content": "Partial'], chunkSize: 4 });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+          stream: true
+        },
+      });
+
+      await handler(req, res);
+
+      const events = parseEvents(res._getData());
+      expect(events.filter((event) => event.type === 'delta').map((event) => event.content).join('')).toBe('Partial');
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'error',
+        error: 'Failed to generate response'
+      });
+    });
+
+    it('should keep answering with plain JSON when streaming is not requested', async () => {
+      const generateStream = jest.spyOn(provider, 'generateStream');
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(generateStream).not.toHaveBeenCalled();
+      expect(JSON.parse(res._getData()).structured.content).toContain('attention mechanisms');
+    });
+  });
+
+  describe('with a fake provider', () => {
+    it('should answer without Gemini configured and attach the uploaded PDF', async () => {
+      process.env.GEMINI_API_KEY = '';
+      useProvider({ responses: [JSON.stringify({ content: 'Scripted answer (page 2)', responseType: 'answer' })] });
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          messages: [{ role: 'user', content: 'What is this paper about?' }],
+          arxivId: '1706.03762',
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(JSON.parse(res._getData()).structured.content).toBe('Scripted answer (page 2)');
+      expect(provider.uploads).toHaveLength(1);
+      expect(provider.uploads[0]?.displayName).toBe('arXiv-1706.03762.pdf');
+
+      const [request] = provider.requests;
+      expect(request?.responseSchema?.required).toEqual(['content', 'responseType']);
+      expect(request?.messages[0]?.parts[0]).toEqual({ document: expect.objectContaining({ mimeType: 'application/pdf' }) });
+    });
+  });
+
+  describe('with a session', () => {
+    let store: MemoryChatSessionStore;
+
+    beforeEach(() => {
+      store = new MemoryChatSessionStore();
+      setChatSessionStore(store);
+      useProvider({ responses: [JSON.stringify({ content: 'Session answer', responseType: 'answer' })] });
+    });
+
+    afterEach(() => {
+      setChatSessionStore(null);
+    });
+
+    it('should build the conversation from stored history and save the new turn', async () => {
+      const session = await store.create('1706.03762', ownerId);
+      await store.appendMessages(session.id, [
+        { role: 'assistant', content: 'Welcome!', structured: { content: 'Welcome!', responseType: 'welcome' } },
+        { role: 'user', content: 'What is attention?' },
+        { role: 'assistant', content: 'Attention weighs tokens.', structured: { content: 'Attention weighs tokens.', responseType: 'answer' } }
+      ]);
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        cookies: ownerCookies,
+        body: {
+          sessionId: session.id,
+          arxivId: '1706.03762',
+          messages: [{ role: 'user', content: 'And multi-head attention?' }],
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+
+      // Welcome message is not part of the model conversation
+      const [request] = provider.requests;
+      expect(request?.messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user']);
+      expect(request?.messages[0]?.parts).toContainEqual({ text: 'What is attention?' });
+
+      const updated = await store.get(session.id);
+      expect(updated?.messages).toHaveLength(5);
+      expect(updated?.messages[3]).toEqual(expect.objectContaining({ role: 'user', content: 'And multi-head attention?' }));
+      expect(updated?.messages[4]).toEqual(expect.objectContaining({ role: 'assistant', content: 'Session answer' }));
+    });
+
+    it('should save the welcome message without the welcome prompt', async () => {
+      const session = await store.create('1706.03762', ownerId);
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        cookies: ownerCookies,
+        body: {
+          sessionId: session.id,
+          arxivId: '1706.03762',
+          messages: [{ role: 'user', content: 'Please provide a welcome message for this paper with suggested questions I can ask about it.' }],
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      const updated = await store.get(session.id);
+      expect(updated?.messages).toHaveLength(1);
+      expect(updated?.messages[0]?.role).toBe('assistant');
+      expect(updated?.title).toBeNull();
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          sessionId: '11111111-2222-4333-8444-555555555555',
+          arxivId: '1706.03762',
+          messages: [{ role: 'user', content: 'Hello' }],
+        },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(404);
+      expect(JSON.parse(res._getData()).error).toBe('Session not found');
+    });
+
+    it('should not continue another browser\'s session', async () => {
+      const session = await store.create('1706.03762', ownerId);
+
+      for (const cookies of [{ 'asxiv-chat-owner': 'b'.repeat(64) }, {}]) {
+        const { req, res } = createMocks({
+          method: 'POST',
+          cookies,
+          body: { sessionId: session.id, arxivId: '1706.03762', messages: [{ role: 'user', content: 'Hello' }] },
+        });
+
+        await handler(req, res);
+
+        expect(res._getStatusCode()).toBe(404);
+        expect(JSON.parse(res._getData()).error).toBe('Session not found');
+      }
+      expect((await store.get(session.id))?.messages).toEqual([]);
+      expect(provider.requests).toHaveLength(0);
+    });
+
+    it('should reject malformed session IDs and sessions for other papers', async () => {
+      const other = await store.create('2301.00001', ownerId);
+
+      for (const [sessionId, error] of [['../etc/passwd', 'Invalid session ID'], [other.id, 'Session belongs to a different paper']]) {
+        const { req, res } = createMocks({
+          method: 'POST',
+          cookies: ownerCookies,
+          body: { sessionId, arxivId: '1706.03762', messages: [{ role: 'user', content: 'Hello' }] },
+        });
+
+        await handler(req, res);
+
+        expect(res._getStatusCode()).toBe(400);
+        expect(JSON.parse(res._getData()).error).toBe(error);
+      }
+    });
+  });
 });
@@ -0,0 +1,162 @@
+import { createMocks, RequestOptions } from 'node-mocks-http';
+import sessionsHandler from '@/pages/api/chat/sessions';
+import sessionHandler from '@/pages/api/chat/sessions/[id]';
+import { MemoryChatSessionStore, setChatSessionStore } from '@/utils/chatSessions';
+import { getSessionOwner } from '@/utils/chatSessionOwner';
+
+// Requests from the browser that owns the test sessions, and from another one
+const ownerCookies = { 'asxiv-chat-owner': 'a'.repeat(64) };
+const otherCookies = { 'asxiv-chat-owner': 'b'.repeat(64) };
+const ownerId = getSessionOwner(createMocks({ cookies: ownerCookies }).req) as string;
+
+const ownerMocks = (options: RequestOptions) => createMocks({ ...options, cookies: ownerCookies });
+
+describe('/api/chat/sessions', () => {
+  let store: MemoryChatSessionStore;
+
+  beforeEach(() => {
+    store = new MemoryChatSessionStore();
+    setChatSessionStore(store);
+  });
+
+  afterEach(() => {
+    setChatSessionStore(null);
+  });
+
+  it('should create a session for a paper and issue an owner cookie', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { arxivId: '1706.03762' } });
+
+    await sessionsHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(201);
+    const { session } = JSON.parse(res._getData());
+    expect(session).toEqual(expect.objectContaining({ arxivId: '1706.03762', messages: [] }));
+    expect(session).not.toHaveProperty('ownerId');
+
+    const cookie = res.getHeader('Set-Cookie') as string;
+    expect(cookie).toMatch(/^asxiv-chat-owner=[0-9a-f]{64}; Path=\/api\/chat; .*HttpOnly/);
+    const token = cookie.split(';')[0]!.split('=')[1]!;
+    const owner = getSessionOwner(createMocks({ cookies: { 'asxiv-chat-owner': token } }).req);
+    expect((await store.get(session.id))?.ownerId).toBe(owner);
+  });
+
+  it('should keep the owner cookie a browser already has', async () => {
+    const { req, res } = ownerMocks({ method: 'POST', body: { arxivId: '1706.03762' } });
+
+    await sessionsHandler(req, res);
+
+    expect(res.getHeader('Set-Cookie')).toBeUndefined();
+    const { session } = JSON.parse(res._getData());
+    expect((await store.get(session.id))?.ownerId).toBe(ownerId);
+  });
+
+  it('should reject invalid ArXiv IDs', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { arxivId: 'not-a-paper' } });
+
+    await sessionsHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe('Invalid ArXiv ID format: not-a-paper');
+  });
+
+  it('should list the caller\'s sessions for a paper', async () => {
+    const session = await store.create('1706.03762', ownerId);
+    await store.create('2301.00001', ownerId);
+    await store.create('1706.03762', 'someone-else');
+
+    const { req, res } = ownerMocks({ method: 'GET', query: { arxivId: '1706.03762' } });
+
+    await sessionsHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const { sessions } = JSON.parse(res._getData());
+    expect(sessions).toEqual([expect.objectContaining({ id: session.id, messageCount: 0 })]);
+    expect(sessions[0]).not.toHaveProperty('ownerId');
+  });
+
+  it('should list no sessions for a browser without an owner cookie', async () => {
+    await store.create('1706.03762', ownerId);
+
+    const { req, res } = createMocks({ method: 'GET', query: { arxivId: '1706.03762' } });
+
+    await sessionsHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).sessions).toEqual([]);
+  });
+
+  it('should keep sessions about a specific version apart from the latest version', async () => {
+    await store.create('1706.03762', ownerId);
+
+    const { req, res } = ownerMocks({ method: 'POST', body: { arxivId: 'arXiv:1706.03762v2' } });
+    await sessionsHandler(req, res);
+
+    const { session } = JSON.parse(res._getData());
+    expect(session.arxivId).toBe('1706.03762v2');
+    expect(await store.list(ownerId, '1706.03762v2')).toEqual([expect.objectContaining({ id: session.id })]);
+  });
+
+  it('should return 500 when storage fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(store, 'list').mockRejectedValue(new Error('disk full'));
+
+    const { req, res } = ownerMocks({ method: 'GET' });
+
+    await sessionsHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(500);
+    expect(JSON.parse(res._getData()).error).toBe('Failed to access chat sessions');
+  });
+
+  describe('/[id]', () => {
+    it('should return a session with its messages', async () => {
+      const session = await store.create('1706.03762', ownerId);
+      await store.appendMessages(session.id, [{ role: 'user', content: 'What is attention?' }]);
+
+      const { req, res } = ownerMocks({ method: 'GET', query: { id: session.id } });
+
+      await sessionHandler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      const body = JSON.parse(res._getData());
+      expect(body.session.messages).toEqual([
+        expect.objectContaining({ role: 'user', content: 'What is attention?' })
+      ]);
+      expect(body.session).not.toHaveProperty('ownerId');
+    });
+
+    it('should delete a session', async () => {
+      const session = await store.create('1706.03762', ownerId);
+
+      const { req, res } = ownerMocks({ method: 'DELETE', query: { id: session.id } });
+
+      await sessionHandler(req, res);
+
+      expect(res._getStatusCode()).toBe(204);
+      expect(await store.get(session.id)).toBeNull();
+    });
+
+    it('should not let other browsers read or delete a session', async () => {
+      const session = await store.create('1706.03762', ownerId);
+
+      for (const cookies of [otherCookies, {}]) {
+        for (const method of ['GET', 'DELETE'] as const) {
+          const { req, res } = createMocks({ method, query: { id: session.id }, cookies });
+          await sessionHandler(req, res);
+          expect(res._getStatusCode()).toBe(404);
+        }
+      }
+      expect(await store.get(session.id)).not.toBeNull();
+    });
+
+    it('should return 404 for unknown sessions and 400 for malformed IDs', async () => {
+      const missing = ownerMocks({ method: 'GET', query: { id: '11111111-2222-4333-8444-555555555555' } });
+      await sessionHandler(missing.req, missing.res);
+      expect(missing.res._getStatusCode()).toBe(404);
+
+      const malformed = ownerMocks({ method: 'DELETE', query: { id: '../secrets' } });
+      await sessionHandler(malformed.req, malformed.res);
+      expect(malformed.res._getStatusCode()).toBe(400);
+    });
+  });
+});
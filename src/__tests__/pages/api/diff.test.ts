@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/diff';
+import { setLLMProvider } from '@/utils/llm';
+import { FakeLLMProvider } from '@/utils/llm/fakeProvider';
+import { getPaperPages } from '@/utils/paperPdf';
+
+jest.mock('@/utils/paperPdf', () => ({
+  getPaperPages: jest.fn()
+}));
+
+const mockGetPaperPages = getPaperPages as jest.MockedFunction<typeof getPaperPages>;
+
+const pagesByVersion: Record<string, string[]> = {
+  '1706.03762v1': ['1 Introduction\nRecurrent neural networks are the state of the art.\n\n2 Background\nConvolutions reduce sequential computation.'],
+  '1706.03762v3': ['1 Introduction\nRecurrent neural networks are the state of the art.\n\nWe propose the Transformer.\n3 Training\nWe trained on WMT 2014.']
+};
+
+const summary = {
+  summary: 'Version 3 introduces the Transformer and adds a training section.',
+  changes: [{ section: '3 Training', description: 'Adds the training setup.', significance: 'major' }]
+};
+
+describe('/api/diff', () => {
+  let provider: FakeLLMProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPaperPages.mockImplementation(async (arxivId: string) => pagesByVersion[arxivId] ?? null);
+    provider = new FakeLLMProvider({ responses: [JSON.stringify(summary)] });
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('should diff two versions and summarize the changes', async () => {
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762', from: 'v1', to: '3' } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = JSON.parse(res._getData());
+    expect(mockGetPaperPages).toHaveBeenCalledWith('1706.03762v1');
+    expect(mockGetPaperPages).toHaveBeenCalledWith('1706.03762v3');
+    expect(data).toEqual(expect.objectContaining({ arxivId: '1706.03762', from: 1, to: 3, summary }));
+    expect(data.sections.map((section: { heading: string; status: string }) => [section.heading, section.status])).toEqual([
+      ['1 Introduction', 'modified'],
+      ['2 Background', 'removed'],
+      ['3 Training', 'added']
+    ]);
+    expect(data.stats.addedSections).toBe(1);
+
+    const prompt = JSON.stringify(provider.requests[0]?.messages);
+    expect(prompt).toContain('1706.03762v1 (older) and 1706.03762v3 (newer)');
+    expect(prompt).toContain('+ We propose the Transformer.');
+    expect(provider.requests[0]?.responseSchema?.required).toEqual(['summary', 'changes']);
+  });
+
+  it('should still return the diff when the summary fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setLLMProvider(new FakeLLMProvider({ responses: ['not json'] }));
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762', from: 'v1', to: 'v3' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = JSON.parse(res._getData());
+    expect(data.summary).toBeNull();
+    expect(data.summaryError).toBe('Invalid structured response from the AI provider');
+    expect(data.sections).toHaveLength(3);
+  });
+
+  it('should not ask the model about identical versions', async () => {
+    mockGetPaperPages.mockResolvedValue(['1 Introduction\nSame text.']);
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762', from: 'v1', to: 'v2' } });
+    await handler(req, res);
+
+    expect(JSON.parse(res._getData()).summary).toEqual({ summary: 'The text of the two versions is the same.', changes: [] });
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it.each([
+    [{ from: 'v1', to: 'v3' }, 'id is required'],
+    [{ id: 'not-a-paper', from: 'v1', to: 'v3' }, 'Invalid ArXiv ID format: not-a-paper'],
+    [{ id: '1706.03762', from: 'latest', to: 'v3' }, 'from and to must be versions such as v1 and v3'],
+    [{ id: '1706.03762', from: 'v0', to: 'v3' }, 'from and to must be versions such as v1 and v3'],
+    [{ id: '1706.03762', from: 'v2', to: '2' }, 'from and to must be different versions']
+  ])('should reject %j', async (query, error) => {
+    const { req, res } = createMocks({ method: 'GET', query });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe(error);
+  });
+
+  it('should return 404 when a version has no PDF', async () => {
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762', from: 'v1', to: 'v9' } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+    expect(JSON.parse(res._getData()).error).toBe('PDF not available: 1706.03762v9');
+  });
+
+  it('should return 500 when a PDF cannot be processed', async () => {
+    mockGetPaperPages.mockRejectedValue(new Error('Downloaded content is not a valid PDF file'));
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762', from: 'v1', to: 'v3' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(500);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: 'Failed to compare versions',
+      details: 'Downloaded content is not a valid PDF file'
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/export';
+import { ArxivSearchResult, getArxivMetadata } from '@/utils/arxivSearch';
+
+jest.mock('@/utils/arxivSearch', () => ({
+  getArxivMetadata: jest.fn()
+}));
+
+const mockGetArxivMetadata = getArxivMetadata as jest.MockedFunction<typeof getArxivMetadata>;
+
+const paper = (id: string, title: string): ArxivSearchResult => ({
+  id,
+  title,
+  authors: ['Ashish Vaswani'],
+  abstract: 'Abstract',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.CL'],
+  pdfUrl: `https://arxiv.org/pdf/${id}`,
+  abstractUrl: `https://arxiv.org/abs/${id}`
+});
+
+describe('/api/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks({ method: 'POST' });
+    await handler(req, res);
+    expect(res._getStatusCode()).toBe(405);
+  });
+
+  it('should export the papers arXiv knows in request order', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map([
+      ['1810.04805', paper('1810.04805', 'BERT')],
+      ['1706.03762', paper('1706.03762', 'Attention Is All You Need')]
+    ]));
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { ids: '1706.03762,2301.99999,1810.04805', format: 'ris' }
+    });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockGetArxivMetadata).toHaveBeenCalledWith(['1706.03762', '2301.99999', '1810.04805']);
+    expect(res.getHeader('Content-Type')).toBe('application/x-research-info-systems; charset=utf-8');
+    expect(res.getHeader('Content-Disposition')).toBe('attachment; filename="arxiv-papers.ris"');
+    const titles = (res._getData() as string).split('\n').filter(line => line.startsWith('TI  - '));
+    expect(titles).toEqual(['TI  - Attention Is All You Need', 'TI  - BERT']);
+  });
+
+  it('should default to BibTeX', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map([['1706.03762', paper('1706.03762', 'Attention Is All You Need')]]));
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: '1706.03762' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res._getData()).toMatch(/^@misc\{vaswani2017attention,/);
+  });
+
+  it.each([
+    [{ ids: '1706.03762', format: 'docx' }, 'Unknown export format: docx (expected one of bibtex, ris, csl-json, csv)'],
+    [{ ids: ' , ' }, 'ids is required'],
+    [{ ids: '1706.03762,not-a-paper' }, 'Invalid ArXiv ID format: not-a-paper']
+  ])('should return 400 for %o', async (query, message) => {
+    const { req, res } = createMocks({ method: 'GET', query });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({ error: message });
+    expect(mockGetArxivMetadata).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when no paper is found', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map());
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: '2301.99999' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+  });
+
+  it('should return 502 when arXiv cannot be reached', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetArxivMetadata.mockRejectedValue(new Error('Failed to look up arXiv paper 1706.03762'));
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: '1706.03762' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(502);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: 'Failed to load paper metadata',
+      details: 'Failed to look up arXiv paper 1706.03762'
+    });
+  });
+});
@@ -1,26 +1,39 @@
+/**
+ * @jest-environment node
+ */
 import { createMocks } from 'node-mocks-http';
 import handler from '@/pages/api/insights';
-import { mockGenerateContent } from '@/utils/__mocks__/googleGenai';
+import { getArxivMetadata } from '@/utils/arxivSearch';
+import { setLLMProvider } from '@/utils/llm';
+import { FakeLLMProvider } from '@/utils/llm/fakeProvider';
+
+jest.mock('@/utils/arxivSearch', () => ({
+  getArxivMetadata: jest.fn()
+}));
+
+const mockGetArxivMetadata = getArxivMetadata as jest.MockedFunction<typeof getArxivMetadata>;
 
 describe('/api/insights', () => {
   const originalEnv = process.env;
+  let provider: FakeLLMProvider;
+
+  // Answers with the given text, or with an empty set of insights
+  const useProvider = (response?: string) => {
+    provider = new FakeLLMProvider({
+      responses: [response ?? JSON.stringify({ overview: 'Mock overview', recommendedPapers: [], followUpQuestions: [], paperInsights: [] })]
+    });
+    setLLMProvider(provider);
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
-    process.env = { ...originalEnv, GEMINI_API_KEY: 'test-key' };
-    mockGenerateContent.mockReset();
-    mockGenerateContent.mockResolvedValue({
-      text: JSON.stringify({
-        overview: 'Mock overview',
-        recommendedPapers: [],
-        followUpQuestions: [],
-        paperInsights: []
-      })
-    });
+    process.env = { ...originalEnv, LLM_PROVIDER: 'fake' };
+    useProvider();
   });
 
   afterEach(() => {
     process.env = originalEnv;
+    setLLMProvider(null);
   });
 
   it('should return 405 when request method is not POST', async () => {
@@ -34,7 +47,9 @@ describe('/api/insights', () => {
     expect(JSON.parse(res._getData())).toEqual({ error: 'Method not allowed' });
   });
 
-  it('should return 500 when GEMINI_API_KEY is missing', async () => {
+  it('should return 500 when the configured provider is missing its API key', async () => {
+    setLLMProvider(null);
+    process.env.LLM_PROVIDER = 'gemini';
     delete process.env.GEMINI_API_KEY;
     const { req, res } = createMocks({
       method: 'POST'
@@ -62,7 +77,7 @@ describe('/api/insights', () => {
     });
   });
 
-  it('should return AI insights when Gemini responds successfully', async () => {
+  it('should return AI insights when the model responds successfully', async () => {
     const responsePayload = {
       overview: 'Focus on transformer architectures.',
       recommendedPapers: [
@@ -81,9 +96,7 @@ describe('/api/insights', () => {
       ]
     };
 
-    mockGenerateContent.mockResolvedValueOnce({
-      text: JSON.stringify(responsePayload)
-    });
+    useProvider(JSON.stringify(responsePayload));
 
     const { req, res } = createMocks({
       method: 'POST',
@@ -112,10 +125,8 @@ describe('/api/insights', () => {
     expect(data.paperInsights['1706.03762']).toBe('Introduces the transformer model.');
   });
 
-  it('should return 502 when Gemini response cannot be parsed', async () => {
-    mockGenerateContent.mockResolvedValueOnce({
-      text: 'not-json'
-    });
+  it('should return 502 when the model response cannot be parsed', async () => {
+    useProvider('not-json');
 
     const { req, res } = createMocks({
       method: 'POST',
@@ -140,4 +151,64 @@ describe('/api/insights', () => {
     expect(res._getStatusCode()).toBe(502);
     expect(JSON.parse(res._getData())).toEqual({ error: 'Failed to parse AI response' });
   });
+
+  it('should look up the metadata of papers given as bare IDs', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map([
+      ['1810.04805', {
+        id: '1810.04805',
+        title: 'BERT: Pre-training of Deep Bidirectional Transformers',
+        authors: ['Jacob Devlin'],
+        abstract: 'We introduce BERT.',
+        published: '2018-10-11',
+        updated: '2019-05-24',
+        categories: ['cs.CL'],
+        pdfUrl: 'https://arxiv.org/pdf/1810.04805',
+        abstractUrl: 'https://arxiv.org/abs/1810.04805'
+      }]
+    ]));
+
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: {
+        query: 'transformers',
+        goal: 'Find introductory transformer papers',
+        papers: [
+          {
+            id: '1706.03762',
+            title: 'Attention Is All You Need',
+            abstract: 'We propose a new simple network architecture...',
+            authors: ['Ashish Vaswani'],
+            published: '2017-06-12',
+            categories: ['cs.CL']
+          },
+          'arXiv:1810.04805'
+        ]
+      }
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockGetArxivMetadata).toHaveBeenCalledWith(['1810.04805']);
+    const prompt = JSON.stringify(provider.requests[0]);
+    expect(prompt).toContain('1. [1706.03762]');
+    expect(prompt).toContain('2. [1810.04805]');
+    expect(prompt).toContain('Title: BERT: Pre-training of Deep Bidirectional Transformers');
+  });
+
+  it('should reject bare IDs that are invalid or unknown', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map());
+    const body = { query: 'transformers', goal: 'Find introductory transformer papers' };
+
+    const invalid = createMocks({ method: 'POST', body: { ...body, papers: ['not-a-paper'] } });
+    await handler(invalid.req, invalid.res);
+    expect(invalid.res._getStatusCode()).toBe(400);
+    expect(JSON.parse(invalid.res._getData())).toEqual({ error: 'Invalid ArXiv ID format: not-a-paper' });
+
+    const unknown = createMocks({ method: 'POST', body: { ...body, papers: ['2301.99999'] } });
+    await handler(unknown.req, unknown.res);
+    expect(unknown.res._getStatusCode()).toBe(404);
+    expect(JSON.parse(unknown.res._getData())).toEqual({ error: 'Paper not found: 2301.99999' });
+    expect(provider.requests).toHaveLength(0);
+  });
 });
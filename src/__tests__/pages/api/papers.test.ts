@@ -0,0 +1,104 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/papers';
+import { ArxivSearchResult, getArxivMetadata } from '@/utils/arxivSearch';
+
+jest.mock('@/utils/arxivSearch', () => ({
+  getArxivMetadata: jest.fn()
+}));
+
+const mockGetArxivMetadata = getArxivMetadata as jest.MockedFunction<typeof getArxivMetadata>;
+
+const paper = (id: string, title: string): ArxivSearchResult => ({
+  id,
+  title,
+  authors: ['Ashish Vaswani'],
+  abstract: 'Abstract',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.CL'],
+  pdfUrl: `https://arxiv.org/pdf/${id}`,
+  abstractUrl: `https://arxiv.org/abs/${id}`
+});
+
+describe('/api/papers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 405 for non-GET requests', async () => {
+    const { req, res } = createMocks({ method: 'POST' });
+    await handler(req, res);
+    expect(res._getStatusCode()).toBe(405);
+  });
+
+  it('should look up papers in request order and list the ones arXiv does not know', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map([
+      ['1810.04805', paper('1810.04805', 'BERT')],
+      ['1706.03762v1', { ...paper('1706.03762', 'Attention Is All You Need'), version: 1 }]
+    ]));
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { ids: 'arXiv:1706.03762v1, 1810.04805,2301.99999,1810.04805' }
+    });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockGetArxivMetadata).toHaveBeenCalledWith(['1706.03762v1', '1810.04805', '2301.99999']);
+    const data = JSON.parse(res._getData());
+    expect(data.papers.map((item: { requestedId: string; title: string }) => [item.requestedId, item.title])).toEqual([
+      ['1706.03762v1', 'Attention Is All You Need'],
+      ['1810.04805', 'BERT']
+    ]);
+    expect(data.notFound).toEqual(['2301.99999']);
+    expect(res.getHeader('Cache-Control')).toBe('public, max-age=3600');
+  });
+
+  it('should accept repeated ids parameters', async () => {
+    mockGetArxivMetadata.mockResolvedValue(new Map());
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: ['1706.03762', 'cs/0211011'] } });
+    await handler(req, res);
+
+    expect(mockGetArxivMetadata).toHaveBeenCalledWith(['1706.03762', 'cs/0211011']);
+  });
+
+  it('should reject missing and invalid IDs', async () => {
+    const missing = createMocks({ method: 'GET', query: { ids: ' , ' } });
+    await handler(missing.req, missing.res);
+    expect(missing.res._getStatusCode()).toBe(400);
+    expect(JSON.parse(missing.res._getData())).toEqual({ error: 'ids is required' });
+
+    const invalid = createMocks({ method: 'GET', query: { ids: '1706.03762,not-a-paper' } });
+    await handler(invalid.req, invalid.res);
+    expect(invalid.res._getStatusCode()).toBe(400);
+    expect(JSON.parse(invalid.res._getData())).toEqual({ error: 'Invalid ArXiv ID format: not-a-paper' });
+    expect(mockGetArxivMetadata).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when arXiv cannot be reached', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetArxivMetadata.mockRejectedValue(new Error('Failed to look up arXiv paper 1706.03762'));
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: '1706.03762' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(502);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: 'Failed to load paper metadata',
+      details: 'Failed to look up arXiv paper 1706.03762'
+    });
+  });
+
+  it('should return 503 when the arXiv request queue is full', async () => {
+    mockGetArxivMetadata.mockRejectedValue(
+      Object.assign(new Error('Too many requests to arXiv are waiting; try again shortly'), { code: 'ARXIV_BUSY' })
+    );
+
+    const { req, res } = createMocks({ method: 'GET', query: { ids: '1706.03762' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(503);
+    expect(JSON.parse(res._getData())).toEqual({ error: 'arXiv is busy, try again shortly' });
+  });
+});
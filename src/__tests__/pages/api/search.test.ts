@@ -66,6 +66,32 @@ describe('/api/search', () => {
     });
   });
 
+  it('should return 400 with the reason when arXiv rejects the query', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      text: async () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>http://arxiv.org/api/errors#max_results_must_be_an_integer</id>
+    <title>Error</title>
+    <summary>max_results must be an integer</summary>
+  </entry>
+</feed>`
+    });
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: 'arXiv rejected the search: max_results must be an integer'
+    });
+  });
+
   it('should return search results successfully', async () => {
     const mockArxivResponse = `<?xml version="1.0" encoding="UTF-8"?>
 <feed xmlns="http://www.w3.org/2005/Atom">
@@ -128,12 +154,146 @@ describe('/api/search', () => {
 
     expect(res._getStatusCode()).toBe(200);
     const fetchCall = (global.fetch as jest.Mock).mock.calls[0][0];
-    expect(fetchCall).toContain('search_query=all%3Amachine+learning');
+    expect(fetchCall).toContain('search_query=all%3Amachine+AND+all%3Alearning');
     expect(fetchCall).toContain('cat%3Acs.AI');
-    expect(fetchCall).toContain('au%3AJohn+Doe');
-    expect(fetchCall).toContain('ti%3ADeep+Learning');
-    expect(fetchCall).toContain('abs%3Aneural+networks');
+    expect(fetchCall).toContain('au%3AJohn+AND+au%3ADoe');
+    expect(fetchCall).toContain('ti%3ADeep+AND+ti%3ALearning');
+    expect(fetchCall).toContain('abs%3Aneural+AND+abs%3Anetworks');
     expect(fetchCall).toContain('sortBy=lastUpdatedDate');
     expect(fetchCall).toContain('sortOrder=ascending');
   });
+
+  it('should translate boolean queries to arXiv syntax', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      text: async () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">0</opensearch:totalResults>
+</feed>`
+    });
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'au:hinton OR au:lecun AND ti:"deep learning" -cat:stat.ML' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+    expect(url.searchParams.get('search_query')).toBe(
+      'au:hinton OR ((au:lecun AND ti:"deep learning") ANDNOT cat:stat.ML)'
+    );
+  });
+
+  it.each([
+    [{ category: 'physics.quant-ph' }, 'Unknown arXiv category: physics.quant-ph (did you mean quant-ph?)'],
+    [{ category: 'physics.cond-mat' }, 'Unknown arXiv category: physics.cond-mat (did you mean cond-mat?)'],
+    [{ q: 'transformers -cat:cs.lg' }, 'Unknown arXiv category: cs.lg (did you mean cs.LG?)'],
+    [{ q: 'cat:nonsense' }, 'Unknown arXiv category: nonsense']
+  ])('should reject unknown categories in %o without calling arXiv', async (query, error) => {
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention', ...query },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({ error });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for malformed queries without calling arXiv', async () => {
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: '(au:hinton OR au:lecun' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({ error: 'Missing closing parenthesis in search query' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should pass the submission date range to arXiv', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      text: async () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">0</opensearch:totalResults>
+</feed>`
+    });
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention', from: '2017-01-01', to: '2017-12-31' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+    expect(url.searchParams.get('search_query')).toBe('(all:attention) AND submittedDate:[201701010000 TO 201712312359]');
+  });
+
+  it.each([
+    [{ from: '2017/01/01' }, 'from must be a date in YYYY-MM-DD format'],
+    [{ to: '2017-02-30' }, 'to must be a date in YYYY-MM-DD format'],
+    [{ from: '2018-01-01', to: '2017-12-31' }, 'from must not be later than to']
+  ])('should return 400 for the date range %o', async (dates, message) => {
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention', ...dates },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({ error: message });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should render results in an export format', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      text: async () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">1</opensearch:totalResults>
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <title>Attention Is All You Need</title>
+    <published>2017-06-12T15:00:00Z</published>
+    <author><name>Ashish Vaswani</name></author>
+  </entry>
+</feed>`
+    });
+
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention', format: 'bibtex' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader('Content-Type')).toBe('application/x-bibtex; charset=utf-8');
+    expect(res.getHeader('Content-Disposition')).toBe('attachment; filename="arxiv-search.bib"');
+    expect(res._getData()).toContain('@misc{vaswani2017attention,');
+    expect(res._getData()).toContain('eprint = {1706.03762}');
+  });
+
+  it('should return 400 for an unknown format without calling arXiv', async () => {
+    const { req, res } = createMocks({
+      method: 'GET',
+      query: { q: 'attention', format: 'xml' },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({ error: 'Unknown format: xml (expected one of json, bibtex, ris, csl-json, csv)' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,62 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/versions';
+import { getArxivVersions } from '@/utils/arxivSearch';
+
+jest.mock('@/utils/arxivSearch', () => ({
+  getArxivVersions: jest.fn()
+}));
+
+const mockGetArxivVersions = getArxivVersions as jest.MockedFunction<typeof getArxivVersions>;
+
+describe('/api/versions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the versions of a paper, ignoring the requested version', async () => {
+    const versions = [
+      { version: 1, submitted: '2017-06-12T17:57:34Z' },
+      { version: 2, submitted: '2017-06-19T17:04:19Z' }
+    ];
+    mockGetArxivVersions.mockResolvedValue(versions);
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: 'arXiv:1706.03762v1' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockGetArxivVersions).toHaveBeenCalledWith('1706.03762');
+    expect(JSON.parse(res._getData())).toEqual({ arxivId: '1706.03762', versions });
+  });
+
+  it('should reject missing and invalid IDs', async () => {
+    const missing = createMocks({ method: 'GET', query: {} });
+    await handler(missing.req, missing.res);
+    expect(missing.res._getStatusCode()).toBe(400);
+
+    const invalid = createMocks({ method: 'GET', query: { id: 'not-a-paper' } });
+    await handler(invalid.req, invalid.res);
+    expect(invalid.res._getStatusCode()).toBe(400);
+    expect(JSON.parse(invalid.res._getData()).error).toBe('Invalid ArXiv ID format: not-a-paper');
+    expect(mockGetArxivVersions).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown papers', async () => {
+    mockGetArxivVersions.mockResolvedValue(null);
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: '2301.00001' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+  });
+
+  it('should return 502 when arXiv fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetArxivVersions.mockRejectedValue(new Error('Failed to look up arXiv paper 1706.03762'));
+
+    const { req, res } = createMocks({ method: 'GET', query: { id: '1706.03762' } });
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(502);
+    expect(JSON.parse(res._getData()).details).toBe('Failed to look up arXiv paper 1706.03762');
+  });
+});
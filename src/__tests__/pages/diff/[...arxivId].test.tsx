@@ -0,0 +1,125 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { useRouter } from 'next/router';
+import DiffPage from '@/pages/diff/[...arxivId]';
+import { DiffApiResponse } from '@/types/diff';
+
+jest.mock('next/router', () => ({
+  useRouter: jest.fn()
+}));
+
+global.fetch = jest.fn();
+
+const mockUseRouter = useRouter as jest.MockedFunction<typeof useRouter>;
+
+const diffResponse: DiffApiResponse = {
+  arxivId: '1706.03762',
+  from: 1,
+  to: 3,
+  sections: [
+    { heading: 'Abstract', status: 'unchanged', paragraphs: [{ type: 'unchanged', text: 'The dominant models are recurrent.' }] },
+    {
+      heading: '2 Introduction',
+      previousHeading: '1 Introduction',
+      status: 'modified',
+      paragraphs: [
+        { type: 'unchanged', text: 'Recurrent networks are the state of the art.' },
+        { type: 'removed', text: 'Attention is used with recurrence.' },
+        { type: 'added', text: 'We propose the Transformer.' },
+        { type: 'added', text: 'It relies entirely on attention.' }
+      ]
+    },
+    { heading: '3 Training', status: 'added', paragraphs: [{ type: 'added', text: 'We trained on WMT 2014.' }] }
+  ],
+  stats: { addedParagraphs: 3, removedParagraphs: 1, unchangedParagraphs: 2, addedSections: 1, removedSections: 0, modifiedSections: 1 },
+  summary: {
+    summary: 'Version 3 introduces the Transformer.',
+    changes: [{ section: '3 Training', description: 'Adds the training setup.', significance: 'major' }]
+  }
+};
+
+const mockRouter = (query: Record<string, string | string[]>) => {
+  mockUseRouter.mockReturnValue({ query, isReady: true } as any);
+};
+
+describe('DiffPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => diffResponse });
+  });
+
+  it('should load the diff and show the summary and changed sections side by side', async () => {
+    mockRouter({ arxivId: ['1706.03762'], from: 'v1', to: 'v3' });
+
+    render(<DiffPage />);
+
+    expect(await screen.findByText('Version 3 introduces the Transformer.')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/diff?id=1706.03762&from=v1&to=v3');
+    expect(screen.getByText('Adds the training setup.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'v1' })).toHaveAttribute('href', '/pdf/1706.03762v1');
+
+    const introduction = screen.getByRole('table', { name: 'Changes in 2 Introduction' });
+    const rows = within(introduction).getAllByRole('row');
+    expect(rows).toHaveLength(4);
+    expect(within(rows[2] as HTMLElement).getAllByRole('cell').map(cell => cell.textContent)).toEqual([
+      'Attention is used with recurrence.',
+      'We propose the Transformer.'
+    ]);
+    expect(within(rows[3] as HTMLElement).getAllByRole('cell').map(cell => cell.textContent)).toEqual([
+      '',
+      'It relies entirely on attention.'
+    ]);
+    expect(screen.getByText('(was 1 Introduction)')).toBeInTheDocument();
+    expect(screen.queryByText('The dominant models are recurrent.')).not.toBeInTheDocument();
+  });
+
+  it('should show unchanged sections on request', async () => {
+    mockRouter({ arxivId: ['1706.03762'], from: 'v1', to: 'v3' });
+
+    render(<DiffPage />);
+
+    fireEvent.click(await screen.findByLabelText('Show unchanged sections'));
+    expect(screen.getAllByText('The dominant models are recurrent.')).toHaveLength(2);
+  });
+
+  it('should explain when the summary is unavailable', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ ...diffResponse, summary: null, summaryError: 'GEMINI_API_KEY is not configured' })
+    });
+    mockRouter({ arxivId: ['1706.03762'], from: 'v1', to: 'v3' });
+
+    render(<DiffPage />);
+
+    expect(await screen.findByText('The AI summary is unavailable: GEMINI_API_KEY is not configured')).toBeInTheDocument();
+    expect(screen.getByText('We trained on WMT 2014.')).toBeInTheDocument();
+  });
+
+  it('should show API errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, json: async () => ({ error: 'PDF not available: 1706.03762v9' }) });
+    mockRouter({ arxivId: ['1706.03762'], from: 'v1', to: 'v9' });
+
+    render(<DiffPage />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('PDF not available: 1706.03762v9');
+  });
+
+  it('should ask for versions when they are missing', () => {
+    mockRouter({ arxivId: ['cs', '0211011'] });
+
+    render(<DiffPage />);
+
+    expect(screen.getByText('/diff/cs/0211011?from=v1&to=v2')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid IDs', () => {
+    mockRouter({ arxivId: ['not-a-paper'], from: 'v1', to: 'v2' });
+
+    render(<DiffPage />);
+
+    expect(screen.getByText('Invalid arXiv ID format')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import HistoryPage from '@/pages/history';
+import { readHistory, recordChatQuestion, recordPageViewed, recordPaperOpened } from '@/utils/history';
+
+describe('History Page', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-01T10:00:00Z'));
+    recordPaperOpened('1706.03762', 'Attention Is All You Need');
+    recordPageViewed('1706.03762', 6);
+    jest.setSystemTime(new Date('2024-05-01T11:00:00Z'));
+    recordChatQuestion('1706.03762', 'How are positions encoded?');
+    jest.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    recordPaperOpened('1810.04805');
+    jest.useRealTimers();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list opened papers and asked questions, most recent first', async () => {
+    render(<HistoryPage />);
+
+    const items = within(await screen.findByRole('list')).getAllByRole('listitem');
+    expect(items).toHaveLength(3);
+    expect(within(items[0]!).getByRole('link', { name: '1810.04805' })).toHaveAttribute('href', '/pdf/1810.04805');
+    expect(items[1]).toHaveTextContent('AskedHow are positions encoded?');
+    expect(within(items[1]!).getByRole('link', { name: 'Attention Is All You Need' })).toHaveAttribute('href', '/pdf/1706.03762');
+    expect(within(items[2]!).getByRole('link', { name: 'Attention Is All You Need' })).toHaveAttribute('href', '/pdf/1706.03762?page=6');
+    expect(items[2]).toHaveTextContent('1706.03762 · last at page 6');
+  });
+
+  it('should search titles, IDs and questions', async () => {
+    render(<HistoryPage />);
+    await screen.findByRole('list');
+
+    fireEvent.change(screen.getByLabelText('Search your history'), { target: { value: 'positions' } });
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByText('How are positions encoded?')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Search your history'), { target: { value: 'diffusion' } });
+    expect(screen.getByText('Nothing in your history matches this search.')).toBeInTheDocument();
+  });
+
+  it('should remove single entries', async () => {
+    render(<HistoryPage />);
+    await screen.findByRole('list');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove question "How are positions encoded?" from history' }));
+    expect(screen.queryByText('How are positions encoded?')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Remove 1810.04805 from history' }));
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(readHistory().papers.map(paper => paper.arxivId)).toEqual(['1706.03762']);
+    expect(readHistory().questions).toEqual([]);
+  });
+
+  it('should clear the history after confirmation', async () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    render(<HistoryPage />);
+    await screen.findByRole('list');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear history' }));
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear history' }));
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(screen.getByText(/Nothing here yet/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Clear history' })).toBeDisabled();
+  });
+});
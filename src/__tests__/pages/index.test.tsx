@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import Home from '@/pages/index';
+import { recordPageViewed, recordPaperOpened } from '@/utils/history';
 
 // Mock Next.js router
 const mockPush = jest.fn();
@@ -14,6 +15,7 @@ jest.mock('next/router', () => ({
 describe('Home Page', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    localStorage.clear();
   });
 
   it('should render home page content when component mounts', () => {
@@ -81,6 +83,28 @@ describe('Home Page', () => {
     expect(mockPush).toHaveBeenCalledWith('/pdf/cs/0211011');
   });
 
+  it('should normalize pasted URLs, DOIs and prefixed IDs', () => {
+    render(<Home />);
+    const input = screen.getByPlaceholderText('Search papers or enter arXiv ID (e.g., 1706.03762)');
+    const goToPaperButton = screen.getByRole('button', { name: /go to paper/i });
+
+    fireEvent.change(input, { target: { value: 'https://arxiv.org/pdf/1706.03762v2.pdf' } });
+    fireEvent.click(goToPaperButton);
+    fireEvent.change(input, { target: { value: '10.48550/arXiv.1810.04805' } });
+    fireEvent.click(goToPaperButton);
+    fireEvent.change(input, { target: { value: 'arXiv:math.GT/0309136' } });
+    fireEvent.click(goToPaperButton);
+    fireEvent.change(input, { target: { value: 'arXiv:2301.12345v2' } });
+    fireEvent.click(goToPaperButton);
+
+    expect(mockPush.mock.calls.map(([url]) => url)).toEqual([
+      '/pdf/1706.03762v2',
+      '/pdf/1810.04805',
+      '/pdf/math/0309136',
+      '/pdf/2301.12345v2'
+    ]);
+  });
+
   it('should disable Go to Paper button when input is empty', () => {
     render(<Home />);
     const goToPaperButton = screen.getByRole('button', { name: /go to paper/i });
@@ -121,4 +145,18 @@ describe('Home Page', () => {
     const advancedLink = screen.getByText('Advanced Search');
     expect(advancedLink).toHaveAttribute('href', '/search?advanced=true');
   });
+
+  it('should list recently opened papers once there are any', async () => {
+    const { unmount } = render(<Home />);
+    expect(screen.queryByRole('heading', { name: 'Recent' })).not.toBeInTheDocument();
+    unmount();
+
+    recordPaperOpened('1706.03762', 'Attention Is All You Need');
+    recordPageViewed('1706.03762', 3);
+    render(<Home />);
+
+    expect(await screen.findByRole('heading', { name: 'Recent' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Attention Is All You Need' })).toHaveAttribute('href', '/pdf/1706.03762?page=3');
+    expect(screen.getByRole('link', { name: 'View history' })).toHaveAttribute('href', '/history');
+  });
 });
@@ -0,0 +1,238 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import LibraryPage from '@/pages/library';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { createCollection, listCollections, listLibraryPapers, savePaper, updateLibraryPaper } from '@/utils/library';
+import { MemoryLibraryStore, setLibraryStore } from '@/utils/libraryStore';
+
+// Mock react-markdown
+jest.mock('react-markdown', () => {
+  return function MockReactMarkdown({ children }: { children: string }) {
+    return <div data-testid="mock-markdown">{children}</div>;
+  };
+});
+
+// Mock remark-gfm
+jest.mock('remark-gfm', () => ({}));
+
+const makePaper = (id: string, title: string, authors: string[]): ArxivSearchResult => ({
+  id,
+  title,
+  authors,
+  abstract: `Abstract of ${title}.`,
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.LG'],
+  pdfUrl: `https://arxiv.org/pdf/${id}`,
+  abstractUrl: `https://arxiv.org/abs/${id}`
+});
+
+// jsdom's File and Blob have no text()
+const textFile = (contents: string, name: string): File =>
+  Object.assign(new File([contents], name), { text: async () => contents });
+
+const readBlob = (blob: Blob): Promise<string> =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+describe('Library Page', () => {
+  beforeEach(() => {
+    setLibraryStore(new MemoryLibraryStore());
+  });
+
+  afterAll(() => {
+    setLibraryStore(null);
+  });
+
+  const saveExamples = async () => {
+    const collection = await createCollection('Transformers');
+    await savePaper(makePaper('1706.03762', 'Attention Is All You Need', ['Ashish Vaswani']), {
+      collectionIds: [collection.id],
+      tags: ['attention']
+    });
+    await savePaper(makePaper('2006.11239', 'Denoising Diffusion Probabilistic Models', ['Jonathan Ho']));
+    await updateLibraryPaper('2006.11239', { status: 'done', notes: 'Compare with **score matching**' });
+  };
+
+  it('should point to search when the library is empty', async () => {
+    render(<LibraryPage />);
+
+    expect(await screen.findByText(/Your library is empty/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'search results' })).toHaveAttribute('href', '/search');
+  });
+
+  it('should list saved papers with their notes', async () => {
+    await saveExamples();
+    render(<LibraryPage />);
+
+    expect(await screen.findByText('2 papers')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Attention Is All You Need' })).toHaveAttribute('href', '/pdf/1706.03762');
+    expect(screen.getByTestId('mock-markdown')).toHaveTextContent('Compare with **score matching**');
+  });
+
+  it('should filter by collection, status, tag and text', async () => {
+    await saveExamples();
+    render(<LibraryPage />);
+    await screen.findByText('2 papers');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Transformers 1' }));
+    expect(screen.getByText('1 paper')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Attention Is All You Need' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'All papers 2' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Filter by reading status' }), { target: { value: 'done' } });
+    expect(screen.getByRole('link', { name: 'Denoising Diffusion Probabilistic Models' })).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Attention Is All You Need' })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Filter by reading status' }), { target: { value: '' } });
+    fireEvent.click(screen.getByRole('button', { name: 'attention' }));
+    expect(screen.getByRole('combobox', { name: 'Filter by tag' })).toHaveValue('attention');
+    expect(screen.getByText('1 paper')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Filter by tag' }), { target: { value: '' } });
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search your library' }), { target: { value: 'score matching' } });
+    expect(screen.getByRole('link', { name: 'Denoising Diffusion Probabilistic Models' })).toBeInTheDocument();
+    expect(screen.getByText('1 paper')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search your library' }), { target: { value: 'nothing like this' } });
+    expect(screen.getByText('No saved papers match these filters.')).toBeInTheDocument();
+  });
+
+  it('should change the reading status, tags and notes of a paper', async () => {
+    await saveExamples();
+    render(<LibraryPage />);
+    await screen.findByText('2 papers');
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Reading status of Attention Is All You Need' }), {
+      target: { value: 'reading' }
+    });
+    await waitFor(() =>
+      expect(screen.getByRole('combobox', { name: 'Reading status of Attention Is All You Need' })).toHaveValue('reading')
+    );
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Add tags to Attention Is All You Need' }), {
+      target: { value: 'NLP, seq2seq' }
+    });
+    fireEvent.submit(screen.getByRole('textbox', { name: 'Add tags to Attention Is All You Need' }));
+    expect(await screen.findByRole('button', { name: 'Remove tag seq2seq' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Remove tag attention' }));
+    await waitFor(() => expect(screen.queryByRole('button', { name: 'Remove tag attention' })).not.toBeInTheDocument());
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add notes' })[0]!);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Notes on Attention Is All You Need' }), {
+      target: { value: 'Multi-head attention in *section 3.2*' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save notes' }));
+    // The notes textarea holds the same text until editing closes
+    expect(await screen.findByText('Multi-head attention in *section 3.2*', { selector: '[data-testid="mock-markdown"]' })).toBeInTheDocument();
+
+    const paper = (await listLibraryPapers()).find(item => item.arxivId === '1706.03762');
+    expect(paper).toMatchObject({
+      status: 'reading',
+      tags: ['nlp', 'seq2seq'],
+      notes: 'Multi-head attention in *section 3.2*'
+    });
+  });
+
+  it('should create, rename and delete collections', async () => {
+    await saveExamples();
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<LibraryPage />);
+    await screen.findByText('2 papers');
+
+    const sidebar = screen.getByRole('complementary');
+    fireEvent.change(within(sidebar).getByRole('textbox', { name: 'New collection name' }), { target: { value: 'Diffusion' } });
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Create' }));
+    fireEvent.click(await within(sidebar).findByRole('button', { name: 'Diffusion 0' }));
+    expect(screen.getByText('No saved papers match these filters.')).toBeInTheDocument();
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Rename' }));
+    fireEvent.change(within(sidebar).getByRole('textbox', { name: 'Collection name' }), { target: { value: 'Transformers' } });
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Save' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('A collection named "Transformers" already exists');
+
+    fireEvent.change(within(sidebar).getByRole('textbox', { name: 'Collection name' }), { target: { value: 'Generative' } });
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Save' }));
+    expect(await within(sidebar).findByRole('button', { name: 'Generative 0' })).toBeInTheDocument();
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Delete collection' }));
+    await waitFor(() => expect(within(sidebar).queryByRole('button', { name: 'Generative 0' })).not.toBeInTheDocument());
+    expect(screen.getByRole('button', { name: 'All papers 2' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should import a BibTeX file, looking its papers up on arXiv', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        papers: [{ ...makePaper('1706.03762', 'Attention Is All You Need', ['Ashish Vaswani']), requestedId: '1706.03762v5' }],
+        notFound: ['2006.11239']
+      })
+    });
+    render(<LibraryPage />);
+    await screen.findByText(/Your library is empty/);
+
+    const file = textFile(`
+      @misc{vaswani, title = {Attention}, eprint = {1706.03762v5}, keywords = {nlp}, groups = {Transformers}}
+      @misc{ho, title = {Diffusion}, author = {Ho, Jonathan}, url = {https://arxiv.org/abs/2006.11239}}
+      @book{bishop, title = {Pattern Recognition}}
+    `, 'team.bib');
+    fireEvent.change(screen.getByLabelText('Import a BibTeX, CSL-JSON or Zotero RDF file'), { target: { files: [file] } });
+
+    expect(await screen.findByText(/^Imported 2 papers/)).toHaveTextContent(
+      'Imported 2 papers (2 new, 0 already in your library). Created collection Transformers. Skipped 1 entry without an arXiv ID: Pattern Recognition.'
+    );
+    expect(global.fetch).toHaveBeenCalledWith('/api/papers?ids=1706.03762v5%2C2006.11239');
+    expect(await screen.findByRole('link', { name: 'Attention Is All You Need' })).toHaveAttribute('href', '/pdf/1706.03762v5');
+    // arXiv doesn't know this one, so it keeps what the file says
+    expect(screen.getByRole('link', { name: 'Diffusion' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Transformers 1' })).toBeInTheDocument();
+    const saved = (await listLibraryPapers()).find((paper) => paper.arxivId === '1706.03762v5');
+    expect(saved?.metadata.title).toBe('Attention Is All You Need');
+    expect(saved?.metadata).not.toHaveProperty('requestedId');
+  });
+
+  it('should explain files it cannot read', async () => {
+    render(<LibraryPage />);
+    await screen.findByText(/Your library is empty/);
+
+    fireEvent.change(screen.getByLabelText('Import a BibTeX, CSL-JSON or Zotero RDF file'), {
+      target: { files: [textFile('hello', 'notes.txt')] }
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('notes.txt is not a BibTeX, CSL-JSON or Zotero RDF file');
+    expect(await listCollections()).toEqual([]);
+  });
+
+  it('should export the library or the selected collection', async () => {
+    await saveExamples();
+    const blobs: Blob[] = [];
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:library';
+    });
+    URL.revokeObjectURL = jest.fn();
+    const downloads: string[] = [];
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+    render(<LibraryPage />);
+    await screen.findByText('2 papers');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export library' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Transformers 1' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Export format' }), { target: { value: 'zotero-rdf' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export collection' }));
+
+    expect(downloads).toEqual(['asxiv-library.bib', 'transformers.rdf']);
+    const [library, collection] = await Promise.all(blobs.map(readBlob));
+    expect(library).toContain('eprint = {2006.11239}');
+    expect(library).toContain('annote = {Compare with **score matching**}');
+    expect(collection).toContain('<dc:title>Transformers</dc:title>');
+    expect(collection).not.toContain('2006.11239');
+    click.mockRestore();
+  });
+});
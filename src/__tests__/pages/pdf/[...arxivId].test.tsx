@@ -3,6 +3,7 @@ import { render, screen, waitFor, fireEvent, act } from '@testing-library/react'
 import '@testing-library/jest-dom';
 import { useRouter } from 'next/router';
 import PdfViewer from '@/pages/pdf/[...arxivId]';
+import { readHistory } from '@/utils/history';
 
 // Mock Next.js router
 jest.mock('next/router', () => ({
@@ -11,17 +12,33 @@ jest.mock('next/router', () => ({
 
 // Mock the ChatWidget component
 jest.mock('@/components/ChatWidget', () => {
-  return function MockChatWidget({ arxivId, navHeight }: { arxivId: string; navHeight: number }) {
-    return <div data-testid="chat-widget">Chat Widget for {arxivId} (navHeight: {navHeight})</div>;
+  return function MockChatWidget({ arxivId, navHeight, comparisonIds = [], paper }: { arxivId: string; navHeight: number; comparisonIds?: string[]; paper?: { title: string } }) {
+    return (
+      <div data-testid="chat-widget" data-comparisons={comparisonIds.join(',')} data-title={paper?.title ?? ''}>
+        Chat Widget for {arxivId} (navHeight: {navHeight})
+      </div>
+    );
   };
 });
 
 // Mock arxivUtils
 jest.mock('@/utils/arxivUtils', () => ({
   parseArxivId: jest.fn(),
-  getPdfViewerUrl: jest.fn()
+  getPdfViewerUrl: jest.fn(),
+  getVersionedArxivId: jest.requireActual('@/utils/arxivUtils').getVersionedArxivId
 }));
 
+// Mock the version switcher, which loads versions from the API
+jest.mock('@/components/VersionSwitcher', () => {
+  return function MockVersionSwitcher({ arxivId, version, onSelect }: { arxivId: string; version: number | null; onSelect: (version: number | null) => void }) {
+    return (
+      <button data-testid="version-switcher" data-version={version ?? 'latest'} onClick={() => onSelect(1)}>
+        Versions of {arxivId}
+      </button>
+    );
+  };
+});
+
 const mockUseRouter = useRouter as jest.MockedFunction<typeof useRouter>;
 const mockParseArxivId = jest.requireMock('@/utils/arxivUtils').parseArxivId;
 const mockGetPdfViewerUrl = jest.requireMock('@/utils/arxivUtils').getPdfViewerUrl;
@@ -41,6 +58,9 @@ describe('PdfViewer', () => {
     // Mock window.addEventListener and removeEventListener
     window.addEventListener = jest.fn();
     window.removeEventListener = jest.fn();
+
+    // Paper details are optional; most tests run without them, still loading
+    global.fetch = jest.fn(() => new Promise(() => {}));
   });
 
   it('should render loading state initially', () => {
@@ -318,4 +338,274 @@ describe('PdfViewer', () => {
       });
     });
   });
+
+  describe('versions', () => {
+    it('should show and discuss the version in the URL', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762v2' },
+        pathname: '/pdf/[...arxivId]',
+        isReady: true
+      } as any);
+      mockParseArxivId.mockReturnValue({
+        id: '1706.03762',
+        isValid: true,
+        category: null,
+        number: '1706.03762',
+        isOldFormat: false,
+        version: 2
+      });
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('chat-widget')).toHaveTextContent('Chat Widget for 1706.03762v2');
+      });
+      expect(mockGetPdfViewerUrl).toHaveBeenCalledWith('1706.03762v2');
+      expect(screen.getByTestId('version-switcher')).toHaveAttribute('data-version', '2');
+      expect(screen.getByTestId('version-switcher')).toHaveTextContent('Versions of 1706.03762');
+    });
+
+    it('should navigate to the selected version', async () => {
+      const push = jest.fn();
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: ['cs', '0211011'], compare: '1810.04805' },
+        pathname: '/pdf/[...arxivId]',
+        push,
+        isReady: true
+      } as any);
+      mockParseArxivId.mockReturnValue({
+        id: 'cs/0211011',
+        isValid: true,
+        category: 'cs',
+        number: '0211011',
+        isOldFormat: true,
+        version: null
+      });
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+
+      render(<PdfViewer />);
+
+      fireEvent.click(await screen.findByTestId('version-switcher'));
+      expect(push).toHaveBeenCalledWith({
+        pathname: '/pdf/[...arxivId]',
+        query: { arxivId: ['cs', '0211011v1'], compare: '1810.04805' }
+      });
+    });
+  });
+
+  describe('comparing papers', () => {
+    const parseNewFormat = (id: string) => ({
+      id,
+      isValid: /^\d{4}\.\d{4,5}$/.test(id),
+      category: null,
+      number: id,
+      isOldFormat: false
+    });
+
+    it('should pass valid ?compare= papers to the chat and list them in the picker', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762', compare: '1810.04805,bad-id,1706.03762' },
+        pathname: '/pdf/[...arxivId]',
+        replace: jest.fn(),
+        isReady: true
+      } as any);
+      mockParseArxivId.mockImplementation(parseNewFormat);
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('chat-widget')).toHaveAttribute('data-comparisons', '1810.04805');
+      });
+      const picker = screen.getByLabelText('Viewing');
+      expect(Array.from((picker as HTMLSelectElement).options).map(option => option.value)).toEqual(['1706.03762', '1810.04805']);
+    });
+
+    it('should add papers to the compare query and reject invalid IDs', async () => {
+      const replace = jest.fn();
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762' },
+        pathname: '/pdf/[...arxivId]',
+        replace,
+        isReady: true
+      } as any);
+      mockParseArxivId.mockImplementation(parseNewFormat);
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+
+      render(<PdfViewer />);
+
+      const input = await screen.findByLabelText('arXiv ID of a paper to compare with');
+      fireEvent.change(input, { target: { value: 'nonsense' } });
+      fireEvent.click(screen.getByText('Add'));
+      expect(screen.getByRole('alert')).toHaveTextContent('Invalid arXiv ID: nonsense');
+      expect(replace).not.toHaveBeenCalled();
+
+      fireEvent.change(input, { target: { value: '1810.04805' } });
+      fireEvent.click(screen.getByText('Add'));
+      expect(replace).toHaveBeenCalledWith(
+        { pathname: '/pdf/[...arxivId]', query: { arxivId: '1706.03762', compare: '1810.04805' } },
+        undefined,
+        { shallow: true }
+      );
+    });
+
+    it('should show paper titles in the chat header and the picker', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762', compare: '1810.04805' },
+        pathname: '/pdf/[...arxivId]',
+        replace: jest.fn(),
+        isReady: true
+      } as any);
+      mockParseArxivId.mockImplementation(parseNewFormat);
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          papers: [
+            { requestedId: '1706.03762', id: '1706.03762', title: 'Attention Is All You Need', authors: ['Ashish Vaswani'] },
+            { requestedId: '1810.04805', id: '1810.04805', title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding', authors: ['Jacob Devlin'] }
+          ],
+          notFound: []
+        })
+      });
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('chat-widget')).toHaveAttribute('data-title', 'Attention Is All You Need');
+      });
+      expect(global.fetch).toHaveBeenCalledWith('/api/papers?ids=1706.03762%2C1810.04805');
+      const picker = screen.getByLabelText('Viewing') as HTMLSelectElement;
+      expect(Array.from(picker.options).map(option => option.textContent)).toEqual([
+        '1706.03762: Attention Is All You Need (main)',
+        '1810.04805: BERT: Pre-training of Deep Bidirectional...'
+      ]);
+    });
+
+    it('should cite the paper being viewed', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762' },
+        pathname: '/pdf/[...arxivId]',
+        replace: jest.fn(),
+        isReady: true
+      } as any);
+      mockParseArxivId.mockImplementation(parseNewFormat);
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          papers: [{
+            requestedId: '1706.03762',
+            id: '1706.03762',
+            title: 'Attention Is All You Need',
+            authors: ['Ashish Vaswani'],
+            published: '2017-06-12T17:57:34Z',
+            categories: ['cs.CL'],
+            abstractUrl: 'https://arxiv.org/abs/1706.03762'
+          }],
+          notFound: []
+        })
+      });
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('chat-widget')).toHaveAttribute('data-title', 'Attention Is All You Need');
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+      fireEvent.click(screen.getByRole('button', { name: 'MLA' }));
+      expect(screen.getByText('Vaswani, Ashish. "Attention Is All You Need." arXiv, 12 June 2017, https://arxiv.org/abs/1706.03762.')).toBeInTheDocument();
+    });
+
+    it('should offer a retry when the paper details could not load', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762' },
+        pathname: '/pdf/[...arxivId]',
+        replace: jest.fn(),
+        isReady: true
+      } as any);
+      mockParseArxivId.mockImplementation(parseNewFormat);
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            papers: [{
+              requestedId: '1706.03762',
+              id: '1706.03762',
+              title: 'Attention Is All You Need',
+              authors: ['Ashish Vaswani'],
+              published: '2017-06-12T17:57:34Z',
+              categories: ['cs.CL'],
+              abstractUrl: 'https://arxiv.org/abs/1706.03762'
+            }],
+            notFound: []
+          })
+        });
+
+      render(<PdfViewer />);
+      fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Could not load the citation details')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: 'Copy' })).toBeInTheDocument();
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('history', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      mockParseArxivId.mockReturnValue({
+        id: '1706.03762',
+        isValid: true,
+        category: null,
+        number: '1706.03762',
+        isOldFormat: false
+      });
+      mockGetPdfViewerUrl.mockReturnValue('https://mozilla.github.io/pdf.js/web/viewer.html?file=test');
+    });
+
+    it('should open at ?page= and remember the paper and page', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762', page: '3' },
+        isReady: true
+      } as any);
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTitle('arXiv PDF Viewer - 1706.03762')).toHaveAttribute(
+          'src',
+          'https://mozilla.github.io/pdf.js/web/viewer.html?file=test#page=3'
+        );
+      });
+      expect(readHistory().papers).toEqual([expect.objectContaining({ arxivId: '1706.03762', lastPage: 3 })]);
+    });
+
+    it('should ignore an invalid ?page=', async () => {
+      mockUseRouter.mockReturnValue({
+        query: { arxivId: '1706.03762', page: '0' },
+        isReady: true
+      } as any);
+
+      render(<PdfViewer />);
+
+      await waitFor(() => {
+        expect(screen.getByTitle('arXiv PDF Viewer - 1706.03762')).toHaveAttribute(
+          'src',
+          'https://mozilla.github.io/pdf.js/web/viewer.html?file=test'
+        );
+      });
+      expect(readHistory().papers).toEqual([{ arxivId: '1706.03762', openedAt: expect.any(String) }]);
+    });
+  });
 });
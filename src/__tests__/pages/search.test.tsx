@@ -2,6 +2,8 @@ import React from 'react';
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import SearchPage from '@/pages/search';
+import { listLibraryPapers } from '@/utils/library';
+import { MemoryLibraryStore, setLibraryStore } from '@/utils/libraryStore';
 
 // Mock Next.js router
 const mockPush = jest.fn();
@@ -83,6 +85,57 @@ describe('Search Page', () => {
     });
   });
 
+  it('should fold the advanced fields into the query', async () => {
+    mockQuery.advanced = 'true';
+    render(<SearchPage />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search papers by title, abstract, authors, or keywords...'), {
+      target: { value: 'transformers -cat:stat.ML' }
+    });
+    fireEvent.change(screen.getByLabelText('Author:'), { target: { value: 'hinton OR lecun' } });
+    fireEvent.change(screen.getByLabelText('Category:'), { target: { value: 'cs.LG' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0], 'http://localhost');
+    expect(url.searchParams.get('q')).toBe('(transformers -cat:stat.ML) (au:hinton OR au:lecun) cat:cs.LG');
+    expect(url.searchParams.has('author')).toBe(false);
+  });
+
+  it('should search within a submission date preset', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-15T12:00:00Z'));
+    mockQuery.advanced = 'true';
+    render(<SearchPage />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search papers by title, abstract, authors, or keywords...'), {
+      target: { value: 'attention' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Last month' }));
+    expect(screen.getByLabelText('Submitted from:')).toHaveValue('2025-02-15');
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+    jest.useRealTimers();
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0], 'http://localhost');
+    expect(url.searchParams.get('from')).toBe('2025-02-15');
+    expect(url.searchParams.has('to')).toBe(false);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Any time' }));
+    expect(screen.getByLabelText('Submitted from:')).toHaveValue('');
+  });
+
+  it('should explain malformed queries without searching', async () => {
+    render(<SearchPage />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search papers by title, abstract, authors, or keywords...'), {
+      target: { value: 'ti:"deep learning' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    expect(await screen.findByText('Unclosed quote in search query')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
   it('should show error message when search request fails', async () => {
     (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('boom'));
     render(<SearchPage />);
@@ -111,6 +164,53 @@ describe('Search Page', () => {
     expect(mockPush).toHaveBeenCalledWith('/pdf/1706.03762');
   });
 
+  it('should export the page and the selected results', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => buildSearchResponse([basePaper(), { ...basePaper(), id: '1810.04805', title: 'BERT' }])
+    });
+    render(<SearchPage />);
+
+    const input = screen.getByPlaceholderText(
+      'Search papers by title, abstract, authors, or keywords...'
+    );
+    fireEvent.change(input, { target: { value: 'attention' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    const exportPage = await screen.findByRole('link', { name: 'Export page' });
+    expect(exportPage).toHaveAttribute('href', '/api/export?ids=1706.03762%2C1810.04805&format=bibtex');
+    expect(screen.getByRole('button', { name: 'Export selected' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Export format'), { target: { value: 'ris' } });
+    fireEvent.click(screen.getByLabelText('Select BERT for export'));
+
+    expect(screen.getByRole('link', { name: 'Export selected (1)' })).toHaveAttribute(
+      'href',
+      '/api/export?ids=1810.04805&format=ris'
+    );
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('should save a result to the library without opening it', async () => {
+    setLibraryStore(new MemoryLibraryStore());
+    render(<SearchPage />);
+
+    const input = screen.getByPlaceholderText(
+      'Search papers by title, abstract, authors, or keywords...'
+    );
+    fireEvent.change(input, { target: { value: 'attention' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+    const save = await screen.findByRole('button', { name: 'Save to library' });
+    await waitFor(() => expect(save).toBeEnabled());
+    fireEvent.click(save);
+
+    expect(await screen.findByRole('button', { name: 'Saved ✓' })).toBeInTheDocument();
+    expect((await listLibraryPapers()).map(paper => paper.arxivId)).toEqual(['1706.03762']);
+    expect(mockPush).not.toHaveBeenCalled();
+    setLibraryStore(null);
+  });
+
   it('should request insights when user submits a goal', async () => {
     const searchResponse = buildSearchResponse();
     const insightsResponse = {
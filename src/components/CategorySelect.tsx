@@ -0,0 +1,69 @@
+import { ChangeEvent, FC, useMemo, useState } from 'react';
+import { filterArxivCategories, getArxivTaxonomy } from '@/constants/arxivCategories';
+import styles from './CategorySelect.module.css';
+
+interface CategorySelectProps {
+  // Id of the select, for its label
+  id: string;
+  // Selected category code, or '' for all categories
+  value: string;
+  onChange: (code: string) => void;
+}
+
+/**
+ * Picks an arXiv category from the full taxonomy, grouped by subject area,
+ * with a filter box that narrows the list by code, name or description
+ */
+const CategorySelect: FC<CategorySelectProps> = ({ id, value, onChange }) => {
+  const [filter, setFilter] = useState('');
+
+  const groups = useMemo(() => {
+    const matches = new Set(filterArxivCategories(filter).map(category => category.code));
+    return getArxivTaxonomy()
+      .map(group => ({
+        ...group,
+        // The selected category stays listed so the select can still show it
+        categories: group.archives
+          .flatMap(archive => archive.categories)
+          .filter(category => matches.has(category.code) || category.code === value)
+      }))
+      .filter(group => group.categories.length > 0);
+  }, [filter, value]);
+
+  const hasMatches = groups.some(group => group.categories.some(category => category.code !== value));
+
+  return (
+    <div className={styles.categorySelect}>
+      <input
+        type="search"
+        value={filter}
+        onChange={(event: ChangeEvent<HTMLInputElement>) => setFilter(event.target.value)}
+        placeholder="Filter categories…"
+        aria-label="Filter categories"
+        className={styles.filter}
+      />
+      <select
+        id={id}
+        value={value}
+        onChange={(event: ChangeEvent<HTMLSelectElement>) => onChange(event.target.value)}
+        className={styles.select}
+      >
+        <option value="">All categories</option>
+        {groups.map(group => (
+          <optgroup key={group.code} label={group.name}>
+            {group.categories.map(category => (
+              <option key={category.code} value={category.code} title={category.description}>
+                {category.code} — {category.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      {filter.trim() && !hasMatches && (
+        <p className={styles.empty}>No categories match &ldquo;{filter.trim()}&rdquo;</p>
+      )}
+    </div>
+  );
+};
+
+export default CategorySelect;
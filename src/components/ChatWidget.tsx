@@ -3,48 +3,262 @@ import { useRouter } from 'next/router';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import styles from './ChatWidget.module.css';
-import { Message, ChatApiResponse, SuggestedQuestion } from '@/types/chat';
-import { processPageReferences, handlePageNavigation } from '@/utils/pageLinks';
+import { Message, ChatApiResponse, ChatSession, ChatSessionSummary, EvidenceQuote, PageCitation, SuggestedQuestion } from '@/types/chat';
+import { PageNavigationOptions, formatPageReference, processPageReferences, handlePageNavigation, parsePageLink } from '@/utils/pageLinks';
+import { CHAT_STREAM_CONTENT_TYPE, readChatStream } from '@/utils/chatStream';
+import { ArxivSearchResult, formatAuthorList } from '@/utils/arxivSearch';
+import { recordChatQuestion } from '@/utils/history';
+
+interface ChatRequestOptions {
+  signal?: AbortSignal;
+  onPartialContent?: (content: string) => void;
+}
+
+/**
+ * Post a question to the chat API and resolve with the final response.
+ * When the API streams, partial markdown is reported through onPartialContent.
+ */
+async function requestChatResponse(
+  body: Record<string, unknown>,
+  { signal, onPartialContent }: ChatRequestOptions = {}
+): Promise<ChatApiResponse> {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: signal ?? null
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    
+    // Extract detailed error information
+    let errorMessage = errorData.error || `HTTP error! status: ${response.status}`;
+    
+    // Try to parse JSON error structures (e.g., from Gemini API)
+    if (typeof errorMessage === 'string' && errorMessage.includes('{')) {
+      try {
+        // Extract everything after the first hyphen and space, then parse JSON
+        const parts = errorMessage.split(' - ');
+        if (parts.length > 1) {
+          const jsonPart = parts.slice(1).join(' - '); // In case there are multiple hyphens
+          const jsonError = JSON.parse(jsonPart);
+          if (jsonError.error && jsonError.error.message) {
+            errorMessage = `${parts[0]} - ${jsonError.error.message}`;
+          }
+        }
+      } catch {
+        // If JSON parsing fails, keep the original message
+      }
+    }
+    
+    // If there are additional error details, include them
+    if (errorData.details && !errorMessage.includes(errorData.details)) {
+      errorMessage += ` - ${errorData.details}`;
+    }
+    
+    throw new Error(errorMessage);
+  }
+
+  // Early exits (e.g. unavailable PDFs) answer with plain JSON even for streaming requests
+  const contentType = response.headers?.get('Content-Type') ?? '';
+  if (!contentType.includes(CHAT_STREAM_CONTENT_TYPE) || !response.body) {
+    return response.json();
+  }
+
+  let streamedContent = '';
+  let finalResponse: ChatApiResponse | null = null;
+  await readChatStream(response.body, (event) => {
+    if (event.type === 'delta') {
+      streamedContent += event.content;
+      onPartialContent?.(streamedContent);
+    } else if (event.type === 'done') {
+      finalResponse = { response: event.response, structured: event.structured };
+    } else {
+      throw new Error(event.details ? `${event.error} - ${event.details}` : event.error);
+    }
+  });
+
+  if (!finalResponse) {
+    throw new Error('Response stream ended unexpectedly');
+  }
+  return finalResponse;
+}
+
+/**
+ * Insert or update the placeholder bot message that receives streamed content
+ */
+function upsertStreamingMessage(messages: Message[], id: string, text: string): Message[] {
+  if (!messages.some(msg => msg.id === id)) {
+    return [...messages, { id, text, isBot: true, timestamp: new Date(), isStreaming: true }];
+  }
+  return messages.map(msg => (msg.id === id ? { ...msg, text } : msg));
+}
+
+/**
+ * Load this browser's most recently updated session for a paper that has messages.
+ * Resolves with null when there is none or sessions are unavailable.
+ */
+async function fetchLatestSession(arxivId: string): Promise<ChatSession | null> {
+  try {
+    const listResponse = await fetch(`/api/chat/sessions?arxivId=${encodeURIComponent(arxivId)}`);
+    if (!listResponse.ok) return null;
+    const { sessions } = await listResponse.json();
+    const latest = Array.isArray(sessions)
+      ? sessions.find((session: ChatSessionSummary) => session.messageCount > 0)
+      : undefined;
+    if (!latest?.id) return null;
+
+    const sessionResponse = await fetch(`/api/chat/sessions/${latest.id}`);
+    if (!sessionResponse.ok) return null;
+    const { session } = await sessionResponse.json();
+    return session?.id && Array.isArray(session.messages) ? session : null;
+  } catch (error) {
+    console.error('ChatWidget: failed to load chat session', error);
+    return null;
+  }
+}
+
+/**
+ * Start a new session for a paper.
+ * Resolves with null when sessions are unavailable, in which case the widget
+ * falls back to sending the full history with every request.
+ */
+async function createSession(arxivId: string): Promise<string | null> {
+  try {
+    const response = await fetch('/api/chat/sessions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ arxivId })
+    });
+    if (!response.ok) return null;
+    const { session } = await response.json();
+    return session?.id ?? null;
+  } catch (error) {
+    console.error('ChatWidget: failed to create chat session', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a session that never got a message, so it isn't left behind empty
+ */
+async function deleteSession(sessionId: string): Promise<void> {
+  try {
+    await fetch(`/api/chat/sessions/${sessionId}`, { method: 'DELETE' });
+  } catch (error) {
+    console.error('ChatWidget: failed to delete chat session', error);
+  }
+}
+
+/**
+ * Convert stored session messages into widget messages
+ */
+function toWidgetMessages(session: ChatSession): Message[] {
+  return session.messages.map(msg => ({
+    id: msg.structured?.responseType === 'welcome' ? 'welcome' : msg.id,
+    text: msg.content,
+    isBot: msg.role === 'assistant',
+    timestamp: new Date(msg.createdAt),
+    structured: msg.structured
+  }));
+}
+
+type PageNavigator = (pageNum: string, options?: PageNavigationOptions) => void;
+
+// Expandable footnotes with the verbatim quotes that back an answer
+const EvidenceFootnotes: React.FC<{ evidence: EvidenceQuote[]; onNavigate: PageNavigator }> = ({ evidence, onNavigate }) => {
+  if (evidence.length === 0) return null;
+
+  return (
+    <ol className={styles.evidenceList} aria-label="Evidence from the paper">
+      {evidence.map((item, index) => (
+        <li key={index} className={styles.evidenceItem}>
+          <details>
+            <summary className={styles.evidenceSummary}>
+              {item.claim}{' '}
+              <span className={styles.evidencePage}>
+                ({formatPageReference({ arxivId: item.arxivId ?? null, page: item.page })})
+              </span>
+            </summary>
+            <button
+              type="button"
+              onClick={() => onNavigate(String(item.page), { highlight: item.quote, arxivId: item.arxivId })}
+              className={item.verified === false ? `${styles.evidenceQuote} ${styles.evidenceQuoteUnverified}` : styles.evidenceQuote}
+              title={
+                item.verified === false
+                  ? `Could not find this quote on page ${item.page}`
+                  : `Show on page ${item.page}`
+              }
+            >
+              &ldquo;{item.quote}&rdquo;
+            </button>
+          </details>
+        </li>
+      ))}
+    </ol>
+  );
+};
 
 // Component to render markdown with clickable page references
-const MarkdownWithPageLinks: React.FC<{ content: string }> = ({ content }) => {
-  const handlePageClick = (pageNum: string | undefined) => {
+const MarkdownWithPageLinks: React.FC<{
+  content: string;
+  citations?: PageCitation[] | undefined;
+  evidence?: EvidenceQuote[] | undefined;
+  onNavigate?: PageNavigator;
+}> = ({ content, citations, evidence, onNavigate = (pageNum, options) => handlePageNavigation(pageNum, undefined, options) }) => {
+  const handlePageClick = (pageNum: string | undefined, arxivId: string | null) => {
     if (!pageNum) return;
-    handlePageNavigation(pageNum);
+    onNavigate(pageNum, { arxivId });
   };
 
-  // Convert (page N) and (page N, page M) formats to clickable links
-  const processedContent = processPageReferences(content);
+  // Convert (page N), (page N, page M) and (arXivId page N) formats to clickable links
+  const processedContent = processPageReferences(content, citations);
   
   return (
-    <ReactMarkdown 
-      remarkPlugins={[remarkGfm]}
-      components={{
-        a: ({ href, children, ...props }) => {
-          // Check if this is a page reference link
-          const pageMatch = href?.match(/^#page-(\d+)$/);
-          if (pageMatch) {
-            const pageNum = pageMatch[1];
-            return (
-              <a
-                href="#"
-                onClick={(e) => {
-                  e.preventDefault();
-                  handlePageClick(pageNum);
-                }}
-                className={styles.pageLink}
-                {...props}
-              >
-                {children}
-              </a>
-            );
+    <>
+      <ReactMarkdown 
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a: ({ href, children, ...props }) => {
+            // Check if this is a page reference link
+            const pageLink = parsePageLink(href);
+            if (pageLink) {
+              const pageNum = pageLink.page;
+              const isUnverified = pageLink.verification === 'unverified';
+              return (
+                <a
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handlePageClick(pageNum, pageLink.arxivId);
+                  }}
+                  className={isUnverified ? `${styles.pageLink} ${styles.pageLinkUnverified}` : styles.pageLink}
+                  title={
+                    pageLink.verification === 'verified'
+                      ? 'Confirmed in the PDF text'
+                      : isUnverified
+                        ? 'Could not confirm this citation in the PDF text'
+                        : undefined
+                  }
+                  {...props}
+                >
+                  {children}
+                </a>
+              );
+            }
+            return <a href={href} {...props}>{children}</a>;
           }
-          return <a href={href} {...props}>{children}</a>;
-        }
-      }}
-    >
-      {processedContent}
-    </ReactMarkdown>
+        }}
+      >
+        {processedContent}
+      </ReactMarkdown>
+      {evidence && <EvidenceFootnotes evidence={evidence} onNavigate={onNavigate} />}
+    </>
   );
 };
 
@@ -80,17 +294,28 @@ const SuggestedQuestions: React.FC<{
 interface ChatWidgetProps {
   arxivId?: string;
   navHeight?: number;
+  // Other papers attached to each question, for comparisons
+  comparisonIds?: string[];
+  // Called when a page link opens a paper in the viewer
+  onOpenPaper?: (arxivId: string) => void;
+  // Title and authors of the paper, shown in the header once known
+  paper?: Pick<ArxivSearchResult, 'title' | 'authors'> | undefined;
 }
 
-const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
+const NO_COMPARISONS: string[] = [];
+
+const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0, comparisonIds = NO_COMPARISONS, onOpenPaper, paper }) => {
   const router = useRouter();
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [, setError] = useState<string | null>(null);
+  // Server-side session holding the conversation; null means stateless mode
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const initializedArxivIdRef = useRef<string | null>(null);
 
   // Get arxivId from router if not provided as prop
   const currentArxivId = arxivId || (router.query.arxivId as string);
@@ -118,23 +343,23 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
     }
   };
 
-  const handleSuggestedQuestionClick = async (question: string) => {
+  // Ask a question, from the input or a suggested question, and stream the answer in
+  const sendQuestion = async (question: string) => {
+    const text = question.trim();
     // Prevent duplicate calls and ensure we have required data
-    if (isLoading || !currentArxivId || !question.trim()) {
+    if (isLoading || !currentArxivId || !text) {
       return;
     }
 
-    // Clear any existing text in the input field to prevent confusion
-    setMessage('');
-
     const userMessage: Message = {
       id: Date.now().toString(),
-      text: question,
+      text,
       isBot: false,
       timestamp: new Date()
     };
 
     setMessages(prev => [...prev, userMessage]);
+    recordChatQuestion(currentArxivId, text, paper?.title);
     setIsLoading(true);
     setError(null);
 
@@ -154,51 +379,23 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
           content: msg.text
         }));
 
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const botMessageId = (Date.now() + 1).toString();
+      const data = await requestChatResponse(
+        {
+          // Sessions keep the history server-side, so only the new question is sent
+          messages: sessionId ? apiMessages.slice(-1) : apiMessages,
+          arxivId: currentArxivId,
+          ...(comparisonIds.length > 0 && { arxivIds: [currentArxivId, ...comparisonIds] }),
+          ...(sessionId && { sessionId }),
+          stream: true
         },
-        body: JSON.stringify({
-          messages: apiMessages,
-          arxivId: currentArxivId
-        }),
-        signal: abortControllerRef.current.signal
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        
-        // Extract detailed error information
-        let errorMessage = errorData.error || `HTTP error! status: ${response.status}`;
-        
-        // Try to parse JSON error structures (e.g., from Gemini API)
-        if (typeof errorMessage === 'string' && errorMessage.includes('{')) {
-          try {
-            // Extract everything after the first hyphen and space, then parse JSON
-            const parts = errorMessage.split(' - ');
-            if (parts.length > 1) {
-              const jsonPart = parts.slice(1).join(' - '); // In case there are multiple hyphens
-              const jsonError = JSON.parse(jsonPart);
-              if (jsonError.error && jsonError.error.message) {
-                errorMessage = `${parts[0]} - ${jsonError.error.message}`;
-              }
-            }
-          } catch {
-            // If JSON parsing fails, keep the original message
+        {
+          signal: abortControllerRef.current.signal,
+          onPartialContent: (content) => {
+            setMessages(prev => upsertStreamingMessage(prev, botMessageId, content));
           }
         }
-        
-        // If there are additional error details, include them
-        if (errorData.details && !errorMessage.includes(errorData.details)) {
-          errorMessage += ` - ${errorData.details}`;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      // Handle JSON response from Gemini
-      const data: ChatApiResponse = await response.json();
+      );
       if (!data.response && !data.structured) {
         throw new Error('No response from AI');
       }
@@ -208,14 +405,15 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
       const structuredData = data.structured;
 
       const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: botMessageId,
         text: messageText,
         isBot: true,
         timestamp: new Date(),
         structured: structuredData
       };
 
-      setMessages(prev => [...prev, botMessage]);
+      // Replace the streaming placeholder (if any) with the final message
+      setMessages(prev => [...prev.filter(msg => msg.id !== botMessageId), botMessage]);
 
     } catch (error: unknown) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -224,6 +422,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
 
       console.error('ChatWidget: failed to process AI response', error);
 
+      // Add error message as a bot message in the chat
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         text: error instanceof Error ? error.message : 'Failed to get response. Please try again.',
@@ -232,25 +431,37 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
         isError: true
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      // Drop any partially streamed answer in favour of the error
+      setMessages(prev => [...prev.filter(msg => !msg.isStreaming), errorMessage]);
       setError(null); // Clear any existing error state
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
-      // Refocus input after suggested question submission
+      // Refocus input after the question is answered
       setTimeout(() => inputRef.current?.focus(), 100);
     }
   };
 
+  const handleSuggestedQuestionClick = async (question: string) => {
+    if (isLoading || !currentArxivId || !question.trim()) {
+      return;
+    }
+    // Clear any existing text in the input field to prevent confusion
+    setMessage('');
+    await sendQuestion(question);
+  };
+
   useEffect(() => {
     // Only scroll when we have both user message and bot response
+    // (keyed on length so streamed updates don't keep re-scrolling)
     if (messages.length >= 2) {
       // Add a small delay to ensure the message is rendered
       setTimeout(scrollToUserMessage, 100);
     }
-  }, [messages]);
+  }, [messages.length]);
 
-  const handleWelcomeMessage = useCallback(async (welcomePrompt: string) => {
+  // Resolves with false when the fallback welcome message had to be shown
+  const handleWelcomeMessage = useCallback(async (welcomePrompt: string, welcomeSessionId: string | null = null): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
 
@@ -265,7 +476,8 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
             role: 'user',
             content: welcomePrompt
           }],
-          arxivId: currentArxivId
+          arxivId: currentArxivId,
+          ...(welcomeSessionId && { sessionId: welcomeSessionId })
         })
       });
 
@@ -292,6 +504,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
         timestamp: new Date(),
         structured: structuredData
       }]);
+      return true;
     } catch (error: unknown) {
       console.error('ChatWidget: failed to load welcome message', error);
       const fallbackMessage = `Welcome! I'm here to help you understand arXiv paper ${currentArxivId}. \n\nAsk me anything about the paper!\n\n*Note: AI-generated welcome message is temporarily unavailable. You can still chat about the paper.*`;
@@ -312,139 +525,75 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
           responseType: 'welcome' as const
         }
       }]);
+      return false;
     } finally {
       setIsLoading(false);
     }
   }, [currentArxivId]);
 
-  // Initialize with AI-generated welcome message when arxivId changes
-  useEffect(() => {
-    if (currentArxivId && messages.length === 0) {
-      // Send an automatic welcome request to the AI
-      const welcomeMessage = 'Please provide a welcome message for this paper with suggested questions I can ask about it.';
-      handleWelcomeMessage(welcomeMessage);
+  const startNewSession = useCallback(async () => {
+    if (!currentArxivId) return;
+    setIsLoading(true);
+    setMessages([]);
+    const newSessionId = await createSession(currentArxivId);
+    setSessionId(newSessionId);
+    // Send an automatic welcome request to the AI
+    const welcomeMessage = 'Please provide a welcome message for this paper with suggested questions I can ask about it.';
+    const welcomed = await handleWelcomeMessage(welcomeMessage, newSessionId);
+    // Nothing was saved to the session, so drop it and carry on without one
+    if (!welcomed && newSessionId) {
+      setSessionId(null);
+      await deleteSession(newSessionId);
     }
-  }, [currentArxivId, messages.length, handleWelcomeMessage]);
+  }, [currentArxivId, handleWelcomeMessage]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    try {
-      e.preventDefault();
-      
-      if (!message.trim() || isLoading || !currentArxivId) return;
-
-      const userMessage: Message = {
-        id: Date.now().toString(),
-        text: message.trim(),
-        isBot: false,
-        timestamp: new Date()
-      };
+  // Resume the latest session for the paper, or start one with an AI-generated welcome message
+  useEffect(() => {
+    if (!currentArxivId || initializedArxivIdRef.current === currentArxivId) {
+      return;
+    }
+    initializedArxivIdRef.current = currentArxivId;
 
-      setMessages(prev => [...prev, userMessage]);
-      setMessage('');
+    const initializeChat = async () => {
       setIsLoading(true);
-      setError(null);
+      const session = await fetchLatestSession(currentArxivId);
+      if (session && session.messages.length > 0) {
+        setSessionId(session.id);
+        setMessages(toWidgetMessages(session));
+        setIsLoading(false);
+        return;
+      }
+      await startNewSession();
+    };
+    initializeChat();
+  }, [currentArxivId, startNewSession]);
+
+  // With several papers, the viewer may be showing another paper than the one a link points to
+  const navigateToPage = useCallback<PageNavigator>((pageNum, { highlight, arxivId: paperId } = {}) => {
+    const targetId = paperId ?? (comparisonIds.length > 0 ? currentArxivId : null);
+    handlePageNavigation(pageNum, undefined, { highlight, arxivId: targetId });
+    if (targetId) {
+      onOpenPaper?.(targetId);
+    }
+  }, [comparisonIds, currentArxivId, onOpenPaper]);
 
-    // Cancel any existing request
+  const handleNewChat = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
+      abortControllerRef.current = null;
     }
-    abortControllerRef.current = new AbortController();
+    setMessage('');
+    startNewSession();
+  };
 
+  const handleSubmit = async (e: React.FormEvent) => {
     try {
-      // Prepare messages for API (exclude timestamps and IDs)
-      const apiMessages = messages
-        .filter(msg => !msg.isBot || msg.id !== 'welcome') // Exclude welcome message
-        .concat(userMessage)
-        .map(msg => ({
-          role: msg.isBot ? 'assistant' : 'user' as const,
-          content: msg.text
-        }));
-
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: apiMessages,
-          arxivId: currentArxivId
-        }),
-        signal: abortControllerRef.current.signal
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        
-        // Extract detailed error information
-        let errorMessage = errorData.error || `HTTP error! status: ${response.status}`;
-        
-        // Try to parse JSON error structures (e.g., from Gemini API)
-        if (typeof errorMessage === 'string' && errorMessage.includes('{')) {
-          try {
-            // Extract everything after the first hyphen and space, then parse JSON
-            const parts = errorMessage.split(' - ');
-            if (parts.length > 1) {
-              const jsonPart = parts.slice(1).join(' - '); // In case there are multiple hyphens
-              const jsonError = JSON.parse(jsonPart);
-              if (jsonError.error && jsonError.error.message) {
-                errorMessage = `${parts[0]} - ${jsonError.error.message}`;
-              }
-            }
-          } catch {
-            // If JSON parsing fails, keep the original message
-          }
-        }
-        
-        // If there are additional error details, include them
-        if (errorData.details && !errorMessage.includes(errorData.details)) {
-          errorMessage += ` - ${errorData.details}`;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      // Handle JSON response from Gemini
-      const data: ChatApiResponse = await response.json();
-      if (!data.response && !data.structured) {
-        throw new Error('No response from AI');
-      }
-
-      // Use structured response if available, fallback to plain text
-      const messageText = data.structured?.content || data.response || '';
-      const structuredData = data.structured;
-
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: messageText,
-        isBot: true,
-        timestamp: new Date(),
-        structured: structuredData
-      };
-
-      setMessages(prev => [...prev, botMessage]);
-
-    } catch (error: unknown) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        return; // Request was cancelled, don't show error
-      }
-
-      // Add error message as a bot message in the chat
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: error instanceof Error ? error.message : 'Failed to get response. Please try again.',
-        isBot: true,
-        timestamp: new Date(),
-        isError: true
-      };
+      e.preventDefault();
       
-      setMessages(prev => [...prev, errorMessage]);
-      setError(null); // Clear any existing error state
-    } finally {
-      setIsLoading(false);
-      abortControllerRef.current = null;
-      // Refocus input after form submission
-      setTimeout(() => inputRef.current?.focus(), 100);
-    }
+      if (!message.trim() || isLoading || !currentArxivId) return;
+
+      setMessage('');
+      await sendQuestion(message);
     } catch (unexpectedError: unknown) {
       // Handle any unexpected runtime errors
       const errorMessage: Message = {
@@ -498,18 +647,37 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
                 'No paper selected'
               )}
             </p>
+            {paper && (
+              <>
+                <p className={styles.headerPaperTitle} title={paper.title}>{paper.title}</p>
+                <p className={styles.headerAuthors}>{formatAuthorList(paper.authors)}</p>
+              </>
+            )}
+          </div>
+          <div className={styles.headerActions}>
+            {sessionId && (
+              <button
+                type="button"
+                onClick={handleNewChat}
+                className={styles.newChatButton}
+                title="Start a new conversation about this paper"
+                disabled={isLoading}
+              >
+                New chat
+              </button>
+            )}
+            <a 
+              href="https://github.com/montanaflynn/asxiv" 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className={styles.githubLink}
+              title="View source on GitHub"
+            >
+              <svg width="16" height="16" fill="currentColor" viewBox="0 0 16 16">
+                <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.012 8.012 0 0 0 16 8c0-4.42-3.58-8-8-8z"/>
+              </svg>
+            </a>
           </div>
-          <a 
-            href="https://github.com/montanaflynn/asxiv" 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className={styles.githubLink}
-            title="View source on GitHub"
-          >
-            <svg width="16" height="16" fill="currentColor" viewBox="0 0 16 16">
-              <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.012 8.012 0 0 0 16 8c0-4.42-3.58-8-8-8z"/>
-            </svg>
-          </a>
         </div>
       </div>
       <div className={styles.messages} role="log" aria-live="polite">
@@ -521,7 +689,17 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
           >
             {msg.isBot ? (
               <>
-                <MarkdownWithPageLinks content={msg.text} />
+                {msg.structured?.abstractOnly && msg.structured.abstractOnly.length > 0 && (
+                  <p className={styles.abstractOnlyNotice}>
+                    Abstract only: the PDF of {msg.structured.abstractOnly.join(', ')} is not available, so this answer is based on the abstract and metadata.
+                  </p>
+                )}
+                <MarkdownWithPageLinks
+                  content={msg.text}
+                  citations={msg.structured?.citations}
+                  evidence={msg.structured?.evidence}
+                  onNavigate={navigateToPage}
+                />
                 {msg.structured?.suggestedQuestions && (
                   <SuggestedQuestions 
                     questions={msg.structured.suggestedQuestions}
@@ -535,7 +713,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ arxivId, navHeight = 0 }) => {
             )}
           </div>
         ))}
-        {isLoading && (
+        {isLoading && !messages.some(msg => msg.isStreaming) && (
           <div className={`${styles.message} ${styles.bot} ${styles.loading}`}>
             <span className={styles.loadingDots}>●●●</span>
           </div>
@@ -0,0 +1,104 @@
+import { FC, useEffect, useState } from 'react';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { CITATION_STYLES, CitationStyle, formatCitation } from '@/utils/citationStyles';
+import styles from './CitePanel.module.css';
+
+interface CitePanelProps {
+  // Metadata of the paper being viewed, once it has loaded
+  paper?: ArxivSearchResult | undefined;
+  // Whether loading the metadata failed, so the panel stops waiting for it
+  loadFailed?: boolean;
+  // Called to load the metadata again after a failure
+  onRetry?: () => void;
+}
+
+// How long "Copied" is shown after copying
+const COPIED_MESSAGE_MS = 2000;
+
+/**
+ * Cites the paper being viewed in BibTeX, APA, MLA, Chicago or IEEE style,
+ * with a button that copies the citation
+ */
+const CitePanel: FC<CitePanelProps> = ({ paper, loadFailed = false, onRetry }) => {
+  const [open, setOpen] = useState(false);
+  const [style, setStyle] = useState<CitationStyle>('bibtex');
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+
+  useEffect(() => {
+    if (copyStatus !== 'copied') return undefined;
+    const timer = setTimeout(() => setCopyStatus(null), COPIED_MESSAGE_MS);
+    return () => clearTimeout(timer);
+  }, [copyStatus]);
+
+  const citation = open && paper ? formatCitation(paper, style) : null;
+
+  const handleCopy = async (): Promise<void> => {
+    if (!citation) return;
+    try {
+      await navigator.clipboard.writeText(citation);
+      setCopyStatus('copied');
+    } catch (error) {
+      console.warn('Cite panel: could not copy the citation', error);
+      setCopyStatus('failed');
+    }
+  };
+
+  return (
+    <div className={styles.cite}>
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className={styles.toggle}
+        aria-expanded={open}
+      >
+        Cite
+      </button>
+      {open && (
+        <div className={styles.panel} role="region" aria-label="Cite this paper">
+          <div className={styles.styles} role="group" aria-label="Citation style">
+            {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => {
+                  setStyle(key);
+                  setCopyStatus(null);
+                }}
+                className={`${styles.styleButton} ${key === style ? styles.styleButtonActive : ''}`}
+                aria-pressed={key === style}
+              >
+                {CITATION_STYLES[key].label}
+              </button>
+            ))}
+          </div>
+          {citation ? (
+            <>
+              <pre className={styles.citation}>{citation}</pre>
+              <div className={styles.actions}>
+                <button type="button" onClick={handleCopy} className={styles.copyButton}>
+                  {copyStatus === 'copied' ? 'Copied' : 'Copy'}
+                </button>
+                {copyStatus === 'failed' && (
+                  <span className={styles.error} role="alert">Could not copy; select the citation instead</span>
+                )}
+              </div>
+            </>
+          ) : loadFailed ? (
+            <div className={styles.actions}>
+              <span className={styles.error} role="alert">Could not load the citation details</span>
+              {onRetry && (
+                <button type="button" onClick={onRetry} className={styles.copyButton}>
+                  Retry
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className={styles.message}>Loading the paper&apos;s details…</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitePanel;
@@ -0,0 +1,157 @@
+import { FC, FormEvent, useState } from 'react';
+import Link from 'next/link';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { formatArxivDate, formatAuthorList } from '@/utils/arxivSearch';
+import { READING_STATUSES, updateLibraryPaper } from '@/utils/library';
+import { LibraryPaper, ReadingStatus } from '@/types/library';
+import SaveToLibrary from './SaveToLibrary';
+import styles from './LibraryItem.module.css';
+
+interface LibraryItemProps {
+  paper: LibraryPaper;
+  // Called with a tag when it is clicked, to filter by it
+  onSelectTag?: (tag: string) => void;
+}
+
+/**
+ * A saved paper in the library, with its reading status, tags and notes
+ */
+const LibraryItem: FC<LibraryItemProps> = ({ paper, onSelectTag }) => {
+  const { metadata } = paper;
+  const [tagInput, setTagInput] = useState('');
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [notesDraft, setNotesDraft] = useState(paper.notes);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (changes: Parameters<typeof updateLibraryPaper>[1]): Promise<void> => {
+    try {
+      setError(null);
+      await updateLibraryPaper(paper.arxivId, changes);
+    } catch (updateError) {
+      console.error('Library: could not update paper', updateError);
+      setError('Could not save your changes');
+    }
+  };
+
+  const handleAddTag = (event: FormEvent) => {
+    event.preventDefault();
+    // Several tags can be added at once, separated by commas
+    update({ tags: [...paper.tags, ...tagInput.split(',')] });
+    setTagInput('');
+  };
+
+  const handleSaveNotes = async (event: FormEvent) => {
+    event.preventDefault();
+    await update({ notes: notesDraft.trim() });
+    setEditingNotes(false);
+  };
+
+  return (
+    <article className={styles.item}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>
+            <Link href={`/pdf/${paper.arxivId}`}>{metadata.title}</Link>
+          </h3>
+          <p className={styles.meta}>
+            <span className={styles.id}>{paper.arxivId}</span>
+            {metadata.authors.length > 0 && <span>{formatAuthorList(metadata.authors)}</span>}
+            <span>Saved {formatArxivDate(paper.addedAt)}</span>
+          </p>
+        </div>
+        <div className={styles.controls}>
+          <select
+            value={paper.status}
+            onChange={(event) => update({ status: event.target.value as ReadingStatus })}
+            aria-label={`Reading status of ${metadata.title}`}
+            className={styles.select}
+          >
+            {(Object.keys(READING_STATUSES) as ReadingStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {READING_STATUSES[status].label}
+              </option>
+            ))}
+          </select>
+          <SaveToLibrary paper={metadata} arxivId={paper.arxivId} />
+        </div>
+      </div>
+
+      <div className={styles.tags}>
+        {paper.tags.map((tag) => (
+          <span key={tag} className={styles.tag}>
+            <button type="button" onClick={() => onSelectTag?.(tag)} className={styles.tagName}>
+              {tag}
+            </button>
+            <button
+              type="button"
+              onClick={() => update({ tags: paper.tags.filter((item) => item !== tag) })}
+              className={styles.tagRemove}
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddTag} className={styles.tagForm}>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(event) => setTagInput(event.target.value)}
+            placeholder="Add tags…"
+            aria-label={`Add tags to ${metadata.title}`}
+            className={styles.input}
+          />
+        </form>
+      </div>
+
+      {editingNotes ? (
+        <form onSubmit={handleSaveNotes} className={styles.notesForm}>
+          <textarea
+            value={notesDraft}
+            onChange={(event) => setNotesDraft(event.target.value)}
+            rows={6}
+            placeholder="Notes in markdown…"
+            aria-label={`Notes on ${metadata.title}`}
+            className={styles.textarea}
+          />
+          <div className={styles.notesActions}>
+            <button type="submit" className={styles.button}>Save notes</button>
+            <button
+              type="button"
+              onClick={() => {
+                setNotesDraft(paper.notes);
+                setEditingNotes(false);
+              }}
+              className={styles.secondaryButton}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className={styles.notes}>
+          {paper.notes && (
+            <div className={styles.notesContent}>
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{paper.notes}</ReactMarkdown>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              setNotesDraft(paper.notes);
+              setEditingNotes(true);
+            }}
+            className={styles.secondaryButton}
+          >
+            {paper.notes ? 'Edit notes' : 'Add notes'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className={styles.error} role="alert">{error}</p>}
+    </article>
+  );
+};
+
+export default LibraryItem;
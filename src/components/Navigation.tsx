@@ -28,6 +28,18 @@ const Navigation: FC = () => {
           >
             Search
           </Link>
+          <Link 
+            href="/library" 
+            className={`${styles.navLink} ${router.pathname === '/library' ? styles.active : ''}`}
+          >
+            Library
+          </Link>
+          <Link 
+            href="/history" 
+            className={`${styles.navLink} ${router.pathname === '/history' ? styles.active : ''}`}
+          >
+            History
+          </Link>
           <button
             type="button"
             className={styles.themeToggle}
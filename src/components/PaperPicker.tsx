@@ -0,0 +1,93 @@
+import { FC, FormEvent, ReactNode, useState } from 'react';
+import styles from './PaperPicker.module.css';
+import { truncateText } from '@/utils/arxivSearch';
+
+interface PaperPickerProps {
+  // Paper being discussed, followed by the papers it is compared with
+  paperIds: string[];
+  // Paper shown in the viewer
+  viewingId: string;
+  onView: (arxivId: string) => void;
+  // Returns an error message when the paper can't be added
+  onAdd: (input: string) => string | null;
+  onRemove: (arxivId: string) => void;
+  canAdd: boolean;
+  // Paper titles by ID, where known
+  titles?: Record<string, string>;
+  // Controls for the main paper, such as its version, shown first
+  children?: ReactNode;
+}
+
+/**
+ * Chooses which of the papers in a multi-paper chat the PDF viewer shows,
+ * and adds or removes papers to compare with
+ */
+const PaperPicker: FC<PaperPickerProps> = ({ paperIds, viewingId, onView, onAdd, onRemove, canAdd, titles = {}, children }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [primaryId, ...comparisonIds] = paperIds;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const addError = onAdd(input.trim());
+    setError(addError);
+    if (!addError) {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className={styles.picker}>
+      {children}
+      {comparisonIds.length > 0 && (
+        <div className={styles.row}>
+          <label htmlFor="paperPickerSelect" className={styles.label}>Viewing</label>
+          <select
+            id="paperPickerSelect"
+            value={viewingId}
+            onChange={(e) => onView(e.target.value)}
+            className={styles.select}
+          >
+            {paperIds.map((id) => {
+              const title = titles[id];
+              const label = title ? `${id}: ${truncateText(title, 40)}` : id;
+              return (
+                <option key={id} value={id}>
+                  {id === primaryId ? `${label} (main)` : label}
+                </option>
+              );
+            })}
+          </select>
+          {viewingId !== primaryId && (
+            <button
+              type="button"
+              onClick={() => onRemove(viewingId)}
+              className={styles.button}
+              title="Stop comparing with this paper"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+      {canAdd && (
+        <form onSubmit={handleSubmit} className={styles.row}>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Compare with arXiv ID…"
+            aria-label="arXiv ID of a paper to compare with"
+            className={styles.input}
+          />
+          <button type="submit" className={styles.button} disabled={!input.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+      {error && <p className={styles.error} role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default PaperPicker;
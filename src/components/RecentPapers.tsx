@@ -0,0 +1,42 @@
+import { FC } from 'react';
+import Link from 'next/link';
+import { useHistory } from '@/hooks/useHistory';
+import { formatHistoryTime, getPaperVisitHref } from '@/utils/history';
+import styles from './RecentPapers.module.css';
+
+// Papers listed; the rest are on the history page
+const RECENT_PAPER_LIMIT = 5;
+
+/**
+ * Papers opened most recently, each linking back to the page it was left at.
+ * Renders nothing until a paper has been opened.
+ */
+const RecentPapers: FC = () => {
+  const { papers } = useHistory();
+  if (papers.length === 0) return null;
+
+  return (
+    <section className={styles.container} aria-labelledby="recent-papers-title">
+      <div className={styles.header}>
+        <h2 id="recent-papers-title" className={styles.title}>Recent</h2>
+        <Link href="/history" className={styles.historyLink}>View history</Link>
+      </div>
+      <ul className={styles.list}>
+        {papers.slice(0, RECENT_PAPER_LIMIT).map((paper) => (
+          <li key={paper.arxivId} className={styles.item}>
+            <Link href={getPaperVisitHref(paper)} className={styles.paperLink}>
+              {paper.title ?? paper.arxivId}
+            </Link>
+            <span className={styles.meta}>
+              {[paper.title && paper.arxivId, paper.lastPage && `page ${paper.lastPage}`, formatHistoryTime(paper.openedAt)]
+                .filter(Boolean)
+                .join(' · ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default RecentPapers;
@@ -0,0 +1,126 @@
+import { FC, FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { createCollection, removeLibraryPaper, savePaper, updateLibraryPaper } from '@/utils/library';
+import { useLibrary } from '@/hooks/useLibrary';
+import styles from './SaveToLibrary.module.css';
+
+interface SaveToLibraryProps {
+  paper: ArxivSearchResult;
+  // ID to save the paper under, e.g. with the version being viewed; defaults to the paper's ID
+  arxivId?: string | undefined;
+}
+
+/**
+ * Saves a paper to the personal library; once saved, files it into
+ * collections or removes it again
+ */
+const SaveToLibrary: FC<SaveToLibraryProps> = ({ paper, arxivId = paper.id }) => {
+  const { papers, collections, loaded } = useLibrary();
+  const [open, setOpen] = useState(false);
+  const [newCollection, setNewCollection] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const saved = papers.find((item) => item.arxivId === arxivId);
+
+  const run = async (action: () => Promise<unknown>): Promise<void> => {
+    try {
+      setError(null);
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Could not update your library');
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await savePaper(paper, { arxivId });
+    setOpen(true);
+  });
+
+  const toggleCollection = (collectionId: string) => run(async () => {
+    if (!saved) return;
+    const collectionIds = saved.collectionIds.includes(collectionId)
+      ? saved.collectionIds.filter((id) => id !== collectionId)
+      : [...saved.collectionIds, collectionId];
+    await updateLibraryPaper(arxivId, { collectionIds });
+  });
+
+  const handleCreateCollection = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const collection = await createCollection(newCollection);
+      await savePaper(paper, { arxivId, collectionIds: [collection.id] });
+      setNewCollection('');
+    });
+  };
+
+  const handleRemove = () => run(async () => {
+    await removeLibraryPaper(arxivId);
+    setOpen(false);
+  });
+
+  if (!saved) {
+    return (
+      <div className={styles.container}>
+        <button type="button" onClick={handleSave} className={styles.button} disabled={!loaded}>
+          Save to library
+        </button>
+        {error && <p className={styles.error} role="alert">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className={`${styles.button} ${styles.saved}`}
+        aria-expanded={open}
+      >
+        Saved ✓
+      </button>
+      {open && (
+        <div className={styles.menu}>
+          {collections.length > 0 && (
+            <fieldset className={styles.collections}>
+              <legend>Collections</legend>
+              {collections.map((collection) => (
+                <label key={collection.id} className={styles.collection}>
+                  <input
+                    type="checkbox"
+                    checked={saved.collectionIds.includes(collection.id)}
+                    onChange={() => toggleCollection(collection.id)}
+                  />
+                  {collection.name}
+                </label>
+              ))}
+            </fieldset>
+          )}
+          <form onSubmit={handleCreateCollection} className={styles.row}>
+            <input
+              type="text"
+              value={newCollection}
+              onChange={(event) => setNewCollection(event.target.value)}
+              placeholder="New collection…"
+              aria-label="New collection name"
+              className={styles.input}
+            />
+            <button type="submit" className={styles.button} disabled={!newCollection.trim()}>
+              Add
+            </button>
+          </form>
+          <div className={styles.row}>
+            <Link href="/library" className={styles.link}>Open library</Link>
+            <button type="button" onClick={handleRemove} className={styles.removeButton}>
+              Remove from library
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className={styles.error} role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default SaveToLibrary;
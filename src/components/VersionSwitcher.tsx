@@ -0,0 +1,79 @@
+import { FC, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArxivVersion, formatArxivDate } from '@/utils/arxivSearch';
+import styles from './VersionSwitcher.module.css';
+
+interface VersionSwitcherProps {
+  // Paper without version
+  arxivId: string;
+  // Version shown in the viewer, or null for the latest
+  version: number | null;
+  onSelect: (version: number | null) => void;
+}
+
+/**
+ * Switches the viewer between the versions of a paper, listed with their
+ * submission dates from the arXiv metadata, and links to what changed in the
+ * version shown
+ */
+const VersionSwitcher: FC<VersionSwitcherProps> = ({ arxivId, version, onSelect }) => {
+  const [versions, setVersions] = useState<ArxivVersion[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVersions([]);
+
+    const loadVersions = async (): Promise<void> => {
+      try {
+        const response = await fetch(`/api/versions?id=${encodeURIComponent(arxivId)}`);
+        if (!response.ok) {
+          throw new Error(`Failed to load versions: ${response.status}`);
+        }
+        const data: { versions: ArxivVersion[] } = await response.json();
+        if (!cancelled) {
+          setVersions(data.versions);
+        }
+      } catch (error) {
+        console.error('Failed to load paper versions:', error);
+      }
+    };
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [arxivId]);
+
+  // Papers with a single version have nothing to switch between
+  const latest = versions[versions.length - 1];
+  if (!latest || versions.length < 2) {
+    return null;
+  }
+  const shownVersion = version ?? latest.version;
+
+  return (
+    <div className={styles.switcher}>
+      <label htmlFor="versionSwitcherSelect" className={styles.label}>Version</label>
+      <select
+        id="versionSwitcherSelect"
+        value={version ?? ''}
+        onChange={(e) => onSelect(e.target.value ? Number(e.target.value) : null)}
+        className={styles.select}
+      >
+        <option value="">Latest (v{latest.version})</option>
+        {versions.map(({ version: number, submitted }) => (
+          <option key={number} value={number}>
+            {submitted ? `v${number} – ${formatArxivDate(submitted)}` : `v${number}`}
+          </option>
+        ))}
+      </select>
+      {shownVersion > 1 && (
+        <Link href={`/diff/${arxivId}?from=v${shownVersion - 1}&to=v${shownVersion}`} className={styles.link}>
+          What changed?
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default VersionSwitcher;
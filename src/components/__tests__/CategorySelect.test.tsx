@@ -0,0 +1,46 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CategorySelect from '../CategorySelect';
+
+describe('CategorySelect', () => {
+  it('should group the categories by subject area', () => {
+    render(<CategorySelect id="category" value="" onChange={jest.fn()} />);
+
+    const groups = screen.getAllByRole('group');
+    expect(groups.map(group => group.getAttribute('label'))).toEqual([
+      'Computer Science',
+      'Economics',
+      'Electrical Engineering and Systems Science',
+      'Mathematics',
+      'Physics',
+      'Quantitative Biology',
+      'Quantitative Finance',
+      'Statistics'
+    ]);
+    expect(within(groups[4] as HTMLElement).getByRole('option', { name: 'quant-ph — Quantum Physics' })).toBeInTheDocument();
+  });
+
+  it('should narrow the list with the filter and report the chosen category', () => {
+    const onChange = jest.fn();
+    render(<CategorySelect id="category" value="" onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Filter categories'), { target: { value: 'superconductivity' } });
+
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+      'All categories',
+      'cond-mat.supr-con — Superconductivity'
+    ]);
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'cond-mat.supr-con' } });
+    expect(onChange).toHaveBeenCalledWith('cond-mat.supr-con');
+  });
+
+  it('should keep the selected category listed and say when nothing matches', () => {
+    render(<CategorySelect id="category" value="cs.LG" onChange={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Filter categories'), { target: { value: 'zzz' } });
+
+    expect(screen.getByRole('combobox')).toHaveValue('cs.LG');
+    expect(screen.getByText('No categories match “zzz”')).toBeInTheDocument();
+  });
+});
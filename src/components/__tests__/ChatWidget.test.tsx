@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ChatWidget from '../ChatWidget';
+import { readHistory } from '@/utils/history';
 
 // Mock Next.js router
 jest.mock('next/router', () => ({
@@ -106,6 +107,21 @@ describe('ChatWidget', () => {
     expect(screen.getByRole('link', { name: /arXiv:1706.03762/ })).toBeInTheDocument();
   });
 
+  it('should show the paper title and authors in the header', async () => {
+    render(
+      <ChatWidget
+        {...defaultProps}
+        paper={{ title: 'Attention Is All You Need', authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar', 'Jakob Uszkoreit'] }}
+      />
+    );
+
+    expect(screen.getByText('Attention Is All You Need')).toBeInTheDocument();
+    expect(screen.getByText('Ashish Vaswani, Noam Shazeer, Niki Parmar et al.')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Type a message…')).toBeInTheDocument();
+    });
+  });
+
   it('should display initial welcome message', async () => {
     render(<ChatWidget {...defaultProps} />);
     
@@ -148,6 +164,25 @@ describe('ChatWidget', () => {
     });
   });
 
+  it('should record sent questions in the history', async () => {
+    localStorage.clear();
+    render(<ChatWidget {...defaultProps} paper={{ title: 'Attention Is All You Need', authors: ['Ashish Vaswani'] }} />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Type a message…')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message…'), { target: { value: 'How are positions encoded?' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Mock AI response')).toBeInTheDocument();
+    });
+    expect(readHistory().questions).toEqual([
+      expect.objectContaining({ arxivId: '1706.03762', title: 'Attention Is All You Need', question: 'How are positions encoded?' })
+    ]);
+  });
+
   it('should send message when Enter key is pressed', async () => {
     render(<ChatWidget {...defaultProps} />);
     
@@ -245,7 +280,13 @@ describe('ChatWidget', () => {
   });
 
   it('should display loading state during API call', async () => {
-    // Mock a delayed fetch response
+    render(<ChatWidget {...defaultProps} />);
+    
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Type a message…')).toBeInTheDocument();
+    });
+
+    // Mock a delayed fetch response for the question
     (global.fetch as jest.Mock).mockImplementationOnce(() => 
       new Promise(resolve => 
         setTimeout(() => resolve({
@@ -260,12 +301,6 @@ describe('ChatWidget', () => {
         }), 100)
       )
     );
-
-    render(<ChatWidget {...defaultProps} />);
-    
-    await waitFor(() => {
-      expect(screen.getByPlaceholderText('Type a message…')).toBeInTheDocument();
-    });
     
     const input = screen.getByPlaceholderText('Type a message…');
     const sendButton = screen.getByText('Send');
@@ -314,4 +349,257 @@ describe('ChatWidget', () => {
       expect(input).toHaveValue('');
     });
   });
-});
\ No newline at end of file
+
+  describe('sessions', () => {
+    const storedSession = {
+      id: '11111111-2222-4333-8444-555555555555',
+      arxivId: '1706.03762',
+      title: 'What is attention?',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:01:00.000Z',
+      messages: [
+        {
+          id: 'm1',
+          role: 'assistant',
+          content: 'Stored welcome',
+          structured: { content: 'Stored welcome', responseType: 'welcome', suggestedQuestions: [] },
+          createdAt: '2024-01-01T00:00:00.000Z'
+        },
+        { id: 'm2', role: 'user', content: 'What is attention?', createdAt: '2024-01-01T00:01:00.000Z' },
+        {
+          id: 'm3',
+          role: 'assistant',
+          content: 'Stored answer',
+          structured: { content: 'Stored answer', responseType: 'answer' },
+          createdAt: '2024-01-01T00:01:00.000Z'
+        }
+      ]
+    };
+
+    const jsonResponse = (body: unknown, status = 200) =>
+      Promise.resolve({ ok: status < 400, status, json: async () => body });
+
+    it('should resume the latest session for the paper that has messages', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.startsWith('/api/chat/sessions?')) {
+          return jsonResponse({
+            sessions: [
+              { ...storedSession, id: '99999999-2222-4333-8444-555555555555', title: null, messages: undefined, messageCount: 0 },
+              { ...storedSession, messages: undefined, messageCount: 3 }
+            ]
+          });
+        }
+        if (url === `/api/chat/sessions/${storedSession.id}`) {
+          return jsonResponse({ session: storedSession });
+        }
+        return jsonResponse({ structured: { content: 'New answer', responseType: 'answer' } });
+      });
+
+      render(<ChatWidget {...defaultProps} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Stored answer')).toBeInTheDocument();
+      });
+      expect(screen.getByText('What is attention?')).toBeInTheDocument();
+      expect(screen.getByText('Stored welcome')).toBeInTheDocument();
+
+      // No welcome request is made for a resumed session
+      const chatCalls = (global.fetch as jest.Mock).mock.calls.filter(([url]) => url === '/api/chat');
+      expect(chatCalls).toHaveLength(0);
+
+      fireEvent.change(screen.getByPlaceholderText('Type a message…'), { target: { value: 'And the decoder?' } });
+      fireEvent.click(screen.getByText('Send'));
+
+      await waitFor(() => {
+        expect(screen.getByText('New answer')).toBeInTheDocument();
+      });
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls.find(([url]) => url === '/api/chat');
+      const body = JSON.parse(init.body);
+      expect(body.sessionId).toBe(storedSession.id);
+      expect(body.messages).toEqual([{ role: 'user', content: 'And the decoder?' }]);
+    });
+
+    it('should create a session and request a welcome message when none exists', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.startsWith('/api/chat/sessions?')) {
+          return jsonResponse({ sessions: [] });
+        }
+        if (url === '/api/chat/sessions') {
+          return jsonResponse({ session: { ...storedSession, messages: [] } }, 201);
+        }
+        return jsonResponse({ structured: { content: 'Fresh welcome', responseType: 'welcome', suggestedQuestions: [] } });
+      });
+
+      render(<ChatWidget {...defaultProps} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Fresh welcome')).toBeInTheDocument();
+      });
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls.find(([url]) => url === '/api/chat');
+      expect(JSON.parse(init.body).sessionId).toBe(storedSession.id);
+      expect(screen.getByText('New chat')).toBeInTheDocument();
+    });
+
+    it('should delete the new session when the welcome message fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.startsWith('/api/chat/sessions?')) {
+          return jsonResponse({ sessions: [] });
+        }
+        if (url === '/api/chat/sessions') {
+          return jsonResponse({ session: { ...storedSession, messages: [] } }, 201);
+        }
+        if (url === `/api/chat/sessions/${storedSession.id}`) {
+          return Promise.resolve({ ok: true, status: 204 });
+        }
+        return jsonResponse({ error: 'Model unavailable' }, 503);
+      });
+
+      render(<ChatWidget {...defaultProps} />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/AI-generated welcome message is temporarily unavailable/)).toBeInTheDocument();
+      });
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(`/api/chat/sessions/${storedSession.id}`, { method: 'DELETE' });
+      });
+      expect(screen.queryByText('New chat')).not.toBeInTheDocument();
+
+      // Without a session the widget sends the whole conversation
+      fireEvent.change(screen.getByPlaceholderText('Type a message…'), { target: { value: 'Hello?' } });
+      fireEvent.click(screen.getByText('Send'));
+      await waitFor(() => {
+        expect((global.fetch as jest.Mock).mock.calls.filter(([url]) => url === '/api/chat')).toHaveLength(2);
+      });
+      const [, init] = (global.fetch as jest.Mock).mock.calls.filter(([url]) => url === '/api/chat')[1];
+      expect(JSON.parse(init.body)).not.toHaveProperty('sessionId');
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should start a new session when New chat is clicked', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.startsWith('/api/chat/sessions?')) {
+          return jsonResponse({ sessions: [{ ...storedSession, messages: undefined, messageCount: 3 }] });
+        }
+        if (url === `/api/chat/sessions/${storedSession.id}`) {
+          return jsonResponse({ session: storedSession });
+        }
+        if (url === '/api/chat/sessions') {
+          return jsonResponse({ session: { ...storedSession, id: '99999999-2222-4333-8444-555555555555', messages: [] } }, 201);
+        }
+        return jsonResponse({ structured: { content: 'Fresh welcome', responseType: 'welcome', suggestedQuestions: [] } });
+      });
+
+      render(<ChatWidget {...defaultProps} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Stored answer')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('New chat'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Fresh welcome')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Stored answer')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should show evidence quotes as footnotes that open the quoted page', async () => {
+    const pdfFrame = document.createElement('iframe');
+    pdfFrame.id = 'pdfFrame';
+    pdfFrame.src = 'https://mozilla.github.io/pdf.js/web/viewer.html?file=paper.pdf';
+    document.body.appendChild(pdfFrame);
+
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        structured: {
+          content: 'The Transformer uses only attention.',
+          responseType: 'welcome',
+          evidence: [
+            { quote: 'based solely on attention mechanisms', page: 1, claim: 'The Transformer uses only attention', verified: true },
+            { quote: 'dispensing with convolutions', page: 2, claim: 'It has no convolutions', verified: false }
+          ]
+        }
+      })
+    }));
+
+    render(<ChatWidget {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('The Transformer uses only attention')).toBeInTheDocument();
+    });
+    expect(screen.getByTitle('Could not find this quote on page 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Show on page 1'));
+
+    expect(pdfFrame.src).toBe(
+      'https://mozilla.github.io/pdf.js/web/viewer.html?file=paper.pdf#page=1&search=based%20solely%20on%20attention%20mechanisms&phrase=true'
+    );
+    pdfFrame.remove();
+  });
+
+  it('should send comparison papers and open the paper a quote comes from', async () => {
+    const pdfFrame = document.createElement('iframe');
+    pdfFrame.id = 'pdfFrame';
+    pdfFrame.src = 'https://mozilla.github.io/pdf.js/web/viewer.html?file=paper.pdf';
+    document.body.appendChild(pdfFrame);
+    const onOpenPaper = jest.fn();
+
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        structured: {
+          content: 'BERT builds on the Transformer.',
+          responseType: 'answer',
+          evidence: [
+            { quote: 'bidirectional encoder representations', page: 2, arxivId: '1810.04805', claim: 'BERT is bidirectional', verified: true }
+          ]
+        }
+      })
+    }));
+
+    render(<ChatWidget {...defaultProps} comparisonIds={['1810.04805']} onOpenPaper={onOpenPaper} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('(1810.04805 page 2)')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByTitle('Show on page 2'));
+
+    expect(onOpenPaper).toHaveBeenCalledWith('1810.04805');
+    expect(pdfFrame.src).toContain(encodeURIComponent('https://arxiv.org/pdf/1810.04805'));
+    expect(pdfFrame.src).toMatch(/#page=2&search=bidirectional%20encoder%20representations&phrase=true$/);
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message…'), { target: { value: 'How do they differ?' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      const questionCall = (global.fetch as jest.Mock).mock.calls.find(([url, init]) =>
+        url === '/api/chat' && JSON.parse(init.body).messages.some((msg: { content: string }) => msg.content === 'How do they differ?'));
+      expect(JSON.parse(questionCall[1].body).arxivIds).toEqual(['1706.03762', '1810.04805']);
+    });
+    pdfFrame.remove();
+  });
+
+  it('should label answers based on the abstract only', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        structured: { content: 'Answers will use the abstract.', responseType: 'welcome', abstractOnly: ['1706.03762'] }
+      })
+    }));
+
+    render(<ChatWidget {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/the PDF of 1706.03762 is not available/)).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CitePanel from '../CitePanel';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+
+const paper: ArxivSearchResult = {
+  id: '1810.04805',
+  title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+  authors: ['Jacob Devlin', 'Ming-Wei Chang'],
+  abstract: 'We introduce a new language representation model called BERT.',
+  published: '2018-10-11T00:50:01Z',
+  updated: '2019-05-24T20:37:26Z',
+  categories: ['cs.CL'],
+  pdfUrl: 'https://arxiv.org/pdf/1810.04805',
+  abstractUrl: 'https://arxiv.org/abs/1810.04805',
+  doi: '10.18653/v1/N19-1423',
+  journalRef: 'NAACL-HLT 2019, pages 4171-4186'
+};
+
+describe('CitePanel', () => {
+  const writeText = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+  });
+
+  it('should show the citation in the chosen style', () => {
+    render(<CitePanel paper={paper} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+    expect(screen.getByText(/^@article\{devlin2018bert,/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'IEEE' }));
+    expect(screen.getByRole('button', { name: 'IEEE' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText(/^J\. Devlin and M\.-W\. Chang, "BERT/)).toHaveTextContent('doi: 10.18653/v1/N19-1423.');
+  });
+
+  it('should copy the citation with one click', async () => {
+    jest.useFakeTimers();
+    writeText.mockResolvedValue(undefined);
+    render(<CitePanel paper={paper} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+    fireEvent.click(screen.getByRole('button', { name: 'APA' }));
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+    });
+
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^Devlin, J\., & Chang, M\.-W\. \(2018\)/));
+    expect(screen.getByRole('button', { name: 'Copied' })).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(screen.getByRole('button', { name: 'Copy' })).toBeInTheDocument();
+    jest.useRealTimers();
+  });
+
+  it('should say when copying fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    writeText.mockRejectedValue(new Error('Not allowed'));
+    render(<CitePanel paper={paper} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not copy');
+  });
+
+  it('should wait for the paper details', () => {
+    render(<CitePanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+
+    expect(screen.getByText("Loading the paper's details…")).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Copy' })).not.toBeInTheDocument();
+  });
+
+  it('should offer a retry when the paper details could not load', () => {
+    const onRetry = jest.fn();
+    render(<CitePanel loadFailed onRetry={onRetry} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cite' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not load the citation details');
+    expect(screen.queryByText("Loading the paper's details…")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,101 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SaveToLibrary from '../SaveToLibrary';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { createCollection, listLibraryPapers } from '@/utils/library';
+import { MemoryLibraryStore, setLibraryStore } from '@/utils/libraryStore';
+
+const paper: ArxivSearchResult = {
+  id: '1706.03762',
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani'],
+  abstract: 'The dominant sequence transduction models are based on recurrent networks.',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.CL'],
+  pdfUrl: 'https://arxiv.org/pdf/1706.03762',
+  abstractUrl: 'https://arxiv.org/abs/1706.03762'
+};
+
+// The button is enabled once the library has been read
+const findSaveButton = async () => {
+  const button = await screen.findByRole('button', { name: 'Save to library' });
+  await waitFor(() => expect(button).toBeEnabled());
+  return button;
+};
+
+describe('SaveToLibrary', () => {
+  beforeEach(() => {
+    setLibraryStore(new MemoryLibraryStore());
+  });
+
+  afterAll(() => {
+    setLibraryStore(null);
+  });
+
+  it('should save the paper and file it into collections', async () => {
+    const collection = await createCollection('Transformers');
+    render(<SaveToLibrary paper={paper} arxivId="1706.03762v5" />);
+
+    fireEvent.click(await findSaveButton());
+    expect(await screen.findByRole('button', { name: 'Saved ✓' })).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Transformers' }));
+    await waitFor(() => expect(screen.getByRole('checkbox', { name: 'Transformers' })).toBeChecked());
+
+    const [saved] = await listLibraryPapers();
+    expect(saved).toMatchObject({ arxivId: '1706.03762v5', collectionIds: [collection.id] });
+  });
+
+  it('should create a collection with the paper in it', async () => {
+    render(<SaveToLibrary paper={paper} />);
+
+    fireEvent.click(await findSaveButton());
+    fireEvent.change(await screen.findByRole('textbox', { name: 'New collection name' }), { target: { value: 'Reading group' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(await screen.findByRole('checkbox', { name: 'Reading group' })).toBeChecked();
+  });
+
+  it('should show why a collection could not be created', async () => {
+    await createCollection('Reading group');
+    render(<SaveToLibrary paper={paper} />);
+
+    fireEvent.click(await findSaveButton());
+    fireEvent.change(await screen.findByRole('textbox', { name: 'New collection name' }), { target: { value: 'reading group' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('A collection named "reading group" already exists');
+  });
+
+  it('should remove the paper from the library', async () => {
+    render(<SaveToLibrary paper={paper} />);
+
+    fireEvent.click(await findSaveButton());
+    fireEvent.click(await screen.findByRole('button', { name: 'Remove from library' }));
+
+    expect(await screen.findByRole('button', { name: 'Save to library' })).toBeInTheDocument();
+    expect(await listLibraryPapers()).toEqual([]);
+  });
+
+  it('should read the library once per change however many buttons are shown', async () => {
+    const store = new MemoryLibraryStore();
+    setLibraryStore(store);
+    const listPapers = jest.spyOn(store, 'listPapers');
+    render(
+      <>
+        <SaveToLibrary paper={paper} />
+        <SaveToLibrary paper={{ ...paper, id: '1810.04805' }} />
+        <SaveToLibrary paper={{ ...paper, id: '2006.11239' }} />
+      </>
+    );
+    await waitFor(() => expect(screen.getAllByRole('button', { name: 'Save to library' })[0]).toBeEnabled());
+    expect(listPapers).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Save to library' })[0]!);
+    expect(await screen.findByRole('button', { name: 'Saved ✓' })).toBeInTheDocument();
+    // One read for the page, one after the save
+    expect(listPapers).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import VersionSwitcher from '../VersionSwitcher';
+
+global.fetch = jest.fn();
+
+const mockVersionsResponse = (versions: { version: number; submitted: string | null }[]) => {
+  (global.fetch as jest.Mock).mockResolvedValue({
+    ok: true,
+    json: async () => ({ arxivId: '1706.03762', versions })
+  });
+};
+
+describe('VersionSwitcher', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list every version with its date and select the one shown', async () => {
+    mockVersionsResponse([
+      { version: 1, submitted: '2017-06-12T17:57:34Z' },
+      { version: 2, submitted: null }
+    ]);
+
+    render(<VersionSwitcher arxivId="1706.03762" version={1} onSelect={jest.fn()} />);
+
+    const select = await screen.findByLabelText('Version') as HTMLSelectElement;
+    expect(global.fetch).toHaveBeenCalledWith('/api/versions?id=1706.03762');
+    expect(Array.from(select.options).map(option => option.textContent)).toEqual([
+      'Latest (v2)',
+      'v1 – Jun 12, 2017',
+      'v2'
+    ]);
+    expect(select.value).toBe('1');
+    expect(screen.queryByText('What changed?')).not.toBeInTheDocument();
+  });
+
+  it('should link to the changes in the version shown', async () => {
+    mockVersionsResponse([
+      { version: 1, submitted: '2017-06-12T17:57:34Z' },
+      { version: 2, submitted: '2017-06-19T17:04:19Z' },
+      { version: 3, submitted: '2017-12-06T03:30:32Z' }
+    ]);
+
+    render(<VersionSwitcher arxivId="1706.03762" version={null} onSelect={jest.fn()} />);
+
+    expect(await screen.findByText('What changed?')).toHaveAttribute('href', '/diff/1706.03762?from=v2&to=v3');
+  });
+
+  it('should report the selected version, or null for the latest', async () => {
+    const onSelect = jest.fn();
+    mockVersionsResponse([
+      { version: 1, submitted: '2017-06-12T17:57:34Z' },
+      { version: 2, submitted: '2017-06-19T17:04:19Z' }
+    ]);
+
+    render(<VersionSwitcher arxivId="1706.03762" version={null} onSelect={onSelect} />);
+
+    const select = await screen.findByLabelText('Version');
+    fireEvent.change(select, { target: { value: '1' } });
+    fireEvent.change(select, { target: { value: '' } });
+
+    expect(onSelect.mock.calls).toEqual([[1], [null]]);
+  });
+
+  it('should render nothing for single-version papers or when versions fail to load', async () => {
+    mockVersionsResponse([{ version: 1, submitted: '2017-06-12T17:57:34Z' }]);
+    const { container, rerender } = render(<VersionSwitcher arxivId="1706.03762" version={null} onSelect={jest.fn()} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    expect(container).toBeEmptyDOMElement();
+
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 502 });
+    rerender(<VersionSwitcher arxivId="2301.00001" version={null} onSelect={jest.fn()} />);
+    await waitFor(() => expect(consoleSpy).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+    consoleSpy.mockRestore();
+  });
+});
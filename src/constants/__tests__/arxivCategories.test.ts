@@ -0,0 +1,50 @@
+import {
+  filterArxivCategories,
+  getArxivArchive,
+  getArxivCategories,
+  getArxivCategory,
+  getArxivTaxonomy,
+  isArxivCategory
+} from '../arxivCategories';
+
+describe('arxivCategories', () => {
+  it('should cover every group with unique category codes', () => {
+    expect(getArxivTaxonomy().map(group => group.code)).toEqual(['cs', 'econ', 'eess', 'math', 'physics', 'q-bio', 'q-fin', 'stat']);
+
+    const codes = getArxivCategories().map(category => category.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes).toEqual(expect.arrayContaining(['cs.LG', 'quant-ph', 'cond-mat.str-el', 'astro-ph.CO', 'eess.SP', 'stat.ML']));
+    expect(codes).not.toContain('physics.quant-ph');
+    expect(codes).not.toContain('physics.cond-mat');
+  });
+
+  it('should link categories to their archive and group', () => {
+    expect(getArxivCategory('cond-mat.soft')).toMatchObject({ name: 'Soft Condensed Matter', archive: 'cond-mat', group: 'physics' });
+    expect(getArxivArchive('cond-mat')?.categories).toHaveLength(9);
+  });
+
+  it('should treat archives without subject classes as a single category', () => {
+    expect(getArxivArchive('hep-th')?.categories).toEqual([getArxivCategory('hep-th')]);
+    expect(getArxivCategory('hep-th')?.description).not.toBe('');
+  });
+
+  it('should resolve legacy archives to the category that replaced them', () => {
+    expect(getArxivCategory('alg-geom')?.code).toBe('math.AG');
+    expect(getArxivCategory('nonsense')).toBeNull();
+    expect(getArxivCategory('constructor')).toBeNull();
+  });
+
+  it('should accept categories and archives as search codes', () => {
+    expect(isArxivCategory('cs.LG')).toBe(true);
+    expect(isArxivCategory('astro-ph')).toBe(true);
+    expect(isArxivCategory('cmp-lg')).toBe(true);
+    expect(isArxivCategory('physics.quant-ph')).toBe(false);
+    expect(isArxivCategory('cs.lg')).toBe(false);
+  });
+
+  it('should filter by code, name and description', () => {
+    expect(filterArxivCategories('quantum gas').map(category => category.code)).toEqual(['cond-mat.quant-gas']);
+    expect(filterArxivCategories('CS.ro').map(category => category.code)).toEqual(['cs.RO']);
+    expect(filterArxivCategories('  ')).toHaveLength(getArxivCategories().length);
+  });
+});
@@ -1,31 +1,501 @@
+/**
+ * arXiv category taxonomy: groups (e.g. Physics) contain archives (e.g.
+ * cond-mat), which contain the subject classes papers are filed under
+ * (e.g. cond-mat.soft). Archives without subject classes, such as hep-th,
+ * are their own single category.
+ *
+ * Source: https://arxiv.org/category_taxonomy
+ */
+
 export interface ArxivCategory {
+  /** Category code, e.g. "cs.LG" or "hep-th" */
+  code: string;
+  name: string;
+  description: string;
+  /** Archive code, e.g. "cs" */
+  archive: string;
+  /** Group code, e.g. "physics" */
+  group: string;
+}
+
+export interface ArxivArchive {
+  code: string;
+  name: string;
+  group: string;
+  /** What an expert in the archive focuses on, used for the chat persona */
+  expertise: string;
+  /** Who the chat persona is, when "<name> professor" doesn't read well */
+  role?: string | undefined;
+  categories: ArxivCategory[];
+}
+
+export interface ArxivGroup {
+  code: string;
+  name: string;
+  archives: ArxivArchive[];
+}
+
+interface ArchiveDefinition {
+  code: string;
+  name: string;
+  expertise: string;
+  role?: string;
+  // Subject classes as [code, name, description]; empty for single-category archives
+  categories: [string, string, string][];
+  description?: string;
+}
+
+interface GroupDefinition {
   code: string;
   name: string;
+  archives: ArchiveDefinition[];
 }
 
-const ARXIV_CATEGORIES: ArxivCategory[] = [
-  { code: 'cs.AI', name: 'Artificial Intelligence' },
-  { code: 'cs.CL', name: 'Computation and Language' },
-  { code: 'cs.CV', name: 'Computer Vision and Pattern Recognition' },
-  { code: 'cs.LG', name: 'Machine Learning' },
-  { code: 'cs.NE', name: 'Neural and Evolutionary Computing' },
-  { code: 'cs.RO', name: 'Robotics' },
-  { code: 'math.AG', name: 'Algebraic Geometry' },
-  { code: 'math.AT', name: 'Algebraic Topology' },
-  { code: 'math.CO', name: 'Combinatorics' },
-  { code: 'math.NT', name: 'Number Theory' },
-  { code: 'math.ST', name: 'Statistics Theory' },
-  { code: 'physics.quant-ph', name: 'Quantum Physics' },
-  { code: 'physics.cond-mat', name: 'Condensed Matter' },
-  { code: 'astro-ph', name: 'Astrophysics' },
-  { code: 'hep-th', name: 'High Energy Physics - Theory' },
-  { code: 'q-bio', name: 'Quantitative Biology' },
-  { code: 'q-fin', name: 'Quantitative Finance' },
-  { code: 'stat.ML', name: 'Machine Learning (Statistics)' },
-  { code: 'stat.AP', name: 'Applications' },
-  { code: 'econ.EM', name: 'Econometrics' }
+const TAXONOMY: GroupDefinition[] = [
+  {
+    code: 'cs',
+    name: 'Computer Science',
+    archives: [
+      {
+        code: 'cs',
+        name: 'Computer Science',
+        expertise: 'algorithms, computational methods, software engineering principles, and theoretical computer science concepts.',
+        categories: [
+          ['cs.AI', 'Artificial Intelligence', 'All areas of AI except vision, robotics, machine learning, multiagent systems, and computation and language.'],
+          ['cs.AR', 'Hardware Architecture', 'Systems organization and hardware architecture.'],
+          ['cs.CC', 'Computational Complexity', 'Models of computation, complexity classes, structural complexity, and complexity tradeoffs.'],
+          ['cs.CE', 'Computational Engineering, Finance, and Science', 'Applications of computer science to the mathematical modeling of complex systems in science, engineering, and finance.'],
+          ['cs.CG', 'Computational Geometry', 'Geometric algorithms, data structures, and applications.'],
+          ['cs.CL', 'Computation and Language', 'Natural language processing, computational linguistics, and speech and text understanding.'],
+          ['cs.CR', 'Cryptography and Security', 'Cryptography, authentication, public key cryptosystems, and security of systems and networks.'],
+          ['cs.CV', 'Computer Vision and Pattern Recognition', 'Image processing, computer vision, pattern recognition, and scene understanding.'],
+          ['cs.CY', 'Computers and Society', 'Impact of computers on society, computer ethics, information technology and public policy, and legal aspects of computing.'],
+          ['cs.DB', 'Databases', 'Database management, data mining, and data processing.'],
+          ['cs.DC', 'Distributed, Parallel, and Cluster Computing', 'Fault tolerance, distributed algorithms, stability, parallel computation, and cluster computing.'],
+          ['cs.DL', 'Digital Libraries', 'Design and analysis of algorithms and systems for digital libraries, and scholarly communication.'],
+          ['cs.DM', 'Discrete Mathematics', 'Combinatorics, graph theory, and applications of probability in computer science.'],
+          ['cs.DS', 'Data Structures and Algorithms', 'Data structures and the analysis of algorithms.'],
+          ['cs.ET', 'Emerging Technologies', 'Approaches to information processing beyond CMOS, such as quantum, optical, biological, and nanoscale computing.'],
+          ['cs.FL', 'Formal Languages and Automata Theory', 'Automata theory, formal language theory, grammars, and combinatorics on words.'],
+          ['cs.GL', 'General Literature', 'Introductory material, survey material, predictions of future trends, biographies, and miscellaneous computer-science material.'],
+          ['cs.GR', 'Graphics', 'All aspects of computer graphics.'],
+          ['cs.GT', 'Computer Science and Game Theory', 'Theoretical and applied aspects at the intersection of computer science and game theory, including mechanism design.'],
+          ['cs.HC', 'Human-Computer Interaction', 'Human factors, user interfaces, and collaborative computing.'],
+          ['cs.IR', 'Information Retrieval', 'Indexing, dictionaries, retrieval, content and analysis.'],
+          ['cs.IT', 'Information Theory', 'Theoretical and experimental aspects of information theory and coding.'],
+          ['cs.LG', 'Machine Learning', 'All aspects of machine learning research, including supervised, unsupervised, and reinforcement learning.'],
+          ['cs.LO', 'Logic in Computer Science', 'Finite model theory, logics of programs, modal logic, and program verification.'],
+          ['cs.MA', 'Multiagent Systems', 'Multiagent systems, distributed artificial intelligence, intelligent agents, and coordinated interactions.'],
+          ['cs.MM', 'Multimedia', 'Multimedia information systems, audio, video, and interactive media.'],
+          ['cs.MS', 'Mathematical Software', 'Software for mathematical computation and its design.'],
+          ['cs.NA', 'Numerical Analysis', 'Numerical algorithms for problems in analysis and algebra, and scientific computation.'],
+          ['cs.NE', 'Neural and Evolutionary Computing', 'Neural networks, connectionism, genetic algorithms, artificial life, and adaptive behavior.'],
+          ['cs.NI', 'Networking and Internet Architecture', 'Network architecture and design, network protocols, and internetworking.'],
+          ['cs.OH', 'Other Computer Science', 'Computer science material that does not fit any other category.'],
+          ['cs.OS', 'Operating Systems', 'Operating systems, process management, memory management, and file systems.'],
+          ['cs.PF', 'Performance', 'Performance measurement and evaluation, queueing, and simulation.'],
+          ['cs.PL', 'Programming Languages', 'Programming language semantics, language features, programming approaches, and compilers.'],
+          ['cs.RO', 'Robotics', 'Robot design, control, perception, and planning.'],
+          ['cs.SC', 'Symbolic Computation', 'Software, algorithms, and applications of symbolic and algebraic manipulation.'],
+          ['cs.SD', 'Sound', 'Computing with sound and music: audio analysis, synthesis, and music information retrieval.'],
+          ['cs.SE', 'Software Engineering', 'Design tools, software metrics, testing and debugging, and programming environments.'],
+          ['cs.SI', 'Social and Information Networks', 'Design, analysis, and modeling of social and information networks.'],
+          ['cs.SY', 'Systems and Control', 'Automatic control systems, modeling, simulation, and optimization of controlled systems.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'econ',
+    name: 'Economics',
+    archives: [
+      {
+        code: 'econ',
+        name: 'Economics',
+        expertise: 'economic models, identification and estimation strategies, empirical evidence, and policy implications.',
+        categories: [
+          ['econ.EM', 'Econometrics', 'Econometric theory and its applications to economic data.'],
+          ['econ.GN', 'General Economics', 'General methodological, applied, and empirical contributions to economics.'],
+          ['econ.TH', 'Theoretical Economics', 'Contract theory, decision theory, game theory, general equilibrium, and mechanism design.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'eess',
+    name: 'Electrical Engineering and Systems Science',
+    archives: [
+      {
+        code: 'eess',
+        name: 'Electrical Engineering and Systems Science',
+        expertise: 'signal processing, system models, control design, and the engineering trade-offs behind them.',
+        categories: [
+          ['eess.AS', 'Audio and Speech Processing', 'Theory and methods for processing signals representing audio, speech, and language.'],
+          ['eess.IV', 'Image and Video Processing', 'Theory, algorithms, and architectures for the formation, capture, processing, and analysis of images and video.'],
+          ['eess.SP', 'Signal Processing', 'Theory, algorithms, performance analysis, and applications of signal and data analysis.'],
+          ['eess.SY', 'Systems and Control', 'Theoretical and experimental research covering all facets of automatic control systems.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'math',
+    name: 'Mathematics',
+    archives: [
+      {
+        code: 'math',
+        name: 'Mathematics',
+        expertise: 'mathematical proofs, theorems, equations, and mathematical reasoning.',
+        categories: [
+          ['math.AC', 'Commutative Algebra', 'Commutative rings, modules, ideals, homological algebra, and computational aspects.'],
+          ['math.AG', 'Algebraic Geometry', 'Algebraic varieties, stacks, sheaves, schemes, moduli spaces, and complex geometry.'],
+          ['math.AP', 'Analysis of PDEs', 'Existence and uniqueness, boundary conditions, and linear and non-linear operators for partial differential equations.'],
+          ['math.AT', 'Algebraic Topology', 'Homotopy theory, homological algebra, and algebraic treatments of manifolds.'],
+          ['math.CA', 'Classical Analysis and ODEs', 'Special functions, orthogonal polynomials, harmonic analysis, ODEs, and real functions.'],
+          ['math.CO', 'Combinatorics', 'Discrete mathematics, graph theory, enumeration, and combinatorial optimization.'],
+          ['math.CT', 'Category Theory', 'Enriched categories, topoi, abelian categories, monoidal categories, and homological algebra.'],
+          ['math.CV', 'Complex Variables', 'Holomorphic functions, automorphic group actions and forms, and pseudoconvexity.'],
+          ['math.DG', 'Differential Geometry', 'Complex, contact, Riemannian, pseudo-Riemannian and Finsler geometry, and relativity.'],
+          ['math.DS', 'Dynamical Systems', 'Dynamics of differential equations and flows, mechanics, ergodic theory, and chaos.'],
+          ['math.FA', 'Functional Analysis', 'Banach spaces, function spaces, real functions, integral transforms, and distributions.'],
+          ['math.GM', 'General Mathematics', 'Mathematical material of general interest and topics not covered elsewhere.'],
+          ['math.GN', 'General Topology', 'Continuum theory, point-set topology, spaces with algebraic structure, and foundations.'],
+          ['math.GR', 'Group Theory', 'Finite groups, topological groups, representation theory, cohomology, and classification.'],
+          ['math.GT', 'Geometric Topology', 'Manifolds, orbifolds, polyhedra, cell complexes, foliations, and geometric structures.'],
+          ['math.HO', 'History and Overview', 'Biographies, philosophy of mathematics, mathematics education, and recreational mathematics.'],
+          ['math.IT', 'Information Theory', 'Theoretical and experimental aspects of information theory and coding.'],
+          ['math.KT', 'K-Theory and Homology', 'Algebraic and topological K-theory, relations with topology, and commutative algebra.'],
+          ['math.LO', 'Logic', 'Logic, set theory, point-set topology, and formal mathematics.'],
+          ['math.MG', 'Metric Geometry', 'Euclidean, hyperbolic, discrete, convex, and coarse geometry, and comparisons in Riemannian geometry.'],
+          ['math.MP', 'Mathematical Physics', 'Applications of mathematics to problems in physics and the mathematical methods they require.'],
+          ['math.NA', 'Numerical Analysis', 'Numerical algorithms for problems in analysis and algebra, and scientific computation.'],
+          ['math.NT', 'Number Theory', 'Prime numbers, diophantine equations, analytic number theory, and algebraic number theory.'],
+          ['math.OA', 'Operator Algebras', 'Algebras of operators on Hilbert space, C*-algebras, von Neumann algebras, and non-commutative geometry.'],
+          ['math.OC', 'Optimization and Control', 'Operations research, linear programming, control theory, systems theory, and optimal control.'],
+          ['math.PR', 'Probability', 'Theory and applications of probability and stochastic processes.'],
+          ['math.QA', 'Quantum Algebra', 'Quantum groups, skein theories, operadic and diagrammatic algebra, and quantum field theory.'],
+          ['math.RA', 'Rings and Algebras', 'Non-commutative rings and algebras, non-associative algebras, and universal algebra.'],
+          ['math.RT', 'Representation Theory', 'Linear representations of algebras and groups, Lie theory, and associative algebras.'],
+          ['math.SG', 'Symplectic Geometry', 'Hamiltonian systems, symplectic flows, and classical integrable systems.'],
+          ['math.SP', 'Spectral Theory', 'Schrodinger operators, operators on manifolds, and general differential and integral operators.'],
+          ['math.ST', 'Statistics Theory', 'Applied, computational and theoretical statistics, including inference and decision theory.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'physics',
+    name: 'Physics',
+    archives: [
+      {
+        code: 'astro-ph',
+        name: 'Astrophysics',
+        expertise: 'astronomical observations, cosmological models, stellar physics, and observational data.',
+        categories: [
+          ['astro-ph.CO', 'Cosmology and Nongalactic Astrophysics', 'Phenomenology of early universe, cosmic microwave background, dark matter, and large-scale structure.'],
+          ['astro-ph.EP', 'Earth and Planetary Astrophysics', 'Interplanetary medium, planetary physics, extrasolar planets, and the formation of the solar system.'],
+          ['astro-ph.GA', 'Astrophysics of Galaxies', 'Phenomena pertaining to galaxies or the Milky Way, including star clusters and the interstellar medium.'],
+          ['astro-ph.HE', 'High Energy Astrophysical Phenomena', 'Cosmic ray production, gamma ray astronomy, supernovae, neutron stars, and black holes.'],
+          ['astro-ph.IM', 'Instrumentation and Methods for Astrophysics', 'Detector and telescope design, experiment proposals, and methods for data analysis.'],
+          ['astro-ph.SR', 'Solar and Stellar Astrophysics', 'White dwarfs, brown dwarfs, stellar evolution, the Sun, and stellar populations.']
+        ]
+      },
+      {
+        code: 'cond-mat',
+        name: 'Condensed Matter',
+        expertise: 'material properties, phase transitions, quantum many-body systems, and experimental techniques.',
+        categories: [
+          ['cond-mat.dis-nn', 'Disordered Systems and Neural Networks', 'Glasses and spin glasses, random and disordered systems, and neural networks.'],
+          ['cond-mat.mes-hall', 'Mesoscale and Nanoscale Physics', 'Semiconducting nanostructures, quantum dots, wires and wells, and the quantum Hall effect.'],
+          ['cond-mat.mtrl-sci', 'Materials Science', 'Techniques, synthesis, characterization, structure, and mechanical properties of materials.'],
+          ['cond-mat.other', 'Other Condensed Matter', 'Work in condensed matter that does not fit into the other cond-mat classifications.'],
+          ['cond-mat.quant-gas', 'Quantum Gases', 'Ultracold atomic and molecular gases, Bose-Einstein condensation, and optical lattices.'],
+          ['cond-mat.soft', 'Soft Condensed Matter', 'Membranes, polymers, liquid crystals, glasses, colloids, and granular matter.'],
+          ['cond-mat.stat-mech', 'Statistical Mechanics', 'Phase transitions, thermodynamics, field theory, and non-equilibrium phenomena.'],
+          ['cond-mat.str-el', 'Strongly Correlated Electrons', 'Quantum magnetism, non-Fermi liquids, spin liquids, and quantum criticality.'],
+          ['cond-mat.supr-con', 'Superconductivity', 'Superconductivity: theory, models, experiment, and superflow in helium.']
+        ]
+      },
+      {
+        code: 'gr-qc',
+        name: 'General Relativity and Quantum Cosmology',
+        expertise: 'spacetime geometry, gravitational theory, and cosmological models.',
+        categories: [],
+        description: 'Gravitational physics, including experiments, gravitational waves, and quantum gravity.'
+      },
+      {
+        code: 'hep-ex',
+        name: 'High Energy Physics - Experiment',
+        role: 'High Energy Physics (Experimental) professor',
+        expertise: 'particle detector data, experimental methods, statistical analysis, and particle interactions.',
+        categories: [],
+        description: 'Results from high-energy and particle physics experiments and their analysis.'
+      },
+      {
+        code: 'hep-lat',
+        name: 'High Energy Physics - Lattice',
+        role: 'High Energy Physics (Lattice) professor',
+        expertise: 'lattice field theory, numerical simulations, and computational methods in particle physics.',
+        categories: [],
+        description: 'Lattice field theory, phenomenology from lattice calculations, and algorithms for lattice simulations.'
+      },
+      {
+        code: 'hep-ph',
+        name: 'High Energy Physics - Phenomenology',
+        role: 'High Energy Physics (Phenomenology) professor',
+        expertise: 'theoretical predictions, particle physics models, and experimental implications.',
+        categories: [],
+        description: 'Theoretical particle physics and its interrelation with experiment.'
+      },
+      {
+        code: 'hep-th',
+        name: 'High Energy Physics - Theory',
+        role: 'High Energy Physics (Theory) professor',
+        expertise: 'quantum field theory, string theory, and fundamental theoretical frameworks.',
+        categories: [],
+        description: 'Formal aspects of quantum field theory, string theory, and supersymmetry.'
+      },
+      {
+        code: 'math-ph',
+        name: 'Mathematical Physics',
+        expertise: 'the mathematical formalism, physical interpretations, and theoretical frameworks.',
+        categories: [],
+        description: 'Applications of mathematics to problems in physics and the mathematical methods they require.'
+      },
+      {
+        code: 'nlin',
+        name: 'Nonlinear Sciences',
+        expertise: 'nonlinear dynamics, chaos, pattern formation, and integrable systems.',
+        categories: [
+          ['nlin.AO', 'Adaptation and Self-Organizing Systems', 'Adaptation, self-organization, and emergent behavior in complex systems.'],
+          ['nlin.CD', 'Chaotic Dynamics', 'Dynamical systems, chaos, quantum chaos, and turbulence.'],
+          ['nlin.CG', 'Cellular Automata and Lattice Gases', 'Computational methods, time series analysis, and signal processing with cellular automata and lattice gases.'],
+          ['nlin.PS', 'Pattern Formation and Solitons', 'Pattern formation, coherent structures, and solitons.'],
+          ['nlin.SI', 'Exactly Solvable and Integrable Systems', 'Exactly solvable systems, integrable PDEs and ODEs, and Painleve analysis.']
+        ]
+      },
+      {
+        code: 'nucl-ex',
+        name: 'Nuclear Experiment',
+        role: 'Nuclear Physics (Experimental) professor',
+        expertise: 'nuclear reactions, experimental techniques, and nuclear structure.',
+        categories: [],
+        description: 'Results from experimental nuclear physics, including nuclear structure and heavy-ion collisions.'
+      },
+      {
+        code: 'nucl-th',
+        name: 'Nuclear Theory',
+        role: 'Nuclear Physics (Theory) professor',
+        expertise: 'nuclear models, theoretical calculations, and nuclear structure theory.',
+        categories: [],
+        description: 'Theory of nuclear structure, nuclear reactions, and nuclear matter.'
+      },
+      {
+        code: 'physics',
+        name: 'Physics',
+        expertise: 'physical principles, experimental methods, and theoretical concepts.',
+        categories: [
+          ['physics.acc-ph', 'Accelerator Physics', 'Accelerator theory, simulation, technology, and experiments.'],
+          ['physics.ao-ph', 'Atmospheric and Oceanic Physics', 'Atmospheric and oceanic physics and chemistry, climate, and biogeochemical cycles.'],
+          ['physics.app-ph', 'Applied Physics', 'Applications of physics to new technology, including electronic devices, optics, and materials.'],
+          ['physics.atm-clus', 'Atomic and Molecular Clusters', 'Atomic and molecular clusters, nanoparticles, and their properties.'],
+          ['physics.atom-ph', 'Atomic Physics', 'Atomic and molecular structure, spectra, collisions, and interactions with light.'],
+          ['physics.bio-ph', 'Biological Physics', 'Molecular biophysics, cellular biophysics, neurophysics, and biological applications of physics.'],
+          ['physics.chem-ph', 'Chemical Physics', 'Experimental, computational, and theoretical physics of atoms, molecules, and clusters.'],
+          ['physics.class-ph', 'Classical Physics', 'Newtonian and relativistic dynamics, classical electromagnetism, and thermodynamics.'],
+          ['physics.comp-ph', 'Computational Physics', 'All aspects of computational science applied to physics.'],
+          ['physics.data-an', 'Data Analysis, Statistics and Probability', 'Methods, software, and hardware for physics data analysis.'],
+          ['physics.ed-ph', 'Physics Education', 'Report of results of research in physics education and teaching methods.'],
+          ['physics.flu-dyn', 'Fluid Dynamics', 'Turbulence, instabilities, incompressible and compressible flows, and multiphase flows.'],
+          ['physics.gen-ph', 'General Physics', 'Physics material that does not fit another archive.'],
+          ['physics.geo-ph', 'Geophysics', 'Atmospheric physics, biogeosciences, geomagnetism, hydrology, seismology, and tectonophysics.'],
+          ['physics.hist-ph', 'History and Philosophy of Physics', 'History and philosophy of all branches of physics.'],
+          ['physics.ins-det', 'Instrumentation and Detectors', 'Instrumentation and detectors for research in physics.'],
+          ['physics.med-ph', 'Medical Physics', 'Radiation therapy and dosimetry, biomedical imaging, and health physics.'],
+          ['physics.optics', 'Optics', 'Adaptive optics, nonlinear optics, photonics, lasers, and quantum optics.'],
+          ['physics.plasm-ph', 'Plasma Physics', 'Fundamental plasma physics, magnetically and inertially confined plasmas, and space plasmas.'],
+          ['physics.pop-ph', 'Popular Physics', 'Physics for a general audience.'],
+          ['physics.soc-ph', 'Physics and Society', 'Structure, dynamics, and collective behavior of societies and groups, and physics of social systems.'],
+          ['physics.space-ph', 'Space Physics', 'Space plasma physics, heliophysics, space weather, and planetary magnetospheres.']
+        ]
+      },
+      {
+        code: 'quant-ph',
+        name: 'Quantum Physics',
+        expertise: 'quantum mechanics, quantum information, quantum computing, and quantum phenomena.',
+        categories: [],
+        description: 'Quantum mechanics, quantum information, quantum computation, and quantum optics.'
+      }
+    ]
+  },
+  {
+    code: 'q-bio',
+    name: 'Quantitative Biology',
+    archives: [
+      {
+        code: 'q-bio',
+        name: 'Quantitative Biology',
+        expertise: 'biological modeling, computational biology, bioinformatics, and quantitative analysis of biological systems.',
+        categories: [
+          ['q-bio.BM', 'Biomolecules', 'DNA, RNA, proteins, lipids, and their structure, function, and dynamics.'],
+          ['q-bio.CB', 'Cell Behavior', 'Cell-cell signaling and interaction, morphogenesis, development, and cell division.'],
+          ['q-bio.GN', 'Genomics', 'DNA sequencing and assembly, gene finding, genome structure, and comparative genomics.'],
+          ['q-bio.MN', 'Molecular Networks', 'Gene regulation, signal transduction, proteomics, metabolomics, and metabolic networks.'],
+          ['q-bio.NC', 'Neurons and Cognition', 'Synapses, cortex, neuronal dynamics, neural networks, sensorimotor control, and cognition.'],
+          ['q-bio.OT', 'Other Quantitative Biology', 'Work in quantitative biology that does not fit the other q-bio classifications.'],
+          ['q-bio.PE', 'Populations and Evolution', 'Population dynamics, epidemiology, evolution, ecology, and population genetics.'],
+          ['q-bio.QM', 'Quantitative Methods', 'Experimental, numerical, statistical, and mathematical methods for biology.'],
+          ['q-bio.SC', 'Subcellular Processes', 'Assembly and control of subcellular structures, molecular motors, and transport.'],
+          ['q-bio.TO', 'Tissues and Organs', 'Blood flow, biomechanics of tissues, electrical waves, and the physiology of organs.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'q-fin',
+    name: 'Quantitative Finance',
+    archives: [
+      {
+        code: 'q-fin',
+        name: 'Quantitative Finance',
+        expertise: 'financial models, risk analysis, econometrics, and mathematical finance.',
+        categories: [
+          ['q-fin.CP', 'Computational Finance', 'Computational methods, including Monte Carlo, PDE, lattice, and other numerical methods with applications to finance.'],
+          ['q-fin.EC', 'Economics', 'Micro and macro economics, international economics, and the theory of the firm.'],
+          ['q-fin.GN', 'General Finance', 'Development of general quantitative methodologies with applications in finance.'],
+          ['q-fin.MF', 'Mathematical Finance', 'Mathematical and analytical methods of finance, including stochastic, probabilistic, and functional analysis.'],
+          ['q-fin.PM', 'Portfolio Management', 'Security selection and optimization, capital allocation, and investment strategies.'],
+          ['q-fin.PR', 'Pricing of Securities', 'Valuation and hedging of financial securities, their derivatives, and structured products.'],
+          ['q-fin.RM', 'Risk Management', 'Measurement and management of financial risks in trading, banking, insurance, and corporate settings.'],
+          ['q-fin.ST', 'Statistical Finance', 'Statistical, econometric, and econophysics analyses with applications to financial markets.'],
+          ['q-fin.TR', 'Trading and Market Microstructure', 'Market microstructure, liquidity, exchange and auction design, and automated trading.']
+        ]
+      }
+    ]
+  },
+  {
+    code: 'stat',
+    name: 'Statistics',
+    archives: [
+      {
+        code: 'stat',
+        name: 'Statistics',
+        expertise: 'statistical methods, data analysis, probability theory, and statistical inference.',
+        categories: [
+          ['stat.AP', 'Applications', 'Applications of statistics in biology, education, epidemiology, engineering, and the social sciences.'],
+          ['stat.CO', 'Computation', 'Algorithms, simulation, and visualization for statistics.'],
+          ['stat.ME', 'Methodology', 'Design, surveys, model selection, multiple testing, and other statistical methodology.'],
+          ['stat.ML', 'Machine Learning', 'Machine learning papers with a statistical or theoretical grounding.'],
+          ['stat.OT', 'Other Statistics', 'Work in statistics that does not fit the other stat classifications.'],
+          ['stat.TH', 'Statistics Theory', 'Asymptotics, Bayesian inference, decision theory, estimation, and testing.']
+        ]
+      }
+    ]
+  }
 ];
 
+// Archives arXiv has since folded into others; old-style IDs such as
+// alg-geom/9201001 still carry them
+const LEGACY_ARCHIVES = new Map<string, string>([
+  ['acc-phys', 'physics.acc-ph'],
+  ['adap-org', 'nlin.AO'],
+  ['alg-geom', 'math.AG'],
+  ['ao-sci', 'physics.ao-ph'],
+  ['atom-ph', 'physics.atom-ph'],
+  ['bayes-an', 'physics.data-an'],
+  ['chao-dyn', 'nlin.CD'],
+  ['chem-ph', 'physics.chem-ph'],
+  ['cmp-lg', 'cs.CL'],
+  ['comp-gas', 'nlin.CG'],
+  ['dg-ga', 'math.DG'],
+  ['funct-an', 'math.FA'],
+  ['mtrl-th', 'cond-mat.mtrl-sci'],
+  ['patt-sol', 'nlin.PS'],
+  ['plasm-ph', 'physics.plasm-ph'],
+  ['q-alg', 'math.QA'],
+  ['solv-int', 'nlin.SI'],
+  ['supr-con', 'cond-mat.supr-con']
+]);
+
+const ARXIV_GROUPS: ArxivGroup[] = TAXONOMY.map(group => ({
+  code: group.code,
+  name: group.name,
+  archives: group.archives.map(archive => ({
+    code: archive.code,
+    name: archive.name,
+    group: group.code,
+    expertise: archive.expertise,
+    ...(archive.role && { role: archive.role }),
+    categories: archive.categories.length > 0
+      ? archive.categories.map(([code, name, description]) => ({ code, name, description, archive: archive.code, group: group.code }))
+      : [{ code: archive.code, name: archive.name, description: archive.description ?? '', archive: archive.code, group: group.code }]
+  }))
+}));
+
+const ARXIV_ARCHIVES = new Map(ARXIV_GROUPS.flatMap(group => group.archives).map(archive => [archive.code, archive]));
+
+const ARXIV_CATEGORIES: ArxivCategory[] = Array.from(ARXIV_ARCHIVES.values()).flatMap(archive => archive.categories);
+
+const CATEGORIES_BY_CODE = new Map(ARXIV_CATEGORIES.map(category => [category.code, category]));
+
+/**
+ * Get the whole taxonomy
+ * @returns Groups with their archives and categories, in arXiv's order
+ */
+export function getArxivTaxonomy(): ArxivGroup[] {
+  return ARXIV_GROUPS;
+}
+
+/**
+ * Get every category papers can be filed under
+ * @returns Categories, grouped by archive in arXiv's order
+ */
 export function getArxivCategories(): ArxivCategory[] {
   return ARXIV_CATEGORIES;
 }
+
+/**
+ * Look up a category by code. Legacy archives resolve to the category that
+ * replaced them.
+ * @param code - Category code, e.g. "cs.LG", "hep-th" or "alg-geom"
+ * @returns Category, or null for unknown codes
+ */
+export function getArxivCategory(code: string): ArxivCategory | null {
+  return CATEGORIES_BY_CODE.get(code) ?? CATEGORIES_BY_CODE.get(LEGACY_ARCHIVES.get(code) ?? '') ?? null;
+}
+
+/**
+ * Look up an archive by code
+ * @param code - Archive code, e.g. "cond-mat"
+ * @returns Archive, or null for unknown codes
+ */
+export function getArxivArchive(code: string): ArxivArchive | null {
+  return ARXIV_ARCHIVES.get(code) ?? null;
+}
+
+/**
+ * Check whether a code can be searched for with cat:. Archive codes count,
+ * as papers from before an archive was split carry them as their category.
+ * @param code - Code to check, e.g. "cs.LG" or "astro-ph"
+ * @returns True if arXiv knows the code
+ */
+export function isArxivCategory(code: string): boolean {
+  return CATEGORIES_BY_CODE.has(code) || ARXIV_ARCHIVES.has(code) || LEGACY_ARCHIVES.has(code);
+}
+
+/**
+ * Find categories whose code, name or description contains every word of
+ * a filter
+ * @param text - Filter, e.g. "quantum gas"
+ * @returns Matching categories in taxonomy order; all of them for an empty filter
+ */
+export function filterArxivCategories(text: string): ArxivCategory[] {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return ARXIV_CATEGORIES;
+  }
+  return ARXIV_CATEGORIES.filter((category) => {
+    const haystack = `${category.code} ${category.name} ${category.description}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { readHistory, subscribeToHistory } from '@/utils/history';
+import { ChatQuestion, PaperVisit } from '@/types/history';
+
+interface HistoryState {
+  papers: PaperVisit[];
+  questions: ChatQuestion[];
+  // False until the history has been read from storage
+  loaded: boolean;
+}
+
+/**
+ * Read the reading and chat history and keep it current as papers are
+ * opened and questions asked. The history is read after the first render,
+ * so server and client render the same markup.
+ * @returns Papers (most recently opened first) and questions (most recent first)
+ */
+export function useHistory(): HistoryState {
+  const [state, setState] = useState<HistoryState>({ papers: [], questions: [], loaded: false });
+
+  useEffect(() => {
+    const load = (): void => {
+      setState({ ...readHistory(), loaded: true });
+    };
+
+    load();
+    return subscribeToHistory(load);
+  }, []);
+
+  return state;
+}
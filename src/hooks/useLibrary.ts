@@ -0,0 +1,70 @@
+import { useSyncExternalStore } from 'react';
+import { listCollections, listLibraryPapers, subscribeToLibrary } from '@/utils/library';
+import { LibraryCollection, LibraryPaper } from '@/types/library';
+
+interface LibraryState {
+  papers: LibraryPaper[];
+  collections: LibraryCollection[];
+  // False until the library has been read from storage
+  loaded: boolean;
+  error: string | null;
+}
+
+const INITIAL_STATE: LibraryState = { papers: [], collections: [], loaded: false, error: null };
+
+// One snapshot of the library shared by every component using the hook,
+// so a change is read from storage once rather than once per component
+let snapshot = INITIAL_STATE;
+const subscribers = new Set<() => void>();
+let unsubscribeFromLibrary: (() => void) | null = null;
+// Bumped on every read, so a slow read can't overwrite a newer one
+let generation = 0;
+
+function setSnapshot(next: LibraryState): void {
+  snapshot = next;
+  subscribers.forEach(subscriber => subscriber());
+}
+
+async function load(): Promise<void> {
+  const current = ++generation;
+  try {
+    const [papers, collections] = await Promise.all([listLibraryPapers(), listCollections()]);
+    if (current === generation) {
+      setSnapshot({ papers, collections, loaded: true, error: null });
+    }
+  } catch (error) {
+    console.error('Library: could not read saved papers', error);
+    if (current === generation) {
+      setSnapshot({ ...snapshot, loaded: true, error: 'Could not read your library from browser storage' });
+    }
+  }
+}
+
+function subscribe(subscriber: () => void): () => void {
+  subscribers.add(subscriber);
+  if (!unsubscribeFromLibrary) {
+    unsubscribeFromLibrary = subscribeToLibrary(load);
+    load();
+  }
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && unsubscribeFromLibrary) {
+      // Nobody is watching: forget the snapshot, and any read still in flight
+      unsubscribeFromLibrary();
+      unsubscribeFromLibrary = null;
+      generation++;
+      snapshot = INITIAL_STATE;
+    }
+  };
+}
+
+/**
+ * Read the personal library and keep it current as papers and collections
+ * are saved, changed or removed anywhere on the page. Every component using
+ * the hook shares one copy of the library.
+ * @returns Saved papers (most recently added first) and collections (by name)
+ */
+export function useLibrary(): LibraryState {
+  return useSyncExternalStore(subscribe, () => snapshot, () => INITIAL_STATE);
+}
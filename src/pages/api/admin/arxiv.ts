@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/utils/adminAuth';
+import { getArxivClient } from '@/utils/arxivClient';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const client = getArxivClient();
+
+  // DELETE drops cached arXiv responses, e.g. to pick up a fresh listing
+  if (req.method === 'DELETE') {
+    client.clearCache();
+  }
+
+  const stats = client.stats();
+  const lookups = stats.cacheHits + stats.cacheMisses;
+  return res.status(200).json({
+    ...stats,
+    cacheHitRate: lookups > 0 ? stats.cacheHits / lookups : null,
+    intervalMs: client.intervalMs,
+    cacheTtlMs: client.cacheTtlMs,
+    maxQueued: client.maxQueued
+  });
+}
@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/utils/adminAuth';
+import { getLLMConfigError, getLLMProvider } from '@/utils/llm';
+import { GeminiProvider } from '@/utils/llm/geminiProvider';
+import { PurgeScope } from '@/utils/llm/geminiFiles';
+import { getPaperCache } from '@/utils/paperCache';
+
+const PURGE_SCOPES: PurgeScope[] = ['stale', 'all'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const configError = getLLMConfigError();
+  if (configError) {
+    return res.status(500).json({ error: configError });
+  }
+
+  const provider = getLLMProvider();
+  if (!(provider instanceof GeminiProvider)) {
+    return res.status(400).json({ error: `File management is only available with the Gemini provider (current: ${provider.name})` });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const files = await provider.files.list();
+      const counts = files.reduce<Record<string, number>>((totals, file) => {
+        totals[file.status] = (totals[file.status] ?? 0) + 1;
+        return totals;
+      }, {});
+      return res.status(200).json({ files, counts, cache: await getPaperCache().stats() });
+    }
+
+    const { name, scope = 'stale' } = req.query;
+    let deleted: string[];
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.startsWith('files/')) {
+        return res.status(400).json({ error: 'name must be a single file name such as files/abc-123' });
+      }
+      await provider.files.delete(name);
+      deleted = [name];
+    } else {
+      if (typeof scope !== 'string' || !PURGE_SCOPES.includes(scope as PurgeScope)) {
+        return res.status(400).json({ error: `Invalid scope. Valid options are: ${PURGE_SCOPES.join(', ')}` });
+      }
+      deleted = await provider.files.purge(scope as PurgeScope);
+    }
+
+    // Cached handles to deleted files would otherwise be attached to chats
+    await getPaperCache().removeDocuments(provider.name, deleted);
+    return res.status(200).json({ deleted });
+  } catch (error) {
+    console.error('Admin files API: Gemini Files API error', error);
+    return res.status(502).json({
+      error: 'Failed to manage Gemini files',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
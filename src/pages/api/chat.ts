@@ -1,7 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GoogleGenAI, createUserContent, createPartFromUri, Type } from '@google/genai';
-import { StructuredChatResponse, ChatApiResponse } from '@/types/chat';
-import { parseArxivId, getArxivPdfUrl, getArxivFileName, getCategoryPromptContext, checkFileExists } from '@/utils/arxivUtils';
+import { StructuredChatResponse, ChatApiResponse, ChatStreamEvent } from '@/types/chat';
+import { ParsedArxivId, parseArxivId, getArxivFileName, getVersionedArxivId } from '@/utils/arxivUtils';
+import { getPaperCache } from '@/utils/paperCache';
+import { ArxivSearchResult, getArxivMetadata, getArxivPaper } from '@/utils/arxivSearch';
+import { hasPageReferences, verifyCitations, verifyEvidence } from '@/utils/citationVerification';
+import { downloadPaperPdf, getPaperPages } from '@/utils/paperPdf';
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatStreamEvent, extractPartialContent } from '@/utils/chatStream';
+import { getChatSessionStore, isValidSessionId, StoredChatSession } from '@/utils/chatSessions';
+import { isSessionOwner } from '@/utils/chatSessionOwner';
+import { buildPersona } from '@/utils/personas';
+import { DocumentHandle, GenerateRequest, JsonSchema, LLMMessage, LLMProvider, getLLMConfigError, getLLMProvider } from '@/utils/llm';
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -10,30 +18,69 @@ interface ChatMessage {
 
 interface ChatRequest {
   messages: ChatMessage[];
-  arxivId: string;
+  // Paper being discussed; defaults to the first of arxivIds
+  arxivId?: string;
+  // Every paper to attach, for questions across several papers
+  arxivIds?: string[];
+  stream?: boolean;
+  // When set, history is loaded from (and the new turn saved to) this session
+  sessionId?: string;
 }
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
+// What a paper's answers are grounded in: its PDF or, when arXiv has no PDF, its abstract and metadata
+type PaperSource =
+  | { arxivId: string; document: DocumentHandle }
+  | { arxivId: string; metadata: ArxivSearchResult };
+
+// Each attached PDF adds to every request, so comparisons are kept small
+const MAX_PAPERS = 5;
 
 // Define the JSON schema for structured responses
-const structuredResponseSchema = {
-  type: Type.OBJECT,
+const structuredResponseSchema: JsonSchema = {
+  type: 'object',
   properties: {
     content: {
-      type: Type.STRING,
+      type: 'string',
       description: 'Main response content in markdown format'
     },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          quote: {
+            type: 'string',
+            description: 'Short verbatim excerpt copied exactly from the paper'
+          },
+          page: {
+            type: 'integer',
+            description: 'PDF page the quote appears on'
+          },
+          arxivId: {
+            type: 'string',
+            description: 'arXiv ID of the paper the quote is from, when several papers are attached'
+          },
+          claim: {
+            type: 'string',
+            description: 'The claim in the content this quote supports'
+          }
+        },
+        required: ['quote', 'page', 'claim'],
+        propertyOrdering: ['quote', 'page', 'arxivId', 'claim']
+      },
+      description: 'Verbatim quotes from the paper that support the main claims of the content'
+    },
     suggestedQuestions: {
-      type: Type.ARRAY,
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
           text: {
-            type: Type.STRING,
+            type: 'string',
             description: 'The suggested question text'
           },
           description: {
-            type: Type.STRING,
+            type: 'string',
             description: 'Optional description of what this question explores'
           }
         },
@@ -43,13 +90,13 @@ const structuredResponseSchema = {
       description: 'Context-aware suggested questions based on current conversation'
     },
     responseType: {
-      type: Type.STRING,
+      type: 'string',
       enum: ['welcome', 'answer', 'clarification', 'error'],
       description: 'Type of response for UI handling'
     }
   },
   required: ['content', 'responseType'],
-  propertyOrdering: ['content', 'suggestedQuestions', 'responseType']
+  propertyOrdering: ['content', 'evidence', 'suggestedQuestions', 'responseType']
 };
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -57,156 +104,438 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    return res.status(500).json({ error: 'GEMINI_API_KEY is not configured' });
+  const configError = getLLMConfigError();
+  if (configError) {
+    return res.status(500).json({ error: configError });
   }
 
   try {
-    const { messages, arxivId }: ChatRequest = req.body;
+    const { messages, arxivId, arxivIds, stream, sessionId }: ChatRequest = req.body;
+    const provider = getLLMProvider();
     
-    if (!messages || !Array.isArray(messages) || !arxivId) {
+    if (!messages || !Array.isArray(messages) || (arxivIds !== undefined && !Array.isArray(arxivIds))) {
       return res.status(400).json({ error: 'Invalid request body' });
     }
 
-    // Parse and validate ArXiv ID
-    const parsed = parseArxivId(arxivId);
-    if (!parsed.isValid) {
-      return res.status(400).json({ error: `Invalid ArXiv ID format: ${arxivId}` });
+    const requestedIds = [...(arxivId ? [arxivId] : []), ...(arxivIds ?? [])];
+    if (requestedIds.length === 0) {
+      return res.status(400).json({ error: 'Invalid request body' });
     }
-    
-    // Download PDF and send content directly
-    const pdfUrl = getArxivPdfUrl(parsed.id);
 
+    // Parse and validate ArXiv IDs; the first one is the paper being discussed.
+    // Explicit versions are kept, so v1 and v2 of a paper are different papers
+    const papers: ParsedArxivId[] = [];
+    for (const requestedId of requestedIds) {
+      const parsedPaper = parseArxivId(requestedId);
+      if (!parsedPaper.isValid) {
+        return res.status(400).json({ error: `Invalid ArXiv ID format: ${requestedId}` });
+      }
+      if (!papers.some(paper => getVersionedArxivId(paper) === getVersionedArxivId(parsedPaper))) {
+        papers.push(parsedPaper);
+      }
+    }
+    if (papers.length > MAX_PAPERS) {
+      return res.status(400).json({ error: `Too many papers: at most ${MAX_PAPERS} can be discussed at once` });
+    }
+    const [parsed, ...comparisons] = papers as [ParsedArxivId, ...ParsedArxivId[]];
+    const primaryId = getVersionedArxivId(parsed);
+    
     // Get the last user message
     const lastUserMessage = messages[messages.length - 1];
     if (!lastUserMessage || lastUserMessage.role !== 'user') {
       return res.status(400).json({ error: 'Last message must be from user' });
     }
 
-    // Build conversation history for context
-    let conversationHistory = '';
-    if (messages.length > 1) {
-      conversationHistory = messages.slice(0, -1)
-        .map(msg => `${msg.role === 'user' ? 'Human' : 'Assistant'}: ${msg.content}`)
-        .join('\n\n');
-      conversationHistory += '\n\n---\n\n';
+    // Session clients only send the new question; history comes from storage
+    let session: StoredChatSession | null = null;
+    let conversation = messages;
+    if (sessionId !== undefined) {
+      if (!isValidSessionId(sessionId)) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+      }
+      session = await getChatSessionStore().get(sessionId);
+      if (!session || !isSessionOwner(session, req)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.arxivId !== primaryId) {
+        return res.status(400).json({ error: 'Session belongs to a different paper' });
+      }
+      conversation = session.messages
+        .filter(msg => msg.structured?.responseType !== 'welcome')
+        .map(msg => ({ role: msg.role, content: msg.content }))
+        .concat(lastUserMessage);
     }
 
-    // Determine if this is the first message (no conversation history)
-    const isFirstMessage = messages.length === 1;
-    
-    let contents;
-    let uploadedFile: { name?: string; uri?: string; mimeType?: string } | null = null;
-    
-    if (isFirstMessage) {
-      // Check if file already exists to avoid re-uploading
-      const baseFileName = getArxivFileName(parsed.id);
-      const fileExists = await checkFileExists(baseFileName);
-      
-      if (fileExists) {
-        // File already exists, find it in the list
-        const files = await genAI.files.list();
-        for await (const file of files) {
-          if (file.name?.startsWith(baseFileName) || file.displayName?.includes(baseFileName)) {
-            uploadedFile = file;
-            break;
-          }
+    const isFollowUp = conversation.length > 1;
+    // The synthetic welcome prompt is not part of the conversation worth saving
+    const savedQuestion = isWelcomeRequest(lastUserMessage.content, isFollowUp) ? null : lastUserMessage.content;
+
+    // Every turn is grounded in the PDFs (or abstracts), so resolve (or upload) them first
+    const sources: PaperSource[] = [];
+    for (const paper of papers) {
+      const paperId = getVersionedArxivId(paper);
+      const source = await resolvePaperSource(provider, paperId);
+      if (!source) {
+        if (paper !== parsed) {
+          return res.status(404).json({ error: `Paper not available: ${paperId}` });
         }
+        const unavailableResponse: StructuredChatResponse = {
+          content: `**PDF Not Available**\n\nThe PDF for this paper (${primaryId}) could not be downloaded, and its abstract and metadata could not be loaded from arXiv either, so there is nothing to base an answer on.\n\nYou can check the paper on [arXiv](https://arxiv.org/abs/${primaryId}).`,
+          responseType: 'error'
+        };
+        await saveSessionTurn(session, savedQuestion, unavailableResponse);
+        return res.status(200).json({ structured: unavailableResponse });
       }
-      
-      if (!uploadedFile) {
-        // Upload PDF to Gemini Files API
-        // Download PDF first
-        const pdfResponse = await fetch(pdfUrl);
-        if (!pdfResponse.ok) {
-          if (pdfResponse.status === 404) {
-            // PDF not available (withdrawn paper)
-            return res.status(200).json({
-              structured: {
-                content: `**PDF Not Available**\n\nThis paper (${parsed.id}) appears to be withdrawn or the PDF is not available for download. However, I can still help you discuss the paper based on its abstract and metadata.\n\nYou can view the abstract on [arXiv](https://arxiv.org/abs/${parsed.id}) to get more information about this paper.`,
-                suggestedQuestions: [
-                  {
-                    text: "What is this paper about based on its abstract?",
-                    description: "Get a summary of the paper's content"
-                  },
-                  {
-                    text: "What are the main contributions of this research?",
-                    description: "Understand the key findings"
-                  },
-                  {
-                    text: "What methodology was used in this study?",
-                    description: "Learn about the research approach"
-                  }
-                ],
-                responseType: 'welcome'
-              }
-            });
-          }
-          throw new Error(`Failed to download PDF: ${pdfResponse.status} ${pdfResponse.statusText}`);
-        }
-        
-        const pdfBuffer = await pdfResponse.arrayBuffer();
-        
-        // Validate that it's actually a PDF
-        const pdfHeader = Buffer.from(pdfBuffer.slice(0, 4)).toString();
-        
-        if (!pdfHeader.startsWith('%PDF')) {
-          throw new Error('Downloaded content is not a valid PDF file');
-        }
+      sources.push(source);
+    }
+    const abstractOnlyIds = sources.filter(source => 'metadata' in source).map(source => source.arxivId);
 
-        // Check file size
-        const fileSizeMB = pdfBuffer.byteLength / (1024 * 1024);
-        
-        if (fileSizeMB > 2000) { // Files API has higher limits
-          throw new Error(`PDF file too large (${fileSizeMB.toFixed(2)} MB). Maximum size is ~2GB`);
-        }
-        
-        // Upload PDF to Gemini Files API
-        const fileName = `${baseFileName}-${Date.now()}`;
-        const pdfBlob = new Blob([pdfBuffer], { type: 'application/pdf' });
-        uploadedFile = await genAI.files.upload({
-          file: pdfBlob,
-          config: {
-            mimeType: 'application/pdf',
-            name: fileName,
-            displayName: `arXiv-${parsed.id}.pdf`
-          }
-        });
+    const persona = await resolvePersona(parsed, sources[0] as PaperSource);
+    const promptText = buildPromptText(parsed, lastUserMessage.content, isFollowUp, comparisons, abstractOnlyIds, persona);
+    const contents = buildConversation(sources, conversation.slice(0, -1), promptText);
+
+    // Generate response using the configured provider
+    const generateRequest: GenerateRequest = {
+      messages: contents,
+      responseSchema: structuredResponseSchema
+    };
+
+    // Check page citations against the PDF before the answer is saved or returned
+    const finalizeResponse = async (generated: StructuredChatResponse) => {
+      const fullTextIds = sources.filter(source => 'document' in source).map(source => source.arxivId);
+      const structuredResponse = await verifyResponseCitations(
+        primaryId,
+        fullTextIds,
+        labelAbstractOnly(generated, primaryId, abstractOnlyIds)
+      );
+      await saveSessionTurn(session, savedQuestion, structuredResponse);
+      return structuredResponse;
+    };
+
+    if (stream === true) {
+      return streamStructuredResponse(res, provider, generateRequest, finalizeResponse);
+    }
+
+    const text = await provider.generate(generateRequest);
+
+    const structuredResponse = await finalizeResponse(parseStructuredResponse(text));
+
+    // Return both formats for backwards compatibility
+    const apiResponse: ChatApiResponse = {
+      response: structuredResponse.content, // Always use structured content now
+      structured: structuredResponse
+    };
+
+    res.status(200).json(apiResponse);
+
+  } catch (error) {
+    return res.status(500).json({ 
+      error: 'Failed to generate response',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      errorType: error?.constructor?.name || 'Unknown'
+    });
+  }
+}
+
+/**
+ * Find what a paper's answers can be grounded in: its PDF or, when arXiv has
+ * no PDF (e.g. withdrawn papers), its abstract and metadata
+ * @param provider - Provider the document is attached to
+ * @param arxivId - Normalized arXiv ID
+ * @returns Paper source, or null when neither is available
+ */
+async function resolvePaperSource(provider: LLMProvider, arxivId: string): Promise<PaperSource | null> {
+  const document = await resolvePaperDocument(provider, arxivId);
+  if (document) {
+    return { arxivId, document };
+  }
+
+  try {
+    const metadata = await getArxivPaper(arxivId);
+    return metadata ? { arxivId, metadata } : null;
+  } catch (error) {
+    console.warn(`Chat API: could not load metadata for ${arxivId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Build the assistant's persona from the primary and cross-listed categories
+ * of the paper being discussed. Papers attached as abstracts already carry
+ * their metadata; otherwise it is looked up, falling back to the archive of
+ * old-style IDs when arXiv can't be reached.
+ * @param parsed - Paper being discussed
+ * @param source - What the paper's answers are grounded in
+ * @returns Persona prompt fragment, or null when the categories are unknown
+ */
+async function resolvePersona(parsed: ParsedArxivId, source: PaperSource): Promise<string | null> {
+  const arxivId = getVersionedArxivId(parsed);
+  let metadata = 'metadata' in source ? source.metadata : undefined;
+  if (!metadata) {
+    try {
+      metadata = (await getArxivMetadata([arxivId])).get(arxivId);
+    } catch (error) {
+      console.warn(`Chat API: could not load categories for ${arxivId}`, error);
+    }
+  }
+
+  const categories = metadata ? [...(metadata.primaryCategory ? [metadata.primaryCategory] : []), ...metadata.categories] : [];
+  return buildPersona(categories.length > 0 ? categories : parsed.category ? [parsed.category] : []);
+}
+
+/**
+ * Format a paper's metadata and abstract as grounding text
+ * @param metadata - Paper from the arXiv API
+ * @returns Plain text block
+ */
+function formatPaperMetadata(metadata: ArxivSearchResult): string {
+  const fields: [string, string | undefined][] = [
+    ['Title', metadata.title],
+    ['Authors', metadata.authors.join(', ')],
+    ['Submitted', metadata.published],
+    ['Last updated', metadata.updated],
+    ['Categories', metadata.categories.join(', ')],
+    ['Comments', metadata.comment],
+    ['Journal reference', metadata.journalRef],
+    ['DOI', metadata.doi]
+  ];
+
+  return [
+    `arXiv ${metadata.id} (abstract and metadata only; the full text is not available):`,
+    ...fields.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`),
+    '',
+    'Abstract:',
+    metadata.abstract
+  ].join('\n');
+}
+
+/**
+ * Mark a response as based on abstracts where PDFs were unavailable. Evidence
+ * quotes can't be placed on pages of those papers, so they are dropped.
+ * @param structuredResponse - Generated response
+ * @param primaryId - Paper unlabelled evidence belongs to
+ * @param abstractOnlyIds - Papers without full text
+ * @returns Labelled response
+ */
+function labelAbstractOnly(
+  structuredResponse: StructuredChatResponse,
+  primaryId: string,
+  abstractOnlyIds: string[]
+): StructuredChatResponse {
+  if (abstractOnlyIds.length === 0) {
+    return structuredResponse;
+  }
+
+  const labelled: StructuredChatResponse = { ...structuredResponse, abstractOnly: abstractOnlyIds };
+  if (Array.isArray(structuredResponse.evidence)) {
+    labelled.evidence = structuredResponse.evidence.filter(item => !abstractOnlyIds.includes(item.arxivId ?? primaryId));
+  }
+  return labelled;
+}
+
+/**
+ * Find the paper's PDF with the provider, uploading it if needed. Document
+ * handles and PDFs come from the local paper cache when possible.
+ * @param provider - Provider the document is attached to
+ * @param arxivId - Normalized arXiv ID
+ * @returns Document handle, or null when arXiv has no PDF for the paper
+ */
+async function resolvePaperDocument(provider: LLMProvider, arxivId: string): Promise<DocumentHandle | null> {
+  const baseFileName = getArxivFileName(arxivId);
+  const cache = getPaperCache();
+
+  // Reuse an earlier upload to avoid re-uploading. Uploads are named
+  // `${baseFileName}-${timestamp}`; the dash keeps "arxiv-1706-03762" from
+  // matching uploads of "arxiv-1706-03762v2"
+  const existingFile = provider.hostsDocuments
+    ? await cache.getDocument(baseFileName, provider.name)
+    : await provider.findDocument(`${baseFileName}-`);
+  if (existingFile) {
+    return existingFile;
+  }
+
+  const pdfBuffer = await cache.getPdf(baseFileName) ?? await downloadPaperPdf(arxivId);
+  if (!pdfBuffer) {
+    return null;
+  }
+
+  // Upload PDF to the provider
+  const document = await provider.uploadDocument({
+    data: pdfBuffer,
+    mimeType: 'application/pdf',
+    name: `${baseFileName}-${Date.now()}`,
+    displayName: `arXiv-${arxivId}.pdf`
+  });
+
+  if (provider.hostsDocuments) {
+    await cache.setDocument(baseFileName, arxivId, provider.name, document);
+  }
+  return document;
+}
+
+/**
+ * Check each (page N) citation and evidence quote in a response against the
+ * cited page's text. Verification is best effort: when the PDF text is
+ * unavailable the response is returned unchanged.
+ * @param primaryId - Paper unlabelled references belong to
+ * @param arxivIds - Normalized arXiv IDs of the papers attached as PDFs
+ * @param structuredResponse - Generated response
+ * @returns Response with citations of nonexistent pages removed, per-citation confidence and checked evidence
+ */
+async function verifyResponseCitations(
+  primaryId: string,
+  arxivIds: string[],
+  structuredResponse: StructuredChatResponse
+): Promise<StructuredChatResponse> {
+  const evidence = Array.isArray(structuredResponse.evidence) ? structuredResponse.evidence : [];
+  const hasCitations = hasPageReferences(structuredResponse.content);
+  if (!hasCitations && evidence.length === 0) {
+    return structuredResponse;
+  }
+
+  try {
+    const pagesByPaper: Record<string, string[]> = {};
+    for (const arxivId of arxivIds) {
+      const pages = await getPaperPages(arxivId);
+      // Scanned PDFs without a text layer can't confirm anything
+      if (pages && pages.some(page => page.trim())) {
+        pagesByPaper[arxivId] = pages;
       }
+    }
+    if (Object.keys(pagesByPaper).length === 0) {
+      return structuredResponse;
+    }
+
+    const pages = pagesByPaper[primaryId] ?? null;
+    const verified: StructuredChatResponse = { ...structuredResponse };
+    if (hasCitations) {
+      const { content, citations } = verifyCitations(structuredResponse.content, pages, pagesByPaper);
+      verified.content = content;
+      verified.citations = citations;
+    }
+    if (evidence.length > 0) {
+      verified.evidence = verifyEvidence(evidence, pages, pagesByPaper);
+    }
+    return verified;
+  } catch (error) {
+    console.warn('Chat API: could not verify page citations', error);
+    return structuredResponse;
+  }
+}
+
+/**
+ * Detect the widget's automatic welcome prompt
+ * @param question - Latest user message
+ * @param isFollowUp - Whether earlier turns exist
+ * @returns True if the message asks for a welcome message
+ */
+function isWelcomeRequest(question: string, isFollowUp: boolean): boolean {
+  return !isFollowUp && (
+    question.toLowerCase().includes('welcome message') ||
+    question.toLowerCase().includes('suggested questions')
+  );
+}
+
+/**
+ * Save a completed turn to the chat session, if the request uses one.
+ * Storage failures are logged rather than failing the answer.
+ * @param session - Session the turn belongs to, or null
+ * @param question - User question to save, or null for the welcome prompt
+ * @param structuredResponse - Assistant response
+ */
+async function saveSessionTurn(
+  session: StoredChatSession | null,
+  question: string | null,
+  structuredResponse: StructuredChatResponse
+): Promise<void> {
+  if (!session) return;
+
+  try {
+    await getChatSessionStore().appendMessages(session.id, [
+      ...(question !== null ? [{ role: 'user' as const, content: question }] : []),
+      { role: 'assistant', content: structuredResponse.content, structured: structuredResponse }
+    ]);
+  } catch (error) {
+    console.error('API Chat: failed to save session messages', error);
+  }
+}
+
+/**
+ * Build the instructions for the current turn
+ * @param parsed - Parsed arXiv ID
+ * @param question - Latest user message
+ * @param isFollowUp - Whether earlier turns exist
+ * @param comparisons - Other papers attached to the question
+ * @param abstractOnlyIds - Papers attached as abstract and metadata because their PDFs are unavailable
+ * @param persona - Who the assistant is for this paper, if its categories are known
+ * @returns Prompt text for the final user turn
+ */
+function buildPromptText(
+  parsed: ParsedArxivId,
+  question: string,
+  isFollowUp: boolean,
+  comparisons: ParsedArxivId[] = [],
+  abstractOnlyIds: string[] = [],
+  persona: string | null = null
+): string {
+  const paperId = getVersionedArxivId(parsed);
+  if (comparisons.length === 0 && abstractOnlyIds.includes(paperId)) {
+    return buildAbstractOnlyPromptText(parsed, question, isFollowUp, persona);
+  }
+
+  if (isWelcomeRequest(question, isFollowUp)) {
+    const categoryContext = persona ?? 'You are an AI assistant helping a student understand this research paper.';
+    
+    return `${categoryContext}
 
-      // First message: include PDF content for analysis
-      const isWelcomeRequest = lastUserMessage.content.toLowerCase().includes('welcome message') || 
-                              lastUserMessage.content.toLowerCase().includes('suggested questions');
-      
-      let promptText;
-      
-      if (isWelcomeRequest) {
-        // Get category-specific context for old format ArXiv IDs
-        const categoryContext = parsed.category ? getCategoryPromptContext(parsed.category) : 
-          'You are an AI assistant helping a student understand this research paper.';
-        
-        promptText = `${categoryContext}
-
-You are helping with arXiv paper ${parsed.id}. After analyzing the PDF, create a brief welcome message.
+You are helping with arXiv paper ${paperId}. After analyzing the PDF, create a brief welcome message.
 
 For the content field: Provide a brief welcome message with one sentence summary of what this paper is about.
 
 For suggestedQuestions: Create 4-5 specific questions that users can ask about THIS particular paper. Make them specific to the paper's content, methodology, and findings - not generic questions.
 
 Set responseType to "welcome".`;
-      } else {
-        // Get category-specific context for old format ArXiv IDs
-        const categoryContext = parsed.category ? getCategoryPromptContext(parsed.category) : 
-          'You are an AI assistant helping users understand and analyze research papers.';
-        
-        promptText = `${categoryContext}
+  }
+
+  const categoryContext = persona ?? 'You are an AI assistant helping users understand and analyze research papers.';
+
+  const isMultiPaper = comparisons.length > 0;
+  const paperList = [parsed, ...comparisons].map(getVersionedArxivId).join(', ');
+
+  const questionIntro = isMultiPaper
+    ? `${isFollowUp ? 'Continue our conversation about' : 'You are helping with'} arXiv papers ${paperList}, mainly ${paperId}. Each paper's full PDF is attached at the start of this conversation, labelled with its arXiv ID; answer from them rather than from memory of earlier turns. You are part of asXiv, a tool created by Montana Flynn.
+
+${isFollowUp ? 'Current question' : 'Answer this question'}: ${question}`
+    : isFollowUp
+      ? `Continue our conversation about arXiv paper ${paperId}. The full PDF is attached at the start of this conversation; answer from it rather than from memory of earlier turns. You are part of asXiv, a tool created by Montana Flynn.
 
-You are helping with arXiv paper ${parsed.id}. You are part of asXiv, a tool created by Montana Flynn.
+Current question: ${question}`
+      : `You are helping with arXiv paper ${paperId}. You are part of asXiv, a tool created by Montana Flynn.
 
-Answer this question: ${lastUserMessage.content}
+Answer this question: ${question}`;
+
+  const abstractOnlyNote = abstractOnlyIds.length > 0
+    ? `\n\nThe PDFs of ${abstractOnlyIds.join(', ')} are not available, so only their abstracts and metadata are attached. Never cite pages of those papers, and say so when a question needs their full text.`
+    : '';
+
+  const pageReferenceGuideline = isMultiPaper
+    ? `- CRITICAL: Always label page references with the paper they refer to, using EXACTLY this format: (ARXIV_ID page X) for single pages or (ARXIV_ID page X, ARXIV_ID page Y) for multiple pages. Examples: "(${paperId} page 3)", "(${paperId} page 2, ${comparisons[0] && getVersionedArxivId(comparisons[0])} page 6)". NEVER leave out the arXiv ID and NEVER use formats like "page 1,3" or "page 1-3"`
+    : '- CRITICAL: Always format page references using EXACTLY this format: (page X) for single pages or (page X, page Y) for multiple pages. Examples: "(page 1)", "(page 2, page 6)". NEVER use formats like "page 1,3" or "page 1-3"';
+
+  const evidenceGuideline = isMultiPaper
+    ? 'For evidence: For each main claim in your answer, add one short quote (a single sentence or phrase, under 30 words) copied word for word from one of the papers, with the page it appears on, the arXiv ID of that paper and the claim it supports. Never paraphrase or combine text in a quote. Leave evidence empty if the answer makes no claims about the papers.'
+    : 'For evidence: For each main claim in your answer, add one short quote (a single sentence or phrase, under 30 words) copied word for word from the paper, with the page it appears on and the claim it supports. Never paraphrase or combine text in a quote. Leave evidence empty if the answer makes no claims about the paper.';
+
+  const suggestedQuestionsGuideline = isFollowUp
+    ? 'For suggestedQuestions: Provide 2-4 contextually relevant suggested questions based on our conversation history. Make them specific to this paper and our current discussion thread.'
+    : 'For suggestedQuestions: Provide 2-4 contextually relevant follow-up questions based on your answer and the current conversation. Make them specific to this paper\'s content, not generic.';
+
+  return `${categoryContext}
+
+${questionIntro}${abstractOnlyNote}
 
 Guidelines for content field:
-- CRITICAL: Always format page references using EXACTLY this format: (page X) for single pages or (page X, page Y) for multiple pages. Examples: "(page 1)", "(page 2, page 6)". NEVER use formats like "page 1,3" or "page 1-3"
+${pageReferenceGuideline}
 - CRITICAL: ONLY state information you can actually find in the PDF content
 - NEVER make assumptions or educated guesses about information not explicitly stated
 - If you cannot find specific information, clearly state "I cannot find this information in the paper"
@@ -215,89 +544,162 @@ Guidelines for content field:
 - Do NOT start responses with "Based on my analysis" or "According to the paper"
 - Use markdown formatting for better readability
 
-For suggestedQuestions: Provide 2-4 contextually relevant follow-up questions based on your answer and the current conversation. Make them specific to this paper's content, not generic.
+${evidenceGuideline}
+
+${suggestedQuestionsGuideline}
 
 Set responseType to "answer".`;
-      }
+}
+
+/**
+ * Build the instructions for a paper whose PDF is unavailable, grounded in
+ * its abstract and metadata only
+ * @param parsed - Parsed arXiv ID
+ * @param question - Latest user message
+ * @param isFollowUp - Whether earlier turns exist
+ * @param persona - Who the assistant is for this paper, if its categories are known
+ * @returns Prompt text for the final user turn
+ */
+function buildAbstractOnlyPromptText(parsed: ParsedArxivId, question: string, isFollowUp: boolean, persona: string | null): string {
+  const categoryContext = persona ?? 'You are an AI assistant helping users understand research papers.';
+  const sourceNote = `The PDF of arXiv paper ${getVersionedArxivId(parsed)} is not available (the paper may have been withdrawn), so only its abstract and metadata are attached at the start of this conversation. You are part of asXiv, a tool created by Montana Flynn.`;
 
-      contents = createUserContent([
-        createPartFromUri(uploadedFile.uri || '', uploadedFile.mimeType || 'application/pdf'),
-        "\n\n",
-        promptText
-      ]);
-    } else {
-      // Follow-up message: use conversation history without re-sending PDF
-      // Get category-specific context for old format ArXiv IDs
-      const categoryContext = parsed.category ? getCategoryPromptContext(parsed.category) : 
-        'You are an AI assistant helping users understand and analyze research papers.';
-        
-      const promptText = `${categoryContext}
+  if (isWelcomeRequest(question, isFollowUp)) {
+    return `${categoryContext}
 
-Continue our conversation about arXiv paper ${parsed.id}. You have already analyzed the PDF content. You are part of asXiv, a tool created by Montana Flynn.
+${sourceNote}
 
-${conversationHistory}Current question: ${lastUserMessage.content}
+For the content field: Provide a brief welcome message that says the full text is unavailable and answers will be based on the abstract and metadata only, followed by a one sentence summary of what the paper is about.
+
+For suggestedQuestions: Create 3-4 specific questions about THIS paper that its abstract and metadata can answer.
+
+Set responseType to "welcome".`;
+  }
+
+  return `${categoryContext}
+
+${sourceNote}
+
+${isFollowUp ? 'Current question' : 'Answer this question'}: ${question}
 
 Guidelines for content field:
-- CRITICAL: Always format page references using EXACTLY this format: (page X) for single pages or (page X, page Y) for multiple pages. Examples: "(page 1)", "(page 2, page 6)". NEVER use formats like "page 1,3" or "page 1-3"
-- CRITICAL: ONLY state information you can actually find in the PDF
-- NEVER make assumptions or educated guesses about information not explicitly stated
-- If you cannot find specific information, clearly state "I cannot find this information in the paper"
-- Do NOT infer dates from arXiv IDs - only cite dates actually written in the paper
-- Never make up or hallucinate page numbers - only cite pages where you actually found the information
-- Do NOT start responses with "Based on my analysis" or "According to the paper"
+- CRITICAL: ONLY state information found in the attached abstract and metadata
+- If the abstract and metadata do not answer the question, say that this needs the full text, which is not available
+- NEVER cite page numbers - there are no pages to cite
+- Do NOT infer dates from arXiv IDs - only use the dates in the metadata
 - Use markdown formatting for better readability
 
-For suggestedQuestions: Provide 2-4 contextually relevant suggested questions based on our conversation history. Make them specific to this paper and our current discussion thread.
+For evidence: Leave evidence empty.
+
+For suggestedQuestions: Provide 2-4 follow-up questions about this paper that its abstract and metadata can answer.
 
 Set responseType to "answer".`;
-      
-      contents = createUserContent([promptText]);
-    }
-    
-    // Generate response using Gemini
-    const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash-lite';
-    
-    // Validate model name
-    const validModels = ['gemini-2.5-flash-lite', 'gemini-2.5-flash', 'gemini-2.5-pro'];
-    if (!validModels.includes(model)) {
-      throw new Error(`Invalid GEMINI_MODEL: ${model}. Valid options are: ${validModels.join(', ')}`);
+}
+
+/**
+ * Build multi-turn contents: the papers are attached to the first user turn,
+ * earlier messages keep their roles, and the final turn carries the prompt
+ * @param sources - Uploaded PDFs, or abstracts and metadata of papers without one;
+ *   when there are several papers, each PDF is labelled with its arXiv ID
+ * @param history - Messages before the current question
+ * @param promptText - Instructions and question for the current turn
+ * @returns Provider messages
+ */
+function buildConversation(sources: PaperSource[], history: ChatMessage[], promptText: string): LLMMessage[] {
+  const turns: LLMMessage[] = history.map((msg) => ({
+    role: msg.role,
+    parts: [{ text: msg.content }]
+  }));
+  turns.push({ role: 'user', parts: [{ text: promptText }] });
+
+  const sourceParts: LLMMessage['parts'] = sources.flatMap((source): LLMMessage['parts'] => {
+    if ('metadata' in source) {
+      return [{ text: formatPaperMetadata(source.metadata) }];
     }
-    const result = await genAI.models.generateContent({
-      model: model,
-      contents: [contents],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: structuredResponseSchema
-      }
+    return sources.length === 1
+      ? [{ document: source.document }]
+      : [{ text: `arXiv ${source.arxivId}:` }, { document: source.document }];
+  });
+
+  const firstTurn = turns[0];
+  if (firstTurn && firstTurn.role === 'user') {
+    firstTurn.parts.unshift(...sourceParts);
+  } else {
+    turns.unshift({
+      role: 'user',
+      parts: [...sourceParts, { text: sources.length === 1 ? 'This is the paper we are discussing.' : 'These are the papers we are discussing.' }]
     });
+  }
 
-    const text = result.text;
-    if (!text) {
-      throw new Error('No text response received from Gemini API');
-    }
+  return turns;
+}
 
-    // Parse the guaranteed JSON response from Gemini's structured output
-    let structuredResponse: StructuredChatResponse;
-    try {
-      structuredResponse = JSON.parse(text.trim());
-    } catch (parseError) {
-      console.error('API Chat: failed to parse structured response', parseError);
-      throw new Error('Invalid structured response from Gemini API');
-    }
+/**
+ * Parse the JSON text produced by the provider's structured output mode
+ * @param text - Raw response text
+ * @returns Parsed structured response
+ */
+function parseStructuredResponse(text: string): StructuredChatResponse {
+  if (!text) {
+    throw new Error('No text response received from the AI provider');
+  }
 
-    // Return both formats for backwards compatibility
-    const apiResponse: ChatApiResponse = {
-      response: structuredResponse.content, // Always use structured content now
-      structured: structuredResponse
-    };
+  // Parse the schema-constrained JSON response
+  try {
+    return JSON.parse(text.trim()) as StructuredChatResponse;
+  } catch (parseError) {
+    console.error('API Chat: failed to parse structured response', parseError);
+    throw new Error('Invalid structured response from the AI provider');
+  }
+}
 
-    res.status(200).json(apiResponse);
+/**
+ * Stream a structured response as NDJSON: markdown deltas as they arrive,
+ * then the complete structured response once the JSON document is finished.
+ * @param res - API response to write events to
+ * @param provider - Provider to generate with
+ * @param generateRequest - Request to send to the provider
+ * @param finalize - Post-processes the complete response before it is sent
+ */
+async function streamStructuredResponse(
+  res: NextApiResponse,
+  provider: LLMProvider,
+  generateRequest: GenerateRequest,
+  finalize: (structuredResponse: StructuredChatResponse) => Promise<StructuredChatResponse>
+): Promise<void> {
+  const writeEvent = (event: ChatStreamEvent) => {
+    res.write(encodeChatStreamEvent(event));
+  };
+
+  res.writeHead(200, {
+    'Content-Type': `${CHAT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+    'Cache-Control': 'no-cache, no-transform',
+    'X-Accel-Buffering': 'no'
+  });
+
+  try {
+    const chunks = await provider.generateStream(generateRequest);
+
+    let rawText = '';
+    let sentLength = 0;
+    for await (const chunk of chunks) {
+      rawText += chunk;
+      const partialContent = extractPartialContent(rawText);
+      if (partialContent.length > sentLength) {
+        writeEvent({ type: 'delta', content: partialContent.slice(sentLength) });
+        sentLength = partialContent.length;
+      }
+    }
 
+    const structuredResponse = await finalize(parseStructuredResponse(rawText));
+    writeEvent({ type: 'done', response: structuredResponse.content, structured: structuredResponse });
   } catch (error) {
-    return res.status(500).json({ 
+    writeEvent({
+      type: 'error',
       error: 'Failed to generate response',
-      details: error instanceof Error ? error.message : 'Unknown error',
-      errorType: error?.constructor?.name || 'Unknown'
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    res.end();
   }
 }
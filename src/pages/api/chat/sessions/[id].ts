@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getChatSessionStore, isValidSessionId, toClientSession } from '@/utils/chatSessions';
+import { isSessionOwner } from '@/utils/chatSessionOwner';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!isValidSessionId(id)) {
+    return res.status(400).json({ error: 'Invalid session ID' });
+  }
+
+  try {
+    const store = getChatSessionStore();
+    // Other browsers' sessions are reported as missing rather than forbidden
+    const session = await store.get(id);
+    if (!session || !isSessionOwner(session, req)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ session: toClientSession(session) });
+    }
+
+    const deleted = await store.delete(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Chat sessions API: storage error', error);
+    return res.status(500).json({ error: 'Failed to access chat sessions' });
+  }
+}
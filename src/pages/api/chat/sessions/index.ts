@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+import { getChatSessionStore, toClientSession } from '@/utils/chatSessions';
+import { ensureSessionOwner, getSessionOwner } from '@/utils/chatSessionOwner';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const store = getChatSessionStore();
+
+    if (req.method === 'GET') {
+      const { arxivId } = req.query;
+      if (arxivId !== undefined && typeof arxivId !== 'string') {
+        return res.status(400).json({ error: 'arxivId must be a single value' });
+      }
+
+      const parsed = arxivId ? parseArxivId(arxivId) : null;
+      if (parsed && !parsed.isValid) {
+        return res.status(400).json({ error: `Invalid ArXiv ID format: ${arxivId}` });
+      }
+
+      // Only the caller's own sessions are listed; a browser without an owner cookie has none
+      const owner = getSessionOwner(req);
+      const sessions = owner ? await store.list(owner, parsed ? getVersionedArxivId(parsed) : undefined) : [];
+      return res.status(200).json({ sessions });
+    }
+
+    const { arxivId } = req.body ?? {};
+    if (!arxivId || typeof arxivId !== 'string') {
+      return res.status(400).json({ error: 'arxivId is required' });
+    }
+
+    const parsed = parseArxivId(arxivId);
+    if (!parsed.isValid) {
+      return res.status(400).json({ error: `Invalid ArXiv ID format: ${arxivId}` });
+    }
+
+    // Sessions about a specific version stay with that version
+    const session = await store.create(getVersionedArxivId(parsed), ensureSessionOwner(req, res));
+    return res.status(201).json({ session: toClientSession(session) });
+  } catch (error) {
+    console.error('Chat sessions API: storage error', error);
+    return res.status(500).json({ error: 'Failed to access chat sessions' });
+  }
+}
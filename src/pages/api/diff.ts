@@ -0,0 +1,153 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { DiffApiResponse, DiffSummary, PaperDiff } from '@/types/diff';
+import { getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+import { getPaperPages } from '@/utils/paperPdf';
+import { diffPaperVersions, formatDiffAsText } from '@/utils/paperDiff';
+import { JsonSchema, getLLMConfigError, getLLMProvider } from '@/utils/llm';
+
+// Longest diff text sent to the model for the summary
+const MAX_SUMMARY_INPUT_LENGTH = 60000;
+
+const diffSummarySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'Overview of what changed between the versions, in plain text'
+    },
+    changes: {
+      type: 'array',
+      description: 'The notable changes, most significant first',
+      items: {
+        type: 'object',
+        properties: {
+          section: {
+            type: 'string',
+            description: 'Heading of the section the change is in'
+          },
+          description: {
+            type: 'string',
+            description: 'One sentence describing the change'
+          },
+          significance: {
+            type: 'string',
+            enum: ['major', 'minor'],
+            description: 'major for changes to methods, results or claims; minor for wording, typos and formatting'
+          }
+        },
+        required: ['section', 'description', 'significance'],
+        propertyOrdering: ['section', 'description', 'significance']
+      }
+    }
+  },
+  required: ['summary', 'changes'],
+  propertyOrdering: ['summary', 'changes']
+};
+
+/**
+ * Read a version from the query string
+ * @param value - "v3" or "3"
+ * @returns Version number, or null if the value is not a version
+ */
+function parseVersionParam(value: string | string[] | undefined): number | null {
+  const match = typeof value === 'string' ? value.match(/^v?([1-9]\d*)$/i) : null;
+  return match?.[1] ? Number(match[1]) : null;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, from: fromParam, to: toParam } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  const parsed = parseArxivId(id);
+  if (!parsed.isValid) {
+    return res.status(400).json({ error: `Invalid ArXiv ID format: ${id}` });
+  }
+
+  const from = parseVersionParam(fromParam);
+  const to = parseVersionParam(toParam);
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'from and to must be versions such as v1 and v3' });
+  }
+  if (from === to) {
+    return res.status(400).json({ error: 'from and to must be different versions' });
+  }
+
+  try {
+    const fromId = getVersionedArxivId({ id: parsed.id, version: from });
+    const toId = getVersionedArxivId({ id: parsed.id, version: to });
+
+    const fromPages = await getPaperPages(fromId);
+    const toPages = fromPages && await getPaperPages(toId);
+    if (!fromPages || !toPages) {
+      return res.status(404).json({ error: `PDF not available: ${fromPages ? toId : fromId}` });
+    }
+
+    const diff = diffPaperVersions(fromPages, toPages);
+    const response: DiffApiResponse = { arxivId: parsed.id, from, to, ...diff, summary: null };
+
+    try {
+      response.summary = await summarizeChanges(fromId, toId, diff);
+    } catch (error) {
+      console.error('API Diff: failed to summarize changes', error);
+      response.summaryError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return res.status(200).json(response);
+  } catch (error) {
+    return res.status(500).json({
+      error: 'Failed to compare versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Ask the model for a structured summary of the changes
+ * @param fromId - Older version (e.g., "1706.03762v1")
+ * @param toId - Newer version
+ * @param diff - Text diff of the two versions
+ * @returns Summary, with an empty change list when the text did not change
+ */
+async function summarizeChanges(fromId: string, toId: string, diff: PaperDiff): Promise<DiffSummary> {
+  const diffText = formatDiffAsText(diff, MAX_SUMMARY_INPUT_LENGTH);
+  if (!diffText) {
+    return { summary: 'The text of the two versions is the same.', changes: [] };
+  }
+
+  const configError = getLLMConfigError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  const text = await getLLMProvider().generate({
+    messages: [{
+      role: 'user',
+      parts: [{
+        text: `You are helping a reviewer check a revised arXiv submission. Below is a diff of the text extracted from the PDFs of ${fromId} (older) and ${toId} (newer), section by section. Lines starting with "-" were removed and lines starting with "+" were added; a removed paragraph followed by an added one is usually a rewording.
+
+For the summary field: In 2-4 sentences, say what changed between the versions, leading with changes to methods, results and claims. Ignore differences caused by text extraction, such as page headers, line breaks and reflowed tables.
+
+For changes: List the notable changes, most significant first, with the section heading each one is in.
+
+${diffText}`
+      }]
+    }],
+    responseSchema: diffSummarySchema
+  });
+
+  if (!text) {
+    throw new Error('No text response received from the AI provider');
+  }
+  try {
+    return JSON.parse(text.trim()) as DiffSummary;
+  } catch (parseError) {
+    console.error('API Diff: failed to parse structured response', parseError);
+    throw new Error('Invalid structured response from the AI provider');
+  }
+}
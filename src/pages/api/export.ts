@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseArxivIdList } from '@/utils/arxivUtils';
+import { isArxivBusyError } from '@/utils/arxivClient';
+import { getArxivMetadata } from '@/utils/arxivSearch';
+import { EXPORT_FORMATS, exportPapers, isExportFormat } from '@/utils/citationExport';
+
+// Most papers exported at once; arXiv is queried in smaller batches
+const MAX_IDS = 500;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // ?ids=1706.03762,1810.04805&format=bibtex
+  const { format = 'bibtex' } = req.query;
+  if (!isExportFormat(format)) {
+    return res.status(400).json({
+      error: `Unknown export format: ${String(format)} (expected one of ${Object.keys(EXPORT_FORMATS).join(', ')})`
+    });
+  }
+
+  const { arxivIds, invalidId } = parseArxivIdList(req.query.ids);
+  if (invalidId !== null) {
+    return res.status(400).json({ error: `Invalid ArXiv ID format: ${invalidId}` });
+  }
+  if (arxivIds.length === 0) {
+    return res.status(400).json({ error: 'ids is required' });
+  }
+  if (arxivIds.length > MAX_IDS) {
+    return res.status(400).json({ error: `Too many IDs: at most ${MAX_IDS} can be exported at once` });
+  }
+
+  try {
+    const metadata = await getArxivMetadata(arxivIds);
+    const papers = arxivIds.flatMap(arxivId => metadata.get(arxivId) ?? []);
+    if (papers.length === 0) {
+      return res.status(404).json({ error: 'None of the requested papers were found on arXiv' });
+    }
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="arxiv-papers.${extension}"`);
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    return res.status(200).send(exportPapers(papers, format));
+  } catch (error) {
+    if (isArxivBusyError(error)) {
+      return res.status(503).json({ error: 'arXiv is busy, try again shortly' });
+    }
+    console.error('Export API: arXiv lookup failed', error);
+    return res.status(502).json({
+      error: 'Failed to load paper metadata',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
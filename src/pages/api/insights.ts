@@ -1,11 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GoogleGenAI, createUserContent, Type } from '@google/genai';
-import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { isArxivBusyError } from '@/utils/arxivClient';
+import { ArxivSearchResult, getArxivMetadata } from '@/utils/arxivSearch';
+import { getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+import { JsonSchema, getLLMConfigError, getLLMProvider } from '@/utils/llm';
+
+type InsightsPaper = Pick<ArxivSearchResult, 'id' | 'title' | 'abstract' | 'authors' | 'published' | 'categories'>;
 
 interface InsightsRequest {
   query: string;
   goal: string;
-  papers: Pick<ArxivSearchResult, 'id' | 'title' | 'abstract' | 'authors' | 'published' | 'categories'>[];
+  // Papers with their metadata, or bare arXiv IDs whose metadata is looked up
+  papers: (InsightsPaper | string)[];
 }
 
 interface RawPaperInsight {
@@ -24,31 +29,29 @@ interface InsightsResponse {
   paperInsights?: RawPaperInsight[] | Record<string, string>;
 }
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-const insightsSchema = {
-  type: Type.OBJECT,
+const insightsSchema: JsonSchema = {
+  type: 'object',
   properties: {
     overview: {
-      type: Type.STRING,
+      type: 'string',
       description: 'A concise summary that connects the research goal to the supplied papers'
     },
     recommendedPapers: {
-      type: Type.ARRAY,
+      type: 'array',
       description: 'Ordered list of papers that best address the researcher goal',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
           paperId: {
-            type: Type.STRING,
+            type: 'string',
             description: 'ArXiv identifier of the paper'
           },
           title: {
-            type: Type.STRING,
+            type: 'string',
             description: 'Paper title copied verbatim from the input'
           },
           reason: {
-            type: Type.STRING,
+            type: 'string',
             description: 'Brief rationale for why this paper helps with the stated goal'
           }
         },
@@ -57,17 +60,17 @@ const insightsSchema = {
       }
     },
     paperInsights: {
-      type: Type.ARRAY,
+      type: 'array',
       description: 'Optional per-paper insight snippets for specific papers',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
           paperId: {
-            type: Type.STRING,
+            type: 'string',
             description: 'ArXiv identifier for the insight'
           },
           insight: {
-            type: Type.STRING,
+            type: 'string',
             description: 'Short explanation tailored to the paper'
           }
         },
@@ -76,10 +79,10 @@ const insightsSchema = {
       }
     },
     followUpQuestions: {
-      type: Type.ARRAY,
+      type: 'array',
       description: 'Optional short questions the researcher could ask next',
       items: {
-        type: Type.STRING
+        type: 'string'
       }
     }
   },
@@ -87,7 +90,7 @@ const insightsSchema = {
   propertyOrdering: ['overview', 'recommendedPapers', 'paperInsights', 'followUpQuestions']
 };
 
-function buildPrompt(payload: InsightsRequest): string {
+function buildPrompt(payload: Omit<InsightsRequest, 'papers'> & { papers: InsightsPaper[] }): string {
   const { query, goal, papers } = payload;
 
   const paperSummaries = papers
@@ -126,8 +129,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    return res.status(500).json({ error: 'GEMINI_API_KEY is not configured' });
+  const configError = getLLMConfigError();
+  if (configError) {
+    return res.status(500).json({ error: configError });
   }
 
   try {
@@ -137,21 +141,52 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Request must include query, goal, and at least one paper' });
     }
 
-    const prompt = buildPrompt({ query, goal, papers });
-    const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+    // Look up the metadata of papers given as bare IDs, keeping the request order
+    const bareIds: string[] = [];
+    for (const paper of papers) {
+      if (typeof paper === 'string') {
+        const parsed = parseArxivId(paper);
+        if (!parsed.isValid) {
+          return res.status(400).json({ error: `Invalid ArXiv ID format: ${paper}` });
+        }
+        bareIds.push(getVersionedArxivId(parsed));
+      }
+    }
 
-    const result = await genAI.models.generateContent({
-      model,
-      contents: [createUserContent([prompt])],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: insightsSchema
+    let metadata = new Map<string, ArxivSearchResult>();
+    if (bareIds.length > 0) {
+      try {
+        metadata = await getArxivMetadata(bareIds);
+      } catch (error) {
+        if (isArxivBusyError(error)) {
+          return res.status(503).json({ error: 'arXiv is busy, try again shortly' });
+        }
+        console.error('Insights API: failed to load paper metadata', error);
+        return res.status(502).json({
+          error: 'Failed to load paper metadata',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
+      const unknownId = bareIds.find(id => !metadata.has(id));
+      if (unknownId) {
+        return res.status(404).json({ error: `Paper not found: ${unknownId}` });
+      }
+    }
+
+    const resolvedPapers = papers.map((paper): InsightsPaper =>
+      typeof paper === 'string' ? metadata.get(getVersionedArxivId(parseArxivId(paper))) as ArxivSearchResult : paper
+    );
+
+    const prompt = buildPrompt({ query, goal, papers: resolvedPapers });
+    const provider = getLLMProvider({ geminiDefaultModel: 'gemini-2.5-flash' });
+
+    const text = await provider.generate({
+      messages: [{ role: 'user', parts: [{ text: prompt }] }],
+      responseSchema: insightsSchema
     });
 
-    const text = result.text;
     if (!text) {
-      return res.status(502).json({ error: 'No response received from Gemini API' });
+      return res.status(502).json({ error: 'No response received from the AI provider' });
     }
 
     let payload: InsightsResponse;
@@ -162,25 +197,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(502).json({ error: 'Failed to parse AI response' });
     }
 
+    // The model may answer with prefixed or versioned IDs; key everything by the normalized ID
+    const normalizePaperId = (paperId: string): string => {
+      const parsed = parseArxivId(paperId);
+      return parsed.isValid ? parsed.id : paperId;
+    };
+    const recommendedPapers = payload.recommendedPapers.map((item) => ({
+      ...item,
+      paperId: normalizePaperId(item.paperId)
+    }));
+
     const insightMap: Record<string, string> = {};
     if (Array.isArray(payload.paperInsights)) {
       payload.paperInsights.forEach((entry) => {
         if (entry && typeof entry === 'object' && 'paperId' in entry && 'insight' in entry) {
           const { paperId, insight } = entry as RawPaperInsight;
           if (paperId && typeof paperId === 'string' && typeof insight === 'string') {
-            insightMap[paperId] = insight;
+            insightMap[normalizePaperId(paperId)] = insight;
           }
         }
       });
     } else if (payload.paperInsights && typeof payload.paperInsights === 'object') {
       Object.entries(payload.paperInsights).forEach(([paperId, insight]) => {
         if (typeof paperId === 'string' && typeof insight === 'string') {
-          insightMap[paperId] = insight;
+          insightMap[normalizePaperId(paperId)] = insight;
         }
       });
     }
 
-    payload.recommendedPapers.forEach((item) => {
+    recommendedPapers.forEach((item) => {
       if (!insightMap[item.paperId]) {
         insightMap[item.paperId] = item.reason;
       }
@@ -188,7 +233,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     res.status(200).json({
       overview: payload.overview,
-      recommendedPapers: payload.recommendedPapers,
+      recommendedPapers,
       followUpQuestions: payload.followUpQuestions ?? [],
       paperInsights: insightMap
     });
@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseArxivIdList } from '@/utils/arxivUtils';
+import { isArxivBusyError } from '@/utils/arxivClient';
+import { getArxivMetadata } from '@/utils/arxivSearch';
+import { PapersApiResponse } from '@/types/papers';
+
+// Most IDs looked up in one call; arXiv is queried in smaller batches
+const MAX_IDS = 500;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // ?ids=1706.03762,1810.04805 or ?ids=1706.03762&ids=1810.04805
+  const { arxivIds, invalidId } = parseArxivIdList(req.query.ids);
+  if (invalidId !== null) {
+    return res.status(400).json({ error: `Invalid ArXiv ID format: ${invalidId}` });
+  }
+  if (arxivIds.length === 0) {
+    return res.status(400).json({ error: 'ids is required' });
+  }
+  if (arxivIds.length > MAX_IDS) {
+    return res.status(400).json({ error: `Too many IDs: at most ${MAX_IDS} can be looked up at once` });
+  }
+
+  try {
+    const metadata = await getArxivMetadata(arxivIds);
+
+    const response: PapersApiResponse = {
+      papers: arxivIds.flatMap(arxivId => {
+        const paper = metadata.get(arxivId);
+        return paper ? [{ ...paper, requestedId: arxivId }] : [];
+      }),
+      notFound: arxivIds.filter(arxivId => !metadata.has(arxivId))
+    };
+
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    return res.status(200).json(response);
+  } catch (error) {
+    if (isArxivBusyError(error)) {
+      return res.status(503).json({ error: 'arXiv is busy, try again shortly' });
+    }
+    console.error('Papers API: arXiv lookup failed', error);
+    return res.status(502).json({
+      error: 'Failed to load paper metadata',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
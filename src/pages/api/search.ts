@@ -1,5 +1,35 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { isArxivBusyError } from '@/utils/arxivClient';
 import { searchArxiv, ArxivSearchParams } from '@/utils/arxivSearch';
+import { SearchQueryNode, buildSearchQuery, getSearchTerms } from '@/utils/searchQuery';
+import { getArxivTaxonomy, isArxivCategory } from '@/constants/arxivCategories';
+import { EXPORT_FORMATS, exportPapers, isExportFormat } from '@/utils/citationExport';
+
+/**
+ * Check a date from the query string
+ * @param value - Date as given, expected to be YYYY-MM-DD
+ * @returns True if the value is a real calendar date
+ */
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Explain a category code arXiv doesn't know, suggesting the code that was
+ * probably meant (e.g. quant-ph for physics.quant-ph, or cs.LG for cs.lg)
+ * @param code - Unknown code
+ * @returns Error message
+ */
+function describeUnknownCategory(code: string): string {
+  const candidates = [code, code.slice(code.indexOf('.') + 1)].map(candidate => candidate.toLowerCase());
+  const knownCodes = getArxivTaxonomy()
+    .flatMap(group => group.archives)
+    .flatMap(archive => [archive.code, ...archive.categories.map(category => category.code)]);
+  const suggestion = knownCodes.find(known => candidates.includes(known.toLowerCase()));
+  return `Unknown arXiv category: ${code}${suggestion ? ` (did you mean ${suggestion}?)` : ''}`;
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -20,13 +50,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       comment,
       journal,
       reportNumber,
-      all
+      all,
+      from,
+      to,
+      format = 'json'
     } = req.query;
 
     if (!query && !all) {
       return res.status(400).json({ error: 'Query parameter is required' });
     }
 
+    // Results come back as JSON, or rendered in an export format such as bibtex
+    if (format !== 'json' && !isExportFormat(format)) {
+      return res.status(400).json({
+        error: `Unknown format: ${String(format)} (expected one of json, ${Object.keys(EXPORT_FORMATS).join(', ')})`
+      });
+    }
+
     const searchParams: ArxivSearchParams = {
       query: query as string,
       start: parseInt(start as string, 10),
@@ -40,7 +80,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       comment: comment as string,
       journal: journal as string,
       reportNumber: reportNumber as string,
-      all: all as string
+      all: all as string,
+      ...(typeof from === 'string' && from && { from }),
+      ...(typeof to === 'string' && to && { to })
     };
 
     if (Number.isNaN(searchParams.start!) || searchParams.start! < 0) {
@@ -55,9 +97,49 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Max results must be between 1 and 200' });
     }
 
-    const results = await searchArxiv(searchParams);
+    for (const [name, value] of [['from', searchParams.from], ['to', searchParams.to]] as const) {
+      if (value !== undefined && !isValidDate(value)) {
+        return res.status(400).json({ error: `${name} must be a date in YYYY-MM-DD format` });
+      }
+    }
+
+    if (searchParams.from && searchParams.to && searchParams.from > searchParams.to) {
+      return res.status(400).json({ error: 'from must not be later than to' });
+    }
+
+    let searchQuery: SearchQueryNode | null;
+    try {
+      searchQuery = buildSearchQuery(
+        searchParams.all ? { query: searchParams.all } : searchParams
+      );
+    } catch (parseError) {
+      return res.status(400).json({ error: parseError instanceof Error ? parseError.message : 'Invalid search query' });
+    }
+    if (!searchQuery) {
+      return res.status(400).json({ error: 'Query parameter is required' });
+    }
+
+    const unknownCategory = getSearchTerms(searchQuery).find(term => term.field === 'cat' && !isArxivCategory(term.value));
+    if (unknownCategory) {
+      return res.status(400).json({ error: describeUnknownCategory(unknownCategory.value) });
+    }
+
+    const results = await searchArxiv({ ...searchParams, searchQuery });
+    if (results.errors) {
+      return res.status(400).json({ error: `arXiv rejected the search: ${results.errors.join('; ')}` });
+    }
+
+    if (isExportFormat(format)) {
+      const { contentType, extension } = EXPORT_FORMATS[format];
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="arxiv-search.${extension}"`);
+      return res.status(200).send(exportPapers(results.results, format));
+    }
     res.status(200).json(results);
   } catch (error) {
+    if (isArxivBusyError(error)) {
+      return res.status(503).json({ error: 'arXiv is busy, try again shortly' });
+    }
     console.error('Search API: failed to search arXiv', error);
     res.status(500).json({ error: 'Failed to search arXiv papers' });
   }
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseArxivId } from '@/utils/arxivUtils';
+import { isArxivBusyError } from '@/utils/arxivClient';
+import { getArxivVersions } from '@/utils/arxivSearch';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  const parsed = parseArxivId(id);
+  if (!parsed.isValid) {
+    return res.status(400).json({ error: `Invalid ArXiv ID format: ${id}` });
+  }
+
+  try {
+    const versions = await getArxivVersions(parsed.id);
+    if (!versions) {
+      return res.status(404).json({ error: `Paper not found: ${parsed.id}` });
+    }
+
+    // Past versions never change; the latest may gain a successor
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    return res.status(200).json({ arxivId: parsed.id, versions });
+  } catch (error) {
+    if (isArxivBusyError(error)) {
+      return res.status(503).json({ error: 'arXiv is busy, try again shortly' });
+    }
+    console.error('Versions API: arXiv lookup failed', error);
+    return res.status(502).json({
+      error: 'Failed to load paper versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
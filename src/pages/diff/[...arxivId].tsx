@@ -0,0 +1,249 @@
+import { FC, useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import styles from '@/styles/Diff.module.css';
+import { DiffApiResponse, ParagraphChange, SectionDiff } from '@/types/diff';
+import { getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+
+interface DiffRow {
+  // Paragraph in the older version, or null where the newer one adds text
+  before: string | null;
+  // Paragraph in the newer version, or null where text was removed
+  after: string | null;
+  unchanged: boolean;
+}
+
+/**
+ * Lay out a section's paragraph changes side by side. A run of removed
+ * paragraphs followed by added ones is shown as replacements, row by row.
+ * @param paragraphs - Paragraph changes in order
+ * @returns Rows for the older and newer columns
+ */
+function toRows(paragraphs: ParagraphChange[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      rows.push({ before: removed[index] ?? null, after: added[index] ?? null, unchanged: false });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.type === 'removed') {
+      if (added.length > 0) flush();
+      removed.push(paragraph.text);
+    } else if (paragraph.type === 'added') {
+      added.push(paragraph.text);
+    } else {
+      flush();
+      rows.push({ before: paragraph.text, after: paragraph.text, unchanged: true });
+    }
+  }
+  flush();
+  return rows;
+}
+
+const STATUS_LABELS: Record<SectionDiff['status'], string> = {
+  unchanged: 'Unchanged',
+  modified: 'Changed',
+  added: 'New section',
+  removed: 'Removed section'
+};
+
+const DiffPage: FC = () => {
+  const router = useRouter();
+  const { arxivId, from, to } = router.query as {
+    arxivId: string | string[] | undefined;
+    from: string | string[] | undefined;
+    to: string | string[] | undefined;
+  };
+  const [diff, setDiff] = useState<DiffApiResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const parsed = arxivId ? parseArxivId(arxivId) : null;
+  const paperId = parsed?.isValid ? parsed.id : null;
+  const hasVersions = typeof from === 'string' && typeof to === 'string';
+
+  useEffect(() => {
+    if (!paperId || typeof from !== 'string' || typeof to !== 'string') {
+      return;
+    }
+
+    let cancelled = false;
+    const loadDiff = async (): Promise<void> => {
+      setLoading(true);
+      setError(null);
+      setDiff(null);
+      try {
+        const params = new URLSearchParams({ id: paperId, from, to });
+        const response = await fetch(`/api/diff?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to compare versions');
+        }
+        if (!cancelled) {
+          setDiff(data as DiffApiResponse);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Failed to compare versions');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [paperId, from, to]);
+
+  if (!router.isReady) {
+    return (
+      <div className={styles.container}>
+        <p className={styles.status}>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!paperId) {
+    return (
+      <div className={styles.container}>
+        <h1 className={styles.title}>Invalid arXiv ID format</h1>
+        <p className={styles.status}>
+          Use a URL such as <Link href="/diff/1706.03762?from=v1&to=v2">/diff/1706.03762?from=v1&amp;to=v2</Link>.
+        </p>
+      </div>
+    );
+  }
+
+  const visibleSections = diff?.sections.filter((section) => showUnchanged || section.status !== 'unchanged') ?? [];
+  const fromLabel = diff ? `v${diff.from}` : String(from);
+  const toLabel = diff ? `v${diff.to}` : String(to);
+
+  return (
+    <>
+      <Head>
+        <title>{`Changes in ${paperId} - asXiv`}</title>
+      </Head>
+
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <h1 className={styles.title}>What changed in {paperId}</h1>
+          {hasVersions && diff && (
+            <p className={styles.subtitle}>
+              <Link href={`/pdf/${getVersionedArxivId({ id: paperId, version: diff.from })}`}>{fromLabel}</Link>
+              {' → '}
+              <Link href={`/pdf/${getVersionedArxivId({ id: paperId, version: diff.to })}`}>{toLabel}</Link>
+            </p>
+          )}
+        </div>
+
+        {!hasVersions && (
+          <p className={styles.status}>
+            Choose the versions to compare, for example{' '}
+            <Link href={`/diff/${paperId}?from=v1&to=v2`}>{`/diff/${paperId}?from=v1&to=v2`}</Link>.
+          </p>
+        )}
+
+        {loading && (
+          <p className={styles.status}>
+            Comparing {fromLabel} with {toLabel}… Both PDFs are downloaded and read, which can take a minute.
+          </p>
+        )}
+
+        {error && <p className={styles.error} role="alert">{error}</p>}
+
+        {diff && (
+          <>
+            <section className={styles.summary} aria-label="Summary of changes">
+              <h2 className={styles.summaryTitle}>Summary</h2>
+              {diff.summary ? (
+                <>
+                  <p>{diff.summary.summary}</p>
+                  {diff.summary.changes.length > 0 && (
+                    <ul className={styles.changeList}>
+                      {diff.summary.changes.map((change, index) => (
+                        <li key={index}>
+                          <span className={change.significance === 'major' ? styles.majorBadge : styles.minorBadge}>
+                            {change.significance}
+                          </span>{' '}
+                          <strong>{change.section}:</strong> {change.description}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : (
+                <p className={styles.muted}>The AI summary is unavailable: {diff.summaryError ?? 'unknown error'}</p>
+              )}
+              <p className={styles.muted}>
+                {diff.stats.addedParagraphs} paragraphs added, {diff.stats.removedParagraphs} removed;{' '}
+                {diff.stats.modifiedSections} sections changed, {diff.stats.addedSections} added, {diff.stats.removedSections} removed.
+              </p>
+            </section>
+
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged sections
+            </label>
+
+            {visibleSections.length === 0 && (
+              <p className={styles.status}>No differences were found in the text of the two versions.</p>
+            )}
+
+            {visibleSections.map((section, sectionIndex) => (
+              <section key={sectionIndex} className={styles.section}>
+                <h2 className={styles.sectionTitle}>
+                  {section.heading || 'Front matter'}
+                  {section.previousHeading !== undefined && (
+                    <span className={styles.muted}> (was {section.previousHeading || 'front matter'})</span>
+                  )}
+                  <span className={styles.sectionStatus}>{STATUS_LABELS[section.status]}</span>
+                </h2>
+                <div className={styles.columns} role="table" aria-label={`Changes in ${section.heading || 'front matter'}`}>
+                  <div className={styles.row} role="row">
+                    <div className={styles.columnHeading} role="columnheader">{fromLabel}</div>
+                    <div className={styles.columnHeading} role="columnheader">{toLabel}</div>
+                  </div>
+                  {toRows(section.paragraphs).map((row, rowIndex) => (
+                    <div key={rowIndex} className={styles.row} role="row">
+                      <div
+                        role="cell"
+                        className={row.unchanged ? styles.unchanged : row.before !== null ? styles.removed : styles.empty}
+                      >
+                        {row.before}
+                      </div>
+                      <div
+                        role="cell"
+                        className={row.unchanged ? styles.unchanged : row.after !== null ? styles.added : styles.empty}
+                      >
+                        {row.after}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default DiffPage;
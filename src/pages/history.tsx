@@ -0,0 +1,123 @@
+import { FC, useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import styles from '@/styles/History.module.css';
+import { useHistory } from '@/hooks/useHistory';
+import {
+  clearHistory,
+  formatHistoryTime,
+  getHistoryEntries,
+  getPaperVisitHref,
+  removeHistoryEntry,
+  searchHistory
+} from '@/utils/history';
+import { HistoryEntry } from '@/types/history';
+
+const HistoryPage: FC = () => {
+  const { papers, questions, loaded } = useHistory();
+  const [text, setText] = useState<string>('');
+
+  const entries = useMemo(() => getHistoryEntries({ papers, questions }), [papers, questions]);
+  const visibleEntries = useMemo(() => searchHistory(entries, text), [entries, text]);
+
+  const handleClear = () => {
+    if (window.confirm('Clear your whole history? This cannot be undone.')) {
+      clearHistory();
+    }
+  };
+
+  const renderEntry = (entry: HistoryEntry) => {
+    const paperName = entry.title ?? entry.arxivId;
+
+    if (entry.kind === 'paper') {
+      return (
+        <li key={`paper-${entry.arxivId}`} className={styles.entry}>
+          <span className={styles.kind}>Opened</span>
+          <div className={styles.body}>
+            <Link href={getPaperVisitHref(entry)} className={styles.paperLink}>{paperName}</Link>
+            <span className={styles.meta}>
+              {[entry.title && entry.arxivId, entry.lastPage && `last at page ${entry.lastPage}`, formatHistoryTime(entry.time)]
+                .filter(Boolean)
+                .join(' · ')}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={() => removeHistoryEntry(entry)}
+            className={styles.removeButton}
+            aria-label={`Remove ${paperName} from history`}
+          >
+            ×
+          </button>
+        </li>
+      );
+    }
+
+    return (
+      <li key={`question-${entry.id}`} className={styles.entry}>
+        <span className={styles.kind}>Asked</span>
+        <div className={styles.body}>
+          <p className={styles.question}>{entry.question}</p>
+          <span className={styles.meta}>
+            About <Link href={`/pdf/${entry.arxivId}`} className={styles.paperLink}>{paperName}</Link>
+            {' · '}
+            {formatHistoryTime(entry.time)}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => removeHistoryEntry(entry)}
+          className={styles.removeButton}
+          aria-label={`Remove question "${entry.question}" from history`}
+        >
+          ×
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>History - asXiv</title>
+        <meta name="description" content="Papers you opened and questions you asked about them." />
+      </Head>
+
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <h1 className={styles.title}>History</h1>
+          <p className={styles.subtitle}>Papers you opened and the questions you asked, kept in this browser.</p>
+        </div>
+
+        <div className={styles.toolbar}>
+          <input
+            type="search"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            placeholder="Search titles, arXiv IDs and questions…"
+            aria-label="Search your history"
+            className={styles.searchInput}
+          />
+          <button type="button" onClick={handleClear} className={styles.clearButton} disabled={entries.length === 0}>
+            Clear history
+          </button>
+        </div>
+
+        {!loaded ? (
+          <p className={styles.empty}>Loading your history…</p>
+        ) : entries.length === 0 ? (
+          <p className={styles.empty}>
+            Nothing here yet. Papers you open and questions you ask about them will show up here; start
+            from <Link href="/search">search</Link>.
+          </p>
+        ) : visibleEntries.length === 0 ? (
+          <p className={styles.empty}>Nothing in your history matches this search.</p>
+        ) : (
+          <ul className={styles.list}>{visibleEntries.map(renderEntry)}</ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default HistoryPage;
@@ -2,6 +2,8 @@ import { useState, FC } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import styles from '@/styles/NotFound.module.css';
+import RecentPapers from '@/components/RecentPapers';
+import { getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
 
 const Home: FC = () => {
   const router = useRouter();
@@ -18,10 +20,10 @@ const Home: FC = () => {
     e.preventDefault();
     const arxivId: string = searchQuery.trim();
     if (arxivId) {
-      // Check if it looks like an arXiv ID
-      const arxivIdPattern: RegExp = /^(\d{4}\.\d{4,5}|[a-z-]+\/\d{7})$/i;
-      if (arxivIdPattern.test(arxivId)) {
-        router.push(`/pdf/${arxivId}`);
+      // Accept anything that normalizes to an arXiv ID (prefixes, URLs, DOIs), keeping any version
+      const parsed = parseArxivId(arxivId);
+      if (parsed.isValid) {
+        router.push(`/pdf/${getVersionedArxivId(parsed)}`);
       } else {
         // If it doesn't look like an arXiv ID, treat it as a search query
         router.push(`/search?q=${encodeURIComponent(arxivId)}`);
@@ -67,6 +69,8 @@ const Home: FC = () => {
           </form>
         </div>
 
+        <RecentPapers />
+
         <p className={styles.instruction}>
           Search or in the URL add: <code className={styles.code}>/pdf/[arxiv-id]</code>
         </p>
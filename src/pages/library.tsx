@@ -0,0 +1,365 @@
+import { ChangeEvent, FC, FormEvent, useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import styles from '@/styles/Library.module.css';
+import LibraryItem from '@/components/LibraryItem';
+import { useLibrary } from '@/hooks/useLibrary';
+import {
+  READING_STATUSES,
+  createCollection,
+  deleteCollection,
+  filterLibraryPapers,
+  getLibraryTags,
+  importLibraryEntries,
+  LibraryImportResult,
+  renameCollection
+} from '@/utils/library';
+import {
+  detectLibraryFileFormat,
+  exportLibraryFile,
+  LIBRARY_FILE_FORMATS,
+  LibraryFileFormat,
+  parseLibraryFile
+} from '@/utils/libraryFormats';
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { ReadingStatus } from '@/types/library';
+import { PapersApiResponse } from '@/types/papers';
+
+// Most IDs /api/papers looks up in one request
+const LOOKUP_BATCH_SIZE = 500;
+
+/**
+ * Look up imported papers on arXiv, so they are saved with arXiv's metadata
+ * rather than the file's. Papers that can't be looked up keep the file's.
+ * @param arxivIds - IDs to look up
+ * @returns Metadata by requested ID
+ */
+async function lookUpPapers(arxivIds: string[]): Promise<Map<string, ArxivSearchResult>> {
+  const papers = new Map<string, ArxivSearchResult>();
+  for (let start = 0; start < arxivIds.length; start += LOOKUP_BATCH_SIZE) {
+    const ids = arxivIds.slice(start, start + LOOKUP_BATCH_SIZE);
+    try {
+      const response = await fetch(`/api/papers?ids=${encodeURIComponent(ids.join(','))}`);
+      if (!response.ok) {
+        throw new Error(`Papers API responded with ${response.status}`);
+      }
+      const data: PapersApiResponse = await response.json();
+      // The requested ID is only for matching; it isn't part of the saved metadata
+      data.papers.forEach(({ requestedId, ...paper }) => papers.set(requestedId, paper));
+    } catch (error) {
+      console.error('Library: could not look up imported papers', error);
+    }
+  }
+  return papers;
+}
+
+function describeImport(result: LibraryImportResult, skipped: string[]): string {
+  const imported = result.added + result.updated;
+  const parts = [
+    `Imported ${imported} paper${imported === 1 ? '' : 's'} (${result.added} new, ${result.updated} already in your library).`
+  ];
+  if (result.createdCollections.length > 0) {
+    parts.push(`Created ${result.createdCollections.length === 1 ? 'collection' : 'collections'} ${result.createdCollections.join(', ')}.`);
+  }
+  if (skipped.length > 0) {
+    parts.push(`Skipped ${skipped.length} ${skipped.length === 1 ? 'entry' : 'entries'} without an arXiv ID: ${skipped.join('; ')}.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Save text as a file through the browser's download
+ */
+function downloadFile(contents: string, fileName: string, contentType: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const LibraryPage: FC = () => {
+  const { papers, collections, loaded, error: loadError } = useLibrary();
+
+  const [collectionId, setCollectionId] = useState<string>('');
+  const [status, setStatus] = useState<ReadingStatus | ''>('');
+  const [tag, setTag] = useState<string>('');
+  const [text, setText] = useState<string>('');
+
+  const [newCollection, setNewCollection] = useState<string>('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fileFormat, setFileFormat] = useState<LibraryFileFormat>('bibtex');
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const tags = useMemo(() => getLibraryTags(papers), [papers]);
+  const visiblePapers = useMemo(
+    () => filterLibraryPapers(papers, { collectionId, status: status || undefined, tag, text }),
+    [collectionId, papers, status, tag, text]
+  );
+  const selectedCollection = collections.find((collection) => collection.id === collectionId);
+
+  const run = async (action: () => Promise<unknown>): Promise<boolean> => {
+    try {
+      setError(null);
+      await action();
+      return true;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Could not update your library');
+      return false;
+    }
+  };
+
+  const handleCreateCollection = async (event: FormEvent) => {
+    event.preventDefault();
+    if (await run(() => createCollection(newCollection))) {
+      setNewCollection('');
+    }
+  };
+
+  const handleRenameCollection = async (event: FormEvent) => {
+    event.preventDefault();
+    if (selectedCollection && renaming !== null && await run(() => renameCollection(selectedCollection.id, renaming))) {
+      setRenaming(null);
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!selectedCollection) return;
+    if (!window.confirm(`Delete the collection "${selectedCollection.name}"? Its papers stay in your library.`)) return;
+    if (await run(() => deleteCollection(selectedCollection.id))) {
+      setCollectionId('');
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setImportMessage(null);
+    await run(async () => {
+      const contents = await file.text();
+      const format = detectLibraryFileFormat(file.name, contents);
+      if (!format) {
+        throw new Error(`${file.name} is not a BibTeX, CSL-JSON or Zotero RDF file`);
+      }
+      const { entries, skipped } = parseLibraryFile(contents, format);
+      const papersById = await lookUpPapers(entries.map((entry) => entry.arxivId));
+      const result = await importLibraryEntries(
+        entries.map((entry) => ({ ...entry, metadata: papersById.get(entry.arxivId) ?? entry.metadata }))
+      );
+      setImportMessage(describeImport(result, skipped));
+    });
+    setImporting(false);
+  };
+
+  // Exports the selected collection, or the whole library
+  const exportedPapers = selectedCollection
+    ? papers.filter((paper) => paper.collectionIds.includes(selectedCollection.id))
+    : papers;
+
+  const handleExport = () => {
+    const { contentType, extension } = LIBRARY_FILE_FORMATS[fileFormat];
+    const baseName = selectedCollection
+      ? selectedCollection.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'collection'
+      : 'asxiv-library';
+    downloadFile(exportLibraryFile(exportedPapers, collections, fileFormat), `${baseName}.${extension}`, contentType);
+  };
+
+  const hasFilters = Boolean(collectionId || status || tag || text.trim());
+
+  return (
+    <>
+      <Head>
+        <title>Library - asXiv</title>
+        <meta name="description" content="Your saved arXiv papers, with collections, tags, notes and reading status." />
+      </Head>
+
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <h1 className={styles.title}>Library</h1>
+          <p className={styles.subtitle}>
+            Papers you save from search results and the viewer, kept in this browser.
+          </p>
+        </div>
+
+        <div className={styles.layout}>
+          <aside className={styles.sidebar}>
+            <h2 className={styles.sidebarTitle}>Collections</h2>
+            <ul className={styles.collectionList}>
+              <li>
+                <button
+                  type="button"
+                  onClick={() => setCollectionId('')}
+                  className={`${styles.collectionButton} ${collectionId === '' ? styles.collectionActive : ''}`}
+                  aria-pressed={collectionId === ''}
+                >
+                  All papers <span className={styles.count}>{papers.length}</span>
+                </button>
+              </li>
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setCollectionId(collection.id);
+                      setRenaming(null);
+                    }}
+                    className={`${styles.collectionButton} ${collectionId === collection.id ? styles.collectionActive : ''}`}
+                    aria-pressed={collectionId === collection.id}
+                  >
+                    {collection.name}{' '}
+                    <span className={styles.count}>
+                      {papers.filter((paper) => paper.collectionIds.includes(collection.id)).length}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <form onSubmit={handleCreateCollection} className={styles.sidebarForm}>
+              <input
+                type="text"
+                value={newCollection}
+                onChange={(event) => setNewCollection(event.target.value)}
+                placeholder="New collection…"
+                aria-label="New collection name"
+                className={styles.input}
+              />
+              <button type="submit" className={styles.button} disabled={!newCollection.trim()}>
+                Create
+              </button>
+            </form>
+
+            {selectedCollection && (
+              renaming !== null ? (
+                <form onSubmit={handleRenameCollection} className={styles.sidebarForm}>
+                  <input
+                    type="text"
+                    value={renaming}
+                    onChange={(event) => setRenaming(event.target.value)}
+                    aria-label="Collection name"
+                    className={styles.input}
+                  />
+                  <button type="submit" className={styles.button} disabled={!renaming.trim()}>
+                    Save
+                  </button>
+                </form>
+              ) : (
+                <div className={styles.sidebarActions}>
+                  <button type="button" onClick={() => setRenaming(selectedCollection.name)} className={styles.linkButton}>
+                    Rename
+                  </button>
+                  <button type="button" onClick={handleDeleteCollection} className={styles.linkButton}>
+                    Delete collection
+                  </button>
+                </div>
+              )
+            )}
+
+            <h2 className={styles.sidebarTitle}>Import and export</h2>
+            <label className={styles.fileLabel}>
+              Import a BibTeX, CSL-JSON or Zotero RDF file
+              <input
+                type="file"
+                accept=".bib,.bibtex,.json,.rdf,.xml"
+                onChange={handleImport}
+                disabled={importing}
+                className={styles.fileInput}
+              />
+            </label>
+            {importing && <p className={styles.status} role="status">Importing…</p>}
+            {importMessage && <p className={styles.status} role="status">{importMessage}</p>}
+            <div className={styles.sidebarForm}>
+              <select
+                value={fileFormat}
+                onChange={(event) => setFileFormat(event.target.value as LibraryFileFormat)}
+                aria-label="Export format"
+                className={styles.select}
+              >
+                {(Object.keys(LIBRARY_FILE_FORMATS) as LibraryFileFormat[]).map((format) => (
+                  <option key={format} value={format}>
+                    {LIBRARY_FILE_FORMATS[format].label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={handleExport} className={styles.button} disabled={exportedPapers.length === 0}>
+                {selectedCollection ? 'Export collection' : 'Export library'}
+              </button>
+            </div>
+          </aside>
+
+          <section className={styles.main}>
+            <div className={styles.filters}>
+              <input
+                type="search"
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                placeholder="Search titles, authors, tags and notes…"
+                aria-label="Search your library"
+                className={styles.searchInput}
+              />
+              <select
+                value={status}
+                onChange={(event) => setStatus(event.target.value as ReadingStatus | '')}
+                aria-label="Filter by reading status"
+                className={styles.select}
+              >
+                <option value="">Any status</option>
+                {(Object.keys(READING_STATUSES) as ReadingStatus[]).map((key) => (
+                  <option key={key} value={key}>
+                    {READING_STATUSES[key].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={tag}
+                onChange={(event) => setTag(event.target.value)}
+                aria-label="Filter by tag"
+                className={styles.select}
+              >
+                <option value="">Any tag</option>
+                {tags.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {(error || loadError) && <div className={styles.error} role="alert">{error ?? loadError}</div>}
+
+            {!loaded ? (
+              <p className={styles.empty}>Loading your library…</p>
+            ) : papers.length === 0 ? (
+              <p className={styles.empty}>
+                Your library is empty. Save papers from <Link href="/search">search results</Link> or the viewer to
+                find them here.
+              </p>
+            ) : visiblePapers.length === 0 ? (
+              <p className={styles.empty}>
+                No saved papers match {hasFilters ? 'these filters' : 'this collection'}.
+              </p>
+            ) : (
+              <div className={styles.list}>
+                <p className={styles.resultsCount}>
+                  {visiblePapers.length} paper{visiblePapers.length === 1 ? '' : 's'}
+                </p>
+                {visiblePapers.map((paper) => (
+                  <LibraryItem key={paper.arxivId} paper={paper} onSelectTag={setTag} />
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default LibraryPage;
@@ -1,22 +1,177 @@
+import Head from 'next/head';
 import { useRouter } from 'next/router';
-import { useEffect, useState, FC } from 'react';
+import { useCallback, useEffect, useMemo, useState, FC } from 'react';
 import notFoundStyles from '@/styles/NotFound.module.css';
 import pdfViewerStyles from '@/styles/PdfViewer.module.css';
 import ChatWidget from '@/components/ChatWidget';
-import { parseArxivId, getPdfViewerUrl } from '@/utils/arxivUtils';
-import { cleanArxivId } from '@/utils/arxivSearch';
+import CitePanel from '@/components/CitePanel';
+import SaveToLibrary from '@/components/SaveToLibrary';
+import PaperPicker from '@/components/PaperPicker';
+import VersionSwitcher from '@/components/VersionSwitcher';
+import { parseArxivId, getPdfViewerUrl, getVersionedArxivId } from '@/utils/arxivUtils';
+import { getViewerLocation, handlePageNavigation } from '@/utils/pageLinks';
+import { recordPageViewed, recordPaperOpened } from '@/utils/history';
+import { PaperMetadata, PapersApiResponse } from '@/types/papers';
+
+// The chat API attaches at most five PDFs per question
+const MAX_COMPARED_PAPERS = 4;
+
+/**
+ * Read the papers to compare with from the ?compare= query parameter
+ * @param compare - Comma-separated arXiv IDs, possibly repeated
+ * @param primaryId - Paper being viewed, which is never its own comparison
+ * @returns Valid, distinct arXiv IDs; other versions of the viewed paper can be compared with it
+ */
+function parseComparisonIds(compare: string | string[] | undefined, primaryId: string): string[] {
+  const values = (Array.isArray(compare) ? compare : compare ? [compare] : []).flatMap(value => value.split(','));
+  const ids: string[] = [];
+  for (const value of values) {
+    const parsed = parseArxivId(value);
+    const id = getVersionedArxivId(parsed);
+    if (parsed.isValid && id !== primaryId && !ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return ids.slice(0, MAX_COMPARED_PAPERS);
+}
 
 const PdfViewer: FC = () => {
   const router = useRouter();
-  const { arxivId } = router.query as { arxivId: string | string[] | undefined };
+  const { arxivId, compare, page } = router.query as {
+    arxivId: string | string[] | undefined;
+    compare: string | string[] | undefined;
+    page: string | string[] | undefined;
+  };
   const [parsedArxivId, setParsedArxivId] = useState<ReturnType<typeof parseArxivId> | null>(null);
   const [navHeight, setNavHeight] = useState<number>(0);
+  // Paper shown in the viewer; null means the paper in the URL path
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  // Explicit versions are kept: /pdf/1706.03762v2 shows and discusses v2
+  const primaryId = parsedArxivId?.isValid ? getVersionedArxivId(parsedArxivId) : '';
+  // Page to open at, e.g. /pdf/1706.03762?page=5 from the history
+  const initialPage = typeof page === 'string' && /^[1-9]\d*$/.test(page) ? Number(page) : null;
+  const compareKey = Array.isArray(compare) ? compare.join(',') : compare ?? '';
+  const comparisonIds = useMemo(
+    () => (primaryId ? parseComparisonIds(compareKey, primaryId) : []),
+    [compareKey, primaryId]
+  );
+
+  // Titles and authors for the headers, keyed by the IDs in the URL; the viewer works without them
+  const [paperDetails, setPaperDetails] = useState<Record<string, PaperMetadata>>({});
+  const [paperDetailsFailed, setPaperDetailsFailed] = useState(false);
+  // Bumped to load the details again after a failure
+  const [paperDetailsAttempt, setPaperDetailsAttempt] = useState(0);
+  const paperIdsKey = primaryId ? [primaryId, ...comparisonIds].join(',') : '';
+
+  useEffect(() => {
+    setViewingId(null);
+  }, [primaryId]);
+
+  useEffect(() => {
+    if (!paperIdsKey) return;
+
+    let cancelled = false;
+    const loadPaperDetails = async (): Promise<void> => {
+      setPaperDetailsFailed(false);
+      try {
+        const response = await fetch(`/api/papers?ids=${encodeURIComponent(paperIdsKey)}`);
+        if (!response.ok) {
+          throw new Error(`Papers API responded with ${response.status}`);
+        }
+        const data = (await response.json()) as PapersApiResponse;
+        if (!cancelled) {
+          setPaperDetails(Object.fromEntries(data.papers.map(paper => [paper.requestedId, paper])));
+        }
+      } catch (error) {
+        console.warn('PDF viewer: could not load paper details', error);
+        if (!cancelled) {
+          setPaperDetailsFailed(true);
+        }
+      }
+    };
+
+    loadPaperDetails();
+    return () => {
+      cancelled = true;
+    };
+  }, [paperIdsKey, paperDetailsAttempt]);
+
+  // Remember the paper in the history, with its title once it has loaded
+  const primaryTitle = paperDetails[primaryId]?.title;
+  useEffect(() => {
+    if (!primaryId) return;
+    recordPaperOpened(primaryId, primaryTitle);
+    if (initialPage) {
+      recordPageViewed(primaryId, initialPage);
+    }
+  }, [primaryId, primaryTitle, initialPage]);
+
+  // Follow the viewer as page links and the paper picker move it, so papers reopen where they were left.
+  // The PDF.js viewer is cross-origin, so pages reached by scrolling inside it can't be seen.
+  useEffect(() => {
+    const frame: HTMLElement | null = document.getElementById('pdfFrame');
+    if (!frame || !primaryId) return;
+
+    const observer = new MutationObserver(() => {
+      const location = getViewerLocation(frame.getAttribute('src') ?? '');
+      if (!location) return;
+      if (location.arxivId !== primaryId) {
+        recordPaperOpened(location.arxivId, paperDetails[location.arxivId]?.title);
+      }
+      if (location.page) {
+        recordPageViewed(location.arxivId, location.page);
+      }
+    });
+    observer.observe(frame, { attributes: true, attributeFilter: ['src'] });
+    return () => observer.disconnect();
+  }, [primaryId, paperDetails]);
+
+  const updateComparisons = useCallback((ids: string[]): void => {
+    const query = { ...router.query };
+    if (ids.length > 0) {
+      query.compare = ids.join(',');
+    } else {
+      delete query.compare;
+    }
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  }, [router]);
+
+  const handleViewPaper = useCallback((id: string): void => {
+    setViewingId(id);
+    handlePageNavigation('1', undefined, { arxivId: id });
+  }, []);
+
+  const handleAddPaper = (input: string): string | null => {
+    const parsed = parseArxivId(input);
+    if (!parsed.isValid) {
+      return `Invalid arXiv ID: ${input}`;
+    }
+    const id = getVersionedArxivId(parsed);
+    if (id === primaryId || comparisonIds.includes(id)) {
+      return `${id} is already part of this chat`;
+    }
+    updateComparisons([...comparisonIds, id]);
+    return null;
+  };
+
+  const handleSelectVersion = (version: number | null): void => {
+    if (!parsedArxivId?.isValid) return;
+    const id = getVersionedArxivId({ id: parsedArxivId.id, version });
+    router.push({ pathname: router.pathname, query: { ...router.query, arxivId: id.split('/') } });
+  };
+
+  const handleRemovePaper = (id: string): void => {
+    if (viewingId === id) {
+      handleViewPaper(primaryId);
+    }
+    updateComparisons(comparisonIds.filter(comparisonId => comparisonId !== id));
+  };
 
   useEffect(() => {
     if (arxivId) {
-      // Clean the arxivId to remove version numbers before parsing
-      const cleanedId: string = cleanArxivId(arxivId);
-      const parsed: ReturnType<typeof parseArxivId> = parseArxivId(cleanedId);
+      // Normalizes prefixes and pasted abs/pdf URLs; explicit versions are kept
+      const parsed: ReturnType<typeof parseArxivId> = parseArxivId(arxivId);
       setParsedArxivId(parsed);
     }
 
@@ -135,10 +290,14 @@ const PdfViewer: FC = () => {
   }
 
   // Valid ArXiv ID - show PDF viewer with chat widget
-  const pdfViewerUrl: string = getPdfViewerUrl(parsedArxivId.id);
+  const pdfViewerUrl: string = getPdfViewerUrl(primaryId);
+  const primaryPaper = paperDetails[primaryId];
 
   return (
     <>
+      <Head>
+        <title>{primaryPaper ? `${primaryPaper.title} (${primaryId}) - asXiv` : `${primaryId} - asXiv`}</title>
+      </Head>
       <style jsx>{`
         :global(:root) {
           --nav-height: ${navHeight}px;
@@ -146,8 +305,8 @@ const PdfViewer: FC = () => {
       `}</style>
       <iframe
         id="pdfFrame"
-        src={pdfViewerUrl}
-        title={`arXiv PDF Viewer - ${parsedArxivId.id}`}
+        src={initialPage ? `${pdfViewerUrl}#page=${initialPage}` : pdfViewerUrl}
+        title={`arXiv PDF Viewer - ${primaryId}`}
         className={pdfViewerStyles.pdfViewer}
         allow="fullscreen; clipboard-write; clipboard-read"
         sandbox="allow-same-origin allow-scripts allow-forms allow-downloads allow-popups"
@@ -175,7 +334,7 @@ const PdfViewer: FC = () => {
           You can still use the AI assistant to discuss the paper based on its abstract and metadata.
         </p>
         <a 
-          href={`https://arxiv.org/abs/${parsedArxivId.id}`}
+          href={`https://arxiv.org/abs/${primaryId}`}
           target="_blank"
           rel="noopener noreferrer"
           style={{
@@ -187,7 +346,34 @@ const PdfViewer: FC = () => {
           View Abstract on arXiv →
         </a>
       </div>
-      <ChatWidget arxivId={parsedArxivId.id} navHeight={navHeight} />
+      <PaperPicker
+        paperIds={[primaryId, ...comparisonIds]}
+        viewingId={viewingId ?? primaryId}
+        onView={handleViewPaper}
+        onAdd={handleAddPaper}
+        onRemove={handleRemovePaper}
+        canAdd={comparisonIds.length < MAX_COMPARED_PAPERS}
+        titles={Object.fromEntries(Object.entries(paperDetails).map(([id, paper]) => [id, paper.title]))}
+      >
+        <VersionSwitcher
+          arxivId={parsedArxivId.id}
+          version={parsedArxivId.version}
+          onSelect={handleSelectVersion}
+        />
+        <CitePanel
+          paper={primaryPaper}
+          loadFailed={paperDetailsFailed}
+          onRetry={() => setPaperDetailsAttempt((attempt) => attempt + 1)}
+        />
+        {primaryPaper && <SaveToLibrary paper={primaryPaper} arxivId={primaryId} />}
+      </PaperPicker>
+      <ChatWidget
+        arxivId={primaryId}
+        navHeight={navHeight}
+        comparisonIds={comparisonIds}
+        onOpenPaper={setViewingId}
+        paper={primaryPaper}
+      />
     </>
   );
 };
@@ -18,11 +18,13 @@ import styles from '@/styles/Search.module.css';
 import {
   ArxivSearchResult,
   formatArxivDate,
-  getArxivCategories,
   truncateText,
   cleanArxivId
 } from '@/utils/arxivSearch';
-import { ArxivCategory } from '@/constants/arxivCategories';
+import { buildSearchQuery, formatSearchQuery } from '@/utils/searchQuery';
+import CategorySelect from '@/components/CategorySelect';
+import SaveToLibrary from '@/components/SaveToLibrary';
+import { EXPORT_FORMATS, ExportFormat } from '@/utils/citationExport';
 
 interface SearchSuccessResponse {
   results: ArxivSearchResult[];
@@ -62,6 +64,13 @@ const ASSISTANT_SUGGESTIONS = [
   }
 ];
 
+// Submission date ranges offered in the advanced panel, ending today
+const DATE_PRESETS: { label: string; shift: (date: Date) => void }[] = [
+  { label: 'Last week', shift: (date) => date.setUTCDate(date.getUTCDate() - 7) },
+  { label: 'Last month', shift: (date) => date.setUTCMonth(date.getUTCMonth() - 1) },
+  { label: 'Last year', shift: (date) => date.setUTCFullYear(date.getUTCFullYear() - 1) }
+];
+
 const SearchPage: FC = () => {
   const router = useRouter();
 
@@ -78,6 +87,10 @@ const SearchPage: FC = () => {
   const [author, setAuthor] = useState<string>('');
   const [title, setTitle] = useState<string>('');
   const [abstract, setAbstract] = useState<string>('');
+  const [dateFrom, setDateFrom] = useState<string>('');
+  const [dateTo, setDateTo] = useState<string>('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('bibtex');
 
   const [assistantPrompt, setAssistantPrompt] = useState<string>('');
   const [assistantLoading, setAssistantLoading] = useState<boolean>(false);
@@ -95,7 +108,6 @@ const SearchPage: FC = () => {
   const dragStateRef = useRef<{ offsetX: number; offsetY: number } | null>(null);
   const initialPositionSetRef = useRef<boolean>(false);
 
-  const categories: ArxivCategory[] = getArxivCategories();
   const hasSearchedRef = useRef<boolean>(false);
   const lastExecutedQueryRef = useRef<string>('');
 
@@ -259,18 +271,22 @@ const SearchPage: FC = () => {
       lastExecutedQueryRef.current = queryToUse;
 
       try {
+        // The advanced form's fields are folded into the query, so one query carries the whole search
+        const searchQuery = buildSearchQuery({ query: queryToUse, author, title, abstract, category });
+        if (!searchQuery) {
+          throw new Error('Enter something to search for');
+        }
+
         const params = new URLSearchParams({
-          q: queryToUse,
+          q: formatSearchQuery(searchQuery),
           start: (page * ITEMS_PER_PAGE).toString(),
           maxResults: ITEMS_PER_PAGE.toString(),
           sortBy,
           sortOrder
         });
 
-        if (category) params.append('category', category);
-        if (author) params.append('author', author);
-        if (title) params.append('title', title);
-        if (abstract) params.append('abstract', abstract);
+        if (dateFrom) params.append('from', dateFrom);
+        if (dateTo) params.append('to', dateTo);
 
         const response = await fetch(`/api/search?${params.toString()}`);
 
@@ -297,7 +313,7 @@ const SearchPage: FC = () => {
         }
       }
     },
-    [abstract, author, category, query, sortBy, sortOrder, title]
+    [abstract, author, category, dateFrom, dateTo, query, sortBy, sortOrder, title]
   );
 
   const runAssistant = useCallback(async (promptText: string) => {
@@ -397,11 +413,29 @@ const SearchPage: FC = () => {
     }
   }, [handleSearch, router.query.advanced, router.query.q]);
 
+  const handleDatePreset = (shift: (date: Date) => void): void => {
+    const start = new Date();
+    shift(start);
+    setDateFrom(start.toISOString().slice(0, 10));
+    setDateTo('');
+  };
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    setSelectedIds([]);
     handleSearch(0);
   };
 
+  // Selections are kept across result pages until the next search
+  const toggleSelected = (arxivId: string): void => {
+    setSelectedIds((prev) =>
+      prev.includes(arxivId) ? prev.filter((id) => id !== arxivId) : [...prev, arxivId]
+    );
+  };
+
+  const getExportUrl = (arxivIds: string[]): string =>
+    `/api/export?${new URLSearchParams({ ids: arxivIds.join(','), format: exportFormat }).toString()}`;
+
   const handlePageChange = (newPage: number): void => {
     const totalPages = Math.ceil(totalResults / ITEMS_PER_PAGE);
     if (newPage < 0 || newPage === currentPage || newPage >= totalPages) {
@@ -483,6 +517,11 @@ const SearchPage: FC = () => {
 
             {showAdvanced && (
               <div className={styles.advancedOptions}>
+                <p className={styles.advancedHint}>
+                  Combine terms with <code>OR</code>, exclude them with <code>-</code>, group them with parentheses
+                  and quote phrases, e.g. <code>au:hinton OR au:lecun ti:&quot;deep learning&quot; -cat:stat.ML</code>.
+                  The fields below accept the same syntax.
+                </p>
                 <div className={styles.advancedRow}>
                   <div className={styles.advancedField}>
                     <label htmlFor="author">Author:</label>
@@ -522,22 +561,59 @@ const SearchPage: FC = () => {
                   </div>
                   <div className={styles.advancedField}>
                     <label htmlFor="category">Category:</label>
-                    <select
-                      id="category"
-                      value={category}
-                      onChange={(event: ChangeEvent<HTMLSelectElement>) => setCategory(event.target.value)}
-                      className={styles.advancedSelect}
-                    >
-                      <option value="">All categories</option>
-                      {categories.map((cat) => (
-                        <option key={cat.code} value={cat.code}>
-                          {cat.code} — {cat.name}
-                        </option>
-                      ))}
-                    </select>
+                    <CategorySelect id="category" value={category} onChange={setCategory} />
                   </div>
                 </div>
 
+                <div className={styles.advancedRow}>
+                  <div className={styles.advancedField}>
+                    <label htmlFor="dateFrom">Submitted from:</label>
+                    <input
+                      id="dateFrom"
+                      type="date"
+                      value={dateFrom}
+                      max={dateTo || undefined}
+                      onChange={(event: ChangeEvent<HTMLInputElement>) => setDateFrom(event.target.value)}
+                      className={styles.advancedInput}
+                    />
+                  </div>
+                  <div className={styles.advancedField}>
+                    <label htmlFor="dateTo">Submitted to:</label>
+                    <input
+                      id="dateTo"
+                      type="date"
+                      value={dateTo}
+                      min={dateFrom || undefined}
+                      onChange={(event: ChangeEvent<HTMLInputElement>) => setDateTo(event.target.value)}
+                      className={styles.advancedInput}
+                    />
+                  </div>
+                </div>
+
+                <div className={styles.datePresets} role="group" aria-label="Submission date presets">
+                  {DATE_PRESETS.map((preset) => (
+                    <button
+                      key={preset.label}
+                      type="button"
+                      onClick={() => handleDatePreset(preset.shift)}
+                      className={styles.datePresetButton}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setDateFrom('');
+                      setDateTo('');
+                    }}
+                    className={styles.datePresetButton}
+                    disabled={!dateFrom && !dateTo}
+                  >
+                    Any time
+                  </button>
+                </div>
+
                 <div className={styles.advancedRow}>
                   <div className={styles.advancedField}>
                     <label htmlFor="sortBy">Sort by:</label>
@@ -583,6 +659,41 @@ const SearchPage: FC = () => {
                 ? `${totalResults.toLocaleString()} result${totalResults === 1 ? '' : 's'} found`
                 : 'Search to see results'}
             </p>
+            {results.length > 0 && (
+              <div className={styles.exportActions} role="group" aria-label="Export citations">
+                <select
+                  value={exportFormat}
+                  onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+                    setExportFormat(event.target.value as ExportFormat)
+                  }
+                  className={styles.exportSelect}
+                  aria-label="Export format"
+                >
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {EXPORT_FORMATS[format].label}
+                    </option>
+                  ))}
+                </select>
+                <a href={getExportUrl(results.map((result) => result.id))} download className={styles.exportButton}>
+                  Export page
+                </a>
+                {selectedIds.length > 0 ? (
+                  <>
+                    <a href={getExportUrl(selectedIds)} download className={styles.exportButton}>
+                      Export selected ({selectedIds.length})
+                    </a>
+                    <button type="button" onClick={() => setSelectedIds([])} className={styles.exportButton}>
+                      Clear selection
+                    </button>
+                  </>
+                ) : (
+                  <button type="button" disabled className={styles.exportButton}>
+                    Export selected
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {hasAssistantSummary && (
@@ -651,6 +762,19 @@ const SearchPage: FC = () => {
                           Updated: {formatArxivDate(result.updated) || 'Unknown'}
                         </span>
                         {isRecommended && <span className={styles.resultBadge}>AI recommended</span>}
+                        <label
+                          className={styles.resultSelect}
+                          onClick={(event: MouseEvent<HTMLLabelElement>) => event.stopPropagation()}
+                          onKeyDown={(event) => event.stopPropagation()}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(result.id)}
+                            onChange={() => toggleSelected(result.id)}
+                            aria-label={`Select ${result.title} for export`}
+                          />
+                          Select
+                        </label>
                       </div>
                     </div>
 
@@ -699,6 +823,14 @@ const SearchPage: FC = () => {
                       >
                         Download PDF
                       </a>
+                      <div
+                        className={styles.libraryAction}
+                        onClick={(event: MouseEvent<HTMLDivElement>) => event.stopPropagation()}
+                        onKeyDown={(event) => event.stopPropagation()}
+                        role="presentation"
+                      >
+                        <SaveToLibrary paper={result} />
+                      </div>
                     </div>
                   </div>
                 );
@@ -13,6 +13,38 @@ export interface StructuredChatResponse {
   
   // Response type for UI handling
   responseType?: 'welcome' | 'answer' | 'clarification' | 'error';
+
+  // Page citations checked against the PDF text, in order of appearance in content
+  citations?: PageCitation[];
+
+  // Verbatim quotes backing the answer, shown as footnotes
+  evidence?: EvidenceQuote[];
+
+  // Papers whose PDF was unavailable, so the answer only draws on their abstract and metadata
+  abstractOnly?: string[];
+}
+
+export interface PageCitation {
+  page: number;
+  // Paper the page belongs to, when the reference names one
+  arxivId?: string;
+  // Sentence the citation supports
+  claim: string;
+  // Share (0-1) of the claim's key terms found on the cited page
+  confidence: number;
+  verified: boolean;
+}
+
+export interface EvidenceQuote {
+  // Short verbatim excerpt from the paper
+  quote: string;
+  page: number;
+  // Paper the quote is from, when several papers are discussed
+  arxivId?: string;
+  // Claim in the answer the quote supports
+  claim: string;
+  // True when the quote was found on the page's text; unset if the text was unavailable
+  verified?: boolean;
 }
 
 // Current message interface (keeping for backwards compatibility)
@@ -25,6 +57,9 @@ export interface Message {
   
   // New optional structured data
   structured?: StructuredChatResponse | undefined;
+
+  // True while the response is still being streamed
+  isStreaming?: boolean;
 }
 
 // API response format
@@ -35,3 +70,32 @@ export interface ChatApiResponse {
   // New structured format
   structured?: StructuredChatResponse;
 }
+
+// Streaming API events (sent as newline-delimited JSON)
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: string; structured: StructuredChatResponse }
+  | { type: 'error'; error: string; details?: string };
+
+// Server-side chat sessions
+export interface ChatSessionMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  structured?: StructuredChatResponse | undefined;
+  createdAt: string;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  arxivId: string;
+  // First question asked in the session, if any
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ChatSession extends Omit<ChatSessionSummary, 'messageCount'> {
+  messages: ChatSessionMessage[];
+}
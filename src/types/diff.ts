@@ -0,0 +1,49 @@
+// Comparison of two versions of a paper
+
+export interface ParagraphChange {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SectionDiff {
+  // Heading in the newer version, or in the older one for removed sections ("" for the front matter)
+  heading: string;
+  // Heading in the older version, when it differs (e.g. the section was renumbered)
+  previousHeading?: string;
+  status: 'unchanged' | 'modified' | 'added' | 'removed';
+  paragraphs: ParagraphChange[];
+}
+
+export interface DiffStats {
+  addedParagraphs: number;
+  removedParagraphs: number;
+  unchangedParagraphs: number;
+  addedSections: number;
+  removedSections: number;
+  modifiedSections: number;
+}
+
+export interface PaperDiff {
+  sections: SectionDiff[];
+  stats: DiffStats;
+}
+
+// AI summary of the changes, generated with structured output
+export interface DiffSummary {
+  // Overview of what changed (plain text)
+  summary: string;
+  changes: {
+    section: string;
+    description: string;
+    significance: 'major' | 'minor';
+  }[];
+}
+
+export interface DiffApiResponse extends PaperDiff {
+  arxivId: string;
+  from: number;
+  to: number;
+  // Null when the summary could not be generated; the diff is still usable
+  summary: DiffSummary | null;
+  summaryError?: string;
+}
@@ -0,0 +1,25 @@
+// Reading and chat history, kept in the browser
+
+export interface PaperVisit {
+  // ID the paper was opened under, e.g. "1706.03762" or "1706.03762v2"
+  arxivId: string;
+  // Title, once the viewer has loaded it
+  title?: string | undefined;
+  // Last time the paper was opened
+  openedAt: string;
+  // Last page the viewer was sent to
+  lastPage?: number | undefined;
+}
+
+export interface ChatQuestion {
+  id: string;
+  // Paper the chat was about
+  arxivId: string;
+  title?: string | undefined;
+  question: string;
+  askedAt: string;
+}
+
+export type HistoryEntry =
+  | ({ kind: 'paper'; time: string } & PaperVisit)
+  | ({ kind: 'question'; time: string } & ChatQuestion);
@@ -0,0 +1,36 @@
+// Personal library of saved papers, kept in the browser
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+
+export type ReadingStatus = 'to-read' | 'reading' | 'done';
+
+export interface LibraryPaper {
+  // ID the paper was saved under, e.g. "1706.03762" or "1706.03762v2" for a specific version
+  arxivId: string;
+  // Metadata as it was when the paper was saved
+  metadata: ArxivSearchResult;
+  // IDs of the collections the paper is in
+  collectionIds: string[];
+  // Lowercase tags, sorted
+  tags: string[];
+  // Notes in markdown
+  notes: string;
+  status: ReadingStatus;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export interface LibraryCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface LibraryFilter {
+  // Only papers in this collection
+  collectionId?: string | undefined;
+  tag?: string | undefined;
+  status?: ReadingStatus | undefined;
+  // Words to find in the title, authors, abstract, tags or notes
+  text?: string | undefined;
+}
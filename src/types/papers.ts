@@ -0,0 +1,15 @@
+// Metadata lookup by arXiv ID (/api/papers)
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+
+export interface PaperMetadata extends ArxivSearchResult {
+  // ID as it was requested, e.g. "1706.03762v2" for a specific version
+  requestedId: string;
+}
+
+export interface PapersApiResponse {
+  // Papers in request order
+  papers: PaperMetadata[];
+  // Requested IDs arXiv doesn't know
+  notFound: string[];
+}
@@ -0,0 +1,238 @@
+import { ArxivClient, isArxivBusyError, normalizeArxivUrl } from '../arxivClient';
+
+global.fetch = jest.fn();
+
+const ok = (text: string) => ({ ok: true, status: 200, statusText: 'OK', text: async () => text });
+const unavailable = (retryAfter: string | null = null) => ({
+  ok: false,
+  status: 503,
+  statusText: 'Service Unavailable',
+  headers: { get: () => retryAfter },
+  text: async () => ''
+});
+
+// Rejects like fetch does when its request is aborted
+const hangUntilAborted = (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+  init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+});
+
+describe('arxivClient', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-03-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('normalizeArxivUrl', () => {
+    it('should sort parameters and collapse whitespace', () => {
+      expect(normalizeArxivUrl('http://export.arxiv.org/api/query?start=0&search_query=all:bert%20%20AND%20cat:cs.CL%20'))
+        .toBe(normalizeArxivUrl('http://export.arxiv.org/api/query?search_query=all:bert+AND+cat:cs.CL&start=0'));
+    });
+  });
+
+  describe('spacing', () => {
+    it('should send queued requests one interval apart', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 3000 });
+
+      const requests = ['a', 'b', 'c'].map(query => client.fetchText(`http://export.arxiv.org/api/query?search_query=${query}`));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(client.stats().queued).toBe(2);
+
+      await jest.advanceTimersByTimeAsync(2999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+
+      await Promise.all(requests);
+      expect(client.stats().queued).toBe(0);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers['User-Agent']).toMatch(/^asXiv\//);
+    });
+
+    it('should send PDF downloads without waiting for an API slot', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 3000 });
+
+      const apiRequests = ['a', 'b'].map(query => client.fetchText(`http://export.arxiv.org/api/query?search_query=${query}`));
+      const downloads = ['1706.03762', '1810.04805'].map(id => client.fetch(`https://arxiv.org/pdf/${id}`, response => response.text()));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url).sort()).toEqual([
+        'http://export.arxiv.org/api/query?search_query=a',
+        'https://arxiv.org/pdf/1706.03762',
+        'https://arxiv.org/pdf/1810.04805'
+      ]);
+      expect(client.stats().queued).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      await Promise.all([...apiRequests, ...downloads]);
+    });
+
+    it('should turn API requests away at once when the queue is full', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 3000, maxQueued: 2 });
+
+      const first = client.fetchText('http://export.arxiv.org/api/query?search_query=a');
+      await jest.advanceTimersByTimeAsync(0);
+      const accepted = [first, ...['b', 'c'].map(query => client.fetchText(`http://export.arxiv.org/api/query?search_query=${query}`))];
+      expect(client.stats().queued).toBe(2);
+
+      const rejected = client.fetchText('http://export.arxiv.org/api/query?search_query=d');
+      await expect(rejected).rejects.toThrow('Too many requests to arXiv are waiting; try again shortly');
+      expect(isArxivBusyError(await rejected.catch(error => error))).toBe(true);
+      expect(isArxivBusyError(new Error('ArXiv API error: 503'))).toBe(false);
+      // PDF downloads are not queued, so they are never turned away
+      await expect(client.fetch('https://arxiv.org/pdf/1706.03762', response => response.text())).resolves.toBe('feed');
+
+      await jest.advanceTimersByTimeAsync(6000);
+      await Promise.all(accepted);
+      expect(client.stats()).toMatchObject({ rejected: 1, queued: 0 });
+    });
+  });
+
+  describe('caching', () => {
+    it('should serve equivalent queries from the cache until they expire', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 0, cacheTtlMs: 60 * 1000 });
+
+      expect((await client.fetchText('http://export.arxiv.org/api/query?search_query=bert&start=0')).text).toBe('feed');
+      expect((await client.fetchText('http://export.arxiv.org/api/query?start=0&search_query=bert')).text).toBe('feed');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(60 * 1000);
+      await client.fetchText('http://export.arxiv.org/api/query?search_query=bert&start=0');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(client.stats()).toMatchObject({ requests: 2, cacheHits: 1, cacheMisses: 2, cacheEntries: 1 });
+    });
+
+    it('should share a request that is already in flight', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 0 });
+
+      const [first, second] = await Promise.all([
+        client.fetchText('http://export.arxiv.org/api/query?id_list=1706.03762'),
+        client.fetchText('http://export.arxiv.org/api/query?id_list=1706.03762')
+      ]);
+
+      expect(first).toBe(second);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      // Joining a request in flight is not a cache hit
+      expect(client.stats()).toMatchObject({ cacheHits: 0, cacheMisses: 1, shared: 1 });
+    });
+
+    it('should not cache error responses', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request', text: async () => 'error' })
+        .mockResolvedValueOnce(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 0 });
+
+      expect((await client.fetchText('http://export.arxiv.org/api/query?search_query=a')).status).toBe(400);
+      expect((await client.fetchText('http://export.arxiv.org/api/query?search_query=a')).text).toBe('feed');
+      expect(client.stats().cacheEntries).toBe(1);
+    });
+
+    it('should evict the oldest responses beyond the entry limit', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 0, maxCacheEntries: 2 });
+
+      for (const query of ['a', 'b', 'c', 'a']) {
+        await client.fetchText(`http://export.arxiv.org/api/query?search_query=${query}`);
+      }
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(client.stats().cacheEntries).toBe(2);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a 503 after the delay arXiv asks for', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(unavailable('5'))
+        .mockResolvedValueOnce(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 3000 });
+
+      const request = client.fetchText('http://export.arxiv.org/api/query?search_query=a');
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect((await request).text).toBe('feed');
+      expect(client.stats()).toMatchObject({ requests: 2, retries: 1, failures: 0 });
+    });
+
+    it('should back off exponentially and give up after the last retry', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(unavailable());
+      const client = new ArxivClient({ intervalMs: 1000, maxRetries: 2 });
+
+      const request = client.fetch('https://arxiv.org/pdf/1706.03762', async response => response.status);
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(4000);
+
+      expect(await request).toBe(503);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(client.stats()).toMatchObject({ retries: 2, failures: 1 });
+    });
+
+    it('should retry requests that time out', async () => {
+      (global.fetch as jest.Mock).mockImplementation(hangUntilAborted);
+      const client = new ArxivClient({ intervalMs: 0, maxRetries: 1, timeoutMs: 1000 });
+
+      const request = client.fetch('https://arxiv.org/pdf/1706.03762', response => response.text());
+      const assertion = expect(request).rejects.toThrow('ArXiv request timed out after 1000 ms');
+      await jest.advanceTimersByTimeAsync(2000);
+      await assertion;
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(client.stats()).toMatchObject({ requests: 2, retries: 1, failures: 1 });
+    });
+
+    it('should time out a response body that stalls', async () => {
+      const stalledBody = (_url: string, init: RequestInit) => Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: () => hangUntilAborted(_url, init)
+      });
+      (global.fetch as jest.Mock).mockImplementationOnce(stalledBody).mockResolvedValueOnce(ok('pdf'));
+      const client = new ArxivClient({ intervalMs: 0, maxRetries: 1, timeoutMs: 1000 });
+
+      const request = client.fetch('https://arxiv.org/pdf/1706.03762', response => response.text());
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await request).toBe('pdf');
+      expect(client.stats()).toMatchObject({ requests: 2, retries: 1, failures: 0 });
+    });
+
+    it('should cancel the body of a 503 before retrying', async () => {
+      const cancel = jest.fn().mockResolvedValue(undefined);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ...unavailable('1'), body: { cancel } })
+        .mockResolvedValueOnce(ok('feed'));
+      const client = new ArxivClient({ intervalMs: 0 });
+
+      const request = client.fetchText('http://export.arxiv.org/api/query?search_query=a');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(cancel).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect((await request).text).toBe('feed');
+    });
+
+    it('should not retry network errors', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+      const client = new ArxivClient({ intervalMs: 0 });
+
+      await expect(client.fetch('https://arxiv.org/pdf/1706.03762', response => response.text())).rejects.toThrow('getaddrinfo ENOTFOUND');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,4 +1,21 @@
-import { cleanArxivId, formatArxivDate, truncateText } from '../arxivSearch';
+import {
+  cleanArxivId,
+  formatArxivDate,
+  formatAuthorList,
+  getArxivMetadata,
+  getArxivPaper,
+  getArxivVersions,
+  searchArxiv,
+  truncateText
+} from '../arxivSearch';
+
+global.fetch = jest.fn();
+
+const feed = (entry: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">1</opensearch:totalResults>
+  ${entry}
+</feed>`;
 
 describe('arxivSearch utilities', () => {
   describe('cleanArxivId', () => {
@@ -55,4 +72,317 @@ describe('arxivSearch utilities', () => {
       expect(truncated.length).toBe(203); // 200 + '...'
     });
   });
+
+  describe('formatAuthorList', () => {
+    it('should shorten long author lists', () => {
+      expect(formatAuthorList(['A', 'B'])).toBe('A, B');
+      expect(formatAuthorList(['A', 'B', 'C', 'D'])).toBe('A, B, C et al.');
+      expect(formatAuthorList(['A', 'B', 'C'], 1)).toBe('A et al.');
+    });
+  });
+
+  describe('getArxivPaper', () => {
+    afterEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should look up a paper by ID, including comments and journal reference', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <updated>2023-08-02T00:41:18Z</updated>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You Need</title>
+    <summary>The dominant sequence transduction models are based on recurrent networks.</summary>
+    <author><name>Ashish Vaswani</name></author>
+    <arxiv:comment xmlns:arxiv="http://arxiv.org/schemas/atom">15 pages, 5 figures</arxiv:comment>
+    <arxiv:journal_ref xmlns:arxiv="http://arxiv.org/schemas/atom">NeurIPS 2017</arxiv:journal_ref>
+    <category term="cs.CL" scheme="http://arxiv.org/schemas/atom"/>
+  </entry>`)
+      });
+
+      const paper = await getArxivPaper('1706.03762');
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('id_list=1706.03762');
+      expect(paper).toEqual(expect.objectContaining({
+        id: '1706.03762',
+        title: 'Attention Is All You Need',
+        authors: ['Ashish Vaswani'],
+        comment: '15 pages, 5 figures',
+        journalRef: 'NeurIPS 2017'
+      }));
+    });
+
+    it('should return null for IDs arXiv does not know', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/api/errors#incorrect_id_format_for_9999.99999</id>
+    <title>Error</title>
+    <summary>incorrect id format for 9999.99999</summary>
+  </entry>`)
+      });
+
+      expect(await getArxivPaper('9999.99999')).toBeNull();
+    });
+  });
+
+  describe('feed parsing', () => {
+    afterEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should decode entities and collapse whitespace', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/abs/2101.00001v1</id>
+    <title>Bounds on &lt;x&gt; &amp; the
+      Schr&#246;dinger equation</title>
+    <summary>  We study
+  &quot;quantum&quot; systems.
+</summary>
+    <author><name>Erwin   Schr&#xF6;dinger</name></author>
+  </entry>`)
+      });
+
+      const paper = await getArxivPaper('2101.00001');
+
+      expect(paper?.title).toBe('Bounds on <x> & the Schrödinger equation');
+      expect(paper?.abstract).toBe('We study "quantum" systems.');
+      expect(paper?.authors).toEqual(['Erwin Schrödinger']);
+    });
+
+    it('should read categories, the primary category, affiliations and version links', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <title>Attention Is All You Need</title>
+    <summary>Abstract</summary>
+    <author>
+      <name>Ashish Vaswani</name>
+      <arxiv:affiliation xmlns:arxiv="http://arxiv.org/schemas/atom">Google Brain</arxiv:affiliation>
+    </author>
+    <author>
+      <name>Llion Jones</name>
+      <arxiv:affiliation xmlns:arxiv="http://arxiv.org/schemas/atom">Google Research</arxiv:affiliation>
+      <arxiv:affiliation xmlns:arxiv="http://arxiv.org/schemas/atom">University of Birmingham</arxiv:affiliation>
+    </author>
+    <link href="http://arxiv.org/abs/1706.03762v7" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/1706.03762v7" rel="related" type="application/pdf"/>
+    <arxiv:primary_category xmlns:arxiv="http://arxiv.org/schemas/atom" term="cs.CL" scheme="http://arxiv.org/schemas/atom"/>
+    <category scheme="http://arxiv.org/schemas/atom" term="cs.CL"/>
+    <category term="cs.LG" scheme="http://arxiv.org/schemas/atom" label="Machine Learning"/>
+    <arxiv:doi xmlns:arxiv="http://arxiv.org/schemas/atom">10.48550/arXiv.1706.03762</arxiv:doi>
+  </entry>`)
+      });
+
+      const paper = await getArxivPaper('1706.03762');
+
+      expect(paper).toEqual(expect.objectContaining({
+        id: '1706.03762',
+        version: 7,
+        categories: ['cs.CL', 'cs.LG'],
+        primaryCategory: 'cs.CL',
+        doi: '10.48550/arXiv.1706.03762',
+        authors: ['Ashish Vaswani', 'Llion Jones'],
+        authorDetails: [
+          { name: 'Ashish Vaswani', affiliations: ['Google Brain'] },
+          { name: 'Llion Jones', affiliations: ['Google Research', 'University of Birmingham'] }
+        ],
+        abstractUrl: 'https://arxiv.org/abs/1706.03762',
+        versionedAbstractUrl: 'https://arxiv.org/abs/1706.03762v7',
+        versionedPdfUrl: 'https://arxiv.org/pdf/1706.03762v7'
+      }));
+    });
+
+    it('should report the counts from the feed without estimating', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry><id>http://arxiv.org/abs/2101.00001v1</id><title>One</title></entry>
+  <entry><id>http://arxiv.org/abs/2101.00002v1</id><title>Two</title></entry>
+</feed>`
+      });
+
+      const response = await searchArxiv({ query: 'anything', start: 20, maxResults: 10 });
+
+      expect(response.results.map((result) => result.title)).toEqual(['One', 'Two']);
+      expect(response.totalResults).toBe(22);
+      expect(response.startIndex).toBe(20);
+      expect(response.errors).toBeUndefined();
+    });
+
+    it('should surface errors arXiv reports as entries', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/api/errors#start_must_be_an_integer</id>
+    <title>Error</title>
+    <summary>start must be an integer</summary>
+  </entry>`)
+      });
+
+      const response = await searchArxiv({ query: 'anything' });
+
+      expect(response.results).toEqual([]);
+      expect(response.errors).toEqual(['start must be an integer']);
+    });
+
+    it('should include the reason when arXiv rejects a request', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => feed(`<entry>
+    <id>http://arxiv.org/api/errors#incorrect_id_format_for_1706</id>
+    <title>Error</title>
+    <summary>incorrect id format for 1706</summary>
+  </entry>`)
+      });
+
+      await expect(getArxivPaper('1706')).rejects.toThrow('Failed to look up arXiv paper 1706');
+      expect(console.error).toHaveBeenCalledWith(
+        'arxivSearch: paper lookup failed',
+        new Error('ArXiv API error: 400 Bad Request (incorrect id format for 1706)')
+      );
+    });
+  });
+
+  describe('searchArxiv', () => {
+    const emptyFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">0</opensearch:totalResults>
+</feed>`;
+
+    const searchQuery = () => new URL((global.fetch as jest.Mock).mock.calls[0][0]).searchParams.get('search_query');
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, text: async () => emptyFeed });
+    });
+
+    afterEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+      jest.useRealTimers();
+    });
+
+    it('should filter by submission date', async () => {
+      await searchArxiv({ query: 'au:hinton OR au:lecun', from: '2024-01-01', to: '2024-06-30' });
+
+      expect(searchQuery()).toBe('(au:hinton OR au:lecun) AND submittedDate:[202401010000 TO 202406302359]');
+    });
+
+    it('should fill in open ends of the date range', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-03-15T12:00:00Z'));
+
+      await searchArxiv({ query: 'attention', from: '2025-03-08' });
+      await searchArxiv({ query: 'attention', to: '1999-12-31' });
+
+      expect(searchQuery()).toBe('(all:attention) AND submittedDate:[202503080000 TO 202503152359]');
+      expect(new URL((global.fetch as jest.Mock).mock.calls[1][0]).searchParams.get('search_query'))
+        .toBe('(all:attention) AND submittedDate:[199101010000 TO 199912312359]');
+    });
+  });
+
+  describe('getArxivMetadata', () => {
+    const entry = (id: string, version: number) => `<entry>
+    <id>http://arxiv.org/abs/${id}v${version}</id>
+    <title>Paper ${id}v${version}</title>
+    <summary>Abstract</summary>
+  </entry>`;
+
+    afterEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should key papers by the requested ID and leave out unknown ones', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => feed([entry('1810.04805', 2), entry('1706.03762', 1)].join('\n'))
+      });
+
+      const papers = await getArxivMetadata(['1706.03762v1', '1810.04805', '2301.99999', '1810.04805']);
+
+      const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+      expect(url.searchParams.get('id_list')).toBe('1706.03762v1,1810.04805,2301.99999');
+      expect(url.searchParams.get('max_results')).toBe('3');
+      expect(Array.from(papers.keys())).toEqual(['1706.03762v1', '1810.04805']);
+      expect(papers.get('1810.04805')?.title).toBe('Paper 1810.04805v2');
+    });
+
+    it('should split long ID lists into batches', async () => {
+      const ids = Array.from({ length: 150 }, (_, index) => `2301.${String(index + 1).padStart(5, '0')}`);
+      (global.fetch as jest.Mock).mockImplementation(async (requestUrl: string) => ({
+        ok: true,
+        text: async () => feed(new URL(requestUrl).searchParams.get('id_list')!.split(',').map(id => entry(id, 1)).join('\n'))
+      }));
+
+      const papers = await getArxivMetadata(ids);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(new URL((global.fetch as jest.Mock).mock.calls[1][0]).searchParams.get('id_list')!.split(',')).toHaveLength(50);
+      expect(papers.size).toBe(150);
+    });
+
+    it('should not call arXiv for an empty list', async () => {
+      expect((await getArxivMetadata([])).size).toBe(0);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getArxivVersions', () => {
+    const versionEntry = (version: number, updated: string) => `<entry>
+    <id>http://arxiv.org/abs/1706.03762v${version}</id>
+    <updated>${updated}</updated>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You Need</title>
+    <summary>Abstract</summary>
+  </entry>`;
+
+    afterEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should date every version of a paper', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, text: async () => feed(versionEntry(3, '2017-12-06T03:30:32Z')) })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => feed([
+            versionEntry(1, '2017-06-12T17:57:34Z'),
+            versionEntry(2, '2017-06-19T17:04:19Z'),
+            versionEntry(3, '2017-12-06T03:30:32Z')
+          ].join('\n'))
+        });
+
+      const versions = await getArxivVersions('1706.03762');
+
+      expect(decodeURIComponent((global.fetch as jest.Mock).mock.calls[1][0])).toContain('id_list=1706.03762v1,1706.03762v2,1706.03762v3');
+      expect(versions).toEqual([
+        { version: 1, submitted: '2017-06-12T17:57:34Z' },
+        { version: 2, submitted: '2017-06-19T17:04:19Z' },
+        { version: 3, submitted: '2017-12-06T03:30:32Z' }
+      ]);
+    });
+
+    it('should not look up single-version papers twice', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, text: async () => feed(versionEntry(1, '2017-06-12T17:57:34Z')) });
+
+      expect(await getArxivVersions('1706.03762')).toEqual([{ version: 1, submitted: '2017-06-12T17:57:34Z' }]);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the versions cannot be loaded', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, text: async () => feed(versionEntry(2, '2017-06-19T17:04:19Z')) })
+        .mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable', text: async () => '' });
+
+      await expect(getArxivVersions('1706.03762')).rejects.toThrow('Failed to list versions of arXiv paper 1706.03762');
+    });
+  });
 });
@@ -3,8 +3,8 @@ import {
   getPdfViewerUrl, 
   getArxivPdfUrl,
   getArxivFileName,
-  getCategoryPromptContext,
-  checkFileExists
+  getVersionedArxivId,
+  getCategoryPromptContext
 } from '../arxivUtils';
 
 describe('arxivUtils', () => {
@@ -16,7 +16,12 @@ describe('arxivUtils', () => {
         isValid: true,
         category: null,
         number: '1706.03762',
-        isOldFormat: false
+        isOldFormat: false,
+        version: null,
+        subjectClass: null,
+        year: 2017,
+        month: 6,
+        isDatePlausible: true
       });
     });
 
@@ -27,7 +32,12 @@ describe('arxivUtils', () => {
         isValid: true,
         category: 'cs',
         number: '0211011',
-        isOldFormat: true
+        isOldFormat: true,
+        version: null,
+        subjectClass: null,
+        year: 2002,
+        month: 11,
+        isDatePlausible: true
       });
     });
 
@@ -38,7 +48,12 @@ describe('arxivUtils', () => {
         isValid: false,
         category: null,
         number: null,
-        isOldFormat: false
+        isOldFormat: false,
+        version: null,
+        subjectClass: null,
+        year: null,
+        month: null,
+        isDatePlausible: false
       });
     });
 
@@ -49,7 +64,12 @@ describe('arxivUtils', () => {
         isValid: false,
         category: null,
         number: null,
-        isOldFormat: false
+        isOldFormat: false,
+        version: null,
+        subjectClass: null,
+        year: null,
+        month: null,
+        isDatePlausible: false
       });
     });
 
@@ -60,7 +80,12 @@ describe('arxivUtils', () => {
         isValid: false,
         category: null,
         number: null,
-        isOldFormat: false
+        isOldFormat: false,
+        version: null,
+        subjectClass: null,
+        year: null,
+        month: null,
+        isDatePlausible: false
       });
     });
 
@@ -71,11 +96,81 @@ describe('arxivUtils', () => {
         isValid: true,
         category: 'cs',
         number: '0211011',
-        isOldFormat: true
+        isOldFormat: true,
+        version: null,
+        subjectClass: null,
+        year: 2002,
+        month: 11,
+        isDatePlausible: true
       });
     });
   });
 
+  describe('parseArxivId normalization', () => {
+    const now = new Date('2025-06-15T00:00:00Z');
+
+    it.each([
+      ['arXiv:1706.03762v5', '1706.03762', 5],
+      ['  ARXIV: 1706.03762 ', '1706.03762', null],
+      ['https://arxiv.org/abs/1706.03762', '1706.03762', null],
+      ['http://export.arxiv.org/abs/1706.03762v2', '1706.03762', 2],
+      ['https://arxiv.org/pdf/1706.03762v2.pdf', '1706.03762', 2],
+      ['arxiv.org/pdf/cs/0211011v1', 'cs/0211011', 1],
+      ['10.48550/arXiv.1706.03762', '1706.03762', null],
+      ['https://doi.org/10.48550/arXiv.2301.00001', '2301.00001', null],
+      ['math.GT/0309136', 'math/0309136', null]
+    ])('should normalize %s', (input, id, version) => {
+      const result = parseArxivId(input, now);
+
+      expect(result.isValid).toBe(true);
+      expect(result.id).toBe(id);
+      expect(result.version).toBe(version);
+    });
+
+    it('should accept URLs split into router segments', () => {
+      expect(parseArxivId(['https:', 'arxiv.org', 'abs', '1706.03762v3'], now)).toEqual(
+        expect.objectContaining({ id: '1706.03762', version: 3, isValid: true })
+      );
+    });
+
+    it('should return the subject class and date of old format IDs', () => {
+      expect(parseArxivId('math.GT/0309136', now)).toEqual({
+        id: 'math/0309136',
+        isValid: true,
+        category: 'math',
+        number: '0309136',
+        isOldFormat: true,
+        version: null,
+        subjectClass: 'GT',
+        year: 2003,
+        month: 9,
+        isDatePlausible: true
+      });
+      expect(parseArxivId('hep-th/9901001', now)).toEqual(expect.objectContaining({ year: 1999, month: 1 }));
+    });
+
+    it.each([
+      ['1713.00001', 'month 13'],
+      ['1700.00001', 'month 00'],
+      ['1412.12345', '5-digit number before 2015'],
+      ['1501.1234', '4-digit number from 2015'],
+      ['1706.03762v0', 'version 0'],
+      ['cs/0213011', 'old format month 13'],
+      ['10.1000/xyz123', 'non-arXiv DOI'],
+      ['https://example.com/abs/1706.03762', 'non-arXiv URL']
+    ])('should reject %s (%s)', (input) => {
+      expect(parseArxivId(input, now).isValid).toBe(false);
+    });
+
+    it('should flag dates outside the period each scheme was used', () => {
+      expect(parseArxivId('0612.1234', now).isDatePlausible).toBe(false);
+      expect(parseArxivId('0704.0001', now).isDatePlausible).toBe(true);
+      expect(parseArxivId('2507.00001', now).isDatePlausible).toBe(false);
+      expect(parseArxivId('cs/0801001', now).isDatePlausible).toBe(false);
+      expect(parseArxivId('cs/9001001', now).isDatePlausible).toBe(false);
+    });
+  });
+
   describe('getPdfViewerUrl', () => {
     it('should generate correct PDF.js viewer URL for new format arXiv ID', () => {
       const url = getPdfViewerUrl('1706.03762');
@@ -102,6 +197,11 @@ describe('arxivUtils', () => {
       const url = getArxivPdfUrl('cs/0211011');
       expect(url).toBe('https://arxiv.org/pdf/cs/0211011');
     });
+
+    it('should keep an explicit version', () => {
+      expect(getArxivPdfUrl('1706.03762v2')).toBe('https://arxiv.org/pdf/1706.03762v2');
+      expect(getPdfViewerUrl('cs/0211011v1')).toContain(encodeURIComponent('https://arxiv.org/pdf/cs/0211011v1'));
+    });
   });
 
   describe('getArxivFileName', () => {
@@ -114,6 +214,22 @@ describe('arxivUtils', () => {
       const filename = getArxivFileName('cs/0211011');
       expect(filename).toBe('arxiv-cs-0211011');
     });
+
+    it('should give each version its own filename', () => {
+      expect(getArxivFileName('1706.03762v2')).toBe('arxiv-1706-03762v2');
+      expect(getArxivFileName('1706.03762v2')).not.toBe(getArxivFileName('1706.03762'));
+    });
+  });
+
+  describe('getVersionedArxivId', () => {
+    it('should append the version when one was given', () => {
+      expect(getVersionedArxivId(parseArxivId('arXiv:1706.03762v5'))).toBe('1706.03762v5');
+      expect(getVersionedArxivId(parseArxivId('https://arxiv.org/abs/math.GT/0309136v2'))).toBe('math/0309136v2');
+    });
+
+    it('should return the bare ID for the latest version', () => {
+      expect(getVersionedArxivId(parseArxivId('1706.03762'))).toBe('1706.03762');
+    });
   });
 
   describe('getCategoryPromptContext', () => {
@@ -122,15 +238,20 @@ describe('arxivUtils', () => {
       expect(context).toContain('Computer Science professor');
     });
 
+    it('should name the subject class and use its archive expertise', () => {
+      const context = getCategoryPromptContext('cond-mat.supr-con');
+      expect(context).toContain('Condensed Matter professor');
+      expect(context).toContain('filed under Superconductivity (cond-mat.supr-con)');
+      expect(getCategoryPromptContext('hep-ex')).toContain('High Energy Physics (Experimental) professor');
+    });
+
+    it('should map legacy archives to the archive that replaced them', () => {
+      expect(getCategoryPromptContext('alg-geom')).toContain('Mathematics professor');
+    });
+
     it('should return fallback context for unknown categories', () => {
       const context = getCategoryPromptContext('unknown');
       expect(context).toContain('expert helping a student');
     });
   });
-
-  describe('checkFileExists', () => {
-    it('should be a callable function', () => {
-      expect(typeof checkFileExists).toBe('function');
-    });
-  });
 });
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ChatSessionStore,
+  ChatSessionStoreOptions,
+  FileChatSessionStore,
+  MemoryChatSessionStore,
+  isValidSessionId
+} from '../chatSessions';
+
+describe('isValidSessionId', () => {
+  it('should accept UUIDs and reject anything else', () => {
+    expect(isValidSessionId('11111111-2222-4333-8444-555555555555')).toBe(true);
+    expect(isValidSessionId('../11111111-2222-4333-8444-555555555555')).toBe(false);
+    expect(isValidSessionId('not-a-session')).toBe(false);
+    expect(isValidSessionId(42)).toBe(false);
+  });
+});
+
+type StoreFactory = (options?: ChatSessionStoreOptions) => Promise<{ store: ChatSessionStore; cleanup: () => Promise<void> }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const stores: [string, StoreFactory][] = [
+  ['MemoryChatSessionStore', async (options) => ({ store: new MemoryChatSessionStore(options), cleanup: async () => {} })],
+  ['FileChatSessionStore', async (options) => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-sessions-'));
+    return {
+      store: new FileChatSessionStore(directory, options),
+      cleanup: () => fs.rm(directory, { recursive: true, force: true })
+    };
+  }]
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  let store: ChatSessionStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should create, read and delete sessions', async () => {
+    const session = await store.create('1706.03762', 'owner-a');
+
+    expect(isValidSessionId(session.id)).toBe(true);
+    expect(session).toEqual(expect.objectContaining({ arxivId: '1706.03762', title: null, messages: [] }));
+    expect(await store.get(session.id)).toEqual(session);
+
+    expect(await store.delete(session.id)).toBe(true);
+    expect(await store.get(session.id)).toBeNull();
+    expect(await store.delete(session.id)).toBe(false);
+  });
+
+  it('should append messages and title the session after the first question', async () => {
+    const session = await store.create('1706.03762', 'owner-a');
+
+    await store.appendMessages(session.id, [{ role: 'assistant', content: 'Welcome!' }]);
+    const updated = await store.appendMessages(session.id, [
+      { role: 'user', content: 'What is attention?' },
+      { role: 'assistant', content: 'A weighting of tokens.' }
+    ]);
+
+    expect(updated?.title).toBe('What is attention?');
+    expect(updated?.messages.map((message) => message.content)).toEqual([
+      'Welcome!',
+      'What is attention?',
+      'A weighting of tokens.'
+    ]);
+    expect(await store.get(session.id)).toEqual(updated);
+    expect(await store.appendMessages('11111111-2222-4333-8444-555555555555', [])).toBeNull();
+  });
+
+  it('should keep concurrent appends', async () => {
+    const session = await store.create('1706.03762', 'owner-a');
+
+    await Promise.all(
+      ['one', 'two', 'three'].map((content) => store.appendMessages(session.id, [{ role: 'user', content }]))
+    );
+
+    expect((await store.get(session.id))?.messages).toHaveLength(3);
+  });
+
+  it('should list an owner\'s sessions for a paper, most recently updated first', async () => {
+    const older = await store.create('1706.03762', 'owner-a');
+    await store.create('2301.00001', 'owner-a');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const newer = await store.create('1706.03762', 'owner-a');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.appendMessages(older.id, [{ role: 'user', content: 'Bumped' }]);
+
+    await store.create('1706.03762', 'owner-b');
+
+    const sessions = await store.list('owner-a', '1706.03762');
+
+    expect(sessions.map((session) => session.id)).toEqual([older.id, newer.id]);
+    expect(sessions[0]).toEqual(expect.objectContaining({ messageCount: 1, title: 'Bumped' }));
+    expect(sessions[0]).not.toHaveProperty('messages');
+    expect(sessions[0]).not.toHaveProperty('ownerId');
+    expect(await store.list('owner-a')).toHaveLength(3);
+    expect(await store.list('owner-c')).toEqual([]);
+  });
+
+  describe('limits', () => {
+    beforeEach(() => {
+      // Only the clock is faked; file system callbacks still run
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should delete an owner\'s least recently updated sessions beyond the cap', async () => {
+      await cleanup();
+      ({ store, cleanup } = await createStore({ maxSessionsPerOwner: 2 }));
+
+      const oldest = await store.create('1706.03762', 'owner-a');
+      jest.advanceTimersByTime(1000);
+      const bumped = await store.create('1706.03762', 'owner-a');
+      jest.advanceTimersByTime(1000);
+      const other = await store.create('1706.03762', 'owner-b');
+      jest.advanceTimersByTime(1000);
+      await store.appendMessages(oldest.id, [{ role: 'user', content: 'Still here?' }]);
+      jest.advanceTimersByTime(1000);
+      const newest = await store.create('1706.03762', 'owner-a');
+
+      expect((await store.list('owner-a')).map((session) => session.id)).toEqual([newest.id, oldest.id]);
+      expect(await store.get(bumped.id)).toBeNull();
+      expect(await store.get(other.id)).not.toBeNull();
+    });
+
+    it('should expire sessions not updated for the TTL', async () => {
+      await cleanup();
+      ({ store, cleanup } = await createStore({ ttlMs: 30 * DAY_MS }));
+
+      const stale = await store.create('1706.03762', 'owner-a');
+      const active = await store.create('1706.03762', 'owner-a');
+      jest.advanceTimersByTime(20 * DAY_MS);
+      await store.appendMessages(active.id, [{ role: 'user', content: 'Still reading' }]);
+      jest.advanceTimersByTime(10 * DAY_MS);
+
+      expect(await store.get(stale.id)).toBeNull();
+      expect(await store.appendMessages(stale.id, [{ role: 'user', content: 'Too late' }])).toBeNull();
+      expect((await store.list('owner-a')).map((session) => session.id)).toEqual([active.id]);
+
+      expect(await store.deleteExpired()).toBe(1);
+      expect(await store.deleteExpired()).toBe(0);
+      expect(await store.get(active.id)).not.toBeNull();
+    });
+  });
+});
+
+describe('FileChatSessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-sessions-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should list an owner\'s sessions from the owner\'s index alone', async () => {
+    const store = new FileChatSessionStore(directory);
+    const session = await store.create('1706.03762', 'owner-a');
+    await store.create('1706.03762', 'owner-b');
+    await store.appendMessages(session.id, [{ role: 'user', content: 'What is attention?' }]);
+
+    const readFile = jest.spyOn(fs, 'readFile');
+    const sessions = await store.list('owner-a');
+
+    expect(sessions).toEqual([expect.objectContaining({ id: session.id, title: 'What is attention?', messageCount: 1 })]);
+    expect(readFile).toHaveBeenCalledTimes(1);
+    expect(readFile).toHaveBeenCalledWith(path.join(directory, 'owners', 'owner-a.json'), 'utf8');
+  });
+
+  it('should remove deleted sessions from the owner\'s index', async () => {
+    const store = new FileChatSessionStore(directory);
+    const session = await store.create('1706.03762', 'owner-a');
+
+    expect(await store.delete(session.id)).toBe(true);
+
+    expect(await store.list('owner-a')).toEqual([]);
+    expect(await fs.readdir(path.join(directory, 'owners'))).toEqual([]);
+  });
+
+  it('should index sessions stored before the owner indexes existed', async () => {
+    const session = await new MemoryChatSessionStore().create('1706.03762', 'owner-a');
+    await fs.writeFile(path.join(directory, `${session.id}.json`), JSON.stringify(session), 'utf8');
+
+    const store = new FileChatSessionStore(directory);
+
+    expect(await store.list('owner-a')).toEqual([expect.objectContaining({ id: session.id, messageCount: 0 })]);
+  });
+
+  it('should delete expired session files, including ones missing from every index', async () => {
+    const store = new FileChatSessionStore(directory, { ttlMs: DAY_MS });
+    const expired = await store.create('1706.03762', 'owner-a');
+    const orphan = await new MemoryChatSessionStore().create('1706.03762', 'owner-b');
+    await fs.writeFile(path.join(directory, `${orphan.id}.json`), JSON.stringify(orphan), 'utf8');
+
+    const later = new Date(Date.now() + 2 * DAY_MS);
+    jest.spyOn(Date, 'now').mockReturnValue(later.getTime());
+
+    expect(await store.deleteExpired()).toBe(2);
+    expect((await fs.readdir(directory)).filter((fileName) => fileName.endsWith('.json'))).toEqual([]);
+    expect(await store.get(expired.id)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { encodeChatStreamEvent, extractPartialContent, readChatStream } from '../chatStream';
+import { ChatStreamEvent } from '@/types/chat';
+
+describe('extractPartialContent', () => {
+  it('should return an empty string before the content field starts', () => {
+    expect(extractPartialContent('')).toBe('');
+    expect(extractPartialContent('{"conte')).toBe('');
+    expect(extractPartialContent('{"content": ')).toBe('');
+  });
+
+  it('should decode content that is still streaming', () => {
+    expect(extractPartialContent('{"content": "The Transformer')).toBe('The Transformer');
+  });
+
+  it('should stop at the closing quote of a complete content string', () => {
+    const raw = '{"content": "Done (page 1)", "responseType": "answer"}';
+    expect(extractPartialContent(raw)).toBe('Done (page 1)');
+  });
+
+  it('should decode escape sequences', () => {
+    const raw = '{"content": "Line 1\\nLine \\"2\\" \\u00e9\\\\';
+    expect(extractPartialContent(raw)).toBe('Line 1\nLine "2" é\\');
+  });
+
+  it('should hold back incomplete escape sequences', () => {
+    expect(extractPartialContent('{"content": "Hello\\')).toBe('Hello');
+    expect(extractPartialContent('{"content": "Caf\\u00')).toBe('Caf');
+  });
+});
+
+describe('readChatStream', () => {
+  const streamFromChunks = (chunks: string[]): ReadableStream<Uint8Array> => {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    });
+  };
+
+  it('should parse events split across chunk boundaries', async () => {
+    const delta = encodeChatStreamEvent({ type: 'delta', content: 'Hello' });
+    const done = encodeChatStreamEvent({
+      type: 'done',
+      response: 'Hello',
+      structured: { content: 'Hello', responseType: 'answer' }
+    });
+    const serialized = delta + done;
+    const events: ChatStreamEvent[] = [];
+
+    await readChatStream(
+      streamFromChunks([serialized.slice(0, 10), serialized.slice(10, 40), serialized.slice(40)]),
+      (event) => events.push(event)
+    );
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Hello' },
+      { type: 'done', response: 'Hello', structured: { content: 'Hello', responseType: 'answer' } }
+    ]);
+  });
+
+  it('should parse a final event without a trailing newline', async () => {
+    const events: ChatStreamEvent[] = [];
+    await readChatStream(streamFromChunks(['{"type":"error","error":"Failed"}']), (event) => events.push(event));
+    expect(events).toEqual([{ type: 'error', error: 'Failed' }]);
+  });
+});
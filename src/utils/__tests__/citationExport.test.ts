@@ -0,0 +1,161 @@
+import { ArxivSearchResult } from '../arxivSearch';
+import { exportPapers, getCitationKeys, isExportFormat, splitAuthorName, toCslItems } from '../citationExport';
+
+const attention: ArxivSearchResult = {
+  id: '1706.03762',
+  title: 'Attention Is All\n  You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  abstract: 'The dominant sequence transduction models are based on complex recurrent or convolutional neural networks.',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2023-08-02T00:41:18Z',
+  categories: ['cs.CL', 'cs.LG'],
+  primaryCategory: 'cs.CL',
+  pdfUrl: 'https://arxiv.org/pdf/1706.03762',
+  abstractUrl: 'https://arxiv.org/abs/1706.03762',
+  comment: '15 pages, 5 figures'
+};
+
+const bert: ArxivSearchResult = {
+  id: '1810.04805',
+  title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+  authors: ['Jacob Devlin', 'Ming-Wei Chang'],
+  abstract: 'We introduce a new language representation model called BERT.',
+  published: '2018-10-11T00:50:01Z',
+  updated: '2019-05-24T20:37:26Z',
+  categories: ['cs.CL'],
+  pdfUrl: 'https://arxiv.org/pdf/1810.04805',
+  abstractUrl: 'https://arxiv.org/abs/1810.04805',
+  doi: '10.18653/v1/N19-1423',
+  journalRef: 'NAACL-HLT 2019, pages 4171-4186'
+};
+
+describe('citationExport', () => {
+  describe('isExportFormat', () => {
+    it('should accept only known formats', () => {
+      expect(isExportFormat('bibtex')).toBe(true);
+      expect(isExportFormat('csl-json')).toBe(true);
+      expect(isExportFormat('json')).toBe(false);
+      expect(isExportFormat('toString')).toBe(false);
+      expect(isExportFormat(['bibtex'])).toBe(false);
+    });
+  });
+
+  describe('splitAuthorName', () => {
+    it.each([
+      ['Ashish Vaswani', { family: 'Vaswani', given: 'Ashish' }],
+      ['Ludwig van Beethoven', { family: 'van Beethoven', given: 'Ludwig' }],
+      ['Jean-Baptiste de la Fontaine', { family: 'de la Fontaine', given: 'Jean-Baptiste' }],
+      ['Vaswani, Ashish', { family: 'Vaswani', given: 'Ashish' }],
+      ['ATLAS Collaboration', { family: 'Collaboration', given: 'ATLAS' }],
+      ['Aristotle', { family: 'Aristotle', given: '' }]
+    ])('should split %s', (name, expected) => {
+      expect(splitAuthorName(name)).toEqual(expected);
+    });
+  });
+
+  describe('getCitationKeys', () => {
+    it('should combine author, year and title word and keep keys unique', () => {
+      const anonymous = { ...attention, id: 'hep-th/9901001', authors: [] };
+      const accented = { ...attention, authors: ['Bernhard Schölkopf'], title: 'The Kernel Trick' };
+
+      expect(getCitationKeys([attention, bert, attention, anonymous, accented])).toEqual([
+        'vaswani2017attention',
+        'devlin2018bert',
+        'vaswani2017attentionb',
+        'arxivhepth9901001',
+        'scholkopf2017kernel'
+      ]);
+    });
+  });
+
+  describe('exportPapers', () => {
+    it('should render BibTeX with eprint fields', () => {
+      expect(exportPapers([attention, bert], 'bibtex')).toBe(
+        '@misc{vaswani2017attention,\n' +
+        '  title = {Attention Is All You Need},\n' +
+        '  author = {Vaswani, Ashish and Shazeer, Noam},\n' +
+        '  year = {2017},\n' +
+        '  eprint = {1706.03762},\n' +
+        '  archivePrefix = {arXiv},\n' +
+        '  primaryClass = {cs.CL},\n' +
+        '  url = {https://arxiv.org/abs/1706.03762},\n' +
+        '  note = {15 pages, 5 figures}\n' +
+        '}\n' +
+        '\n' +
+        '@article{devlin2018bert,\n' +
+        '  title = {BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding},\n' +
+        '  author = {Devlin, Jacob and Chang, Ming-Wei},\n' +
+        '  journal = {NAACL-HLT 2019, pages 4171-4186},\n' +
+        '  year = {2018},\n' +
+        '  eprint = {1810.04805},\n' +
+        '  archivePrefix = {arXiv},\n' +
+        '  primaryClass = {cs.CL},\n' +
+        '  doi = {10.18653/v1/N19-1423},\n' +
+        '  url = {https://arxiv.org/abs/1810.04805}\n' +
+        '}\n'
+      );
+    });
+
+    it('should escape BibTeX specials but keep TeX math', () => {
+      const paper = { ...attention, title: 'Q&A at 100% with $O(n)$ {Transformers', comment: 'Already \\& escaped' };
+
+      const bibtex = exportPapers([paper], 'bibtex');
+
+      expect(bibtex).toContain('title = {Q\\&A at 100\\% with $O(n)$ Transformers}');
+      expect(bibtex).toContain('note = {Already \\& escaped}');
+    });
+
+    it('should render RIS records', () => {
+      expect(exportPapers([bert], 'ris')).toBe([
+        'TY  - JOUR',
+        'TI  - BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+        'AU  - Devlin, Jacob',
+        'AU  - Chang, Ming-Wei',
+        'PY  - 2018',
+        'DA  - 2018/10/11',
+        'AB  - We introduce a new language representation model called BERT.',
+        'JO  - NAACL-HLT 2019, pages 4171-4186',
+        'PB  - arXiv',
+        'AN  - arXiv:1810.04805',
+        'KW  - cs.CL',
+        'DO  - 10.18653/v1/N19-1423',
+        'UR  - https://arxiv.org/abs/1810.04805',
+        'L1  - https://arxiv.org/pdf/1810.04805',
+        'ER  - ',
+        ''
+      ].join('\n'));
+      expect(exportPapers([attention], 'ris')).toMatch(/^TY {2}- UNPB\n/);
+    });
+
+    it('should render CSL-JSON keyed like BibTeX', () => {
+      const items = JSON.parse(exportPapers([attention, bert], 'csl-json'));
+
+      expect(items).toEqual(toCslItems([attention, bert]));
+      expect(items[0]).toEqual({
+        id: 'vaswani2017attention',
+        type: 'article',
+        title: 'Attention Is All You Need',
+        author: [{ family: 'Vaswani', given: 'Ashish' }, { family: 'Shazeer', given: 'Noam' }],
+        issued: { 'date-parts': [[2017, 6, 12]] },
+        abstract: attention.abstract,
+        publisher: 'arXiv',
+        number: '1706.03762',
+        URL: 'https://arxiv.org/abs/1706.03762',
+        keyword: 'cs.CL, cs.LG',
+        note: '15 pages, 5 figures'
+      });
+      expect(items[1]).toMatchObject({ type: 'article-journal', 'container-title': 'NAACL-HLT 2019, pages 4171-4186', DOI: '10.18653/v1/N19-1423' });
+    });
+
+    it('should render CSV with quoted fields', () => {
+      const rows = exportPapers([{ ...attention, title: 'Say "hello", world' }], 'csv').split('\r\n');
+
+      expect(rows[0]).toBe('arxiv_id,title,authors,published,updated,primary_category,categories,doi,journal_ref,comment,abstract_url,pdf_url,abstract');
+      expect(rows[1]).toBe(
+        '1706.03762,"Say ""hello"", world",Ashish Vaswani; Noam Shazeer,2017-06-12T17:57:34Z,2023-08-02T00:41:18Z,cs.CL,cs.CL cs.LG,,,' +
+        `"15 pages, 5 figures",https://arxiv.org/abs/1706.03762,https://arxiv.org/pdf/1706.03762,${attention.abstract}`
+      );
+      expect(rows[2]).toBe('');
+    });
+  });
+});
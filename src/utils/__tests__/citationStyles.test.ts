@@ -0,0 +1,80 @@
+import { ArxivSearchResult } from '../arxivSearch';
+import { formatCitation } from '../citationStyles';
+
+const attention: ArxivSearchResult = {
+  id: '1706.03762',
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar', 'Jakob Uszkoreit', 'Llion Jones', 'Aidan N. Gomez', 'Lukasz Kaiser', 'Illia Polosukhin'],
+  abstract: 'The dominant sequence transduction models are based on complex recurrent or convolutional neural networks.',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2023-08-02T00:41:18Z',
+  categories: ['cs.CL', 'cs.LG'],
+  primaryCategory: 'cs.CL',
+  pdfUrl: 'https://arxiv.org/pdf/1706.03762',
+  abstractUrl: 'https://arxiv.org/abs/1706.03762'
+};
+
+const bert: ArxivSearchResult = {
+  id: '1810.04805',
+  title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+  authors: ['Jacob Devlin', 'Ming-Wei Chang'],
+  abstract: 'We introduce a new language representation model called BERT.',
+  published: '2018-10-11T00:50:01Z',
+  updated: '2019-05-24T20:37:26Z',
+  categories: ['cs.CL'],
+  pdfUrl: 'https://arxiv.org/pdf/1810.04805',
+  abstractUrl: 'https://arxiv.org/abs/1810.04805',
+  doi: '10.18653/v1/N19-1423',
+  journalRef: 'NAACL-HLT 2019, pages 4171-4186'
+};
+
+describe('citationStyles', () => {
+  describe('formatCitation', () => {
+    it('should cite preprints with their arXiv ID', () => {
+      expect(formatCitation(attention, 'apa')).toBe(
+        'Vaswani, A., Shazeer, N., Parmar, N., Uszkoreit, J., Jones, L., Gomez, A. N., Kaiser, L., & Polosukhin, I. (2017). ' +
+        'Attention is all you need (arXiv:1706.03762). arXiv. https://arxiv.org/abs/1706.03762'
+      );
+      expect(formatCitation(attention, 'mla')).toBe(
+        'Vaswani, Ashish, et al. "Attention Is All You Need." arXiv, 12 June 2017, https://arxiv.org/abs/1706.03762.'
+      );
+      expect(formatCitation(attention, 'chicago')).toBe(
+        'Vaswani, Ashish, Noam Shazeer, Niki Parmar, Jakob Uszkoreit, Llion Jones, Aidan N. Gomez, Lukasz Kaiser, and Illia Polosukhin. ' +
+        '"Attention Is All You Need." Preprint, arXiv, June 12, 2017. https://arxiv.org/abs/1706.03762.'
+      );
+      expect(formatCitation(attention, 'ieee')).toBe('A. Vaswani et al., "Attention Is All You Need," 2017, arXiv:1706.03762.');
+    });
+
+    it('should cite published papers with their journal reference and DOI', () => {
+      expect(formatCitation(bert, 'apa')).toBe(
+        'Devlin, J., & Chang, M.-W. (2018). BERT: Pre-training of deep bidirectional transformers for language understanding. ' +
+        'NAACL-HLT 2019, pages 4171-4186. https://doi.org/10.18653/v1/N19-1423'
+      );
+      expect(formatCitation(bert, 'mla')).toBe(
+        'Devlin, Jacob, and Ming-Wei Chang. "BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding." ' +
+        'NAACL-HLT 2019, pages 4171-4186, https://doi.org/10.18653/v1/N19-1423.'
+      );
+      expect(formatCitation(bert, 'chicago')).toBe(
+        'Devlin, Jacob, and Ming-Wei Chang. "BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding." ' +
+        'NAACL-HLT 2019, pages 4171-4186. https://doi.org/10.18653/v1/N19-1423.'
+      );
+      expect(formatCitation(bert, 'ieee')).toBe(
+        'J. Devlin and M.-W. Chang, "BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding," ' +
+        'NAACL-HLT 2019, pages 4171-4186, doi: 10.18653/v1/N19-1423.'
+      );
+    });
+
+    it('should shorten long author lists', () => {
+      const authors = Array.from({ length: 22 }, (_, index) => `Ann Author${index + 1}`);
+      const collaboration = { ...attention, authors };
+
+      expect(formatCitation(collaboration, 'apa')).toMatch(/^Author1, A\., Author2, A\., .* Author19, A\., \.\.\. Author22, A\. \(2017\)/);
+      expect(formatCitation(collaboration, 'chicago')).toMatch(/^Author1, Ann, Ann Author2, .* Ann Author7, et al\. "/);
+      expect(formatCitation(collaboration, 'mla')).toMatch(/^Author1, Ann, et al\. "/);
+    });
+
+    it('should give the BibTeX entry', () => {
+      expect(formatCitation(bert, 'bibtex')).toMatch(/^@article\{devlin2018bert,\n[\s\S]*\n\}$/);
+    });
+  });
+});
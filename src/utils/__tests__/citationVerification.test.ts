@@ -0,0 +1,122 @@
+import {
+  VERIFIED_CONFIDENCE,
+  extractKeyTerms,
+  hasPageReferences,
+  normalizeQuoteText,
+  scoreClaim,
+  verifyCitations,
+  verifyEvidence
+} from '../citationVerification';
+
+const pages = [
+  'Attention Is All You Need. We propose a new simple network architecture, the Transformer.',
+  'Multi-head attention allows the model to jointly attend to information from different represen-\ntation subspaces.',
+  'Our model achieves 28.4 BLEU on the WMT 2014 English-to-German translation task.'
+];
+
+describe('extractKeyTerms', () => {
+  it('should drop stop words and short words, keep numbers and rejoin hyphenated words', () => {
+    const terms = extractKeyTerms('The paper shows 28.4 BLEU with represen-\ntations of it');
+
+    expect([...terms]).toEqual(['28.4', 'bleu', 'representation']);
+  });
+});
+
+describe('scoreClaim', () => {
+  it('should return the share of claim terms found on the page', () => {
+    expect(scoreClaim('The model achieves 28.4 BLEU', pages[2] as string)).toBe(1);
+    expect(scoreClaim('The model achieves 28.4 BLEU', pages[0] as string)).toBe(0);
+    expect(scoreClaim('The model uses recurrence', pages[2] as string)).toBe(0.5);
+  });
+
+  it('should score claims without key terms as 0', () => {
+    expect(scoreClaim('See this', pages[0] as string)).toBe(0);
+  });
+});
+
+describe('hasPageReferences', () => {
+  it('should detect page references', () => {
+    expect(hasPageReferences('As shown (page 2).')).toBe(true);
+    expect(hasPageReferences('As shown on page 2.')).toBe(false);
+  });
+});
+
+describe('verifyCitations', () => {
+  it('should mark supported citations as verified', () => {
+    const { content, citations } = verifyCitations('The model achieves 28.4 BLEU on English-to-German (page 3).', pages);
+
+    expect(content).toBe('The model achieves 28.4 BLEU on English-to-German (page 3).');
+    expect(citations).toEqual([
+      { page: 3, claim: 'The model achieves 28.4 BLEU on English-to-German', confidence: 1, verified: true }
+    ]);
+  });
+
+  it('should mark unsupported citations as unverified', () => {
+    const { citations } = verifyCitations('The model relies on recurrent convolutions (page 1).', pages);
+
+    expect(citations[0]?.verified).toBe(false);
+    expect(citations[0]?.confidence).toBeLessThan(VERIFIED_CONFIDENCE);
+  });
+
+  it('should score each page of a group and use the sentence before a trailing citation', () => {
+    const { citations } = verifyCitations(
+      '**Multi-head attention** attends to different representation subspaces. (page 2, page 3)',
+      pages
+    );
+
+    expect(citations.map((citation) => [citation.page, citation.verified])).toEqual([[2, true], [3, false]]);
+    expect(citations[0]?.claim).toBe('Multi-head attention attends to different representation subspaces');
+  });
+
+  it('should remove citations of pages the PDF does not have', () => {
+    const { content, citations } = verifyCitations(
+      'It uses attention (page 7). It proposes the Transformer (page 1, page 9).',
+      pages
+    );
+
+    expect(content).toBe('It uses attention. It proposes the Transformer (page 1).');
+    expect(citations.map((citation) => citation.page)).toEqual([1]);
+  });
+});
+
+describe('verifyCitations with several papers', () => {
+  const otherPaper = ['BERT: Pre-training of deep bidirectional transformers.', 'BERT obtains 80.5 on GLUE.'];
+
+  it('should check labelled references against the named paper', () => {
+    const { content, citations } = verifyCitations(
+      'BERT obtains 80.5 on GLUE (1810.04805 page 2, 1810.04805 page 5). The Transformer is new (page 1).',
+      pages,
+      { '1810.04805': otherPaper }
+    );
+
+    expect(content).toBe('BERT obtains 80.5 on GLUE (1810.04805 page 2). The Transformer is new (page 1).');
+    expect(citations.map((citation) => [citation.arxivId, citation.page, citation.verified])).toEqual([
+      ['1810.04805', 2, true],
+      [undefined, 1, true]
+    ]);
+  });
+
+  it('should keep references to papers without text as unverified', () => {
+    const { content, citations } = verifyCitations('GPT is large (2005.14165 page 40).', pages);
+
+    expect(content).toBe('GPT is large (2005.14165 page 40).');
+    expect(citations).toEqual([{ page: 40, arxivId: '2005.14165', claim: 'GPT is large', confidence: 0, verified: false }]);
+  });
+});
+
+describe('verifyEvidence', () => {
+  it('should ignore case, punctuation, ligatures and line-break hyphenation when matching quotes', () => {
+    expect(normalizeQuoteText('Different represen-\ntation  “subspaces”, ﬁnally.')).toBe('different representation subspaces finally');
+  });
+
+  it('should verify quotes found on their page and drop quotes of nonexistent pages', () => {
+    const evidence = verifyEvidence([
+      { quote: 'the Transformer', page: 1, claim: 'It proposes the Transformer' },
+      { quote: 'different representation subspaces', page: 2, claim: 'Heads attend to subspaces' },
+      { quote: '28.4 BLEU', page: 1, claim: 'It reaches 28.4 BLEU' },
+      { quote: 'a decade of training', page: 12, claim: 'Training took a decade' }
+    ], pages);
+
+    expect(evidence.map((item) => [item.page, item.verified])).toEqual([[1, true], [2, true], [1, false]]);
+  });
+});
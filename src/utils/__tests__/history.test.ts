@@ -0,0 +1,118 @@
+import {
+  clearHistory,
+  getHistoryEntries,
+  getPaperVisitHref,
+  readHistory,
+  recordChatQuestion,
+  recordPageViewed,
+  recordPaperOpened,
+  removeHistoryEntry,
+  searchHistory,
+  subscribeToHistory
+} from '../history';
+
+describe('history', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should read missing or unreadable history as empty', () => {
+    expect(readHistory()).toEqual({ papers: [], questions: [] });
+    localStorage.setItem('asxiv-history', '{not json');
+    expect(readHistory()).toEqual({ papers: [], questions: [] });
+  });
+
+  it('should move a reopened paper to the top and keep its title and last page', () => {
+    recordPaperOpened('1706.03762', 'Attention Is All You Need');
+    recordPageViewed('1706.03762', 4);
+    jest.setSystemTime(new Date('2024-05-01T11:00:00Z'));
+    recordPaperOpened('1810.04805');
+    jest.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    recordPaperOpened('1706.03762');
+
+    expect(readHistory().papers).toEqual([
+      { arxivId: '1706.03762', title: 'Attention Is All You Need', lastPage: 4, openedAt: '2024-05-01T12:00:00.000Z' },
+      { arxivId: '1810.04805', openedAt: '2024-05-01T11:00:00.000Z' }
+    ]);
+  });
+
+  it('should ignore invalid pages and record pages of papers not yet in the history', () => {
+    recordPageViewed('1706.03762', 0);
+    expect(readHistory().papers).toEqual([]);
+
+    recordPageViewed('1706.03762', 7);
+    expect(readHistory().papers).toEqual([{ arxivId: '1706.03762', openedAt: '2024-05-01T10:00:00.000Z', lastPage: 7 }]);
+  });
+
+  it('should record questions with the title of the paper they were about', () => {
+    recordPaperOpened('1706.03762', 'Attention Is All You Need');
+    recordChatQuestion('1706.03762', '  What is multi-head attention?  ');
+    recordChatQuestion('1706.03762', '   ');
+
+    const [question] = readHistory().questions;
+    expect(readHistory().questions).toHaveLength(1);
+    expect(question).toMatchObject({
+      arxivId: '1706.03762',
+      title: 'Attention Is All You Need',
+      question: 'What is multi-head attention?',
+      askedAt: '2024-05-01T10:00:00.000Z'
+    });
+  });
+
+  it('should keep only the most recent papers', () => {
+    for (let i = 0; i < 205; i++) {
+      recordPaperOpened(`2401.${String(i).padStart(5, '0')}`);
+    }
+    const { papers } = readHistory();
+    expect(papers).toHaveLength(200);
+    expect(papers[0]?.arxivId).toBe('2401.00204');
+  });
+
+  it('should link to the last page viewed', () => {
+    expect(getPaperVisitHref({ arxivId: '1706.03762' })).toBe('/pdf/1706.03762');
+    expect(getPaperVisitHref({ arxivId: 'cs/0211011', lastPage: 3 })).toBe('/pdf/cs/0211011?page=3');
+  });
+
+  it('should merge papers and questions into a timeline and search it', () => {
+    recordPaperOpened('1706.03762', 'Attention Is All You Need');
+    jest.setSystemTime(new Date('2024-05-01T11:00:00Z'));
+    recordChatQuestion('1706.03762', 'How are positions encoded?');
+    jest.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    recordPaperOpened('1810.04805', 'BERT');
+
+    const entries = getHistoryEntries(readHistory());
+    expect(entries.map(entry => entry.kind)).toEqual(['paper', 'question', 'paper']);
+    expect(searchHistory(entries, '')).toBe(entries);
+    expect(searchHistory(entries, 'ATTENTION').map(entry => entry.kind)).toEqual(['question', 'paper']);
+    expect(searchHistory(entries, 'positions encoded')).toHaveLength(1);
+    expect(searchHistory(entries, '1810')).toHaveLength(1);
+  });
+
+  it('should remove single entries and clear the history, notifying subscribers', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToHistory(listener);
+
+    recordPaperOpened('1706.03762');
+    recordChatQuestion('1706.03762', 'First question');
+    recordChatQuestion('1706.03762', 'Second question');
+    const entries = getHistoryEntries(readHistory());
+
+    removeHistoryEntry(entries.find(entry => entry.kind === 'question' && entry.question === 'First question')!);
+    expect(readHistory().questions.map(question => question.question)).toEqual(['Second question']);
+    removeHistoryEntry(entries.find(entry => entry.kind === 'paper')!);
+    expect(readHistory().papers).toEqual([]);
+
+    clearHistory();
+    expect(readHistory()).toEqual({ papers: [], questions: [] });
+    expect(listener).toHaveBeenCalledTimes(6);
+
+    unsubscribe();
+    recordPaperOpened('1706.03762');
+    expect(listener).toHaveBeenCalledTimes(6);
+  });
+});
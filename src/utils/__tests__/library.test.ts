@@ -0,0 +1,262 @@
+import {
+  createCollection,
+  deleteCollection,
+  filterLibraryPapers,
+  getLibraryTags,
+  importLibraryEntries,
+  listCollections,
+  listLibraryPapers,
+  normalizeTags,
+  removeLibraryPaper,
+  renameCollection,
+  savePaper,
+  subscribeToLibrary,
+  updateLibraryPaper
+} from '../library';
+import { exportLibraryFile, parseLibraryFile } from '../libraryFormats';
+import { MemoryLibraryStore, setLibraryStore } from '../libraryStore';
+import { ArxivSearchResult } from '../arxivSearch';
+
+const makePaper = (id: string, title: string, overrides: Partial<ArxivSearchResult> = {}): ArxivSearchResult => ({
+  id,
+  title,
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  abstract: 'The dominant sequence transduction models are based on recurrent networks.',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.CL'],
+  pdfUrl: `https://arxiv.org/pdf/${id}`,
+  abstractUrl: `https://arxiv.org/abs/${id}`,
+  ...overrides
+});
+
+describe('library', () => {
+  beforeEach(() => {
+    setLibraryStore(new MemoryLibraryStore());
+  });
+
+  afterAll(() => {
+    setLibraryStore(null);
+  });
+
+  describe('normalizeTags', () => {
+    it('should trim, lowercase, dedupe and sort tags', () => {
+      expect(normalizeTags([' Transformers ', 'nlp', 'NLP', '', 'machine  translation'])).toEqual([
+        'machine translation',
+        'nlp',
+        'transformers'
+      ]);
+    });
+
+    it('should split tags on commas and semicolons', () => {
+      expect(normalizeTags(['rl; offline', 'robotics, RL'])).toEqual(['offline', 'rl', 'robotics']);
+    });
+  });
+
+  describe('savePaper', () => {
+    it('should save new papers as to-read', async () => {
+      const paper = await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { tags: ['NLP'] });
+
+      expect(paper).toMatchObject({ arxivId: '1706.03762', status: 'to-read', notes: '', tags: ['nlp'], collectionIds: [] });
+      expect(await listLibraryPapers()).toEqual([paper]);
+    });
+
+    it('should save under a specific version when given one', async () => {
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { arxivId: '1706.03762v2' });
+
+      expect((await listLibraryPapers()).map(paper => paper.arxivId)).toEqual(['1706.03762v2']);
+    });
+
+    it('should merge collections and tags into a paper that is already saved', async () => {
+      const metadata = makePaper('1706.03762', 'Attention Is All You Need');
+      await savePaper(metadata, { collectionIds: ['a'], tags: ['nlp'] });
+      await updateLibraryPaper('1706.03762', { notes: 'Read section 3', status: 'reading' });
+
+      const paper = await savePaper(metadata, { collectionIds: ['b', 'a'], tags: ['attention'] });
+
+      expect(paper).toMatchObject({
+        collectionIds: ['a', 'b'],
+        tags: ['attention', 'nlp'],
+        notes: 'Read section 3',
+        status: 'reading'
+      });
+    });
+
+    it('should notify subscribers of changes', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToLibrary(listener);
+
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'));
+      await removeLibraryPaper('1706.03762');
+      unsubscribe();
+      await savePaper(makePaper('1810.04805', 'BERT'));
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('updateLibraryPaper', () => {
+    it('should return null for papers that are not saved', async () => {
+      expect(await updateLibraryPaper('1706.03762', { status: 'done' })).toBeNull();
+    });
+
+    it('should normalize tags', async () => {
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'));
+
+      const paper = await updateLibraryPaper('1706.03762', { tags: ['Attention', 'attention'] });
+
+      expect(paper?.tags).toEqual(['attention']);
+    });
+  });
+
+  describe('removeLibraryPaper', () => {
+    it('should report whether the paper was saved', async () => {
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'));
+
+      expect(await removeLibraryPaper('1706.03762')).toBe(true);
+      expect(await removeLibraryPaper('1706.03762')).toBe(false);
+      expect(await listLibraryPapers()).toEqual([]);
+    });
+  });
+
+  describe('collections', () => {
+    it('should create collections and list them by name', async () => {
+      await createCollection('  Transformers ');
+      await createCollection('Diffusion');
+
+      expect((await listCollections()).map(collection => collection.name)).toEqual(['Diffusion', 'Transformers']);
+    });
+
+    it('should reject empty, overlong and duplicate names', async () => {
+      await createCollection('Transformers');
+
+      await expect(createCollection('   ')).rejects.toThrow('Collection name is required');
+      await expect(createCollection('x'.repeat(81))).rejects.toThrow('at most 80 characters');
+      await expect(createCollection('transformers')).rejects.toThrow('A collection named "transformers" already exists');
+      await expect(createCollection('Reading group, 2026')).rejects.toThrow('cannot contain commas or semicolons');
+    });
+
+    it('should rename collections, keeping or changing the case of their own name', async () => {
+      const collection = await createCollection('Transformers');
+      await createCollection('Diffusion');
+
+      expect(await renameCollection(collection.id, 'TRANSFORMERS')).toMatchObject({ name: 'TRANSFORMERS' });
+      await expect(renameCollection(collection.id, 'diffusion')).rejects.toThrow('already exists');
+      expect(await renameCollection('missing', 'Other')).toBeNull();
+    });
+
+    it('should take papers out of a deleted collection without removing them', async () => {
+      const collection = await createCollection('Transformers');
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { collectionIds: [collection.id, 'other'] });
+
+      expect(await deleteCollection(collection.id)).toBe(true);
+      expect(await deleteCollection(collection.id)).toBe(false);
+
+      expect(await listCollections()).toEqual([]);
+      expect((await listLibraryPapers())[0]?.collectionIds).toEqual(['other']);
+    });
+  });
+
+  describe('importLibraryEntries', () => {
+    const entry = (arxivId: string, title: string, overrides = {}) => ({
+      arxivId,
+      metadata: makePaper(arxivId, title),
+      tags: [],
+      notes: '',
+      collections: [],
+      ...overrides
+    });
+
+    it('should save new papers into collections matched or created by name', async () => {
+      const existing = await createCollection('Transformers');
+
+      const result = await importLibraryEntries([
+        entry('1706.03762', 'Attention Is All You Need', { tags: ['NLP'], notes: 'Seminal', collections: ['transformers', 'Reading group'] }),
+        entry('2006.11239', 'Denoising Diffusion Probabilistic Models', { collections: ['Reading group'] })
+      ]);
+
+      expect(result).toEqual({ added: 2, updated: 0, createdCollections: ['Reading group'] });
+      const collections = await listCollections();
+      expect(collections.map(collection => collection.name)).toEqual(['Reading group', 'Transformers']);
+      const readingGroup = collections.find(collection => collection.name === 'Reading group')!;
+
+      const papers = await listLibraryPapers();
+      expect(papers.find(paper => paper.arxivId === '1706.03762')).toMatchObject({
+        collectionIds: [existing.id, readingGroup.id],
+        tags: ['nlp'],
+        notes: 'Seminal',
+        status: 'to-read'
+      });
+      expect(papers.find(paper => paper.arxivId === '2006.11239')?.collectionIds).toEqual([readingGroup.id]);
+    });
+
+    it('should add tags, notes and collections to papers already saved', async () => {
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { tags: ['attention'] });
+      await updateLibraryPaper('1706.03762', { notes: 'Mine', status: 'done' });
+
+      const result = await importLibraryEntries([
+        entry('1706.03762', 'Imported title', { tags: ['nlp'], notes: 'Theirs', collections: ['Team'] })
+      ]);
+      await importLibraryEntries([entry('1706.03762', 'Imported title', { notes: 'Theirs' })]);
+
+      expect(result).toEqual({ added: 0, updated: 1, createdCollections: ['Team'] });
+      const [paper] = await listLibraryPapers();
+      expect(paper).toMatchObject({ tags: ['attention', 'nlp'], notes: 'Mine\n\nTheirs', status: 'done' });
+      expect(paper?.metadata.title).toBe('Attention Is All You Need');
+      expect(paper?.collectionIds).toHaveLength(1);
+    });
+
+    it('should drop commas and semicolons from imported collection names', async () => {
+      const result = await importLibraryEntries([
+        entry('1706.03762', 'Attention Is All You Need', { collections: ['Reading group, 2026', ' ; '] })
+      ]);
+
+      expect(result.createdCollections).toEqual(['Reading group 2026']);
+    });
+
+    it('should round-trip tags and collections through an exported file', async () => {
+      const collection = await createCollection('Reading group 2026');
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { tags: ['rl; offline', 'robotics'], collectionIds: [collection.id] });
+      const exported = exportLibraryFile(await listLibraryPapers(), await listCollections(), 'bibtex');
+
+      setLibraryStore(new MemoryLibraryStore());
+      await importLibraryEntries(parseLibraryFile(exported, 'bibtex').entries);
+
+      const [paper] = await listLibraryPapers();
+      expect(paper?.tags).toEqual(['offline', 'rl', 'robotics']);
+      expect((await listCollections()).map(imported => imported.name)).toEqual(['Reading group 2026']);
+    });
+  });
+
+  describe('filterLibraryPapers', () => {
+    const setUp = async () => {
+      await savePaper(makePaper('1706.03762', 'Attention Is All You Need'), { collectionIds: ['nlp'], tags: ['attention'] });
+      await savePaper(makePaper('2006.11239', 'Denoising Diffusion Probabilistic Models', { authors: ['Jonathan Ho'] }));
+      await updateLibraryPaper('2006.11239', { status: 'done', notes: 'Compare with **score matching**' });
+      return listLibraryPapers();
+    };
+
+    it('should filter by collection, tag and status', async () => {
+      const papers = await setUp();
+
+      expect(filterLibraryPapers(papers, { collectionId: 'nlp' }).map(paper => paper.arxivId)).toEqual(['1706.03762']);
+      expect(filterLibraryPapers(papers, { tag: 'attention' }).map(paper => paper.arxivId)).toEqual(['1706.03762']);
+      expect(filterLibraryPapers(papers, { status: 'done' }).map(paper => paper.arxivId)).toEqual(['2006.11239']);
+      expect(filterLibraryPapers(papers, {})).toHaveLength(2);
+    });
+
+    it('should match every word of the text against metadata, tags and notes', async () => {
+      const papers = await setUp();
+
+      expect(filterLibraryPapers(papers, { text: 'score HO' }).map(paper => paper.arxivId)).toEqual(['2006.11239']);
+      expect(filterLibraryPapers(papers, { text: '1706' }).map(paper => paper.arxivId)).toEqual(['1706.03762']);
+      expect(filterLibraryPapers(papers, { text: 'attention diffusion' })).toEqual([]);
+    });
+
+    it('should list the tags in use', async () => {
+      const papers = await setUp();
+
+      expect(getLibraryTags(papers)).toEqual(['attention']);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  detectLibraryFileFormat,
+  exportLibraryFile,
+  parseLibraryFile
+} from '../libraryFormats';
+import { ArxivSearchResult } from '../arxivSearch';
+import { LibraryCollection, LibraryPaper } from '@/types/library';
+
+const metadata: ArxivSearchResult = {
+  id: '1706.03762',
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  abstract: 'The dominant sequence transduction models are based on recurrent networks.',
+  published: '2017-06-12T17:57:34Z',
+  updated: '2017-12-06T03:30:32Z',
+  categories: ['cs.CL', 'cs.LG'],
+  primaryCategory: 'cs.CL',
+  pdfUrl: 'https://arxiv.org/pdf/1706.03762',
+  abstractUrl: 'https://arxiv.org/abs/1706.03762'
+};
+
+const collections: LibraryCollection[] = [
+  { id: 'c1', name: 'Transformers', createdAt: '2024-01-01T00:00:00.000Z' },
+  { id: 'c2', name: 'Reading group', createdAt: '2024-01-01T00:00:00.000Z' }
+];
+
+const savedPaper: LibraryPaper = {
+  arxivId: '1706.03762v5',
+  metadata,
+  collectionIds: ['c1', 'c2'],
+  tags: ['attention', 'nlp'],
+  notes: '## Summary\n\nMulti-head attention & *no recurrence*.\nSee section 3.2.',
+  status: 'reading',
+  addedAt: '2024-01-02T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z'
+};
+
+describe('libraryFormats', () => {
+  describe('detectLibraryFileFormat', () => {
+    it('should go by the file extension', () => {
+      expect(detectLibraryFileFormat('My Library.bib', '')).toBe('bibtex');
+      expect(detectLibraryFileFormat('export.json', '')).toBe('csl-json');
+      expect(detectLibraryFileFormat('Exported Items.rdf', '')).toBe('zotero-rdf');
+    });
+
+    it('should fall back to the contents', () => {
+      expect(detectLibraryFileFormat('library', '  [{"id": "x"}]')).toBe('csl-json');
+      expect(detectLibraryFileFormat('library', '<?xml version="1.0"?><rdf:RDF/>')).toBe('zotero-rdf');
+      expect(detectLibraryFileFormat('library.txt', '% refs\n@article{key,\n}')).toBe('bibtex');
+      expect(detectLibraryFileFormat('notes.txt', 'hello')).toBeNull();
+    });
+  });
+
+  describe('BibTeX', () => {
+    it('should resolve arXiv IDs from eprints, URLs, DOIs and journal fields', () => {
+      const { entries, skipped } = parseLibraryFile(`
+        @misc{vaswani2017attention,
+          title = {Attention Is All You Need},
+          author = {Vaswani, Ashish and Shazeer, Noam},
+          eprint = {1706.03762v5},
+          archivePrefix = {arXiv},
+          primaryClass = {cs.CL},
+          year = 2017, month = jun
+        }
+        @article{devlin2018bert, title = "{BERT}: Pre-training", url = {https://arxiv.org/abs/1810.04805}}
+        @article{ho2020, title = {Denoising Diffusion}, doi = {10.48550/arXiv.2006.11239}}
+        @article{he2016, title = {Residual Learning}, journal = {arXiv preprint arXiv:1512.03385}}
+        @article{hal, title = {Elsewhere}, eprint = {hal-01234567}, archivePrefix = {HAL}}
+        @book{knuth1984, title = {The {\\TeX}book}, author = {Knuth, Donald E.}}
+      `, 'bibtex');
+
+      expect(entries.map(entry => entry.arxivId)).toEqual(['1706.03762v5', '1810.04805', '2006.11239', '1512.03385']);
+      expect(skipped).toEqual(['Elsewhere', 'The \\TeXbook']);
+      expect(entries[0]!.metadata).toMatchObject({
+        id: '1706.03762',
+        title: 'Attention Is All You Need',
+        authors: ['Ashish Vaswani', 'Noam Shazeer'],
+        published: '2017-06',
+        categories: ['cs.CL'],
+        abstractUrl: 'https://arxiv.org/abs/1706.03762'
+      });
+      expect(entries[1]!.metadata.title).toBe('BERT: Pre-training');
+      expect(entries[3]!.metadata.journalRef).toBeUndefined();
+    });
+
+    it('should read tags, notes and groups, and TeX accents', () => {
+      const { entries } = parseLibraryFile(`
+        @Comment{jabref-meta: databaseType:bibtex;}
+        @misc{scholkopf,
+          title = {Kernel Methods},
+          author = {Sch{\\"o}lkopf, Bernhard and others},
+          note = {arXiv:0701907 [math.ST] -- see arXiv:math/0701907},
+          keywords = {Kernels, SVM},
+          mendeley-tags = {svm},
+          groups = {Theory, Reading group},
+          annote = {First line \\& more
+Second line}
+        }
+      `, 'bibtex');
+
+      expect(entries).toEqual([
+        expect.objectContaining({
+          arxivId: 'math/0701907',
+          tags: ['Kernels', 'SVM', 'svm'],
+          notes: 'First line & more\nSecond line',
+          collections: ['Theory', 'Reading group']
+        })
+      ]);
+      expect(entries[0]!.metadata.authors).toEqual(['Bernhard Schölkopf']);
+    });
+
+    it('should merge entries for the same paper', () => {
+      const { entries } = parseLibraryFile(`
+        @misc{a, eprint = {1706.03762}, keywords = {nlp}, groups = {A}}
+        @misc{b, url = {https://arxiv.org/pdf/1706.03762}, keywords = {attention}, groups = {B}, annote = {Note}}
+      `, 'bibtex');
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ tags: ['nlp', 'attention'], collections: ['A', 'B'], notes: 'Note' });
+    });
+
+    it('should reject entries that are not closed', () => {
+      expect(() => parseLibraryFile('@misc{a, title = {Open', 'bibtex')).toThrow('Could not read the BibTeX file');
+    });
+
+    it('should round-trip tags, notes and collections', () => {
+      const exported = exportLibraryFile([savedPaper], collections, 'bibtex');
+
+      expect(exported).toContain('eprint = {1706.03762v5}');
+      expect(exported).toContain('keywords = {attention, nlp}');
+      expect(exported).toContain('groups = {Transformers, Reading group}');
+      expect(exported).toContain('annote = {\\#\\# Summary\n\nMulti-head attention \\& *no recurrence*.\nSee section 3.2.}');
+
+      expect(parseLibraryFile(exported, 'bibtex').entries).toEqual([
+        expect.objectContaining({
+          arxivId: '1706.03762v5',
+          tags: ['attention', 'nlp'],
+          notes: savedPaper.notes,
+          collections: ['Transformers', 'Reading group']
+        })
+      ]);
+    });
+  });
+
+  describe('CSL-JSON', () => {
+    it('should read items as Zotero exports them', () => {
+      const { entries, skipped } = parseLibraryFile(JSON.stringify([
+        {
+          id: 'http://zotero.org/users/1/items/ABCD',
+          type: 'article',
+          title: 'Attention Is All You Need',
+          author: [{ family: 'Vaswani', given: 'Ashish' }, { literal: 'Google Brain' }],
+          issued: { 'date-parts': [[2017, 6, 12]] },
+          number: 'arXiv:1706.03762',
+          publisher: 'arXiv',
+          DOI: '10.48550/arXiv.1706.03762',
+          keyword: 'Computer Science - Computation and Language'
+        },
+        { id: 'book', type: 'book', title: 'Pattern Recognition' }
+      ]), 'csl-json');
+
+      expect(skipped).toEqual(['Pattern Recognition']);
+      expect(entries).toEqual([
+        expect.objectContaining({
+          arxivId: '1706.03762',
+          tags: ['Computer Science - Computation and Language'],
+          collections: []
+        })
+      ]);
+      expect(entries[0]!.metadata).toMatchObject({
+        authors: ['Ashish Vaswani', 'Google Brain'],
+        published: '2017-06-12',
+        doi: undefined
+      });
+    });
+
+    it('should reject files that are not a list of items', () => {
+      expect(() => parseLibraryFile('{', 'csl-json')).toThrow('not valid JSON');
+      expect(() => parseLibraryFile('{"items": []}', 'csl-json')).toThrow('expected a list of items');
+    });
+
+    it('should round-trip tags and notes', () => {
+      const exported = exportLibraryFile([savedPaper], collections, 'csl-json');
+      const [item] = JSON.parse(exported);
+
+      expect(item).toMatchObject({ number: '1706.03762v5', keyword: 'attention, nlp', annote: savedPaper.notes });
+      expect(parseLibraryFile(exported, 'csl-json').entries).toEqual([
+        expect.objectContaining({ arxivId: '1706.03762v5', tags: ['attention', 'nlp'], notes: savedPaper.notes })
+      ]);
+    });
+  });
+
+  describe('Zotero RDF', () => {
+    const zoteroExport = `<rdf:RDF
+ xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+ xmlns:z="http://www.zotero.org/namespaces/export#"
+ xmlns:dc="http://purl.org/dc/elements/1.1/"
+ xmlns:foaf="http://xmlns.com/foaf/0.1/"
+ xmlns:bib="http://purl.org/net/biblio#"
+ xmlns:link="http://purl.org/rss/1.0/modules/link/"
+ xmlns:dcterms="http://purl.org/dc/terms/">
+    <rdf:Description rdf:about="http://arxiv.org/abs/1810.04805">
+        <z:itemType>preprint</z:itemType>
+        <bib:authors>
+            <rdf:Seq>
+                <rdf:li>
+                    <foaf:Person>
+                        <foaf:surname>Devlin</foaf:surname>
+                        <foaf:givenName>Jacob</foaf:givenName>
+                    </foaf:Person>
+                </rdf:li>
+            </rdf:Seq>
+        </bib:authors>
+        <link:link rdf:resource="#item_3"/>
+        <dcterms:isReferencedBy rdf:resource="#item_2"/>
+        <dc:subject>Language models</dc:subject>
+        <dc:subject>
+           <z:AutomaticTag><rdf:value>Computer Science - Computation and Language</rdf:value></z:AutomaticTag>
+        </dc:subject>
+        <dc:title>BERT: Pre-training of Deep Bidirectional Transformers</dc:title>
+        <dc:date>2019-05-24</dc:date>
+        <dc:identifier>
+            <dcterms:URI><rdf:value>http://arxiv.org/abs/1810.04805</rdf:value></dcterms:URI>
+        </dc:identifier>
+    </rdf:Description>
+    <bib:Memo rdf:about="#item_2">
+       <rdf:value>&lt;p&gt;Comment: 14 pages&lt;/p&gt;&lt;p&gt;Masked &amp;amp; &lt;b&gt;bidirectional&lt;/b&gt;&lt;/p&gt;</rdf:value>
+    </bib:Memo>
+    <z:Attachment rdf:about="#item_3">
+        <z:itemType>attachment</z:itemType>
+        <dc:title>arXiv Fulltext PDF</dc:title>
+    </z:Attachment>
+    <bib:Book rdf:about="#item_4">
+        <z:itemType>book</z:itemType>
+        <dc:title>Deep Learning</dc:title>
+    </bib:Book>
+    <z:Collection rdf:about="#collection_1">
+        <dc:title>Language</dc:title>
+        <dcterms:hasPart rdf:resource="http://arxiv.org/abs/1810.04805"/>
+        <dcterms:hasPart rdf:resource="#item_4"/>
+        <dcterms:hasPart rdf:resource="#collection_2"/>
+    </z:Collection>
+    <z:Collection rdf:about="#collection_2">
+        <dc:title>Pretraining</dc:title>
+        <dcterms:hasPart rdf:resource="http://arxiv.org/abs/1810.04805"/>
+    </z:Collection>
+</rdf:RDF>`;
+
+    it('should read items with their tags, notes and collections', () => {
+      const { entries, skipped } = parseLibraryFile(zoteroExport, 'zotero-rdf');
+
+      expect(skipped).toEqual(['Deep Learning']);
+      expect(entries).toEqual([
+        expect.objectContaining({
+          arxivId: '1810.04805',
+          tags: ['Language models', 'Computer Science - Computation and Language'],
+          notes: 'Comment: 14 pages\n\nMasked & bidirectional',
+          collections: ['Language', 'Pretraining']
+        })
+      ]);
+      expect(entries[0]!.metadata).toMatchObject({
+        title: 'BERT: Pre-training of Deep Bidirectional Transformers',
+        authors: ['Jacob Devlin'],
+        published: '2019-05-24'
+      });
+    });
+
+    it('should reject files that are not XML', () => {
+      expect(() => parseLibraryFile('<rdf:RDF>', 'zotero-rdf')).toThrow('not valid XML');
+    });
+
+    it('should round-trip tags, notes and collections', () => {
+      const exported = exportLibraryFile([savedPaper], collections, 'zotero-rdf');
+
+      expect(exported).toContain('<z:itemType>preprint</z:itemType>');
+      expect(exported).toContain('<foaf:Person><foaf:surname>Vaswani</foaf:surname><foaf:givenName>Ashish</foaf:givenName></foaf:Person>');
+      expect(parseLibraryFile(exported, 'zotero-rdf').entries).toEqual([
+        expect.objectContaining({
+          arxivId: '1706.03762v5',
+          tags: ['attention', 'nlp'],
+          notes: savedPaper.notes,
+          collections: ['Transformers', 'Reading group']
+        })
+      ]);
+    });
+
+    it('should only list collections that hold exported papers', () => {
+      const exported = exportLibraryFile([{ ...savedPaper, collectionIds: ['c2'] }], collections, 'zotero-rdf');
+
+      expect(exported).toContain('<dc:title>Reading group</dc:title>');
+      expect(exported).not.toContain('Transformers');
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { processPageReferences, handlePageNavigation } from '../pageLinks';
+import { processPageReferences, handlePageNavigation, parsePageLink, parsePageReferenceList, getViewerLocation } from '../pageLinks';
+import { getPdfViewerUrl } from '../arxivUtils';
 
 describe('processPageReferences', () => {
   it('should convert single page references to clickable links', () => {
@@ -58,6 +59,68 @@ describe('processPageReferences', () => {
   });
 });
 
+describe('processPageReferences with citations', () => {
+  it('should mark each link with its verification result in order', () => {
+    const citations = [
+      { page: 1, claim: 'a', confidence: 0.9, verified: true },
+      { page: 2, claim: 'b', confidence: 0.1, verified: false },
+      { page: 3, claim: 'b', confidence: 0.7, verified: true }
+    ];
+
+    expect(processPageReferences('First (page 1). Second (page 2, page 3).', citations)).toBe(
+      'First ([page 1](#page-1-verified)). Second ([page 2](#page-2-unverified), [page 3](#page-3-verified)).'
+    );
+  });
+
+  it('should leave links unmarked when there are no results', () => {
+    expect(processPageReferences('See (page 4)', [])).toBe('See ([page 4](#page-4))');
+  });
+});
+
+describe('parsePageLink', () => {
+  it('should parse plain and verified page links', () => {
+    expect(parsePageLink('#page-4')).toEqual({ page: '4', arxivId: null, verification: null });
+    expect(parsePageLink('#page-4-verified')).toEqual({ page: '4', arxivId: null, verification: 'verified' });
+    expect(parsePageLink('#page-4-unverified')).toEqual({ page: '4', arxivId: null, verification: 'unverified' });
+  });
+
+  it('should ignore other links', () => {
+    expect(parsePageLink('https://arxiv.org')).toBeNull();
+    expect(parsePageLink(undefined)).toBeNull();
+  });
+});
+
+describe('cross-paper page references', () => {
+  it('should split reference lists into papers and pages', () => {
+    expect(parsePageReferenceList('page 2, 1810.04805 page 6, arXiv:hep-th/9901001 page 1')).toEqual([
+      { arxivId: null, page: 2 },
+      { arxivId: '1810.04805', page: 6 },
+      { arxivId: 'hep-th/9901001', page: 1 }
+    ]);
+  });
+
+  it('should link references to the paper they name', () => {
+    const input = 'BERT builds on it (1706.03762 page 3, 1810.04805 page 1).';
+    const expected = 'BERT builds on it ([1706.03762 page 3](#paper-1706.03762-page-3), [1810.04805 page 1](#paper-1810.04805-page-1)).';
+
+    expect(processPageReferences(input)).toBe(expected);
+  });
+
+  it('should keep the version of versioned paper IDs', () => {
+    expect(processPageReferences('The first version differs (1706.03762v1 page 2).'))
+      .toBe('The first version differs ([1706.03762v1 page 2](#paper-1706.03762v1-page-2)).');
+  });
+
+  it('should parse the paper from cross-paper links', () => {
+    expect(parsePageLink('#paper-hep-th/9901001-page-12-unverified')).toEqual({
+      page: '12',
+      arxivId: 'hep-th/9901001',
+      verification: 'unverified'
+    });
+    expect(parsePageLink('#page-4')).toEqual({ page: '4', arxivId: null, verification: null });
+  });
+});
+
 describe('handlePageNavigation', () => {
   let mockGetElementById: jest.Mock;
   let consoleSpy: jest.SpyInstance;
@@ -103,6 +166,30 @@ describe('handlePageNavigation', () => {
     expect(mockIframe.src).toBe('https://mozilla.github.io/pdf.js/web/viewer.html?file=https://arxiv.org/pdf/1706.03762#page=7');
   });
 
+  it('should ask the viewer to highlight a quote', () => {
+    const mockIframe = {
+      src: 'https://mozilla.github.io/pdf.js/web/viewer.html?file=https://arxiv.org/pdf/1706.03762#page=3'
+    };
+    mockGetElementById.mockReturnValue(mockIframe);
+
+    handlePageNavigation('2', mockDocument, { highlight: ' multi-head attention & more ' });
+
+    expect(mockIframe.src).toBe(
+      'https://mozilla.github.io/pdf.js/web/viewer.html?file=https://arxiv.org/pdf/1706.03762#page=2&search=multi-head%20attention%20%26%20more&phrase=true'
+    );
+  });
+
+  it('should open another paper in the viewer', () => {
+    const mockIframe = {
+      src: 'https://mozilla.github.io/pdf.js/web/viewer.html?file=https%3A%2F%2Farxiv.org%2Fpdf%2F1706.03762#page=3'
+    };
+    mockGetElementById.mockReturnValue(mockIframe);
+
+    handlePageNavigation('6', mockDocument, { arxivId: '1810.04805' });
+
+    expect(mockIframe.src).toMatch(/^https:\/\/mozilla\.github\.io\/pdf\.js\/web\/viewer\.html\?file=https%3A%2F%2Farxiv\.org%2Fpdf%2F1810\.04805&.*#page=6$/);
+  });
+
   it('should handle case when PDF frame is not found', () => {
     mockGetElementById.mockReturnValue(null);
     
@@ -120,3 +207,18 @@ describe('handlePageNavigation', () => {
     expect(consoleSpy).toHaveBeenCalledWith('PDF frame not found or has no src');
   });
 });
+
+describe('getViewerLocation', () => {
+  it('should read the paper and page from a viewer URL', () => {
+    expect(getViewerLocation(`${getPdfViewerUrl('1706.03762v2')}#page=5`)).toEqual({ arxivId: '1706.03762v2', page: 5 });
+  });
+
+  it('should read a URL without a page', () => {
+    expect(getViewerLocation(getPdfViewerUrl('cs/0211011'))).toEqual({ arxivId: 'cs/0211011', page: null });
+  });
+
+  it('should return null for URLs that do not show an arXiv paper', () => {
+    expect(getViewerLocation('not a url')).toBeNull();
+    expect(getViewerLocation('https://mozilla.github.io/pdf.js/web/viewer.html?file=https%3A%2F%2Fexample.com%2Fpaper.pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PaperCache } from '../paperCache';
+
+function pdfBytes(size: number): ArrayBuffer {
+  const bytes = Buffer.alloc(size, 'x');
+  bytes.write('%PDF');
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+const handle = { name: 'files/arxiv-1706-03762-1', uri: 'https://example.test/files/1', mimeType: 'application/pdf' };
+
+describe('PaperCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'paper-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store PDFs on disk and read them back', async () => {
+    const cache = new PaperCache({ directory });
+
+    expect(await cache.getPdf('arxiv-1706-03762')).toBeNull();
+    await cache.putPdf('arxiv-1706-03762', '1706.03762', pdfBytes(16));
+
+    const pdf = await cache.getPdf('arxiv-1706-03762');
+    expect(pdf?.byteLength).toBe(16);
+    expect(Buffer.from(pdf as ArrayBuffer).subarray(0, 4).toString()).toBe('%PDF');
+    expect(await fs.readdir(directory)).toEqual(expect.arrayContaining(['arxiv-1706-03762.pdf', 'index.json']));
+  });
+
+  it('should keep document handles per provider and drop expired ones', async () => {
+    const cache = new PaperCache({ directory });
+
+    await cache.setDocument('arxiv-1706-03762', '1706.03762', 'gemini', handle);
+    expect(await cache.getDocument('arxiv-1706-03762', 'gemini')).toEqual(handle);
+    expect(await cache.getDocument('arxiv-1706-03762', 'openai')).toBeNull();
+
+    await cache.setDocument('arxiv-1706-03762', '1706.03762', 'gemini', {
+      ...handle,
+      expiresAt: new Date(Date.now() - 1000).toISOString()
+    });
+    expect(await cache.getDocument('arxiv-1706-03762', 'gemini')).toBeNull();
+  });
+
+  it('should reload its index from disk', async () => {
+    const cache = new PaperCache({ directory });
+    await cache.putPdf('arxiv-1706-03762', '1706.03762', pdfBytes(16));
+    await cache.setDocument('arxiv-1706-03762', '1706.03762', 'gemini', handle);
+
+    const reopened = new PaperCache({ directory });
+
+    expect(await reopened.getDocument('arxiv-1706-03762', 'gemini')).toEqual(handle);
+    expect((await reopened.getPdf('arxiv-1706-03762'))?.byteLength).toBe(16);
+  });
+
+  it('should evict the least recently used papers when over the size limit', async () => {
+    const cache = new PaperCache({ directory, maxBytes: 100 });
+
+    await cache.putPdf('arxiv-a', 'a', pdfBytes(40));
+    await cache.putPdf('arxiv-b', 'b', pdfBytes(40));
+    // Reading "a" makes "b" the least recently used paper
+    await cache.getPdf('arxiv-a');
+    await cache.putPdf('arxiv-c', 'c', pdfBytes(40));
+
+    expect((await cache.list()).map((entry) => entry.key)).toEqual(['arxiv-a', 'arxiv-c']);
+    expect(await cache.getPdf('arxiv-b')).toBeNull();
+    await expect(fs.access(path.join(directory, 'arxiv-b.pdf'))).rejects.toThrow();
+    expect((await cache.stats()).bytes).toBe(80);
+  });
+
+  it('should evict when over the entry limit and skip PDFs larger than the cache', async () => {
+    const cache = new PaperCache({ directory, maxBytes: 100, maxEntries: 2 });
+
+    await cache.setDocument('arxiv-a', 'a', 'gemini', handle);
+    await cache.setDocument('arxiv-b', 'b', 'gemini', handle);
+    await cache.setDocument('arxiv-c', 'c', 'gemini', handle);
+    await cache.putPdf('arxiv-huge', 'huge', pdfBytes(101));
+
+    expect((await cache.list()).map((entry) => entry.key)).toEqual(['arxiv-b', 'arxiv-c']);
+    expect(await cache.getPdf('arxiv-huge')).toBeNull();
+  });
+
+  it('should store extracted page text and count it towards the size limit', async () => {
+    const cache = new PaperCache({ directory });
+
+    expect(await cache.getPages('arxiv-1706-03762')).toBeNull();
+    await cache.putPages('arxiv-1706-03762', '1706.03762', ['First page', 'Second page']);
+
+    expect(await new PaperCache({ directory }).getPages('arxiv-1706-03762')).toEqual(['First page', 'Second page']);
+    expect((await cache.stats()).bytes).toBe(JSON.stringify(['First page', 'Second page']).length);
+
+    await cache.delete('arxiv-1706-03762');
+    expect(await fs.readdir(directory)).toEqual(['index.json']);
+  });
+
+  it('should forget PDFs that were removed from disk', async () => {
+    const cache = new PaperCache({ directory });
+    await cache.putPdf('arxiv-1706-03762', '1706.03762', pdfBytes(16));
+    await fs.rm(path.join(directory, 'arxiv-1706-03762.pdf'));
+
+    expect(await cache.getPdf('arxiv-1706-03762')).toBeNull();
+    expect((await cache.stats()).bytes).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { diffPaperVersions, diffSequences, formatDiffAsText, isSectionHeading, splitSections } from '../paperDiff';
+
+const version1 = [
+  [
+    'Attention Is All You Need',
+    'Abstract',
+    'The dominant sequence transduction models are based on complex recurrent or',
+    'convolutional neural networks that include an encoder and a decoder.',
+    '1 Introduction',
+    'Recurrent neural networks have been firmly established as state of the art ap-',
+    'proaches in sequence modeling and transduction problems.',
+    '',
+    'Attention mechanisms have become an integral part of sequence modeling in vari-',
+    'ous tasks, allowing modeling of dependencies.',
+    '1'
+  ].join('\n'),
+  [
+    '2 Background',
+    'The goal of reducing sequential computation also forms the foundation of the',
+    'Extended Neural GPU.',
+    'References',
+    '[1] Jimmy Lei Ba, Jamie Ryan Kiros, and Geoffrey E Hinton. Layer normalization.'
+  ].join('\n')
+];
+
+const version2 = [
+  [
+    'Attention Is All You Need',
+    'Abstract',
+    'The dominant sequence transduction models are based on complex recurrent or',
+    'convolutional neural networks that include an encoder and a decoder.',
+    '1 Introduction',
+    'Recurrent neural networks have been firmly established as state of the art ap-',
+    'proaches in sequence modeling and transduction problems.',
+    '',
+    'We propose the Transformer, a model architecture eschewing recurrence and',
+    'instead relying entirely on an attention mechanism.',
+    '2 Related Work',
+    'The goal of reducing sequential computation also forms the foundation of the',
+    'Extended Neural GPU.',
+    '3 Training',
+    'We trained on the standard WMT 2014 English-German dataset.'
+  ].join('\n')
+];
+
+describe('isSectionHeading', () => {
+  it.each([
+    '1 Introduction',
+    '3.2.1 Scaled Dot-Product Attention',
+    'A.1 Proofs',
+    'IV. EXPERIMENTS',
+    'References',
+    'Acknowledgments:'
+  ])('should recognize %s', (line) => {
+    expect(isSectionHeading(line)).toBe(true);
+  });
+
+  it.each([
+    'Attention Is All You Need',
+    '2014 English-German dataset',
+    '3 The model achieves 28.4 BLEU on the test set.',
+    '1 In this section we describe the model architecture that is used in all of our experiments'
+  ])('should not treat %s as a heading', (line) => {
+    expect(isSectionHeading(line)).toBe(false);
+  });
+});
+
+describe('splitSections', () => {
+  it('should split pages into sections and paragraphs, dropping page numbers', () => {
+    const sections = splitSections(version1);
+
+    expect(sections.map((section) => section.heading)).toEqual(['', 'Abstract', '1 Introduction', '2 Background', 'References']);
+    expect(sections[0]?.paragraphs).toEqual(['Attention Is All You Need']);
+    expect(sections[2]?.paragraphs).toEqual([
+      'Recurrent neural networks have been firmly established as state of the art approaches in sequence modeling and transduction problems.',
+      'Attention mechanisms have become an integral part of sequence modeling in various tasks, allowing modeling of dependencies.'
+    ]);
+  });
+});
+
+describe('diffSequences', () => {
+  it('should keep the longest common subsequence and list removals before additions', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+      { type: 'unchanged', from: 0, to: 0 },
+      { type: 'removed', from: 1 },
+      { type: 'added', to: 1 },
+      { type: 'unchanged', from: 2, to: 2 },
+      { type: 'added', to: 3 }
+    ]);
+  });
+
+  it('should handle empty sequences', () => {
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'added', to: 0 }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'removed', from: 0 }]);
+  });
+});
+
+describe('diffPaperVersions', () => {
+  it('should align sections by title and report paragraph changes', () => {
+    const diff = diffPaperVersions(version1, version2);
+
+    expect(diff.sections.map((section) => [section.heading, section.status])).toEqual([
+      ['', 'unchanged'],
+      ['Abstract', 'unchanged'],
+      ['1 Introduction', 'modified'],
+      ['2 Background', 'removed'],
+      ['References', 'removed'],
+      ['2 Related Work', 'added'],
+      ['3 Training', 'added']
+    ]);
+    expect(diff.sections[2]?.paragraphs.map((paragraph) => paragraph.type)).toEqual(['unchanged', 'removed', 'added']);
+    expect(diff.stats).toEqual({
+      addedParagraphs: 3,
+      removedParagraphs: 3,
+      unchangedParagraphs: 3,
+      addedSections: 2,
+      removedSections: 2,
+      modifiedSections: 1
+    });
+  });
+
+  it('should ignore renumbering, punctuation and line breaks', () => {
+    const diff = diffPaperVersions(
+      ['3 Training\nWe trained on the standard WMT 2014\nEnglish-German dataset.'],
+      ['4 Training\nWe trained on the standard WMT 2014 English–German dataset']
+    );
+
+    expect(diff.sections).toEqual([{
+      heading: '4 Training',
+      previousHeading: '3 Training',
+      status: 'unchanged',
+      paragraphs: [{ type: 'unchanged', text: 'We trained on the standard WMT 2014 English-German dataset.' }]
+    }]);
+  });
+});
+
+describe('formatDiffAsText', () => {
+  it('should list the changed sections with prefixed paragraphs', () => {
+    const text = formatDiffAsText(diffPaperVersions(version1, version2), 10000);
+
+    expect(text).toContain('## 1 Introduction (modified)\n- Attention mechanisms have become');
+    expect(text).toContain('+ We propose the Transformer');
+    expect(text).not.toContain('Abstract');
+  });
+
+  it('should cut off long diffs', () => {
+    const text = formatDiffAsText(diffPaperVersions(version1, version2), 40);
+
+    expect(text).toMatch(/^## 1 Introduction \(modified\)\n- Attention\n\[…remaining changes cut off\]$/);
+  });
+});
@@ -0,0 +1,56 @@
+import { buildPersona, getPersonaTemplate, registerPersonaTemplate, resetPersonaTemplates } from '../personas';
+
+describe('personas', () => {
+  afterEach(() => {
+    resetPersonaTemplates();
+  });
+
+  describe('getPersonaTemplate', () => {
+    it('should fall back from a category to its archive', () => {
+      expect(getPersonaTemplate('cond-mat.soft')).toEqual(getPersonaTemplate('cond-mat'));
+      expect(getPersonaTemplate('cond-mat')?.field).toBe('Condensed Matter');
+      expect(getPersonaTemplate('nonsense')).toBeNull();
+    });
+
+    it('should prefer the most specific registered template', () => {
+      registerPersonaTemplate('physics', { field: 'Physics', focus: 'physical intuition.' });
+      registerPersonaTemplate('cs.CL', { field: 'Computational Linguistics', role: 'computational linguist', focus: 'language models.' });
+
+      expect(getPersonaTemplate('cs.CL')?.role).toBe('computational linguist');
+      expect(getPersonaTemplate('cs.LG')?.field).toBe('Computer Science');
+      expect(getPersonaTemplate('hep-th')?.field).toBe('High Energy Physics - Theory');
+    });
+  });
+
+  describe('buildPersona', () => {
+    it('should combine the primary category with cross-lists from other fields', () => {
+      expect(buildPersona(['cs.CL', 'cs.CL', 'stat.ML', 'cs.LG'])).toBe(
+        'You are a Computer Science professor with a background in Statistics helping a student understand this research paper, ' +
+        'which is filed under Computation and Language (cs.CL) and cross-listed in Machine Learning (stat.ML) and Machine Learning (cs.LG). ' +
+        'Focus on algorithms, computational methods, software engineering principles, and theoretical computer science concepts; ' +
+        'and on statistical methods, data analysis, probability theory, and statistical inference.'
+      );
+    });
+
+    it('should limit the fields and cross-lists it names', () => {
+      const persona = buildPersona(['quant-ph', 'cs.ET', 'math-ph', 'cond-mat.mes-hall', 'physics.optics'])!;
+
+      expect(persona).toContain('with a background in Computer Science and Mathematical Physics helping');
+      expect(persona).toContain('Emerging Technologies (cs.ET), Mathematical Physics (math-ph) and Mesoscale and Nanoscale Physics (cond-mat.mes-hall).');
+      expect(persona).not.toContain('physics.optics');
+    });
+
+    it('should use registered templates', () => {
+      registerPersonaTemplate('cs.CL', { field: 'Computational Linguistics', role: 'computational linguist', focus: 'language models.' });
+
+      expect(buildPersona(['cs.CL'])).toBe(
+        'You are a computational linguist helping a student understand this research paper, which is filed under Computation and Language (cs.CL). Focus on language models.'
+      );
+    });
+
+    it('should return null without a known primary category', () => {
+      expect(buildPersona([])).toBeNull();
+      expect(buildPersona(['nonsense', 'cs.LG'])).toBeNull();
+    });
+  });
+});
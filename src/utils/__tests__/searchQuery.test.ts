@@ -0,0 +1,103 @@
+import { buildSearchQuery, formatSearchQuery, parseSearchQuery, toArxivSearchQuery } from '../searchQuery';
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse fields, phrases, OR, AND and exclusions with AND binding tighter than OR', () => {
+      expect(parseSearchQuery('au:hinton OR au:lecun AND ti:"deep learning" -cat:stat.ML')).toEqual({
+        type: 'or',
+        left: { type: 'term', field: 'au', value: 'hinton', phrase: false },
+        right: {
+          type: 'andnot',
+          left: {
+            type: 'and',
+            left: { type: 'term', field: 'au', value: 'lecun', phrase: false },
+            right: { type: 'term', field: 'ti', value: 'deep learning', phrase: true }
+          },
+          right: { type: 'term', field: 'cat', value: 'stat.ML', phrase: false }
+        }
+      });
+    });
+
+    it('should AND adjacent terms and use the default field for unprefixed ones', () => {
+      expect(parseSearchQuery('attention transformers')).toEqual({
+        type: 'and',
+        left: { type: 'term', field: 'all', value: 'attention', phrase: false },
+        right: { type: 'term', field: 'all', value: 'transformers', phrase: false }
+      });
+      expect(parseSearchQuery('Hinton', 'au')).toEqual({ type: 'term', field: 'au', value: 'Hinton', phrase: false });
+    });
+
+    it('should group with parentheses and accept long field names and ANDNOT', () => {
+      expect(toArxivSearchQuery(parseSearchQuery('(author:hinton OR author:lecun) ANDNOT title:survey')!))
+        .toBe('(au:hinton OR au:lecun) ANDNOT ti:survey');
+      expect(toArxivSearchQuery(parseSearchQuery('bert AND -(cat:cs.CV OR cat:cs.RO)')!))
+        .toBe('all:bert ANDNOT (cat:cs.CV OR cat:cs.RO)');
+    });
+
+    it('should keep hyphens inside words and unknown prefixes as text', () => {
+      expect(parseSearchQuery('self-attention')).toEqual({ type: 'term', field: 'all', value: 'self-attention', phrase: false });
+      expect(parseSearchQuery('foo:bar')).toEqual({ type: 'term', field: 'all', value: 'foo:bar', phrase: false });
+    });
+
+    it('should return null for empty queries', () => {
+      expect(parseSearchQuery('   ')).toBeNull();
+      expect(parseSearchQuery('""')).toBeNull();
+    });
+
+    it.each([
+      ['ti:"deep learning', 'Unclosed quote in search query'],
+      ['(a OR b', 'Missing closing parenthesis in search query'],
+      ['a OR b)', 'Unexpected ) in search query'],
+      ['a OR', 'Search query ends unexpectedly'],
+      ['OR a', 'Unexpected OR in search query'],
+      ['-cat:stat.ML', 'Exclusions need a term to exclude from'],
+      ['au: hinton', 'Missing value after au: in search query']
+    ])('should reject %s', (query, message) => {
+      expect(() => parseSearchQuery(query)).toThrow(message);
+    });
+  });
+
+  describe('toArxivSearchQuery', () => {
+    it('should quote phrases and values that are not plain words', () => {
+      expect(toArxivSearchQuery({ type: 'term', field: 'ti', value: 'deep learning', phrase: true })).toBe('ti:"deep learning"');
+      expect(toArxivSearchQuery({ type: 'term', field: 'all', value: 'C++(17)', phrase: false })).toBe('all:"C++(17)"');
+      expect(toArxivSearchQuery({ type: 'term', field: 'ti', value: 'say "hi"', phrase: true })).toBe('ti:"say hi"');
+      expect(toArxivSearchQuery({ type: 'term', field: 'ti', value: 'and', phrase: false })).toBe('ti:"and"');
+    });
+
+    it('should parenthesize nested operations', () => {
+      expect(toArxivSearchQuery(parseSearchQuery('a b c')!)).toBe('all:a AND all:b AND all:c');
+      expect(toArxivSearchQuery(parseSearchQuery('(a OR b) c')!)).toBe('(all:a OR all:b) AND all:c');
+      expect(toArxivSearchQuery(parseSearchQuery('a (b c)')!)).toBe('all:a AND (all:b AND all:c)');
+    });
+  });
+
+  describe('formatSearchQuery', () => {
+    it.each([
+      'au:hinton OR au:lecun AND ti:"deep learning" -cat:stat.ML',
+      '(au:hinton OR au:lecun) -ti:survey',
+      'bert -(cat:cs.CV OR cat:cs.RO)',
+      'ti:"AND" "C++(17)"'
+    ])('should write %s so that it parses to the same tree', (query) => {
+      const tree = parseSearchQuery(query)!;
+      expect(parseSearchQuery(formatSearchQuery(tree))).toEqual(tree);
+    });
+
+    it('should leave out the default field', () => {
+      expect(formatSearchQuery(parseSearchQuery('attention -cat:stat.ML')!)).toBe('attention -cat:stat.ML');
+    });
+  });
+
+  describe('buildSearchQuery', () => {
+    it('should AND the advanced fields, each parsed with its own default field', () => {
+      const tree = buildSearchQuery({ query: 'transformers', author: 'hinton OR lecun', category: 'cs.LG' });
+
+      expect(toArxivSearchQuery(tree!)).toBe('all:transformers AND (au:hinton OR au:lecun) AND cat:cs.LG');
+      expect(formatSearchQuery(tree!)).toBe('transformers (au:hinton OR au:lecun) cat:cs.LG');
+    });
+
+    it('should return null when every field is empty', () => {
+      expect(buildSearchQuery({ query: '', author: ' ' })).toBeNull();
+    });
+  });
+});
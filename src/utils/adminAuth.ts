@@ -0,0 +1,43 @@
+/**
+ * Bearer token check shared by the admin API routes
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * Check the request's bearer token against ADMIN_API_TOKEN
+ * @param req - API request
+ * @param adminToken - Configured admin token
+ * @returns True if the token matches
+ */
+function isAuthorized(req: NextApiRequest, adminToken: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match?.[1]) return false;
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(adminToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Make sure an admin request carries the admin token, responding with 503
+ * when no token is configured and 401 when it doesn't match
+ * @param req - API request
+ * @param res - API response
+ * @returns True if the request may proceed
+ */
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    res.status(503).json({ error: 'ADMIN_API_TOKEN is not configured' });
+    return false;
+  }
+  if (!isAuthorized(req, adminToken)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+  return true;
+}
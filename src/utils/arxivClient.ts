@@ -0,0 +1,333 @@
+/**
+ * Shared client for every request to arXiv.
+ *
+ * arXiv asks API clients to make at most one request every three seconds, so
+ * requests to the API (export.arxiv.org) are queued and sent in reserved
+ * slots at least `intervalMs` apart. At most `maxQueued` requests wait for a
+ * slot; beyond that, requests fail at once rather than holding their caller
+ * for minutes. Other requests, such as PDF downloads from arxiv.org, are sent
+ * right away. 503s (arXiv's "slow down") and timeouts are retried with
+ * doubling backoff, honouring Retry-After. Successful text responses are
+ * cached by normalized URL for `cacheTtlMs`, and identical requests that are
+ * already in flight share one response.
+ */
+
+export interface ArxivClientOptions {
+  intervalMs?: number | undefined;
+  /** How long successful text responses are cached; 0 disables the cache */
+  cacheTtlMs?: number | undefined;
+  maxCacheEntries?: number | undefined;
+  maxRetries?: number | undefined;
+  timeoutMs?: number | undefined;
+  /** How many API requests may wait for a slot before new ones are turned away */
+  maxQueued?: number | undefined;
+}
+
+export interface ArxivClientStats {
+  /** Requests sent to arXiv, including retries */
+  requests: number;
+  retries: number;
+  /** Requests given up on after a network error, timeout or repeated 503s */
+  failures: number;
+  /** API requests turned away because the queue was full */
+  rejected: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** Requests that joined an identical request already in flight */
+  shared: number;
+  cacheEntries: number;
+  /** Requests waiting for their slot */
+  queued: number;
+}
+
+export interface ArxivTextResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: string;
+}
+
+interface CachedResponse {
+  response: ArxivTextResponse;
+  expiresAt: number;
+}
+
+export const DEFAULT_ARXIV_REQUEST_INTERVAL_MS = 3000;
+export const DEFAULT_ARXIV_CACHE_TTL_MS = 15 * 60 * 1000;
+// Ten requests three seconds apart: no caller waits much more than half a minute
+export const DEFAULT_ARXIV_MAX_QUEUED = 10;
+
+const DEFAULT_MAX_CACHE_ENTRIES = 500;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+const USER_AGENT = 'asXiv/1.0 (https://github.com/montanaflynn/asxiv)';
+const API_HOST = 'export.arxiv.org';
+const BUSY_ERROR_CODE = 'ARXIV_BUSY';
+
+const sleep = (ms: number) => (ms > 0 ? new Promise<void>(resolve => setTimeout(resolve, ms)) : Promise.resolve());
+
+/**
+ * Normalize a URL for use as a cache key: query parameters are sorted and
+ * their whitespace collapsed, so equivalent queries share an entry
+ * @param url - Request URL
+ * @returns Normalized URL
+ */
+export function normalizeArxivUrl(url: string | URL): string {
+  const normalized = new URL(url.toString());
+  const params = Array.from(normalized.searchParams.entries())
+    .map(([name, value]): [string, string] => [name, value.replace(/\s+/g, ' ').trim()])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  normalized.search = new URLSearchParams(params).toString();
+  normalized.hash = '';
+  return normalized.toString();
+}
+
+/**
+ * Check whether a request was turned away because too many requests to the
+ * arXiv API were already waiting, so callers can answer 503
+ * @param error - Error thrown by the client
+ * @returns True for a full queue
+ */
+export function isArxivBusyError(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === BUSY_ERROR_CODE;
+}
+
+/**
+ * Read a Retry-After header given in seconds
+ * @param response - 503 response
+ * @returns Delay in milliseconds, or null when the header is missing or a date
+ */
+function getRetryAfterMs(response: Response): number | null {
+  const value = response.headers?.get('Retry-After');
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+export class ArxivClient {
+  readonly intervalMs: number;
+  readonly cacheTtlMs: number;
+  readonly maxCacheEntries: number;
+  readonly maxRetries: number;
+  readonly timeoutMs: number;
+  readonly maxQueued: number;
+
+  // Resolves when the next request may be sent
+  private nextSlot: Promise<void> = Promise.resolve();
+  // Insertion order is age order: the first entry is the oldest
+  private cache = new Map<string, CachedResponse>();
+  private inFlight = new Map<string, Promise<ArxivTextResponse>>();
+  private counters = { requests: 0, retries: 0, failures: 0, rejected: 0, cacheHits: 0, cacheMisses: 0, shared: 0 };
+  private queued = 0;
+
+  constructor({
+    intervalMs = DEFAULT_ARXIV_REQUEST_INTERVAL_MS,
+    cacheTtlMs = DEFAULT_ARXIV_CACHE_TTL_MS,
+    maxCacheEntries = DEFAULT_MAX_CACHE_ENTRIES,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxQueued = DEFAULT_ARXIV_MAX_QUEUED
+  }: ArxivClientOptions = {}) {
+    this.intervalMs = intervalMs;
+    this.cacheTtlMs = cacheTtlMs;
+    this.maxCacheEntries = Math.max(1, maxCacheEntries);
+    this.maxRetries = maxRetries;
+    this.timeoutMs = timeoutMs;
+    this.maxQueued = Math.max(1, maxQueued);
+  }
+
+  /**
+   * Send a request, in the next free slot for API requests, retrying 503s
+   * and timeouts, and read its response. The timeout covers reading the
+   * body too, so a stalled download is retried like a stalled request.
+   * Responses are not cached; use fetchText for API calls.
+   * @param url - arXiv URL
+   * @param read - Reads the final response, which may still be an error status
+   * @returns Whatever `read` returns
+   * @throws Error when the request fails or times out on every attempt, or
+   * when too many API requests are already waiting (see isArxivBusyError)
+   */
+  async fetch<T>(url: string | URL, read: (response: Response) => Promise<T>): Promise<T> {
+    const spaced = new URL(url.toString()).hostname === API_HOST;
+    if (spaced && this.queued >= this.maxQueued) {
+      this.counters.rejected++;
+      throw Object.assign(new Error('Too many requests to arXiv are waiting; try again shortly'), { code: BUSY_ERROR_CODE });
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      if (spaced) {
+        await this.waitForSlot();
+      }
+      this.counters.requests++;
+
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeoutMs);
+
+      let response: Response | undefined;
+      let retryAfterMs: number | null = null;
+      try {
+        response = await fetch(url.toString(), {
+          headers: { 'User-Agent': USER_AGENT },
+          signal: controller.signal
+        });
+
+        if (response.status !== 503 || attempt >= this.maxRetries) {
+          if (response.status === 503) {
+            this.counters.failures++;
+          }
+          return await read(response);
+        }
+        retryAfterMs = getRetryAfterMs(response);
+        // Release the connection before waiting to retry
+        await response.body?.cancel().catch(() => undefined);
+      } catch (error) {
+        if (timedOut && attempt < this.maxRetries) {
+          await this.backOff(attempt, null, spaced);
+          continue;
+        }
+        // Errors thrown by `read` for a response we got are the caller's own
+        if (timedOut || !response) {
+          this.counters.failures++;
+        }
+        throw timedOut ? new Error(`ArXiv request timed out after ${this.timeoutMs} ms`) : error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      await this.backOff(attempt, retryAfterMs, spaced);
+    }
+  }
+
+  /**
+   * Fetch a text response (e.g. an Atom feed), from the cache when possible.
+   * Only successful responses are cached.
+   * @param url - arXiv URL
+   * @returns Status and body
+   * @throws Error when the request fails or times out on every attempt
+   */
+  async fetchText(url: string | URL): Promise<ArxivTextResponse> {
+    const key = normalizeArxivUrl(url);
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.counters.cacheHits++;
+      return cached.response;
+    }
+    if (cached) {
+      this.cache.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.shared++;
+      return pending;
+    }
+
+    this.counters.cacheMisses++;
+    const request = (async (): Promise<ArxivTextResponse> => {
+      const result = await this.fetch(url, async (response): Promise<ArxivTextResponse> => (
+        { ok: response.ok, status: response.status, statusText: response.statusText, text: await response.text() }
+      ));
+      if (result.ok && this.cacheTtlMs > 0) {
+        this.cache.set(key, { response: result, expiresAt: Date.now() + this.cacheTtlMs });
+        while (this.cache.size > this.maxCacheEntries) {
+          this.cache.delete(this.cache.keys().next().value as string);
+        }
+      }
+      return result;
+    })();
+
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Report request, retry and cache counters
+   * @returns Counters since the client was created
+   */
+  stats(): ArxivClientStats {
+    return { ...this.counters, cacheEntries: this.cache.size, queued: this.queued };
+  }
+
+  /**
+   * Wait for the next free slot. Slots are handed out in call order, so
+   * requests are sent first come, first served, each one interval after
+   * the previous one.
+   */
+  private async waitForSlot(): Promise<void> {
+    const slot = this.nextSlot;
+    this.nextSlot = slot.then(() => sleep(this.intervalMs));
+
+    this.queued++;
+    try {
+      await slot;
+    } finally {
+      this.queued--;
+    }
+  }
+
+  /**
+   * Wait before retrying. When the API asked us to slow down, every queued
+   * API request is held back; other requests only delay their own retry.
+   * @param attempt - Attempt that failed, starting at 0
+   * @param retryAfterMs - Delay arXiv asked for, if any
+   * @param spaced - Whether the request goes through the slot queue
+   */
+  private async backOff(attempt: number, retryAfterMs: number | null, spaced: boolean): Promise<void> {
+    this.counters.retries++;
+    const delay = retryAfterMs ?? this.intervalMs * 2 ** (attempt + 1);
+    if (spaced) {
+      this.nextSlot = Promise.all([this.nextSlot, sleep(delay)]).then(() => undefined);
+    } else {
+      await sleep(delay);
+    }
+  }
+}
+
+function readNonNegativeNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+let clientOverride: ArxivClient | null = null;
+let defaultClient: ArxivClient | null = null;
+
+/**
+ * Use a specific arXiv client instead of the configured one (e.g. one
+ * without spacing in tests). Pass null to restore the default.
+ * @param client - Client to use, or null
+ */
+export function setArxivClient(client: ArxivClient | null): void {
+  clientOverride = client;
+}
+
+/**
+ * Get the configured arXiv client, shared by every request to arXiv
+ * @returns arXiv client
+ */
+export function getArxivClient(): ArxivClient {
+  if (clientOverride) return clientOverride;
+  if (!defaultClient) {
+    defaultClient = new ArxivClient({
+      intervalMs: readNonNegativeNumber(process.env.ARXIV_REQUEST_INTERVAL_MS, DEFAULT_ARXIV_REQUEST_INTERVAL_MS),
+      cacheTtlMs: readNonNegativeNumber(process.env.ARXIV_CACHE_TTL_MS, DEFAULT_ARXIV_CACHE_TTL_MS),
+      maxQueued: readNonNegativeNumber(process.env.ARXIV_MAX_QUEUED, DEFAULT_ARXIV_MAX_QUEUED)
+    });
+  }
+  return defaultClient;
+}
@@ -2,18 +2,44 @@
  * ArXiv search utilities for querying the arXiv API
  */
 
+import { XMLParser } from 'fast-xml-parser';
+import { getArxivClient, isArxivBusyError } from '@/utils/arxivClient';
+import { parseArxivId } from '@/utils/arxivUtils';
+import { SearchQueryNode, buildSearchQuery, toArxivSearchQuery } from '@/utils/searchQuery';
+
+export interface ArxivAuthor {
+  name: string;
+  affiliations: string[];
+}
+
 export interface ArxivSearchResult {
   id: string;
   title: string;
   authors: string[];
+  /** Authors with the affiliations arXiv lists for them */
+  authorDetails?: ArxivAuthor[] | undefined;
   abstract: string;
   published: string;
   updated: string;
   categories: string[];
+  /** Category the paper was submitted to, e.g. "cs.CL" */
+  primaryCategory?: string | undefined;
   pdfUrl: string;
   abstractUrl: string;
+  /** Links to the exact version the entry describes, e.g. https://arxiv.org/pdf/1706.03762v7 */
+  versionedPdfUrl?: string | undefined;
+  versionedAbstractUrl?: string | undefined;
   doi?: string | undefined;
   comment?: string | undefined;
+  journalRef?: string | undefined;
+  /** Version the entry describes: the latest one unless a version was looked up */
+  version?: number | undefined;
+}
+
+export interface ArxivVersion {
+  version: number;
+  /** When the version was submitted (ISO 8601), or null if arXiv didn't report it */
+  submitted: string | null;
 }
 
 export interface ArxivSearchResponse {
@@ -22,6 +48,8 @@ export interface ArxivSearchResponse {
   startIndex: number;
   itemsPerPage: number;
   query: string;
+  /** Problems arXiv reported with the request, such as a malformed ID or query */
+  errors?: string[];
 }
 
 export interface ArxivSearchParams {
@@ -38,8 +66,19 @@ export interface ArxivSearchParams {
   journal?: string;
   reportNumber?: string;
   all?: string;
+  /** Parsed query; when given, the text fields above are not used */
+  searchQuery?: SearchQueryNode;
+  /** Earliest submission date to include (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Latest submission date to include (YYYY-MM-DD, UTC); defaults to today when only from is given */
+  to?: string;
 }
 
+const ARXIV_API_URL = 'http://export.arxiv.org/api/query';
+
+// Longest id_list sent in one request; arXiv rejects or truncates much longer lists
+const ARXIV_ID_LIST_BATCH_SIZE = 100;
+
 /**
  * Search arXiv papers using the arXiv API
  * @param params - Search parameters
@@ -59,65 +98,241 @@ export async function searchArxiv(params: ArxivSearchParams): Promise<ArxivSearc
     comment,
     journal,
     reportNumber,
-    all
+    all,
+    from,
+    to
   } = params;
 
-  // Build the search query
-  let searchQuery = '';
-  
-  if (all) {
-    searchQuery = `all:${all}`;
-  } else {
-    const queryParts: string[] = [];
-    
-    if (query) queryParts.push(`all:${query}`);
-    if (author) queryParts.push(`au:${author}`);
-    if (title) queryParts.push(`ti:${title}`);
-    if (abstract) queryParts.push(`abs:${abstract}`);
-    if (comment) queryParts.push(`co:${comment}`);
-    if (journal) queryParts.push(`jr:${journal}`);
-    if (reportNumber) queryParts.push(`rn:${reportNumber}`);
-    if (category) queryParts.push(`cat:${category}`);
-    
-    searchQuery = queryParts.join(' AND ');
-  }
+  // Build the search query; malformed query text throws before arXiv is contacted
+  const searchQuery = params.searchQuery ?? buildSearchQuery(
+    all ? { query: all } : { query, author, title, abstract, comment, journal, reportNumber, category }
+  );
 
   // Build the API URL
-  const baseUrl = 'http://export.arxiv.org/api/query';
-  const url = new URL(baseUrl);
+  const url = new URL(ARXIV_API_URL);
   
-  url.searchParams.set('search_query', searchQuery);
+  let arxivQuery = searchQuery ? toArxivSearchQuery(searchQuery) : '';
+  if (from || to) {
+    const dateRange = getSubmittedDateRange(from, to);
+    arxivQuery = arxivQuery ? `(${arxivQuery}) AND ${dateRange}` : dateRange;
+  }
+  url.searchParams.set('search_query', arxivQuery);
   url.searchParams.set('start', start.toString());
   url.searchParams.set('max_results', maxResults.toString());
   url.searchParams.set('sortBy', sortBy);
   url.searchParams.set('sortOrder', sortOrder);
 
   try {
-    const response = await fetch(url.toString(), {
-      headers: {
-        'User-Agent': 'asXiv/1.0 (https://github.com/montanaflynn/asxiv)',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`ArXiv API error: ${response.status} ${response.statusText}`);
-    }
-
-    const xmlText = await response.text();
+    const xmlText = await fetchArxivFeed(url);
     return parseArxivXmlResponse(xmlText, query, start, maxResults);
   } catch (error) {
+    // A full request queue is reported as is, so the API can answer 503
+    if (isArxivBusyError(error)) throw error;
     console.error('arxivSearch: request failed', error);
     throw new Error('Failed to search arXiv papers');
   }
 }
 
 /**
- * Parse ArXiv XML response into structured data
+ * Build arXiv's submission date filter. arXiv needs both ends of the range,
+ * so open ends run from the first arXiv submissions or up to today.
+ * @param from - First day to include (YYYY-MM-DD)
+ * @param to - Last day to include (YYYY-MM-DD)
+ * @returns Query clause, e.g. submittedDate:[202401010000 TO 202412312359]
+ */
+function getSubmittedDateRange(from: string | undefined, to: string | undefined): string {
+  const toArxivDate = (date: string) => date.replace(/-/g, '');
+  const start = from ? toArxivDate(from) : '19910101';
+  const end = to ? toArxivDate(to) : toArxivDate(new Date().toISOString().slice(0, 10));
+  return `submittedDate:[${start}0000 TO ${end}2359]`;
+}
+
+/**
+ * Look up a single paper's abstract and metadata by ID
+ * @param arxivId - Normalized arXiv ID (e.g., "1706.03762" or "cs/0211011")
+ * @returns The paper, or null if arXiv doesn't know the ID
+ */
+export async function getArxivPaper(arxivId: string): Promise<ArxivSearchResult | null> {
+  const url = new URL(ARXIV_API_URL);
+  url.searchParams.set('id_list', arxivId);
+  url.searchParams.set('max_results', '1');
+
+  try {
+    const xmlText = await fetchArxivFeed(url);
+    // Unknown IDs come back as an error entry rather than a result
+    return parseArxivXmlResponse(xmlText, '', 0, 1).results[0] ?? null;
+  } catch (error) {
+    if (isArxivBusyError(error)) throw error;
+    console.error('arxivSearch: paper lookup failed', error);
+    throw new Error(`Failed to look up arXiv paper ${arxivId}`);
+  }
+}
+
+/**
+ * Look up the metadata of many papers, in batches of at most
+ * ARXIV_ID_LIST_BATCH_SIZE IDs per request
+ * @param arxivIds - Normalized arXiv IDs, with or without versions (e.g., "1706.03762" or "1706.03762v2")
+ * @returns Papers keyed by the ID they were requested with; IDs arXiv doesn't know are left out
+ */
+export async function getArxivMetadata(arxivIds: string[]): Promise<Map<string, ArxivSearchResult>> {
+  const uniqueIds = Array.from(new Set(arxivIds));
+  const papers = new Map<string, ArxivSearchResult>();
+
+  for (let offset = 0; offset < uniqueIds.length; offset += ARXIV_ID_LIST_BATCH_SIZE) {
+    const batch = uniqueIds.slice(offset, offset + ARXIV_ID_LIST_BATCH_SIZE);
+    const url = new URL(ARXIV_API_URL);
+    url.searchParams.set('id_list', batch.join(','));
+    url.searchParams.set('max_results', String(batch.length));
+
+    let entries: ArxivSearchResult[];
+    try {
+      entries = parseArxivXmlResponse(await fetchArxivFeed(url), '', 0, batch.length).results;
+    } catch (error) {
+      if (isArxivBusyError(error)) throw error;
+      console.error('arxivSearch: metadata lookup failed', error);
+      throw new Error(`Failed to look up ${batch.length === 1 ? 'arXiv paper' : 'arXiv papers'} ${batch.join(', ')}`);
+    }
+
+    // Entries come back in request order, but unknown IDs leave gaps, so match them by ID
+    for (const requestedId of batch) {
+      const parsed = parseArxivId(requestedId);
+      const entry = entries.find((candidate) =>
+        candidate.id === parsed.id && (parsed.version === null || candidate.version === parsed.version)
+      );
+      if (entry) {
+        papers.set(requestedId, entry);
+      }
+    }
+  }
+
+  return papers;
+}
+
+/**
+ * List every version of a paper with its submission date. Entries report the
+ * latest version number, and looking up a specific version (e.g. 1706.03762v2)
+ * returns that version's date as its update time.
+ * @param arxivId - Normalized arXiv ID without version
+ * @returns Versions, oldest first, or null if arXiv doesn't know the ID
+ */
+export async function getArxivVersions(arxivId: string): Promise<ArxivVersion[] | null> {
+  const latest = await getArxivPaper(arxivId);
+  if (!latest) return null;
+
+  const versionCount = latest.version ?? 1;
+  if (versionCount === 1) {
+    return [{ version: 1, submitted: latest.published || null }];
+  }
+
+  const versionIds = Array.from({ length: versionCount }, (_, index) => `${latest.id}v${index + 1}`);
+  const url = new URL(ARXIV_API_URL);
+  url.searchParams.set('id_list', versionIds.join(','));
+  url.searchParams.set('max_results', String(versionCount));
+
+  let entries: ArxivSearchResult[];
+  try {
+    entries = parseArxivXmlResponse(await fetchArxivFeed(url), '', 0, versionCount).results;
+  } catch (error) {
+    if (isArxivBusyError(error)) throw error;
+    console.error('arxivSearch: version lookup failed', error);
+    throw new Error(`Failed to list versions of arXiv paper ${arxivId}`);
+  }
+
+  return versionIds.map((_, index) => {
+    const version = index + 1;
+    const entry = entries.find((candidate) => candidate.version === version);
+    // The first version was submitted when the paper was published
+    const submitted = version === 1 ? entry?.published || latest.published : entry?.updated;
+    return { version, submitted: submitted || null };
+  });
+}
+
+/**
+ * Fetch an Atom feed from the arXiv API through the shared arXiv client,
+ * which spaces, retries and caches requests
+ * @param url - API URL with query parameters
+ * @returns Raw XML
+ */
+async function fetchArxivFeed(url: URL): Promise<string> {
+  const response = await getArxivClient().fetchText(url);
+
+  if (!response.ok) {
+    // Rejected requests usually carry a feed whose error entry says why
+    let reason = '';
+    try {
+      reason = parseArxivXmlResponse(response.text, '', 0, 0).errors?.join('; ') ?? '';
+    } catch {
+      // Not a feed; the status is all there is to report
+    }
+    throw new Error(`ArXiv API error: ${response.status} ${response.statusText}${reason ? ` (${reason})` : ''}`);
+  }
+
+  return response.text;
+}
+
+// Elements that may repeat; the parser returns these as arrays even when there is only one
+const REPEATED_ELEMENTS = new Set([
+  'feed.entry',
+  'feed.entry.author',
+  'feed.entry.author.affiliation',
+  'feed.entry.link',
+  'feed.entry.category'
+]);
+
+// Namespace prefixes (opensearch:, arxiv:) are dropped, so arxiv:doi is read as doi
+const feedParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  htmlEntities: true,
+  isArray: (_name, jpath) => REPEATED_ELEMENTS.has(String(jpath))
+});
+
+type XmlNode = Record<string, unknown>;
+
+// Entries with these IDs describe a problem with the request rather than a paper
+const ARXIV_ERROR_ID_PREFIX = 'http://arxiv.org/api/errors';
+
+/**
+ * Text content of an element, whether or not it has attributes
+ * @param node - Parsed element
+ * @returns Text with whitespace collapsed, or "" if the element is missing
+ */
+function textOf(node: unknown): string {
+  if (typeof node === 'string' || typeof node === 'number') {
+    return String(node).replace(/\s+/g, ' ').trim();
+  }
+  if (node && typeof node === 'object' && '#text' in node) {
+    return textOf((node as XmlNode)['#text']);
+  }
+  return '';
+}
+
+/**
+ * Read an attribute of an element
+ * @param node - Parsed element
+ * @param name - Attribute name
+ * @returns Attribute value, or "" if it is missing
+ */
+function attributeOf(node: unknown, name: string): string {
+  if (!node || typeof node !== 'object') return '';
+  const value = (node as XmlNode)[`@_${name}`];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asNodes(value: unknown): XmlNode[] {
+  return Array.isArray(value) ? value.filter((item): item is XmlNode => !!item && typeof item === 'object') : [];
+}
+
+/**
+ * Parse an arXiv Atom feed into structured data
  * @param xmlText - Raw XML response from arXiv API
  * @param query - Original search query
- * @param start - Start index
+ * @param start - Start index requested
  * @param maxResults - Number of results requested
- * @returns Parsed search results
+ * @returns Parsed search results, with any errors arXiv reported as feed entries
  */
 function parseArxivXmlResponse(
   xmlText: string,
@@ -125,161 +340,98 @@ function parseArxivXmlResponse(
   start: number,
   maxResults: number
 ): ArxivSearchResponse {
-  // Simple XML parsing for arXiv response
-  // In a production app, you might want to use a proper XML parser
-  const results: ArxivSearchResult[] = [];
-  
-  // Extract total results from the feed - try multiple patterns
-  let totalResults = 0;
-  const totalResultsPatterns = [
-    /<opensearch:totalResults>(\d+)<\/opensearch:totalResults>/,
-    /<totalResults>(\d+)<\/totalResults>/,
-    /<opensearch:totalResults>(\d+)<\/opensearch:totalResults>/i,
-    /<totalResults>(\d+)<\/totalResults>/i,
-    /<opensearch:totalResults>(\d+)<\/opensearch:totalResults>/g,
-    /<totalResults>(\d+)<\/totalResults>/g,
-    /totalResults[^>]*>(\d+)</i,
-    /opensearch:totalResults[^>]*>(\d+)</i
-  ];
-  
-  for (const pattern of totalResultsPatterns) {
-    const match = xmlText.match(pattern);
-    if (match && match[1]) {
-      totalResults = parseInt(match[1], 10);
-      break;
-    }
-  }
-  
-  // If we couldn't find total results, estimate based on current results
-  // This is a fallback - the actual total might be higher
-  if (totalResults === 0) {
-    // If we got results, assume there are more available
-    // Set a reasonable estimate to enable pagination
-    totalResults = Math.max(100, start + maxResults + 50);
+  const feed = (feedParser.parse(xmlText) as XmlNode).feed;
+  if (!feed || typeof feed !== 'object') {
+    throw new Error('Invalid arXiv API response: no Atom feed');
   }
 
-  // Extract entries
-  const entryRegex = /<entry>([\s\S]*?)<\/entry>/g;
-  let entryMatch;
-  
-  while ((entryMatch = entryRegex.exec(xmlText)) !== null) {
-    const entryXml = entryMatch[1];
-    if (!entryXml) continue;
-    
-    try {
-      const result = parseArxivEntry(entryXml);
-      if (result) {
-        results.push(result);
-      }
-    } catch (error) {
-      console.warn('Error parsing arXiv entry:', error);
+  const results: ArxivSearchResult[] = [];
+  const errors: string[] = [];
+
+  for (const entry of asNodes((feed as XmlNode).entry)) {
+    if (textOf(entry.id).startsWith(ARXIV_ERROR_ID_PREFIX)) {
+      errors.push(textOf(entry.summary) || textOf(entry.title) || 'Unknown arXiv API error');
+      continue;
     }
-  }
 
-  // If we have results but no total count, estimate it
-  if (totalResults === 0 && results.length > 0) {
-    // If we got fewer results than requested, this might be all results
-    if (results.length < maxResults) {
-      totalResults = start + results.length;
-    } else {
-      // If we got the full page, there might be more
-      // Use a more realistic estimate: if we got a full page, assume there are more
-      totalResults = Math.max(start + results.length + 1, results.length * 2);
+    const result = parseArxivEntry(entry);
+    if (result) {
+      results.push(result);
     }
   }
-  
-  // Ensure totalResults is at least the number of results we found
-  totalResults = Math.max(totalResults, start + results.length);
+
+  const readNumber = (node: unknown, fallback: number): number => {
+    const value = parseInt(textOf(node), 10);
+    return Number.isNaN(value) ? fallback : value;
+  };
 
   return {
     results,
-    totalResults,
-    startIndex: start,
-    itemsPerPage: maxResults,
-    query
+    // Without OpenSearch counts, only the results on this page are known to exist
+    totalResults: readNumber((feed as XmlNode).totalResults, start + results.length),
+    startIndex: readNumber((feed as XmlNode).startIndex, start),
+    itemsPerPage: readNumber((feed as XmlNode).itemsPerPage, maxResults),
+    query,
+    ...(errors.length > 0 && { errors })
   };
 }
 
 /**
- * Parse a single arXiv entry from XML
- * @param entryXml - XML content for a single entry
- * @returns Parsed entry or null if parsing fails
+ * Parse a single arXiv entry
+ * @param entry - Parsed entry element
+ * @returns Parsed entry or null if it has no arXiv ID
  */
-function parseArxivEntry(entryXml: string): ArxivSearchResult | null {
-  try {
-    // Extract arXiv ID
-    const idMatch = entryXml.match(/<id>http:\/\/arxiv\.org\/abs\/([^<]+)<\/id>/);
-    if (!idMatch || !idMatch[1]) return null;
-    
-    // Remove version number (v1, v2, etc.) from the end of the ID
-    const arxivId = idMatch[1].replace(/v\d+$/, '');
-    
-    // Extract title
-    const titleMatch = entryXml.match(/<title>([^<]+)<\/title>/);
-    const title = titleMatch && titleMatch[1] ? titleMatch[1].trim() : 'Untitled';
-    
-    // Extract authors
-    const authors: string[] = [];
-    const authorRegex = /<author>[\s\S]*?<name>([^<]+)<\/name>[\s\S]*?<\/author>/g;
-    let authorMatch;
-    while ((authorMatch = authorRegex.exec(entryXml)) !== null) {
-      if (authorMatch[1]) {
-        authors.push(authorMatch[1].trim());
-      }
-    }
-    
-    // Extract abstract
-    const abstractMatch = entryXml.match(/<summary>([\s\S]*?)<\/summary>/);
-    const abstract = abstractMatch && abstractMatch[1] ? abstractMatch[1].trim() : '';
-    
-    // Extract published date
-    const publishedMatch = entryXml.match(/<published>([^<]+)<\/published>/);
-    const published = publishedMatch && publishedMatch[1] ? publishedMatch[1] : '';
-    
-    // Extract updated date
-    const updatedMatch = entryXml.match(/<updated>([^<]+)<\/updated>/);
-    const updated = updatedMatch && updatedMatch[1] ? updatedMatch[1] : '';
-    
-    // Extract categories
-    const categories: string[] = [];
-    const categoryRegex = /<category term="([^"]+)"[^>]*\/>/g;
-    let categoryMatch;
-    while ((categoryMatch = categoryRegex.exec(entryXml)) !== null) {
-      if (categoryMatch[1]) {
-        categories.push(categoryMatch[1]);
-      }
+function parseArxivEntry(entry: XmlNode): ArxivSearchResult | null {
+  const idMatch = textOf(entry.id).match(/arxiv\.org\/abs\/(.+?)(?:v(\d+))?$/);
+  if (!idMatch?.[1]) return null;
+
+  const arxivId = idMatch[1];
+  const version = idMatch[2] ? Number(idMatch[2]) : undefined;
+
+  const authorDetails: ArxivAuthor[] = asNodes(entry.author)
+    .map((author) => ({
+      name: textOf(author.name),
+      affiliations: (Array.isArray(author.affiliation) ? author.affiliation : []).map(textOf).filter(Boolean)
+    }))
+    .filter((author) => author.name);
+
+  // Links point at the version the entry describes
+  let versionedAbstractUrl: string | undefined;
+  let versionedPdfUrl: string | undefined;
+  for (const link of asNodes(entry.link)) {
+    const href = attributeOf(link, 'href').replace(/^http:\/\//, 'https://');
+    if (!href) continue;
+    if (attributeOf(link, 'title') === 'pdf') {
+      versionedPdfUrl = href;
+    } else if (attributeOf(link, 'rel') === 'alternate') {
+      versionedAbstractUrl = href;
     }
-    
-    // Extract DOI if present
-    const doiMatch = entryXml.match(/<arxiv:doi>([^<]+)<\/arxiv:doi>/);
-    const doi = doiMatch && doiMatch[1] ? doiMatch[1] : undefined;
-    
-    // Extract comment if present
-    const commentMatch = entryXml.match(/<arxiv:comment>([^<]+)<\/arxiv:comment>/);
-    const comment = commentMatch && commentMatch[1] ? commentMatch[1] : undefined;
-    
-    return {
-      id: arxivId,
-      title,
-      authors,
-      abstract,
-      published,
-      updated,
-      categories,
-      pdfUrl: `https://arxiv.org/pdf/${arxivId}`,
-      abstractUrl: `https://arxiv.org/abs/${arxivId}`,
-      doi,
-      comment
-    };
-  } catch (error) {
-    console.warn('Error parsing arXiv entry:', error);
-    return null;
   }
+
+  return {
+    id: arxivId,
+    title: textOf(entry.title) || 'Untitled',
+    authors: authorDetails.map((author) => author.name),
+    authorDetails,
+    abstract: textOf(entry.summary),
+    published: textOf(entry.published),
+    updated: textOf(entry.updated),
+    categories: asNodes(entry.category).map((category) => attributeOf(category, 'term')).filter(Boolean),
+    primaryCategory: attributeOf(entry.primary_category, 'term') || undefined,
+    pdfUrl: `https://arxiv.org/pdf/${arxivId}`,
+    abstractUrl: `https://arxiv.org/abs/${arxivId}`,
+    versionedPdfUrl,
+    versionedAbstractUrl,
+    doi: textOf(entry.doi) || undefined,
+    comment: textOf(entry.comment) || undefined,
+    journalRef: textOf(entry.journal_ref) || undefined,
+    version
+  };
 }
 
 /**
- * Get popular arXiv categories for search filters
- * @returns Array of category objects with code and name
+ * Get every arXiv category, for search filters
+ * @returns Array of category objects with code, name and description
  */
 export { getArxivCategories } from '@/constants/arxivCategories';
 
@@ -306,6 +458,17 @@ export function formatArxivDate(dateString: string): string {
   }
 }
 
+/**
+ * Shorten an author list for headers
+ * @param authors - Author names in order
+ * @param maxAuthors - Most names to show before "et al."
+ * @returns e.g. "Ashish Vaswani, Noam Shazeer, Niki Parmar et al."
+ */
+export function formatAuthorList(authors: string[], maxAuthors: number = 3): string {
+  if (authors.length <= maxAuthors) return authors.join(', ');
+  return `${authors.slice(0, maxAuthors).join(', ')} et al.`;
+}
+
 /**
  * Truncate text to specified length
  * @param text - Text to truncate
@@ -320,8 +483,8 @@ export function truncateText(text: string, maxLength: number = 200): string {
 
 /**
  * Clean arXiv ID by removing version numbers
- * @param arxivId - ArXiv ID that may contain version number
- * @returns Cleaned ArXiv ID without version
+ * @param arxivId - ArXiv ID that may contain version number, prefix or URL
+ * @returns Normalized ArXiv ID without version; unrecognized input only has a vN suffix removed
  */
 export function cleanArxivId(arxivId: string | string[] | undefined): string {
   if (!arxivId) return '';
@@ -333,6 +496,7 @@ export function cleanArxivId(arxivId: string | string[] | undefined): string {
   
   // Ensure it's a string
   const idString = String(arxivId);
-  
-  return idString.replace(/v\d+$/, '');
+
+  const parsed = parseArxivId(idString);
+  return parsed.isValid ? parsed.id : idString.replace(/v\d+$/, '');
 }
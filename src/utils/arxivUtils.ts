@@ -2,10 +2,10 @@
  * ArXiv ID utilities for parsing, validation, and URL generation
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { buildPersona } from '@/utils/personas';
 
 export interface ParsedArxivId {
-  /** The normalized ArXiv ID string (e.g., "cs/0211011" or "1706.03762") */
+  /** The normalized ArXiv ID string without version (e.g., "cs/0211011" or "1706.03762") */
   id: string;
   /** Whether the ArXiv ID is valid according to ArXiv format rules */
   isValid: boolean;
@@ -15,81 +15,192 @@ export interface ParsedArxivId {
   number: string | null;
   /** Whether this is an old format ID (pre-2007) */
   isOldFormat: boolean;
+  /** Version number from a vN suffix (e.g., 5 for "1706.03762v5"), or null for the latest version */
+  version: number | null;
+  /** Subject class of old format IDs written with one (e.g., "GT" for "math.GT/0309136") */
+  subjectClass: string | null;
+  /** Four-digit submission year encoded in the ID */
+  year: number | null;
+  /** Submission month (1-12) encoded in the ID */
+  month: number | null;
+  /** Whether the encoded date falls in the period the ID's scheme was used and is not in the future */
+  isDatePlausible: boolean;
 }
 
 /**
- * ArXiv ID validation pattern
- * Matches:
- * - New format: YYMM.NNNNN (e.g., 1706.03762, 2301.12345)
- * - Old format: category/YYMMnnn (e.g., cs/0211011, math-ph/0506203)
+ * ArXiv ID validation patterns, applied after prefixes, URLs and DOIs are removed
+ * - New format: YYMM.NNNN (2007-2014) or YYMM.NNNNN (2015 onward), e.g. 1706.03762
+ * - Old format: archive[.SC]/YYMMNNN, e.g. cs/0211011, math-ph/0506203, math.GT/0309136
+ * Both accept a version suffix (v1, v2, ...)
  */
-const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+\/\d{7})$/i;
+const NEW_FORMAT_PATTERN = /^(\d{2})(\d{2})\.(\d{4,5})(?:v(\d+))?$/i;
+const OLD_FORMAT_PATTERN = /^([a-z]+(?:-[a-z]+)*)(?:\.([a-z]{2}))?\/(\d{2})(\d{2})(\d{3})(?:v(\d+))?$/i;
+
+// Forms of the same ID people paste: abs/pdf URLs, arXiv DOIs and the arXiv: prefix
+const ARXIV_URL_PATTERN = /^(?:https?:\/+)?(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf|html|format)\/(.+?)(?:\.pdf)?\/?(?:[?#].*)?$/i;
+const ARXIV_DOI_PATTERN = /^(?:(?:https?:\/+)?(?:dx\.)?doi\.org\/|doi:\s*)?10\.48550\/arxiv\.(.+)$/i;
+const ARXIV_PREFIX_PATTERN = /^arxiv:\s*/i;
+
+// Scheme start dates as YYYYMM: old IDs from August 1991, new IDs from April 2007
+// (when old ones were retired) and 5-digit numbers from January 2015
+const OLD_FORMAT_START = 199108;
+const NEW_FORMAT_START = 200704;
+const FIVE_DIGIT_START = 201501;
+
+const INVALID_ID: Omit<ParsedArxivId, 'id'> = {
+  isValid: false,
+  category: null,
+  number: null,
+  isOldFormat: false,
+  version: null,
+  subjectClass: null,
+  year: null,
+  month: null,
+  isDatePlausible: false
+};
+
+/**
+ * Strip URL, DOI and prefix wrappers from a pasted arXiv reference
+ * @param input - Raw input
+ * @returns The bare ID, possibly with subject class and version
+ */
+function unwrapArxivId(input: string): string {
+  let value = input.trim();
+  value = value.match(ARXIV_URL_PATTERN)?.[1] ?? value;
+  value = value.match(ARXIV_DOI_PATTERN)?.[1] ?? value;
+  return value.replace(ARXIV_PREFIX_PATTERN, '').trim();
+}
+
+/**
+ * Check that a YYMM date is not after the current month
+ * @param year - Four-digit year
+ * @param month - Month (1-12)
+ * @param now - Current time
+ */
+function isNotInFuture(year: number, month: number, now: Date): boolean {
+  return year * 12 + month <= now.getUTCFullYear() * 12 + now.getUTCMonth() + 1;
+}
 
 /**
- * Parse ArXiv ID from various input formats
+ * Parse and normalize an ArXiv ID from the forms people paste: bare IDs,
+ * "arXiv:" prefixes, abs/pdf URLs, version suffixes, arXiv DOIs
+ * (10.48550/arXiv.X) and old IDs with subject classes
  * @param input - String or string array from Next.js router
+ * @param now - Current time, for checking the encoded date
  * @returns Parsed ArXiv ID information
  */
-export function parseArxivId(input: string | string[] | undefined): ParsedArxivId {
+export function parseArxivId(input: string | string[] | undefined, now: Date = new Date()): ParsedArxivId {
   let arxivId: string;
   
   if (typeof input === 'string') {
     // Single segment ID (new format like 1706.03762)
     arxivId = input;
   } else if (Array.isArray(input) && input.length > 0) {
-    // Multi-segment ID (old format like cs/0211011)
+    // Multi-segment ID (old format like cs/0211011, or a pasted URL)
     arxivId = input.join('/');
   } else {
     // Invalid or missing input
+    return { id: '', ...INVALID_ID };
+  }
+
+  const unwrapped = unwrapArxivId(arxivId);
+
+  const newFormat = unwrapped.match(NEW_FORMAT_PATTERN);
+  if (newFormat) {
+    const [, yy = '', mm = '', sequence = '', version] = newFormat;
+    const year = 2000 + Number(yy);
+    const month = Number(mm);
+    const yyyymm = year * 100 + month;
+    const hasValidSequence = sequence.length === 5 ? yyyymm >= FIVE_DIGIT_START : yyyymm < FIVE_DIGIT_START;
+    if (month < 1 || month > 12 || !hasValidSequence || version?.startsWith('0')) {
+      return { id: arxivId, ...INVALID_ID };
+    }
+
+    const id = `${yy}${mm}.${sequence}`;
     return {
-      id: '',
-      isValid: false,
+      id,
+      isValid: true,
       category: null,
-      number: null,
-      isOldFormat: false
+      number: id,
+      isOldFormat: false,
+      version: version ? Number(version) : null,
+      subjectClass: null,
+      year,
+      month,
+      isDatePlausible: yyyymm >= NEW_FORMAT_START && isNotInFuture(year, month, now)
     };
   }
-  
-  // Validate the ID format
-  const isValid = ARXIV_ID_PATTERN.test(arxivId);
-  
-  if (!isValid) {
+
+  const oldFormat = unwrapped.match(OLD_FORMAT_PATTERN);
+  if (oldFormat) {
+    const [, archive = '', subjectClass, yy = '', mm = '', sequence = '', version] = oldFormat;
+    const month = Number(mm);
+    if (month < 1 || month > 12 || version?.startsWith('0')) {
+      return { id: arxivId, ...INVALID_ID };
+    }
+
+    // Old IDs run from 1991 (91xx) to March 2007 (0703)
+    const year = Number(yy) >= 91 ? 1900 + Number(yy) : 2000 + Number(yy);
+    const yyyymm = year * 100 + month;
+    const category = archive.toLowerCase();
+    const number = `${yy}${mm}${sequence}`;
     return {
-      id: arxivId,
-      isValid: false,
-      category: null,
-      number: null,
-      isOldFormat: false
+      id: `${category}/${number}`,
+      isValid: true,
+      category,
+      number,
+      isOldFormat: true,
+      version: version ? Number(version) : null,
+      subjectClass: subjectClass ? subjectClass.toUpperCase() : null,
+      year,
+      month,
+      isDatePlausible: yyyymm >= OLD_FORMAT_START && yyyymm < NEW_FORMAT_START
     };
   }
-  
-  // Determine if it's old or new format
-  const isOldFormat = arxivId.includes('/');
-  let category: string | null = null;
-  let number: string | null = null;
-  
-  if (isOldFormat) {
-    const parts = arxivId.split('/');
-    category = parts[0] ?? null;
-    number = parts[1] ?? null;
-  } else {
-    const parts = arxivId.split('.');
-    number = parts.join('.');
+
+  return { id: arxivId, ...INVALID_ID };
+}
+
+/**
+ * Format a parsed ID the way arXiv writes a specific version
+ * @param parsed - Parsed ArXiv ID
+ * @returns The ID with its version suffix (e.g., "1706.03762v2"), or the bare ID for the latest version
+ */
+export function getVersionedArxivId(parsed: Pick<ParsedArxivId, 'id' | 'version'>): string {
+  return parsed.version ? `${parsed.id}v${parsed.version}` : parsed.id;
+}
+
+/**
+ * Parse a list of IDs from a query parameter, given comma-separated
+ * (?ids=1706.03762,1810.04805) or repeated (?ids=1706.03762&ids=1810.04805)
+ * @param input - Query parameter value
+ * @returns IDs in request order without duplicates, keeping explicit versions
+ * (1706.03762v1 stays v1), and the first value that is not an ArXiv ID, if any
+ */
+export function parseArxivIdList(input: string | string[] | undefined): { arxivIds: string[]; invalidId: string | null } {
+  const values = (Array.isArray(input) ? input : input ? [input] : [])
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const arxivIds: string[] = [];
+  for (const value of values) {
+    const parsed = parseArxivId(value);
+    if (!parsed.isValid) {
+      return { arxivIds, invalidId: value };
+    }
+    const arxivId = getVersionedArxivId(parsed);
+    if (!arxivIds.includes(arxivId)) {
+      arxivIds.push(arxivId);
+    }
   }
-  
-  return {
-    id: arxivId,
-    isValid: true,
-    category,
-    number,
-    isOldFormat
-  };
+  return { arxivIds, invalidId: null };
 }
 
 /**
  * Generate PDF URL for ArXiv paper
- * @param arxivId - The ArXiv ID (e.g., "cs/0211011" or "1706.03762")
- * @returns Full URL to the ArXiv PDF
+ * @param arxivId - The ArXiv ID, optionally with a version (e.g., "cs/0211011" or "1706.03762v2")
+ * @returns Full URL to the ArXiv PDF; IDs without a version get the latest version
  */
 export function getArxivPdfUrl(arxivId: string): string {
   // ArXiv PDFs are served without .pdf extension for all formats
@@ -98,7 +209,7 @@ export function getArxivPdfUrl(arxivId: string): string {
 
 /**
  * Generate PDF.js viewer URL with embedded ArXiv PDF
- * @param arxivId - The ArXiv ID (e.g., "cs/0211011" or "1706.03762")
+ * @param arxivId - The ArXiv ID, optionally with a version (e.g., "cs/0211011" or "1706.03762v2")
  * @returns PDF.js viewer URL with the ArXiv PDF loaded
  */
 export function getPdfViewerUrl(arxivId: string): string {
@@ -109,8 +220,8 @@ export function getPdfViewerUrl(arxivId: string): string {
 
 /**
  * Generate a safe filename for file storage/caching
- * @param arxivId - The ArXiv ID (e.g., "cs/0211011" or "1706.03762")
- * @returns Safe filename (e.g., "arxiv-cs-0211011" or "arxiv-1706-03762")
+ * @param arxivId - The ArXiv ID, optionally with a version (e.g., "cs/0211011" or "1706.03762v2")
+ * @returns Safe filename (e.g., "arxiv-cs-0211011" or "arxiv-1706-03762v2"); each version gets its own name
  */
 export function getArxivFileName(arxivId: string): string {
   // Replace dots and slashes with dashes, convert to lowercase
@@ -118,36 +229,17 @@ export function getArxivFileName(arxivId: string): string {
 }
 
 /**
- * Get category-specific prompt context for AI interactions
- * @param category - Category code (e.g., "cs", "math-ph")
+ * Get category-specific prompt context for AI interactions, from the
+ * persona template registry
+ * @param category - Archive or category code (e.g., "cs", "math-ph", "cond-mat.soft")
  * @returns Contextual prompt fragment for the AI to adopt appropriate expertise
  */
 export function getCategoryPromptContext(category: string): string {
-  const categoryContexts: Record<string, string> = {
-    'cs': 'You are a Computer Science professor helping a student understand this research paper. Focus on algorithms, computational methods, software engineering principles, and theoretical computer science concepts.',
-    'math': 'You are a Mathematics professor helping a student understand this research paper. Focus on mathematical proofs, theorems, equations, and mathematical reasoning.',
-    'math-ph': 'You are a Mathematical Physics professor helping a student understand this research paper. Focus on the mathematical formalism, physical interpretations, and theoretical frameworks.',
-    'astro-ph': 'You are an Astrophysics professor helping a student understand this research paper. Focus on astronomical observations, cosmological models, stellar physics, and observational data.',
-    'cond-mat': 'You are a Condensed Matter Physics professor helping a student understand this research paper. Focus on material properties, phase transitions, quantum many-body systems, and experimental techniques.',
-    'gr-qc': 'You are a General Relativity and Quantum Cosmology professor helping a student understand this research paper. Focus on spacetime geometry, gravitational theory, and cosmological models.',
-    'hep-ex': 'You are a High Energy Physics (Experimental) professor helping a student understand this research paper. Focus on particle detector data, experimental methods, statistical analysis, and particle interactions.',
-    'hep-lat': 'You are a High Energy Physics (Lattice) professor helping a student understand this research paper. Focus on lattice field theory, numerical simulations, and computational methods in particle physics.',
-    'hep-ph': 'You are a High Energy Physics (Phenomenology) professor helping a student understand this research paper. Focus on theoretical predictions, particle physics models, and experimental implications.',
-    'hep-th': 'You are a High Energy Physics (Theory) professor helping a student understand this research paper. Focus on quantum field theory, string theory, and fundamental theoretical frameworks.',
-    'nucl-ex': 'You are a Nuclear Physics (Experimental) professor helping a student understand this research paper. Focus on nuclear reactions, experimental techniques, and nuclear structure.',
-    'nucl-th': 'You are a Nuclear Physics (Theory) professor helping a student understand this research paper. Focus on nuclear models, theoretical calculations, and nuclear structure theory.',
-    'physics': 'You are a Physics professor helping a student understand this research paper. Focus on physical principles, experimental methods, and theoretical concepts.',
-    'quant-ph': 'You are a Quantum Physics professor helping a student understand this research paper. Focus on quantum mechanics, quantum information, quantum computing, and quantum phenomena.',
-    'q-bio': 'You are a Quantitative Biology professor helping a student understand this research paper. Focus on biological modeling, computational biology, bioinformatics, and quantitative analysis of biological systems.',
-    'q-fin': 'You are a Quantitative Finance professor helping a student understand this research paper. Focus on financial models, risk analysis, econometrics, and mathematical finance.',
-    'stat': 'You are a Statistics professor helping a student understand this research paper. Focus on statistical methods, data analysis, probability theory, and statistical inference.'
-  };
-  
-  // Return specific context if available
-  if (categoryContexts[category]) {
-    return categoryContexts[category];
+  const persona = buildPersona([category]);
+  if (persona) {
+    return persona;
   }
-  
+
   // Graceful fallback for unknown categories
   const categoryName = category
     .split('-')
@@ -155,27 +247,3 @@ export function getCategoryPromptContext(category: string): string {
     .join(' ');
   return `You are a ${categoryName} expert helping a student understand this research paper. Draw upon your expertise in this field to explain concepts clearly and accurately.`;
 }
-
-/**
- * Check if a file already exists in the Gemini Files API to avoid re-uploading
- * @param fileName - The filename to check for
- * @returns Promise<boolean> - True if file exists, false otherwise
- */
-export async function checkFileExists(fileName: string): Promise<boolean> {
-  try {
-    const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-    const files = await genAI.files.list();
-    
-    // Check if any file has a name that starts with our expected pattern
-    // Iterate through the files using for-await loop
-    for await (const file of files) {
-      if (file.name?.startsWith(fileName) || file.displayName?.includes(fileName)) {
-        return true;
-      }
-    }
-    return false;
-  } catch (error) {
-    console.warn('Error checking file existence:', error);
-    return false;
-  }
-}
@@ -0,0 +1,58 @@
+/**
+ * Ownership of chat sessions, shared by the chat and chat session API routes.
+ *
+ * Each browser gets a random owner token in an httpOnly cookie the first time
+ * it creates a session. Sessions are stored with a hash of the token, so the
+ * stored documents can't be used to act as their owner.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+const OWNER_COOKIE = 'asxiv-chat-owner';
+const OWNER_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+const OWNER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Identify the browser behind a request from its owner cookie
+ * @param req - API request
+ * @returns Owner ID, or null when the request carries no valid owner token
+ */
+export function getSessionOwner(req: NextApiRequest): string | null {
+  const token = req.cookies?.[OWNER_COOKIE];
+  return token && OWNER_TOKEN_PATTERN.test(token) ? hashToken(token) : null;
+}
+
+/**
+ * Identify the browser behind a request, issuing an owner cookie when it has none
+ * @param req - API request
+ * @param res - API response the cookie is set on
+ * @returns Owner ID
+ */
+export function ensureSessionOwner(req: NextApiRequest, res: NextApiResponse): string {
+  const existing = getSessionOwner(req);
+  if (existing) return existing;
+
+  const token = randomBytes(32).toString('hex');
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${OWNER_COOKIE}=${token}; Path=/api/chat; Max-Age=${OWNER_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+  );
+  return hashToken(token);
+}
+
+/**
+ * Check that a session belongs to the browser behind a request
+ * @param session - Stored session, or null when it does not exist
+ * @param req - API request
+ * @returns True if the request may use the session
+ */
+export function isSessionOwner(session: { ownerId: string } | null, req: NextApiRequest): boolean {
+  const owner = getSessionOwner(req);
+  return session !== null && owner !== null && session.ownerId === owner;
+}
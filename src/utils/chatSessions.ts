@@ -0,0 +1,485 @@
+/**
+ * Server-side storage for chat sessions.
+ *
+ * Sessions are stored through the ChatSessionStore interface. The default
+ * implementation keeps one JSON file per session in CHAT_SESSIONS_DIR
+ * (defaults to .data/chat-sessions in the project directory).
+ *
+ * Every session belongs to the browser that created it: it is stored with
+ * the owner ID from src/utils/chatSessionOwner.ts, and only that owner can
+ * list, read, continue or delete it. Each owner keeps at most
+ * CHAT_SESSIONS_MAX_PER_OWNER sessions (creating one more deletes the least
+ * recently updated), and sessions not updated for CHAT_SESSIONS_TTL_DAYS
+ * expire.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ChatSession, ChatSessionMessage, ChatSessionSummary } from '@/types/chat';
+
+// A session as stored; the owner never leaves the server
+export interface StoredChatSession extends ChatSession {
+  ownerId: string;
+}
+
+export interface ChatSessionStore {
+  /** Create an empty session for a paper */
+  create(arxivId: string, ownerId: string): Promise<StoredChatSession>;
+  /** List an owner's sessions, most recently updated first, optionally for one paper */
+  list(ownerId: string, arxivId?: string): Promise<ChatSessionSummary[]>;
+  /** Get a session with its messages, or null when it does not exist */
+  get(id: string): Promise<StoredChatSession | null>;
+  /** Append messages to a session; returns null when it does not exist */
+  appendMessages(id: string, messages: Omit<ChatSessionMessage, 'id' | 'createdAt'>[]): Promise<StoredChatSession | null>;
+  /** Delete a session; returns false when it did not exist */
+  delete(id: string): Promise<boolean>;
+  /** Delete every expired session; returns how many were deleted */
+  deleteExpired(): Promise<number>;
+}
+
+export interface ChatSessionStoreOptions {
+  /** Sessions kept per owner; creating one more deletes the least recently updated */
+  maxSessionsPerOwner?: number;
+  /** How long a session is kept after its last update, in milliseconds */
+  ttlMs?: number;
+}
+
+export const DEFAULT_MAX_SESSIONS_PER_OWNER = 100;
+export const DEFAULT_CHAT_SESSION_TTL_DAYS = 90;
+export const DEFAULT_CHAT_SESSION_TTL_MS = DEFAULT_CHAT_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const TITLE_MAX_LENGTH = 80;
+const OWNER_ID_PATTERN = /^[\w-]+$/;
+const OWNERS_DIRECTORY_NAME = 'owners';
+// How often creating a session also deletes every expired session
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Check whether a string is a well-formed session ID
+ * @param id - Candidate session ID
+ * @returns True if the ID could have been issued by a session store
+ */
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * Strip what only the server may see from a stored session
+ * @param session - Stored session
+ * @returns Session as sent to its owner
+ */
+export function toClientSession(session: StoredChatSession): ChatSession {
+  const { id, arxivId, title, createdAt, updatedAt, messages } = session;
+  return { id, arxivId, title, createdAt, updatedAt, messages };
+}
+
+function summarize(session: StoredChatSession): ChatSessionSummary {
+  const { messages, ...rest } = toClientSession(session);
+  return { ...rest, messageCount: messages.length };
+}
+
+function newSession(arxivId: string, ownerId: string): StoredChatSession {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), arxivId, ownerId, title: null, createdAt: now, updatedAt: now, messages: [] };
+}
+
+function withAppendedMessages(
+  session: StoredChatSession,
+  messages: Omit<ChatSessionMessage, 'id' | 'createdAt'>[]
+): StoredChatSession {
+  const now = new Date().toISOString();
+  const appended = messages.map((message) => ({ ...message, id: randomUUID(), createdAt: now }));
+  const firstQuestion = appended.find((message) => message.role === 'user');
+
+  return {
+    ...session,
+    title: session.title ?? (firstQuestion ? firstQuestion.content.slice(0, TITLE_MAX_LENGTH) : null),
+    updatedAt: now,
+    messages: [...session.messages, ...appended]
+  };
+}
+
+function byMostRecent(a: { updatedAt: string }, b: { updatedAt: string }): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+function isExpired(session: { updatedAt: string }, ttlMs: number): boolean {
+  return Date.now() - Date.parse(session.updatedAt) >= ttlMs;
+}
+
+/**
+ * In-memory session store, used in tests and when no persistence is wanted
+ */
+export class MemoryChatSessionStore implements ChatSessionStore {
+  private readonly sessions = new Map<string, StoredChatSession>();
+  private readonly maxSessionsPerOwner: number;
+  private readonly ttlMs: number;
+
+  constructor({
+    maxSessionsPerOwner = DEFAULT_MAX_SESSIONS_PER_OWNER,
+    ttlMs = DEFAULT_CHAT_SESSION_TTL_MS
+  }: ChatSessionStoreOptions = {}) {
+    this.maxSessionsPerOwner = Math.max(1, maxSessionsPerOwner);
+    this.ttlMs = ttlMs;
+  }
+
+  async create(arxivId: string, ownerId: string): Promise<StoredChatSession> {
+    await this.deleteExpired();
+    const owned = [...this.sessions.values()].filter((session) => session.ownerId === ownerId).sort(byMostRecent);
+    for (const evicted of owned.slice(this.maxSessionsPerOwner - 1)) {
+      this.sessions.delete(evicted.id);
+    }
+
+    const session = newSession(arxivId, ownerId);
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async list(ownerId: string, arxivId?: string): Promise<ChatSessionSummary[]> {
+    return [...this.sessions.values()]
+      .filter((session) => !isExpired(session, this.ttlMs))
+      .filter((session) => session.ownerId === ownerId && (!arxivId || session.arxivId === arxivId))
+      .map(summarize)
+      .sort(byMostRecent);
+  }
+
+  async get(id: string): Promise<StoredChatSession | null> {
+    return this.getLive(id);
+  }
+
+  async appendMessages(id: string, messages: Omit<ChatSessionMessage, 'id' | 'createdAt'>[]): Promise<StoredChatSession | null> {
+    const session = this.getLive(id);
+    if (!session) return null;
+    const updated = withAppendedMessages(session, messages);
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  async deleteExpired(): Promise<number> {
+    const expired = [...this.sessions.values()].filter((session) => isExpired(session, this.ttlMs));
+    expired.forEach((session) => this.sessions.delete(session.id));
+    return expired.length;
+  }
+
+  private getLive(id: string): StoredChatSession | null {
+    const session = this.sessions.get(id);
+    return session && !isExpired(session, this.ttlMs) ? session : null;
+  }
+}
+
+/**
+ * File-backed session store: one JSON document per session, plus one index
+ * per owner (owners/<ownerId>.json) holding the summaries of the owner's
+ * sessions, so listing them reads a single file
+ */
+export class FileChatSessionStore implements ChatSessionStore {
+  private readonly maxSessionsPerOwner: number;
+  private readonly ttlMs: number;
+  // Serializes read-modify-write cycles per session and per owner index
+  private readonly pendingWrites = new Map<string, Promise<unknown>>();
+  private indexing: Promise<void> | null = null;
+  private lastSweepAt = 0;
+
+  constructor(
+    private readonly directory: string,
+    {
+      maxSessionsPerOwner = DEFAULT_MAX_SESSIONS_PER_OWNER,
+      ttlMs = DEFAULT_CHAT_SESSION_TTL_MS
+    }: ChatSessionStoreOptions = {}
+  ) {
+    this.maxSessionsPerOwner = Math.max(1, maxSessionsPerOwner);
+    this.ttlMs = ttlMs;
+  }
+
+  async create(arxivId: string, ownerId: string): Promise<StoredChatSession> {
+    await this.sweepIfDue();
+    const session = newSession(arxivId, ownerId);
+
+    await this.updateOwnerIndex(ownerId, async (summaries) => {
+      // Make room by deleting the owner's expired and least recently updated sessions
+      const live = summaries.filter((summary) => !isExpired(summary, this.ttlMs)).sort(byMostRecent);
+      const removed = [
+        ...summaries.filter((summary) => isExpired(summary, this.ttlMs)),
+        ...live.splice(this.maxSessionsPerOwner - 1)
+      ];
+      for (const summary of removed) {
+        await this.deleteSessionFile(summary.id);
+      }
+
+      await this.writeSession(session);
+      return [summarize(session), ...live];
+    });
+
+    return session;
+  }
+
+  async list(ownerId: string, arxivId?: string): Promise<ChatSessionSummary[]> {
+    await this.ensureOwnerIndexes();
+    const summaries = await this.readOwnerIndex(ownerId);
+    return summaries
+      .filter((summary) => !isExpired(summary, this.ttlMs) && (!arxivId || summary.arxivId === arxivId))
+      .sort(byMostRecent);
+  }
+
+  async get(id: string): Promise<StoredChatSession | null> {
+    const session = await this.readSession(id);
+    return session && !isExpired(session, this.ttlMs) ? session : null;
+  }
+
+  async appendMessages(id: string, messages: Omit<ChatSessionMessage, 'id' | 'createdAt'>[]): Promise<StoredChatSession | null> {
+    await this.ensureOwnerIndexes();
+    const updated = await this.withLock(id, async () => {
+      const session = await this.get(id);
+      if (!session) return null;
+      const appended = withAppendedMessages(session, messages);
+      await this.writeSession(appended);
+      return appended;
+    });
+    if (!updated) return null;
+
+    // A session deleted in the meantime stays out of the index
+    await this.updateOwnerIndex(updated.ownerId, async (summaries) =>
+      summaries.map((summary) => (summary.id === id ? summarize(updated) : summary))
+    );
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isValidSessionId(id)) return false;
+    await this.ensureOwnerIndexes();
+    const session = await this.withLock(id, async () => {
+      const existing = await this.readSession(id);
+      if (existing) {
+        await this.deleteSessionFile(id);
+      }
+      return existing;
+    });
+    if (!session) return false;
+
+    await this.updateOwnerIndex(session.ownerId, async (summaries) => summaries.filter((summary) => summary.id !== id));
+    return true;
+  }
+
+  async deleteExpired(): Promise<number> {
+    await this.ensureOwnerIndexes();
+    let deleted = 0;
+    const indexed = new Set<string>();
+
+    for (const fileName of await readJsonFileNames(this.ownersDirectory())) {
+      const ownerId = fileName.replace(/\.json$/, '');
+      if (!OWNER_ID_PATTERN.test(ownerId)) continue;
+
+      await this.updateOwnerIndex(ownerId, async (summaries) => {
+        const live: ChatSessionSummary[] = [];
+        for (const summary of summaries) {
+          if (isExpired(summary, this.ttlMs)) {
+            await this.deleteSessionFile(summary.id);
+            deleted++;
+          } else {
+            live.push(summary);
+            indexed.add(summary.id);
+          }
+        }
+        return live;
+      });
+    }
+
+    // Sessions missing from every index (e.g. left behind by a crash while
+    // one was created) are deleted once they are as old as an expired one
+    for (const fileName of await readJsonFileNames(this.directory)) {
+      const id = fileName.replace(/\.json$/, '');
+      if (!isValidSessionId(id) || indexed.has(id)) continue;
+      try {
+        const { mtime } = await fs.stat(this.filePath(id));
+        if (Date.now() - mtime.getTime() >= this.ttlMs) {
+          await this.deleteSessionFile(id);
+          deleted++;
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    return deleted;
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private ownersDirectory(): string {
+    return path.join(this.directory, OWNERS_DIRECTORY_NAME);
+  }
+
+  private ownerIndexPath(ownerId: string, ownersDirectory = this.ownersDirectory()): string {
+    if (!OWNER_ID_PATTERN.test(ownerId)) {
+      throw new Error(`Invalid chat session owner ID: ${ownerId}`);
+    }
+    return path.join(ownersDirectory, `${ownerId}.json`);
+  }
+
+  private async readSession(id: string): Promise<StoredChatSession | null> {
+    if (!isValidSessionId(id)) return null;
+    return readJsonFile<StoredChatSession>(this.filePath(id));
+  }
+
+  private async writeSession(session: StoredChatSession): Promise<void> {
+    await writeJsonFile(this.filePath(session.id), session);
+  }
+
+  private async deleteSessionFile(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  private async readOwnerIndex(ownerId: string): Promise<ChatSessionSummary[]> {
+    return (await readJsonFile<ChatSessionSummary[]>(this.ownerIndexPath(ownerId))) ?? [];
+  }
+
+  private async updateOwnerIndex(
+    ownerId: string,
+    update: (summaries: ChatSessionSummary[]) => Promise<ChatSessionSummary[]>
+  ): Promise<void> {
+    await this.ensureOwnerIndexes();
+    await this.withLock(`owner:${ownerId}`, async () => {
+      const indexPath = this.ownerIndexPath(ownerId);
+      const summaries = await update(await this.readOwnerIndex(ownerId));
+      if (summaries.length > 0) {
+        await writeJsonFile(indexPath, summaries);
+      } else {
+        // Owners without sessions leave nothing behind
+        await fs.rm(indexPath, { force: true });
+      }
+    });
+  }
+
+  /**
+   * Build the owner indexes from the session documents the first time the
+   * store is used, for sessions stored before the indexes existed
+   */
+  private ensureOwnerIndexes(): Promise<void> {
+    if (!this.indexing) {
+      this.indexing = this.buildOwnerIndexes().catch((error) => {
+        this.indexing = null;
+        throw error;
+      });
+    }
+    return this.indexing;
+  }
+
+  private async buildOwnerIndexes(): Promise<void> {
+    try {
+      await fs.access(this.ownersDirectory());
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const byOwner = new Map<string, ChatSessionSummary[]>();
+    for (const fileName of await readJsonFileNames(this.directory)) {
+      const session = await this.readSession(fileName.replace(/\.json$/, ''));
+      if (!session || !OWNER_ID_PATTERN.test(session.ownerId)) continue;
+      byOwner.set(session.ownerId, [...(byOwner.get(session.ownerId) ?? []), summarize(session)]);
+    }
+
+    // Built aside and moved into place, so an interrupted run starts over
+    const buildDirectory = `${this.ownersDirectory()}.${process.pid}.tmp`;
+    await fs.rm(buildDirectory, { recursive: true, force: true });
+    await fs.mkdir(buildDirectory, { recursive: true });
+    for (const [ownerId, summaries] of byOwner) {
+      await writeJsonFile(this.ownerIndexPath(ownerId, buildDirectory), summaries);
+    }
+    await fs.rename(buildDirectory, this.ownersDirectory());
+  }
+
+  private async sweepIfDue(): Promise<void> {
+    if (Date.now() - this.lastSweepAt < SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = Date.now();
+    try {
+      await this.deleteExpired();
+    } catch (error) {
+      console.warn('Chat sessions: could not delete expired sessions', error);
+    }
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.pendingWrites.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.pendingWrites.set(key, next);
+    try {
+      return await next;
+    } finally {
+      if (this.pendingWrites.get(key) === next) {
+        this.pendingWrites.delete(key);
+      }
+    }
+  }
+}
+
+async function readJsonFileNames(directory: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(directory)).filter((fileName) => fileName.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write to a temporary file first so readers never see a partial document
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+let storeOverride: ChatSessionStore | null = null;
+let defaultStore: ChatSessionStore | null = null;
+
+/**
+ * Use a specific session store instead of the file-backed default
+ * (e.g. a MemoryChatSessionStore in tests). Pass null to restore the default.
+ * @param store - Store to use, or null
+ */
+export function setChatSessionStore(store: ChatSessionStore | null): void {
+  storeOverride = store;
+}
+
+/**
+ * Get the configured chat session store
+ * @returns Session store
+ */
+export function getChatSessionStore(): ChatSessionStore {
+  if (storeOverride) return storeOverride;
+  if (!defaultStore) {
+    const directory = process.env.CHAT_SESSIONS_DIR || path.join(process.cwd(), '.data', 'chat-sessions');
+    defaultStore = new FileChatSessionStore(directory, {
+      maxSessionsPerOwner: Math.floor(readPositiveNumber(process.env.CHAT_SESSIONS_MAX_PER_OWNER, DEFAULT_MAX_SESSIONS_PER_OWNER)),
+      ttlMs: readPositiveNumber(process.env.CHAT_SESSIONS_TTL_DAYS, DEFAULT_CHAT_SESSION_TTL_DAYS) * 24 * 60 * 60 * 1000
+    });
+  }
+  return defaultStore;
+}
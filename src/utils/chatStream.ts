@@ -0,0 +1,115 @@
+/**
+ * Streaming helpers shared by the chat API route and the chat widget.
+ *
+ * The chat API streams newline-delimited JSON (NDJSON): a series of `delta`
+ * events carrying markdown as the model produces it, followed by a single
+ * `done` event with the complete structured response (or an `error` event).
+ */
+
+import { ChatStreamEvent } from '@/types/chat';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+const CONTENT_KEY_PATTERN = /"content"\s*:\s*"/;
+
+/**
+ * Extract the (possibly incomplete) `content` string from a partially
+ * received structured JSON response.
+ *
+ * The structured schema orders `content` first, so while the model is still
+ * streaming we can decode the markdown seen so far without waiting for the
+ * JSON document to close.
+ * @param rawJson - JSON text received so far
+ * @returns The decoded content received so far (empty if not started)
+ */
+export function extractPartialContent(rawJson: string): string {
+  const keyMatch = CONTENT_KEY_PATTERN.exec(rawJson);
+  if (!keyMatch) return '';
+
+  let result = '';
+  let index = keyMatch.index + keyMatch[0].length;
+
+  while (index < rawJson.length) {
+    const char = rawJson[index];
+
+    if (char === '"') {
+      // Closing quote - content string is complete
+      return result;
+    }
+
+    if (char !== '\\') {
+      result += char;
+      index += 1;
+      continue;
+    }
+
+    // Escape sequence - stop if it has not fully arrived yet
+    const escaped = rawJson[index + 1];
+    if (escaped === undefined) return result;
+
+    if (escaped === 'u') {
+      const hex = rawJson.slice(index + 2, index + 6);
+      if (hex.length < 4) return result;
+      result += String.fromCharCode(parseInt(hex, 16));
+      index += 6;
+      continue;
+    }
+
+    const escapeMap: Record<string, string> = {
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      b: '\b',
+      f: '\f',
+      '"': '"',
+      '\\': '\\',
+      '/': '/'
+    };
+    result += escapeMap[escaped] ?? escaped;
+    index += 2;
+  }
+
+  return result;
+}
+
+/**
+ * Serialize a stream event as a single NDJSON line
+ * @param event - Event to serialize
+ * @returns JSON text terminated by a newline
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Read an NDJSON chat stream, invoking the callback for every event
+ * @param body - Response body stream from fetch
+ * @param onEvent - Callback invoked for each parsed event
+ */
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const emitLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    onEvent(JSON.parse(trimmed) as ChatStreamEvent);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(emitLine);
+  }
+
+  buffered += decoder.decode();
+  emitLine(buffered);
+}
@@ -0,0 +1,309 @@
+/**
+ * Citation export: render papers as BibTeX, RIS, CSL-JSON or CSV for LaTeX
+ * and reference managers.
+ *
+ * Papers with a journal reference are exported as journal articles, the rest
+ * as arXiv preprints; every format carries the arXiv ID, and the DOI when
+ * arXiv lists one.
+ */
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+
+export type ExportFormat = 'bibtex' | 'ris' | 'csl-json' | 'csv';
+
+export interface ExportFormatInfo {
+  label: string;
+  contentType: string;
+  /** File extension, without the dot */
+  extension: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  bibtex: { label: 'BibTeX', contentType: 'application/x-bibtex; charset=utf-8', extension: 'bib' },
+  ris: { label: 'RIS', contentType: 'application/x-research-info-systems; charset=utf-8', extension: 'ris' },
+  'csl-json': { label: 'CSL-JSON', contentType: 'application/vnd.citationstyles.csl+json; charset=utf-8', extension: 'json' },
+  csv: { label: 'CSV', contentType: 'text/csv; charset=utf-8', extension: 'csv' }
+};
+
+export interface AuthorName {
+  family: string;
+  given: string;
+}
+
+/** Item in CSL-JSON, the format citeproc and Zotero read */
+export interface CslItem {
+  id: string;
+  type: 'article' | 'article-journal';
+  title: string;
+  author: AuthorName[];
+  issued?: { 'date-parts': number[][] } | undefined;
+  abstract?: string | undefined;
+  'container-title'?: string | undefined;
+  publisher: string;
+  number: string;
+  DOI?: string | undefined;
+  URL: string;
+  keyword?: string | undefined;
+  note?: string | undefined;
+  annote?: string | undefined;
+}
+
+/** BibTeX field name and value; fields without a value are left out */
+export type BibtexField = [string, string | undefined];
+
+// Free-text fields whose line breaks are kept
+const MULTILINE_BIBTEX_FIELDS = new Set(['annote']);
+
+// Title words skipped when building citation keys
+const KEY_STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'for', 'in', 'to', 'with', 'and', 'is', 'are', 'how', 'what', 'why', 'towards', 'toward']);
+
+const CSV_COLUMNS: { header: string; value: (paper: ArxivSearchResult) => string }[] = [
+  { header: 'arxiv_id', value: paper => paper.id },
+  { header: 'title', value: paper => collapseWhitespace(paper.title) },
+  { header: 'authors', value: paper => paper.authors.join('; ') },
+  { header: 'published', value: paper => paper.published },
+  { header: 'updated', value: paper => paper.updated },
+  { header: 'primary_category', value: paper => paper.primaryCategory ?? paper.categories[0] ?? '' },
+  { header: 'categories', value: paper => paper.categories.join(' ') },
+  { header: 'doi', value: paper => paper.doi ?? '' },
+  { header: 'journal_ref', value: paper => paper.journalRef ?? '' },
+  { header: 'comment', value: paper => paper.comment ?? '' },
+  { header: 'abstract_url', value: paper => paper.abstractUrl },
+  { header: 'pdf_url', value: paper => paper.pdfUrl },
+  { header: 'abstract', value: paper => collapseWhitespace(paper.abstract) }
+];
+
+/**
+ * Check a requested export format
+ * @param value - Format as given, e.g. from the query string
+ * @returns True if the format can be exported
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+/**
+ * Render papers in an export format
+ * @param papers - Papers in the order they should be listed
+ * @param format - Export format
+ * @returns File contents
+ */
+export function exportPapers(papers: ArxivSearchResult[], format: ExportFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibtex(papers);
+    case 'ris':
+      return toRis(papers);
+    case 'csl-json':
+      return JSON.stringify(toCslItems(papers), null, 2);
+    case 'csv':
+      return toCsv(papers);
+  }
+}
+
+/**
+ * Split an author name as arXiv lists it ("Ashish Vaswani") into family and
+ * given names. Lowercase particles stay with the family name ("Ludwig van
+ * Beethoven" is "van Beethoven"), and names already written "Family, Given"
+ * are kept as they are.
+ * @param name - Author name
+ * @returns Family and given names; single names are family names
+ */
+export function splitAuthorName(name: string): AuthorName {
+  const trimmed = collapseWhitespace(name);
+  const comma = trimmed.indexOf(',');
+  if (comma !== -1) {
+    return { family: trimmed.slice(0, comma).trim(), given: trimmed.slice(comma + 1).trim() };
+  }
+
+  const words = trimmed.split(' ');
+  let familyStart = words.length - 1;
+  while (familyStart > 1 && /^(?:[a-z]+|d'|l')$/.test(words[familyStart - 1]!)) {
+    familyStart--;
+  }
+  return { family: words.slice(familyStart).join(' '), given: words.slice(0, familyStart).join(' ') };
+}
+
+/**
+ * Build citation keys the way reference managers do: first author's
+ * family name, year and first significant title word (vaswani2017attention).
+ * Repeated keys get a letter suffix (vaswani2017attentionb).
+ * @param papers - Papers in export order
+ * @returns Key for each paper, in the same order
+ */
+export function getCitationKeys(papers: ArxivSearchResult[]): string[] {
+  const counts = new Map<string, number>();
+  return papers.map(paper => {
+    const family = paper.authors[0] ? toKeyPart(splitAuthorName(paper.authors[0]).family.split(' ').pop() ?? '') : '';
+    const titleWord = collapseWhitespace(paper.title)
+      .split(' ')
+      .map(toKeyPart)
+      .find(word => word && !KEY_STOP_WORDS.has(word)) ?? '';
+    const base = family ? `${family}${getDateParts(paper)?.[0] ?? ''}${titleWord}` : `arxiv${toKeyPart(paper.id)}`;
+
+    const seen = counts.get(base) ?? 0;
+    counts.set(base, seen + 1);
+    return seen === 0 ? base : `${base}${String.fromCharCode('a'.charCodeAt(0) + seen)}`;
+  });
+}
+
+/**
+ * Render papers as BibTeX entries with arXiv's eprint fields
+ * @param papers - Papers to render
+ * @param extraFields - More fields for each paper, e.g. keywords
+ * @returns BibTeX file contents
+ */
+export function toBibtex(
+  papers: ArxivSearchResult[],
+  extraFields: (paper: ArxivSearchResult, index: number) => BibtexField[] = () => []
+): string {
+  const keys = getCitationKeys(papers);
+  return papers.map((paper, index) => {
+    const date = getDateParts(paper);
+    const fields: BibtexField[] = [
+      ['title', paper.title],
+      ['author', paper.authors.map(author => {
+        const { family, given } = splitAuthorName(author);
+        return given ? `${family}, ${given}` : family;
+      }).join(' and ')],
+      ['journal', paper.journalRef],
+      ['year', date ? String(date[0]) : undefined],
+      ['eprint', paper.id],
+      ['archivePrefix', 'arXiv'],
+      ['primaryClass', paper.primaryCategory ?? paper.categories[0]],
+      ['doi', paper.doi],
+      ['url', paper.abstractUrl],
+      ['note', paper.comment],
+      ...extraFields(paper, index)
+    ];
+    const body = fields
+      .filter((field): field is [string, string] => Boolean(field[1]))
+      .map(([name, value]) => `  ${name} = {${escapeBibtex(value, MULTILINE_BIBTEX_FIELDS.has(name))}}`)
+      .join(',\n');
+    return `@${paper.journalRef ? 'article' : 'misc'}{${keys[index]},\n${body}\n}\n`;
+  }).join('\n');
+}
+
+/**
+ * Render papers as RIS records
+ * @param papers - Papers to render
+ * @returns RIS file contents
+ */
+function toRis(papers: ArxivSearchResult[]): string {
+  return papers.map(paper => {
+    const date = getDateParts(paper);
+    const tags: [string, string | undefined][] = [
+      ['TY', paper.journalRef ? 'JOUR' : 'UNPB'],
+      ['TI', paper.title],
+      ...paper.authors.map((author): [string, string] => {
+        const { family, given } = splitAuthorName(author);
+        return ['AU', given ? `${family}, ${given}` : family];
+      }),
+      ['PY', date ? String(date[0]) : undefined],
+      ['DA', date ? date.map(part => String(part).padStart(2, '0')).join('/') : undefined],
+      ['AB', paper.abstract],
+      ['JO', paper.journalRef],
+      ['PB', 'arXiv'],
+      ['AN', `arXiv:${paper.id}`],
+      ...paper.categories.map((category): [string, string] => ['KW', category]),
+      ['DO', paper.doi],
+      ['UR', paper.abstractUrl],
+      ['L1', paper.pdfUrl],
+      ['N1', paper.comment]
+    ];
+    const lines = tags
+      .filter((tag): tag is [string, string] => Boolean(tag[1]))
+      .map(([tag, value]) => `${tag}  - ${collapseWhitespace(value)}`);
+    return `${lines.join('\n')}\nER  - \n`;
+  }).join('\n');
+}
+
+/**
+ * Convert papers to CSL-JSON items, keyed like the BibTeX export
+ * @param papers - Papers to convert
+ * @returns CSL items
+ */
+export function toCslItems(papers: ArxivSearchResult[]): CslItem[] {
+  const keys = getCitationKeys(papers);
+  return papers.map((paper, index) => {
+    const date = getDateParts(paper);
+    return {
+      id: keys[index]!,
+      type: paper.journalRef ? 'article-journal' : 'article',
+      title: collapseWhitespace(paper.title),
+      author: paper.authors.map(splitAuthorName),
+      ...(date && { issued: { 'date-parts': [date] } }),
+      ...(paper.abstract && { abstract: collapseWhitespace(paper.abstract) }),
+      ...(paper.journalRef && { 'container-title': paper.journalRef }),
+      publisher: 'arXiv',
+      number: paper.id,
+      ...(paper.doi && { DOI: paper.doi }),
+      URL: paper.abstractUrl,
+      ...(paper.categories.length > 0 && { keyword: paper.categories.join(', ') }),
+      ...(paper.comment && { note: paper.comment })
+    };
+  });
+}
+
+/**
+ * Render papers as CSV, one row per paper (RFC 4180)
+ * @param papers - Papers to render
+ * @returns CSV file contents
+ */
+function toCsv(papers: ArxivSearchResult[]): string {
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...papers.map(paper => CSV_COLUMNS.map(column => column.value(paper)))
+  ];
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Get the submission date of a paper
+ * @param paper - Paper
+ * @returns [year, month, day] in UTC, or null when the date is missing
+ */
+function getDateParts(paper: ArxivSearchResult): number[] | null {
+  const date = new Date(paper.published);
+  if (!paper.published || Number.isNaN(date.getTime())) return null;
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reduce a word to lowercase ASCII letters and digits for a citation key
+ * @param word - Word, possibly accented (Schölkopf becomes scholkopf)
+ * @returns Key fragment
+ */
+function toKeyPart(word: string): string {
+  return word.normalize('NFD').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Escape a field value for BibTeX. arXiv metadata is already TeX (titles
+ * carry math such as $O(n)$), so only characters that are never meant as
+ * TeX there are escaped, and braces are dropped if they don't balance.
+ * @param value - Field value
+ * @param multiline - Keep line breaks and indentation instead of collapsing whitespace
+ * @returns Value safe inside a braced BibTeX field
+ */
+function escapeBibtex(value: string, multiline = false): string {
+  const text = multiline
+    ? value.split(/\r?\n/).map(line => line.trimEnd()).join('\n').trim()
+    : collapseWhitespace(value);
+  const escaped = text.replace(/\\?[&%#]/g, match => (match.length === 1 ? `\\${match}` : match));
+
+  let depth = 0;
+  for (const char of escaped) {
+    if (char === '{') depth++;
+    if (char === '}' && --depth < 0) break;
+  }
+  return depth === 0 ? escaped : escaped.replace(/[{}]/g, '');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,182 @@
+/**
+ * Formatted citations for a single paper in common styles (APA, MLA,
+ * Chicago, IEEE), plus its BibTeX entry.
+ *
+ * Styles are rendered from the paper's CSL item, the way CSL processors
+ * work, as plain text: the parts a style sets in italics are not marked.
+ * Papers with a journal reference are cited as published articles with
+ * their DOI; the rest are cited as arXiv preprints.
+ */
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { CslItem, exportPapers, toCslItems } from '@/utils/citationExport';
+
+export type CitationStyle = 'bibtex' | 'apa' | 'mla' | 'chicago' | 'ieee';
+
+export const CITATION_STYLES: Record<CitationStyle, { label: string }> = {
+  bibtex: { label: 'BibTeX' },
+  apa: { label: 'APA' },
+  mla: { label: 'MLA' },
+  chicago: { label: 'Chicago' },
+  ieee: { label: 'IEEE' }
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+/**
+ * Cite a paper in a citation style
+ * @param paper - Paper metadata
+ * @param style - Citation style
+ * @returns Citation as plain text
+ */
+export function formatCitation(paper: ArxivSearchResult, style: CitationStyle): string {
+  if (style === 'bibtex') {
+    return exportPapers([paper], 'bibtex').trim();
+  }
+
+  const [item] = toCslItems([paper]);
+  switch (style) {
+    case 'apa':
+      return formatApa(item!);
+    case 'mla':
+      return formatMla(item!);
+    case 'chicago':
+      return formatChicago(item!);
+    case 'ieee':
+      return formatIeee(item!);
+  }
+}
+
+/**
+ * APA 7: Vaswani, A., & Shazeer, N. (2017). Attention is all you need (arXiv:1706.03762). arXiv. https://...
+ */
+function formatApa(item: CslItem): string {
+  const names = item.author.map(author => joinName(author.family, initials(author.given), ', '));
+  // Up to 20 authors are listed; longer lists end with "..." and the last author
+  const authors = names.length > 20
+    ? `${names.slice(0, 19).join(', ')}, ... ${names[names.length - 1]}`
+    : joinList(names, ', ', ', & ', ', & ');
+  const year = item.issued?.['date-parts'][0]?.[0] ?? 'n.d.';
+  const title = toSentenceCase(item.title);
+
+  const source = item['container-title']
+    ? `${title}. ${item['container-title']}.`
+    : `${title} (arXiv:${item.number}). arXiv.`;
+  return [authors && withPeriod(authors), `(${year}).`, source, getLink(item)].filter(Boolean).join(' ');
+}
+
+/**
+ * MLA 9: Vaswani, Ashish, et al. "Attention Is All You Need." arXiv, 12 June 2017, https://...
+ */
+function formatMla(item: CslItem): string {
+  const [first, second] = item.author;
+  let authors = '';
+  if (first) {
+    const firstName = joinName(first.family, first.given, ', ');
+    if (item.author.length === 1) authors = firstName;
+    else if (item.author.length === 2) authors = `${firstName}, and ${joinName(second!.given, second!.family, ' ')}`;
+    else authors = `${firstName}, et al`;
+  }
+
+  const date = item.issued?.['date-parts'][0];
+  const published = date
+    ? [date[2], date[1] ? MLA_MONTHS[date[1] - 1] : undefined, date[0]].filter(Boolean).join(' ')
+    : '';
+  const source = item['container-title'] ?? ['arXiv', published].filter(Boolean).join(', ');
+  return [authors && withPeriod(authors), `"${withPeriod(item.title)}"`, `${source}, ${getLink(item)}.`].filter(Boolean).join(' ');
+}
+
+/**
+ * Chicago 17 (bibliography): Vaswani, Ashish, and Noam Shazeer. "Attention Is All You Need." Preprint, arXiv, June 12, 2017. https://...
+ */
+function formatChicago(item: CslItem): string {
+  // Up to ten authors are listed; longer lists give the first seven and "et al."
+  const listed = item.author.length > 10 ? item.author.slice(0, 7) : item.author;
+  const names = listed.map((author, index) =>
+    index === 0 ? joinName(author.family, author.given, ', ') : joinName(author.given, author.family, ' ')
+  );
+  const authors = item.author.length > 10
+    ? `${names.join(', ')}, et al`
+    : joinList(names, ', ', ', and ', ', and ');
+
+  const date = item.issued?.['date-parts'][0];
+  const published = date
+    ? [date[1] ? `${MONTHS[date[1] - 1]}${date[2] ? ` ${date[2]}` : ''}` : undefined, date[0]].filter(Boolean).join(', ')
+    : '';
+  const source = item['container-title'] ?? ['Preprint, arXiv', published].filter(Boolean).join(', ');
+  return [authors && withPeriod(authors), `"${withPeriod(item.title)}"`, withPeriod(source), `${getLink(item)}.`].filter(Boolean).join(' ');
+}
+
+/**
+ * IEEE: A. Vaswani and N. Shazeer, "Attention Is All You Need," 2017, arXiv:1706.03762.
+ */
+function formatIeee(item: CslItem): string {
+  // More than six authors are shortened to the first one and "et al."
+  const names = item.author.map(author => joinName(initials(author.given), author.family, ' '));
+  const authors = names.length > 6 ? `${names[0]} et al.` : joinList(names, ', ', ', and ', ' and ');
+  const year = item.issued?.['date-parts'][0]?.[0];
+  const title = `"${item.title},"`;
+
+  const source = item['container-title']
+    ? [item['container-title'], item.DOI ? `doi: ${item.DOI}` : undefined]
+    : [year ? String(year) : undefined, `arXiv:${item.number}`];
+  return `${[authors && `${authors},`, title, source.filter(Boolean).join(', ')].filter(Boolean).join(' ')}.`;
+}
+
+/**
+ * Abbreviate given names to initials: "Ming-Wei" becomes "M.-W." and
+ * "John Ronald" becomes "J. R."
+ */
+function initials(given: string): string {
+  return given
+    .split(' ')
+    .filter(Boolean)
+    .map(name => name.split('-').map(part => `${part.charAt(0)}.`).join('-'))
+    .join(' ');
+}
+
+function joinName(first: string, second: string, separator: string): string {
+  return first && second ? `${first}${separator}${second}` : first || second;
+}
+
+/**
+ * Join names, e.g. as "a", "a & b" or "a, b, & c"
+ * @param items - Names
+ * @param separator - Between all but the last two names
+ * @param lastSeparator - Before the last of three or more names
+ * @param pairSeparator - Between exactly two names
+ */
+function joinList(items: string[], separator: string, lastSeparator: string, pairSeparator: string): string {
+  if (items.length <= 1) return items.join('');
+  if (items.length === 2) return items.join(pairSeparator);
+  return `${items.slice(0, -1).join(separator)}${lastSeparator}${items[items.length - 1]}`;
+}
+
+function withPeriod(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Link to the published version when the paper has a DOI, otherwise to arXiv
+ */
+function getLink(item: CslItem): string {
+  return item.DOI ? `https://doi.org/${item.DOI}` : item.URL;
+}
+
+/**
+ * Convert a title to sentence case for APA. Only capitalized words are
+ * lowercased, so acronyms and names such as BERT or ImageNet keep their
+ * capitals, and the first word and the word after a colon stay capitalized.
+ * @param title - Title in title case
+ * @returns Title in sentence case
+ */
+function toSentenceCase(title: string): string {
+  return title
+    .split(' ')
+    .map((word, index, words) => {
+      const startsSentence = index === 0 || /[:?!]$/.test(words[index - 1]!);
+      return !startsSentence && /^[A-Z][a-z]+(?:-[a-z]+)*$/.test(word) ? word.toLowerCase() : word;
+    })
+    .join(' ');
+}
@@ -0,0 +1,214 @@
+/**
+ * Verification of (page N) citations against the text of the cited pages.
+ *
+ * Each citation is paired with the sentence it appears in (the claim). The
+ * claim's key terms are looked up on the cited page and the share that is
+ * found becomes the citation's confidence. Citations of pages the PDF does not
+ * have are removed from the content. References naming a paper, such as
+ * (1706.03762 page 3), are checked against that paper's pages. Evidence quotes are checked verbatim,
+ * ignoring case, punctuation and line breaks.
+ */
+
+import { EvidenceQuote, PageCitation } from '@/types/chat';
+import { PAGE_REFERENCE_PATTERN, formatPageReference, parsePageReferenceList } from '@/utils/pageLinks';
+
+/** Minimum confidence for a citation to count as verified */
+export const VERIFIED_CONFIDENCE = 0.6;
+
+export interface CitationVerificationResult {
+  /** Content with citations of nonexistent pages removed */
+  content: string;
+  /** One entry per remaining page reference, in order of appearance */
+  citations: PageCitation[];
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'these', 'those', 'from', 'into',
+  'their', 'they', 'them', 'which', 'while', 'where', 'when', 'what', 'how', 'has', 'have', 'had',
+  'been', 'being', 'but', 'not', 'can', 'could', 'would', 'should', 'also', 'such', 'than', 'then',
+  'its', 'our', 'his', 'her', 'use', 'uses', 'used', 'using', 'paper', 'authors', 'page', 'see', 'shows',
+  'show', 'shown', 'describes', 'described', 'discusses', 'discussed', 'about', 'more', 'most', 'both',
+  'each', 'other', 'some', 'there', 'here', 'very', 'will', 'may', 'only', 'between', 'over', 'under'
+]);
+
+// Sentence boundaries: terminal punctuation followed by whitespace or the end, or a line break
+const SENTENCE_END = /[.!?](?=\s|$)|\n/g;
+
+function stem(term: string): string {
+  return term.length > 4 ? term.replace(/(ing|ed|es|s)$/, '') : term;
+}
+
+/**
+ * Split text into normalized key terms, dropping stop words and short words
+ * @param text - Text to split
+ * @returns Unique key terms
+ */
+export function extractKeyTerms(text: string): Set<string> {
+  const normalized = text
+    .toLowerCase()
+    .normalize('NFKD')
+    // Rejoin words hyphenated across line breaks in extracted PDF text
+    .replace(/-\s*\n\s*/g, '');
+  const words = normalized.match(/[a-z0-9]+(?:\.[0-9]+)?/g) ?? [];
+
+  return new Set(
+    words
+      .filter((word) => !STOP_WORDS.has(word) && (word.length >= 3 || /\d/.test(word)))
+      .map(stem)
+  );
+}
+
+/**
+ * Score how well a page supports a claim
+ * @param claim - Claim text
+ * @param pageText - Extracted text of the cited page
+ * @returns Share (0-1) of the claim's key terms found on the page, rounded to two decimals
+ */
+export function scoreClaim(claim: string, pageText: string): number {
+  const claimTerms = extractKeyTerms(claim);
+  if (claimTerms.size === 0) return 0;
+
+  const pageTerms = extractKeyTerms(pageText);
+  let found = 0;
+  for (const term of claimTerms) {
+    if (pageTerms.has(term)) found++;
+  }
+  return Math.round((found / claimTerms.size) * 100) / 100;
+}
+
+/**
+ * Find the sentence around a position, without page references or markdown
+ * @param content - Full content
+ * @param start - Start of the citation
+ * @param end - End of the citation
+ * @returns Claim text
+ */
+function extractClaim(content: string, start: number, end: number): string {
+  let sentenceStart = 0;
+  let sentenceEnd = content.length;
+
+  for (const match of content.matchAll(SENTENCE_END)) {
+    const index = match.index ?? 0;
+    if (index < start) {
+      sentenceStart = index + 1;
+    } else if (index >= end) {
+      sentenceEnd = index;
+      break;
+    }
+  }
+
+  // A citation placed after the full stop belongs to the preceding sentence
+  let sentence = content.slice(sentenceStart, sentenceEnd).replace(new RegExp(PAGE_REFERENCE_PATTERN.source, 'g'), '');
+  if (!sentence.trim() && sentenceStart > 0) {
+    return extractClaim(content, sentenceStart - 1, sentenceStart - 1);
+  }
+  sentence = sentence.replace(/[*_`#>[\]]/g, '');
+  return sentence.replace(/\s+/g, ' ').replace(/\s([,;:])/g, '$1').trim();
+}
+
+/**
+ * Check whether content contains any (page N) references
+ * @param content - Markdown content
+ * @returns True if at least one page reference is present
+ */
+export function hasPageReferences(content: string): boolean {
+  return new RegExp(PAGE_REFERENCE_PATTERN.source).test(content);
+}
+
+/**
+ * Find the pages a reference or quote should be checked against
+ * @param arxivId - Paper named by the reference, if any
+ * @param pages - Pages of the paper being discussed
+ * @param pagesByPaper - Pages of every other paper with text, by arXiv ID
+ * @returns Page texts, or undefined when the paper's text is unknown
+ */
+function getPagesFor(arxivId: string | null | undefined, pages: string[] | null, pagesByPaper: Record<string, string[]>): string[] | undefined {
+  if (!arxivId) return pages ?? undefined;
+  return Object.prototype.hasOwnProperty.call(pagesByPaper, arxivId) ? pagesByPaper[arxivId] : undefined;
+}
+
+/**
+ * Verify every page citation in a response against the PDF's page text
+ * @param content - Markdown content with (page N) or (arXivId page N) references
+ * @param pages - Extracted text of each page of the paper being discussed, in page order,
+ *   or null when it is unknown
+ * @param pagesByPaper - Page texts of papers named in references, by arXiv ID; references
+ *   to papers without text are kept but unverified
+ * @returns Content without citations of nonexistent pages, and per-citation results
+ */
+export function verifyCitations(
+  content: string,
+  pages: string[] | null,
+  pagesByPaper: Record<string, string[]> = {}
+): CitationVerificationResult {
+  const citations: PageCitation[] = [];
+
+  const verifiedContent = content.replace(
+    new RegExp(`\\s?${PAGE_REFERENCE_PATTERN.source}`, 'g'),
+    (match: string, referenceList: string, offset: number) => {
+      const claim = extractClaim(content, offset, offset + match.length);
+      const keptReferences = parsePageReferenceList(referenceList).filter(({ arxivId, page }) => {
+        const paperPages = getPagesFor(arxivId, pages, pagesByPaper);
+        return !paperPages || (page >= 1 && page <= paperPages.length);
+      });
+
+      for (const { arxivId, page } of keptReferences) {
+        const paperPages = getPagesFor(arxivId, pages, pagesByPaper);
+        const confidence = paperPages ? scoreClaim(claim, paperPages[page - 1] ?? '') : 0;
+        citations.push({
+          page,
+          ...(arxivId && { arxivId }),
+          claim,
+          confidence,
+          verified: confidence >= VERIFIED_CONFIDENCE
+        });
+      }
+
+      if (keptReferences.length === 0) return '';
+      const leadingSpace = /^\s/.test(match) ? match[0] : '';
+      return `${leadingSpace}(${keptReferences.map(formatPageReference).join(', ')})`;
+    }
+  );
+
+  return { content: verifiedContent, citations };
+}
+
+/**
+ * Normalize text for verbatim quote matching: case, ligatures, punctuation,
+ * line-break hyphenation and whitespace are ignored
+ * @param text - Text to normalize
+ * @returns Lowercase words separated by single spaces
+ */
+export function normalizeQuoteText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/-\s*\n\s*/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Check evidence quotes against the text of the pages they cite
+ * @param evidence - Evidence items returned by the model
+ * @param pages - Extracted text of each page of the paper being discussed, or null when unknown
+ * @param pagesByPaper - Page texts of other papers, by arXiv ID
+ * @returns Well-formed items on existing pages, each marked verified if the quote appears on
+ *   its page; quotes from papers without text are kept unchecked
+ */
+export function verifyEvidence(
+  evidence: EvidenceQuote[],
+  pages: string[] | null,
+  pagesByPaper: Record<string, string[]> = {}
+): EvidenceQuote[] {
+  return evidence
+    .filter((item) => typeof item.quote === 'string' && Number.isInteger(item.page) && item.page >= 1)
+    .flatMap((item) => {
+      const paperPages = getPagesFor(item.arxivId, pages, pagesByPaper);
+      if (!paperPages) return [item];
+      if (item.page > paperPages.length) return [];
+
+      const quote = normalizeQuoteText(item.quote);
+      return [{ ...item, verified: quote.length > 0 && normalizeQuoteText(paperPages[item.page - 1] ?? '').includes(quote) }];
+    });
+}
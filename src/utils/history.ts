@@ -0,0 +1,196 @@
+/**
+ * Reading and chat history: the papers opened in the viewer (with the last
+ * page it was sent to) and the questions asked about them.
+ *
+ * History is kept in localStorage ("asxiv-history"), one entry per paper and
+ * one per question, capped so it can't grow without bound. Changes are
+ * announced to subscribers so every view of the history stays current.
+ */
+
+import { ChatQuestion, HistoryEntry, PaperVisit } from '@/types/history';
+
+const STORAGE_KEY = 'asxiv-history';
+const MAX_PAPERS = 200;
+const MAX_QUESTIONS = 500;
+
+interface StoredHistory {
+  // Most recently opened first
+  papers: PaperVisit[];
+  // Most recently asked first
+  questions: ChatQuestion[];
+}
+
+type HistoryListener = () => void;
+const listeners = new Set<HistoryListener>();
+
+/**
+ * Get notified whenever the history changes
+ * @param listener - Called after each change
+ * @returns Function that stops the notifications
+ */
+export function subscribeToHistory(listener: HistoryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Read the stored history; missing or unreadable history reads as empty
+ * @returns Papers and questions, most recent first
+ */
+export function readHistory(): StoredHistory {
+  if (typeof window === 'undefined') {
+    return { papers: [], questions: [] };
+  }
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<StoredHistory> | null;
+    return {
+      papers: Array.isArray(stored?.papers) ? stored.papers : [],
+      questions: Array.isArray(stored?.questions) ? stored.questions : []
+    };
+  } catch {
+    return { papers: [], questions: [] };
+  }
+}
+
+function writeHistory(history: StoredHistory): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      papers: history.papers.slice(0, MAX_PAPERS),
+      questions: history.questions.slice(0, MAX_QUESTIONS)
+    }));
+  } catch (error) {
+    // Storage can be full or disabled (e.g. in private browsing); history is best effort
+    console.warn('History: could not save', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Record that a paper was opened, moving it to the top of the history
+ * @param arxivId - ID the paper was opened under
+ * @param title - Title, when known; a known title is kept otherwise
+ */
+export function recordPaperOpened(arxivId: string, title?: string): void {
+  if (typeof window === 'undefined') return;
+  const history = readHistory();
+  const existing = history.papers.find(paper => paper.arxivId === arxivId);
+  const visit: PaperVisit = {
+    ...existing,
+    arxivId,
+    title: title ?? existing?.title,
+    openedAt: new Date().toISOString()
+  };
+  writeHistory({ ...history, papers: [visit, ...history.papers.filter(paper => paper.arxivId !== arxivId)] });
+}
+
+/**
+ * Record the page the viewer was sent to, to reopen the paper there
+ * @param arxivId - ID the paper was opened under
+ * @param page - Page number
+ */
+export function recordPageViewed(arxivId: string, page: number): void {
+  if (typeof window === 'undefined' || !Number.isInteger(page) || page < 1) return;
+  const history = readHistory();
+  const existing = history.papers.find(paper => paper.arxivId === arxivId);
+  if (existing?.lastPage === page) return;
+
+  const visit: PaperVisit = existing
+    ? { ...existing, lastPage: page }
+    : { arxivId, openedAt: new Date().toISOString(), lastPage: page };
+  writeHistory({
+    ...history,
+    papers: existing
+      ? history.papers.map(paper => (paper.arxivId === arxivId ? visit : paper))
+      : [visit, ...history.papers]
+  });
+}
+
+/**
+ * Record a question asked in the chat
+ * @param arxivId - Paper the chat was about
+ * @param question - Question as asked
+ * @param title - Paper title, when known
+ */
+export function recordChatQuestion(arxivId: string, question: string, title?: string): void {
+  if (typeof window === 'undefined' || !question.trim()) return;
+  const history = readHistory();
+  const entry: ChatQuestion = {
+    id: crypto.randomUUID(),
+    arxivId,
+    title: title ?? history.papers.find(paper => paper.arxivId === arxivId)?.title,
+    question: question.trim(),
+    askedAt: new Date().toISOString()
+  };
+  writeHistory({ ...history, questions: [entry, ...history.questions] });
+}
+
+/**
+ * Link that reopens a paper where it was left
+ * @param visit - Paper in the history
+ * @returns Viewer path, with ?page=N when a page was recorded
+ */
+export function getPaperVisitHref(visit: Pick<PaperVisit, 'arxivId' | 'lastPage'>): string {
+  return `/pdf/${visit.arxivId}${visit.lastPage ? `?page=${visit.lastPage}` : ''}`;
+}
+
+/**
+ * Format a history timestamp for display
+ * @param time - ISO timestamp
+ * @returns Date and time in the reader's locale
+ */
+export function formatHistoryTime(time: string): string {
+  const date = new Date(time);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Combine papers and questions into one timeline
+ * @param history - Stored history
+ * @returns Entries, most recent first
+ */
+export function getHistoryEntries(history: StoredHistory): HistoryEntry[] {
+  const entries: HistoryEntry[] = [
+    ...history.papers.map((paper): HistoryEntry => ({ kind: 'paper', time: paper.openedAt, ...paper })),
+    ...history.questions.map((question): HistoryEntry => ({ kind: 'question', time: question.askedAt, ...question }))
+  ];
+  return entries.sort((a, b) => b.time.localeCompare(a.time));
+}
+
+/**
+ * Filter history entries by text. Every word must appear in the paper's
+ * ID or title, or in the question.
+ * @param entries - History entries
+ * @param text - Words to look for; empty text matches everything
+ * @returns Matching entries, in their original order
+ */
+export function searchHistory(entries: HistoryEntry[], text: string): HistoryEntry[] {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const haystack = [entry.arxivId, entry.title ?? '', entry.kind === 'question' ? entry.question : '']
+      .join('\n')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+/**
+ * Delete one paper or question from the history
+ * @param entry - Entry to delete
+ */
+export function removeHistoryEntry(entry: HistoryEntry): void {
+  const history = readHistory();
+  writeHistory(entry.kind === 'paper'
+    ? { ...history, papers: history.papers.filter(paper => paper.arxivId !== entry.arxivId) }
+    : { ...history, questions: history.questions.filter(question => question.id !== entry.id) });
+}
+
+/**
+ * Delete the whole history
+ */
+export function clearHistory(): void {
+  writeHistory({ papers: [], questions: [] });
+}
@@ -0,0 +1,353 @@
+/**
+ * Personal library: papers saved from search results and the viewer, with
+ * named collections, tags, markdown notes and a reading status.
+ *
+ * Everything is stored in the browser through the configured LibraryStore.
+ * Changes are announced to subscribers so every view of the library on the
+ * page stays current.
+ */
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { LibraryFileEntry } from '@/utils/libraryFormats';
+import { getLibraryStore } from '@/utils/libraryStore';
+import { LibraryCollection, LibraryFilter, LibraryPaper, ReadingStatus } from '@/types/library';
+
+export const READING_STATUSES: Record<ReadingStatus, { label: string }> = {
+  'to-read': { label: 'To read' },
+  reading: { label: 'Reading' },
+  done: { label: 'Done' }
+};
+
+const COLLECTION_NAME_MAX_LENGTH = 80;
+const TAG_MAX_LENGTH = 40;
+// Exported files list tags and collections separated by these
+const LIST_SEPARATOR_PATTERN = /[,;]/;
+
+export interface LibraryImportResult {
+  // Papers that were not in the library yet
+  added: number;
+  // Papers already saved that took on the file's tags, notes and collections
+  updated: number;
+  // Names of the collections created for the file's groupings
+  createdCollections: string[];
+}
+
+type LibraryListener = () => void;
+const listeners = new Set<LibraryListener>();
+
+/**
+ * Get notified whenever the library changes
+ * @param listener - Called after each change
+ * @returns Function that stops the notifications
+ */
+export function subscribeToLibrary(listener: LibraryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyLibraryChanged(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Normalize tags: trimmed, lowercase, without duplicates and sorted. Commas
+ * and semicolons separate tags, as they do in exported keyword lists.
+ * @param tags - Tags as entered
+ * @returns Normalized tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .flatMap(tag => tag.split(LIST_SEPARATOR_PATTERN))
+    .map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, TAG_MAX_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(normalized)).sort();
+}
+
+/**
+ * List saved papers, most recently added first
+ * @returns Saved papers
+ */
+export async function listLibraryPapers(): Promise<LibraryPaper[]> {
+  const papers = await getLibraryStore().listPapers();
+  return papers.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+/**
+ * List collections by name
+ * @returns Collections
+ */
+export async function listCollections(): Promise<LibraryCollection[]> {
+  const collections = await getLibraryStore().listCollections();
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save a paper to the library, or add it to more collections when it is
+ * already saved. New papers start as to-read.
+ * @param metadata - Paper metadata
+ * @param options - Collections to put the paper in and tags to give it
+ * @returns Saved paper
+ */
+export async function savePaper(
+  metadata: ArxivSearchResult,
+  options: { arxivId?: string | undefined; collectionIds?: string[] | undefined; tags?: string[] | undefined } = {}
+): Promise<LibraryPaper> {
+  const store = getLibraryStore();
+  const arxivId = options.arxivId ?? metadata.id;
+  const existing = await store.getPaper(arxivId);
+  const now = new Date().toISOString();
+
+  const paper: LibraryPaper = existing
+    ? {
+      ...existing,
+      collectionIds: Array.from(new Set([...existing.collectionIds, ...(options.collectionIds ?? [])])),
+      tags: normalizeTags([...existing.tags, ...(options.tags ?? [])]),
+      updatedAt: now
+    }
+    : {
+      arxivId,
+      metadata,
+      collectionIds: Array.from(new Set(options.collectionIds ?? [])),
+      tags: normalizeTags(options.tags ?? []),
+      notes: '',
+      status: 'to-read',
+      addedAt: now,
+      updatedAt: now
+    };
+
+  await store.putPaper(paper);
+  notifyLibraryChanged();
+  return paper;
+}
+
+/**
+ * Change a saved paper's collections, tags, notes or reading status
+ * @param arxivId - ID the paper was saved under
+ * @param changes - Fields to change
+ * @returns Updated paper, or null when the paper is not in the library
+ */
+export async function updateLibraryPaper(
+  arxivId: string,
+  changes: Partial<Pick<LibraryPaper, 'collectionIds' | 'tags' | 'notes' | 'status' | 'metadata'>>
+): Promise<LibraryPaper | null> {
+  const store = getLibraryStore();
+  const existing = await store.getPaper(arxivId);
+  if (!existing) return null;
+
+  const paper: LibraryPaper = {
+    ...existing,
+    ...changes,
+    ...(changes.collectionIds && { collectionIds: Array.from(new Set(changes.collectionIds)) }),
+    ...(changes.tags && { tags: normalizeTags(changes.tags) }),
+    updatedAt: new Date().toISOString()
+  };
+  await store.putPaper(paper);
+  notifyLibraryChanged();
+  return paper;
+}
+
+/**
+ * Remove a paper from the library
+ * @param arxivId - ID the paper was saved under
+ * @returns False when the paper was not in the library
+ */
+export async function removeLibraryPaper(arxivId: string): Promise<boolean> {
+  const removed = await getLibraryStore().deletePaper(arxivId);
+  if (removed) {
+    notifyLibraryChanged();
+  }
+  return removed;
+}
+
+/**
+ * Check a collection name
+ * @param name - Name as entered
+ * @param collections - Existing collections
+ * @param currentId - Collection being renamed, which may keep its name
+ * @returns Trimmed name
+ * @throws Error when the name is empty, too long, has a comma or semicolon
+ * or is already taken
+ */
+function validateCollectionName(name: string, collections: LibraryCollection[], currentId?: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) {
+    throw new Error('Collection name is required');
+  }
+  if (LIST_SEPARATOR_PATTERN.test(trimmed)) {
+    throw new Error('Collection names cannot contain commas or semicolons');
+  }
+  if (trimmed.length > COLLECTION_NAME_MAX_LENGTH) {
+    throw new Error(`Collection names can be at most ${COLLECTION_NAME_MAX_LENGTH} characters`);
+  }
+  if (collections.some(collection => collection.id !== currentId && collection.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A collection named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Create a collection
+ * @param name - Collection name, unique regardless of case
+ * @returns New collection
+ * @throws Error when the name is empty, too long, has a comma or semicolon
+ * or is already taken
+ */
+export async function createCollection(name: string): Promise<LibraryCollection> {
+  const store = getLibraryStore();
+  const collection: LibraryCollection = {
+    id: crypto.randomUUID(),
+    name: validateCollectionName(name, await store.listCollections()),
+    createdAt: new Date().toISOString()
+  };
+  await store.putCollection(collection);
+  notifyLibraryChanged();
+  return collection;
+}
+
+/**
+ * Rename a collection
+ * @param id - Collection ID
+ * @param name - New name, unique regardless of case
+ * @returns Renamed collection, or null when it does not exist
+ * @throws Error when the name is empty, too long, has a comma or semicolon
+ * or is already taken
+ */
+export async function renameCollection(id: string, name: string): Promise<LibraryCollection | null> {
+  const store = getLibraryStore();
+  const collections = await store.listCollections();
+  const existing = collections.find(collection => collection.id === id);
+  if (!existing) return null;
+
+  const collection = { ...existing, name: validateCollectionName(name, collections, id) };
+  await store.putCollection(collection);
+  notifyLibraryChanged();
+  return collection;
+}
+
+/**
+ * Delete a collection. Its papers stay in the library.
+ * @param id - Collection ID
+ * @returns False when the collection did not exist
+ */
+export async function deleteCollection(id: string): Promise<boolean> {
+  const store = getLibraryStore();
+  if (!(await store.deleteCollection(id))) return false;
+
+  const papers = await store.listPapers();
+  await Promise.all(
+    papers
+      .filter(paper => paper.collectionIds.includes(id))
+      .map(paper => store.putPaper({ ...paper, collectionIds: paper.collectionIds.filter(collectionId => collectionId !== id) }))
+  );
+  notifyLibraryChanged();
+  return true;
+}
+
+/**
+ * Save the entries of an imported library file. Papers already in the
+ * library keep their metadata and reading status and gain the entry's tags,
+ * notes and collections; collections are matched by name regardless of case
+ * and created when missing, without the commas and semicolons their names
+ * may not contain.
+ * @param entries - Entries read from the file, with the metadata to save new papers with
+ * @returns What was added, updated and created
+ */
+export async function importLibraryEntries(entries: LibraryFileEntry[]): Promise<LibraryImportResult> {
+  const store = getLibraryStore();
+  const collections = await store.listCollections();
+  const result: LibraryImportResult = { added: 0, updated: 0, createdCollections: [] };
+  const now = new Date().toISOString();
+
+  const cleanName = (name: string): string =>
+    name.replace(/[,;]/g, ' ').trim().replace(/\s+/g, ' ').slice(0, COLLECTION_NAME_MAX_LENGTH).trim();
+
+  const getCollectionId = async (name: string): Promise<string> => {
+    const existing = collections.find(collection => collection.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing.id;
+
+    const collection: LibraryCollection = { id: crypto.randomUUID(), name, createdAt: now };
+    await store.putCollection(collection);
+    collections.push(collection);
+    result.createdCollections.push(name);
+    return collection.id;
+  };
+
+  for (const entry of entries) {
+    const collectionIds: string[] = [];
+    for (const name of entry.collections.map(cleanName).filter(Boolean)) {
+      collectionIds.push(await getCollectionId(name));
+    }
+
+    const existing = await store.getPaper(entry.arxivId);
+    if (existing) {
+      const notes = !entry.notes || existing.notes.includes(entry.notes)
+        ? existing.notes
+        : [existing.notes, entry.notes].filter(Boolean).join('\n\n');
+      await store.putPaper({
+        ...existing,
+        collectionIds: Array.from(new Set([...existing.collectionIds, ...collectionIds])),
+        tags: normalizeTags([...existing.tags, ...entry.tags]),
+        notes,
+        updatedAt: now
+      });
+      result.updated++;
+    } else {
+      await store.putPaper({
+        arxivId: entry.arxivId,
+        metadata: entry.metadata,
+        collectionIds: Array.from(new Set(collectionIds)),
+        tags: normalizeTags(entry.tags),
+        notes: entry.notes,
+        status: 'to-read',
+        addedAt: now,
+        updatedAt: now
+      });
+      result.added++;
+    }
+  }
+
+  if (entries.length > 0 || result.createdCollections.length > 0) {
+    notifyLibraryChanged();
+  }
+  return result;
+}
+
+/**
+ * Filter saved papers by collection, tag, reading status and text. Every
+ * word of the text must appear in the title, authors, abstract, arXiv ID,
+ * tags or notes.
+ * @param papers - Saved papers
+ * @param filter - Filters to apply; empty filters match everything
+ * @returns Matching papers, in their original order
+ */
+export function filterLibraryPapers(papers: LibraryPaper[], filter: LibraryFilter): LibraryPaper[] {
+  const words = (filter.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return papers.filter(paper => {
+    if (filter.collectionId && !paper.collectionIds.includes(filter.collectionId)) return false;
+    if (filter.tag && !paper.tags.includes(filter.tag)) return false;
+    if (filter.status && paper.status !== filter.status) return false;
+    if (words.length === 0) return true;
+
+    const haystack = [
+      paper.arxivId,
+      paper.metadata.title,
+      paper.metadata.authors.join(' '),
+      paper.metadata.abstract,
+      paper.tags.join(' '),
+      paper.notes
+    ].join('\n').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+/**
+ * List the tags in use, for tag filters and suggestions
+ * @param papers - Saved papers
+ * @returns Distinct tags, sorted
+ */
+export function getLibraryTags(papers: LibraryPaper[]): string[] {
+  return normalizeTags(papers.flatMap(paper => paper.tags));
+}
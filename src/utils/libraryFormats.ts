@@ -0,0 +1,666 @@
+/**
+ * Library files: read reference libraries exported from BibTeX tools and
+ * Zotero (BibTeX, CSL-JSON or Zotero RDF) and write saved papers back out
+ * in the same formats.
+ *
+ * Entries are matched to arXiv papers through their eprint, URL, DOI or
+ * other identifiers; entries without an arXiv ID are reported as skipped.
+ * Tags, notes and collections travel where the format has room for them:
+ * - BibTeX: tags in `keywords`, notes in `annote`, collections in JabRef's
+ *   `groups` (Mendeley's `mendeley-tags` and `mendeley-groups` are read too)
+ * - CSL-JSON: tags in `keyword`, notes in `annote`; no collections
+ * - Zotero RDF: tags, notes and collections the way Zotero writes them
+ *
+ * Zotero RDF is read with the browser's DOMParser.
+ */
+
+import { ArxivSearchResult } from '@/utils/arxivSearch';
+import { getArxivPdfUrl, getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+import { EXPORT_FORMATS, ExportFormatInfo, toBibtex, toCslItems } from '@/utils/citationExport';
+import { LibraryCollection, LibraryPaper } from '@/types/library';
+
+export type LibraryFileFormat = 'bibtex' | 'csl-json' | 'zotero-rdf';
+
+export const LIBRARY_FILE_FORMATS: Record<LibraryFileFormat, ExportFormatInfo> = {
+  bibtex: EXPORT_FORMATS.bibtex,
+  'csl-json': EXPORT_FORMATS['csl-json'],
+  'zotero-rdf': { label: 'Zotero RDF', contentType: 'application/rdf+xml; charset=utf-8', extension: 'rdf' }
+};
+
+/** Paper read from a library file */
+export interface LibraryFileEntry {
+  // arXiv ID, with the version when the file names one
+  arxivId: string;
+  // Metadata as far as the file gives it
+  metadata: ArxivSearchResult;
+  tags: string[];
+  // Notes in markdown
+  notes: string;
+  // Names of the collections the entry is in
+  collections: string[];
+}
+
+export interface ParsedLibraryFile {
+  // Entries with an arXiv ID, one per paper
+  entries: LibraryFileEntry[];
+  // Titles of entries without an arXiv ID, which can't be saved
+  skipped: string[];
+}
+
+interface EntryFields {
+  // Values that may hold the arXiv ID, most specific first
+  identifiers: (string | undefined)[];
+  title: string;
+  authors: string[];
+  abstract?: string | undefined;
+  // Date as YYYY, YYYY-MM or YYYY-MM-DD
+  published?: string | undefined;
+  doi?: string | undefined;
+  journalRef?: string | undefined;
+  primaryCategory?: string | undefined;
+  tags: string[];
+  notes: string;
+  collections: string[];
+}
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const ZOTERO = 'http://www.zotero.org/namespaces/export#';
+const DC = 'http://purl.org/dc/elements/1.1/';
+const DCTERMS = 'http://purl.org/dc/terms/';
+const BIB = 'http://purl.org/net/biblio#';
+const FOAF = 'http://xmlns.com/foaf/0.1/';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// TeX accent commands and the combining marks they stand for
+const TEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  c: '\u0327', v: '\u030c', u: '\u0306', H: '\u030b', k: '\u0328'
+};
+const TEX_LETTERS: Record<string, string> = {
+  ss: '\u00df', o: '\u00f8', O: '\u00d8', aa: '\u00e5', AA: '\u00c5', ae: '\u00e6', AE: '\u00c6',
+  oe: '\u0153', OE: '\u0152', l: '\u0142', L: '\u0141'
+};
+
+/**
+ * Guess the format of a library file from its name, then its contents
+ * @param fileName - File name
+ * @param contents - File contents
+ * @returns Format, or null when the file is none of the supported formats
+ */
+export function detectLibraryFileFormat(fileName: string, contents: string): LibraryFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+  if (extension === 'json') return 'csl-json';
+  if (extension === 'rdf' || extension === 'xml') return 'zotero-rdf';
+
+  const start = contents.trimStart().charAt(0);
+  if (start === '[') return 'csl-json';
+  if (start === '<') return 'zotero-rdf';
+  if (/@\s*[a-z]+\s*[{(]/i.test(contents)) return 'bibtex';
+  return null;
+}
+
+/**
+ * Read a library file. Entries for the same paper are merged.
+ * @param contents - File contents
+ * @param format - File format
+ * @returns Entries with an arXiv ID, and the titles of those without one
+ * @throws Error when the file can't be read in that format
+ */
+export function parseLibraryFile(contents: string, format: LibraryFileFormat): ParsedLibraryFile {
+  const fields = format === 'bibtex'
+    ? readBibtex(contents)
+    : format === 'csl-json'
+      ? readCslJson(contents)
+      : readZoteroRdf(contents);
+
+  const entries = new Map<string, LibraryFileEntry>();
+  const skipped: string[] = [];
+  for (const entry of fields) {
+    const arxivId = findArxivId(entry.identifiers);
+    if (!arxivId) {
+      skipped.push(entry.title || 'Untitled');
+      continue;
+    }
+
+    const existing = entries.get(arxivId);
+    if (existing) {
+      existing.tags = Array.from(new Set([...existing.tags, ...entry.tags]));
+      existing.collections = Array.from(new Set([...existing.collections, ...entry.collections]));
+      existing.notes = [existing.notes, entry.notes].filter(Boolean).join('\n\n');
+    } else {
+      entries.set(arxivId, {
+        arxivId,
+        metadata: toMetadata(arxivId, entry),
+        tags: entry.tags,
+        notes: entry.notes,
+        collections: entry.collections
+      });
+    }
+  }
+  return { entries: [...entries.values()], skipped };
+}
+
+/**
+ * Write saved papers as a library file, with their tags, notes and
+ * collections where the format has room for them
+ * @param papers - Saved papers in the order they should be listed
+ * @param collections - Collections, to name the papers' collections
+ * @param format - File format
+ * @returns File contents
+ */
+export function exportLibraryFile(papers: LibraryPaper[], collections: LibraryCollection[], format: LibraryFileFormat): string {
+  // Papers are written under the ID they were saved with, so saved versions survive the round trip
+  const metadata = papers.map(paper => ({ ...paper.metadata, id: paper.arxivId }));
+  const collectionNames = papers.map(paper =>
+    paper.collectionIds.flatMap(id => collections.find(collection => collection.id === id)?.name ?? [])
+  );
+
+  switch (format) {
+    case 'bibtex':
+      return toBibtex(metadata, (_, index) => [
+        ['keywords', papers[index]!.tags.join(', ')],
+        ['groups', collectionNames[index]!.join(', ')],
+        ['annote', papers[index]!.notes]
+      ]);
+    case 'csl-json':
+      return JSON.stringify(toCslItems(metadata).map((item, index) => ({
+        ...item,
+        // Tags replace the arXiv categories the citation export lists as keywords
+        keyword: papers[index]!.tags.length > 0 ? papers[index]!.tags.join(', ') : undefined,
+        annote: papers[index]!.notes || undefined
+      })), null, 2);
+    case 'zotero-rdf':
+      return toZoteroRdf(papers, collections);
+  }
+}
+
+/**
+ * Find an arXiv ID among identifier-like values: eprints, URLs, DOIs and
+ * notes such as "arXiv:1706.03762 [cs.CL]". Each value is tried whole,
+ * then word by word.
+ * @param values - Values to search, most specific first
+ * @returns arXiv ID with its version, if any, or null
+ */
+function findArxivId(values: (string | undefined)[]): string | null {
+  for (const value of values) {
+    if (!value) continue;
+    for (const candidate of [value, ...value.split(/[\s,;]+/)]) {
+      const parsed = parseArxivId(candidate.replace(/^[([]+|[.,;:)\]]+$/g, ''));
+      if (parsed.isValid) return getVersionedArxivId(parsed);
+    }
+  }
+  return null;
+}
+
+/**
+ * Build paper metadata from what a library file says about it, for papers
+ * arXiv can't be asked about
+ */
+function toMetadata(arxivId: string, entry: EntryFields): ArxivSearchResult {
+  const { id } = parseArxivId(arxivId);
+  return {
+    id,
+    title: entry.title || 'Untitled',
+    authors: entry.authors,
+    abstract: entry.abstract ?? '',
+    published: entry.published ?? '',
+    updated: entry.published ?? '',
+    categories: entry.primaryCategory ? [entry.primaryCategory] : [],
+    primaryCategory: entry.primaryCategory,
+    pdfUrl: getArxivPdfUrl(id),
+    abstractUrl: `https://arxiv.org/abs/${id}`,
+    doi: entry.doi,
+    journalRef: entry.journalRef
+  };
+}
+
+/**
+ * Keep a DOI unless it is arXiv's own, which only repeats the arXiv ID
+ */
+function publishedDoi(doi: string | undefined): string | undefined {
+  const trimmed = doi?.replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:?\s*)/i, '').trim();
+  return trimmed && !/^10\.48550\//.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Keep a journal name unless it only says the paper is an arXiv preprint
+ */
+function publishedJournal(journal: string | undefined): string | undefined {
+  return journal && !/^arxiv\b/i.test(journal.trim()) ? journal.trim() : undefined;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(/[,;]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Format a date from its parts; months may be numbers or names
+ * @param parts - Year, month and day
+ * @returns Date as YYYY, YYYY-MM or YYYY-MM-DD, or undefined without a year
+ */
+function formatDate(parts: (number | string | undefined)[]): string | undefined {
+  const [year, month, day] = parts.map((part, index) => {
+    if (part === undefined || part === '') return undefined;
+    const monthName = index === 1 ? MONTHS.indexOf(String(part).slice(0, 3).toLowerCase()) : -1;
+    return monthName === -1 ? Number(part) : monthName + 1;
+  });
+  if (!year || Number.isNaN(year)) return undefined;
+  return [year, month, month && day]
+    .filter((part): part is number => Boolean(part) && !Number.isNaN(part))
+    .map((part, index) => (index === 0 ? String(part) : String(part).padStart(2, '0')))
+    .join('-');
+}
+
+// BibTeX
+
+interface BibtexEntry {
+  key: string;
+  fields: Map<string, string>;
+}
+
+/**
+ * Split a BibTeX file into entries and their raw field values. @comment,
+ * @preamble and @string blocks are skipped; string macros are not expanded.
+ * @throws Error when an entry is not closed
+ */
+function parseBibtexEntries(contents: string): BibtexEntry[] {
+  const entries: BibtexEntry[] = [];
+  const header = /@\s*([a-z]+)\s*([{(])/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(contents))) {
+    const type = match[1]!.toLowerCase();
+    const closing = match[2] === '{' ? '}' : ')';
+    let index = header.lastIndex;
+
+    if (type === 'comment' || type === 'preamble' || type === 'string') {
+      header.lastIndex = skipDelimited(contents, index - 1);
+      continue;
+    }
+
+    const keyEnd = /[,})]/g;
+    keyEnd.lastIndex = index;
+    if (!keyEnd.exec(contents)) throw new Error('Could not read the BibTeX file: an entry is not closed');
+    const key = contents.slice(index, keyEnd.lastIndex - 1).trim();
+    index = keyEnd.lastIndex - 1;
+
+    const fields = new Map<string, string>();
+    for (;;) {
+      while (index < contents.length && /[\s,]/.test(contents[index]!)) index++;
+      if (index >= contents.length) throw new Error(`Could not read the BibTeX file: entry "${key}" is not closed`);
+      if (contents[index] === closing) break;
+
+      const name = matchAt(/[^\s=,{}()"#]+/y, contents, index);
+      if (!name) throw new Error(`Could not read the BibTeX file: unexpected "${contents[index]}" in entry "${key}"`);
+      index += name.length;
+      while (/\s/.test(contents[index] ?? '')) index++;
+      if (contents[index] !== '=') throw new Error(`Could not read the BibTeX file: field "${name}" in entry "${key}" has no value`);
+      index++;
+
+      // A value is one or more braced, quoted or bare parts joined with #
+      const parts: string[] = [];
+      for (;;) {
+        while (/\s/.test(contents[index] ?? '')) index++;
+        const char = contents[index];
+        if (char === '{' || char === '"') {
+          const end = skipDelimited(contents, index);
+          parts.push(contents.slice(index + 1, end - 1));
+          index = end;
+        } else {
+          const bare = matchAt(/[^\s,#})]*/y, contents, index) ?? '';
+          const month = MONTHS.indexOf(bare.toLowerCase());
+          parts.push(month === -1 ? bare : String(month + 1));
+          index += bare.length;
+        }
+        while (/\s/.test(contents[index] ?? '')) index++;
+        if (contents[index] !== '#') break;
+        index++;
+      }
+      fields.set(name.toLowerCase(), parts.join(''));
+    }
+
+    header.lastIndex = index + 1;
+    entries.push({ key, fields });
+  }
+  return entries;
+}
+
+/**
+ * Match a sticky pattern at a position
+ * @returns Matched text, or undefined when the pattern doesn't match there
+ */
+function matchAt(pattern: RegExp, contents: string, index: number): string | undefined {
+  pattern.lastIndex = index;
+  return pattern.exec(contents)?.[0];
+}
+
+/**
+ * Find the end of a braced or quoted BibTeX value
+ * @param contents - File contents
+ * @param start - Index of the opening brace, parenthesis or quote
+ * @returns Index just past the closing delimiter
+ * @throws Error when the value is not closed
+ */
+function skipDelimited(contents: string, start: number): number {
+  const open = contents[start];
+  const close = open === '(' ? ')' : open === '"' ? '"' : '}';
+  let depth = 0;
+  for (let index = start + 1; index < contents.length; index++) {
+    const char = contents[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === close && depth === 0) {
+      return index + 1;
+    }
+  }
+  throw new Error('Could not read the BibTeX file: a value is not closed');
+}
+
+/**
+ * Turn a raw BibTeX value into text: TeX accents become letters, escaped
+ * characters are unescaped and grouping braces are dropped
+ * @param value - Raw value
+ * @param multiline - Keep line breaks, as in notes
+ */
+function cleanBibtexValue(value: string, multiline = false): string {
+  const text = value
+    .replace(/\{?\\([a-zA-Z]{1,2})\}?(?![a-zA-Z])/g, (match, name: string) => TEX_LETTERS[name] ?? match)
+    .replace(/\{?\\(["'`^~=.]|[cvuHk](?=[\s{]))\s*\{?([a-zA-Z])\}?\}?/g, (match, accent: string, letter: string) =>
+      `${letter}${TEX_ACCENTS[accent] ?? ''}`.normalize('NFC'))
+    .replace(/\\([&%#_$])/g, '$1')
+    .replace(/\\?[{}]/g, match => (match.length === 2 ? match : ''));
+  return multiline
+    ? text.split(/\r?\n/).map(line => line.trimEnd()).join('\n').trim()
+    : text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a BibTeX name list ("Vaswani, Ashish and Noam Shazeer") into names
+ * written given name first, leaving out "others"
+ */
+function splitBibtexAuthors(value: string): string[] {
+  const names: string[] = [];
+  const separator = /\s+and\s+/iy;
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (depth === 0 && matchAt(separator, value, index)) {
+      names.push(value.slice(start, index));
+      start = separator.lastIndex;
+      index = start - 1;
+    }
+  }
+  names.push(value.slice(start));
+
+  return names
+    .map(name => cleanBibtexValue(name))
+    .filter(name => name && name.toLowerCase() !== 'others')
+    .map(name => {
+      // "Family, Given" or "Family, Jr, Given"
+      const [family = '', ...rest] = name.split(',').map(part => part.trim());
+      if (rest.length === 0) return family;
+      const given = rest[rest.length - 1]!;
+      const suffix = rest.length > 1 ? rest[0] : '';
+      return [given, family, suffix].filter(Boolean).join(' ');
+    });
+}
+
+function readBibtex(contents: string): EntryFields[] {
+  return parseBibtexEntries(contents).map(({ fields }) => {
+    const field = (name: string, multiline = false) => {
+      const value = fields.get(name);
+      return value === undefined ? undefined : cleanBibtexValue(value, multiline) || undefined;
+    };
+
+    // An eprint from another archive (archivePrefix or biblatex's eprinttype) is not an arXiv ID
+    const archive = field('archiveprefix') ?? field('eprinttype');
+    const eprint = !archive || /^arxiv$/i.test(archive) ? field('eprint') : undefined;
+    const journal = field('journal') ?? field('journaltitle') ?? field('booktitle');
+
+    return {
+      identifiers: [eprint, field('arxivid'), field('url'), field('doi'), journal, field('number'), field('howpublished'), field('note')],
+      title: field('title') ?? '',
+      authors: splitBibtexAuthors(fields.get('author') ?? ''),
+      abstract: field('abstract'),
+      published: formatDate((field('date') ?? '').split('-')) ?? formatDate([field('year'), field('month')]),
+      doi: publishedDoi(field('doi')),
+      journalRef: publishedJournal(journal),
+      primaryCategory: field('primaryclass'),
+      tags: [...splitList(field('keywords')), ...splitList(field('mendeley-tags'))],
+      notes: [field('annote', true), field('comment', true)].filter(Boolean).join('\n\n'),
+      collections: [...splitList(field('groups')), ...splitList(field('mendeley-groups'))]
+    };
+  });
+}
+
+// CSL-JSON
+
+function readCslJson(contents: string): EntryFields[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(contents);
+  } catch {
+    throw new Error('Could not read the CSL-JSON file: it is not valid JSON');
+  }
+  if (!Array.isArray(items)) {
+    throw new Error('Could not read the CSL-JSON file: expected a list of items');
+  }
+
+  return items
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map(item => {
+      const text = (name: string) => {
+        const value = item[name];
+        return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+      };
+      const authors = Array.isArray(item.author) ? item.author as Record<string, unknown>[] : [];
+      const issued = item.issued as { 'date-parts'?: (number | string)[][]; raw?: string } | undefined;
+
+      return {
+        identifiers: [text('number'), text('URL'), text('DOI'), text('archive_location'), text('note'), text('id')],
+        title: text('title') ?? '',
+        authors: authors
+          .map(author => (typeof author.literal === 'string'
+            ? author.literal
+            : [author.given, author.family].filter(part => typeof part === 'string' && part).join(' ')))
+          .filter(Boolean),
+        abstract: text('abstract'),
+        published: formatDate(issued?.['date-parts']?.[0] ?? (issued?.raw ?? '').split('-')),
+        doi: publishedDoi(text('DOI')),
+        journalRef: publishedJournal(text('container-title')),
+        tags: splitList(text('keyword')),
+        notes: text('annote') ?? '',
+        collections: []
+      };
+    });
+}
+
+// Zotero RDF
+
+function childElements(element: Element, namespace: string, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.namespaceURI === namespace && child.localName === name);
+}
+
+function childText(element: Element, namespace: string, name: string): string | undefined {
+  return childElements(element, namespace, name)[0]?.textContent?.trim() || undefined;
+}
+
+/**
+ * Convert a Zotero note (HTML) to plain text, keeping paragraphs and line breaks
+ */
+function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/li>/gi, '\n')
+    .replace(/<\/(?:p|div|h[1-6]|blockquote|pre|ul|ol)>/gi, '\n\n');
+  const text = new DOMParser().parseFromString(marked, 'text/html').body.textContent ?? '';
+  return text.split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function readZoteroRdf(contents: string): EntryFields[] {
+  const document = new DOMParser().parseFromString(contents, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Could not read the Zotero RDF file: it is not valid XML');
+  }
+
+  const resources = new Map<string, Element>();
+  const topLevel = Array.from(document.documentElement.children);
+  for (const element of topLevel) {
+    const about = element.getAttributeNS(RDF, 'about');
+    if (about) resources.set(about, element);
+  }
+
+  // Collections list their items (and subcollections) by reference
+  const collectionsOf = new Map<string, string[]>();
+  for (const collection of topLevel.filter(element => element.namespaceURI === ZOTERO && element.localName === 'Collection')) {
+    const name = childText(collection, DC, 'title');
+    if (!name) continue;
+    for (const part of childElements(collection, DCTERMS, 'hasPart')) {
+      const resource = part.getAttributeNS(RDF, 'resource');
+      if (resource) collectionsOf.set(resource, [...(collectionsOf.get(resource) ?? []), name]);
+    }
+  }
+
+  return topLevel
+    .filter(element => {
+      const itemType = childText(element, ZOTERO, 'itemType');
+      return itemType && itemType !== 'note' && itemType !== 'attachment';
+    })
+    .map(item => {
+      const about = item.getAttributeNS(RDF, 'about') ?? undefined;
+      const identifiers = childElements(item, DC, 'identifier').map(identifier => identifier.textContent?.trim() ?? '');
+      const doi = identifiers.find(identifier => /^DOI\s/i.test(identifier))?.replace(/^DOI\s+/i, '');
+
+      const authors = childElements(item, BIB, 'authors').flatMap(list =>
+        Array.from(list.getElementsByTagNameNS(FOAF, 'Person')).map(person =>
+          [childText(person, FOAF, 'givenName'), childText(person, FOAF, 'surname')].filter(Boolean).join(' ')
+        )
+      );
+
+      const container = childElements(item, DCTERMS, 'isPartOf').map(part => {
+        const resource = part.getAttributeNS(RDF, 'resource');
+        return resource ? resources.get(resource) : part.firstElementChild ?? undefined;
+      })[0];
+
+      const notes = childElements(item, DCTERMS, 'isReferencedBy').flatMap(reference => {
+        const resource = reference.getAttributeNS(RDF, 'resource');
+        const memo = resource ? resources.get(resource) : reference.firstElementChild;
+        const html = memo?.localName === 'Memo' ? childText(memo, RDF, 'value') : undefined;
+        return html ? [htmlToText(html)] : [];
+      });
+
+      return {
+        identifiers: [...identifiers, about, childText(item, DC, 'description')],
+        title: childText(item, DC, 'title') ?? '',
+        authors,
+        abstract: childText(item, DCTERMS, 'abstract'),
+        published: formatDate((childText(item, DC, 'date') ?? '').slice(0, 10).split('-')),
+        doi: publishedDoi(doi),
+        journalRef: publishedJournal(container && childText(container, DC, 'title')),
+        tags: childElements(item, DC, 'subject').map(subject => subject.textContent?.trim() ?? '').filter(Boolean),
+        notes: notes.filter(Boolean).join('\n\n'),
+        collections: about ? collectionsOf.get(about) ?? [] : []
+      };
+    });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render notes as the HTML Zotero keeps notes in: a paragraph per block of
+ * lines, with line breaks inside paragraphs
+ */
+function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`)
+    .join('');
+}
+
+/**
+ * Render saved papers as a Zotero RDF file: preprints (or journal articles
+ * when they have a journal reference), notes as memos and collections
+ * listing their papers
+ */
+function toZoteroRdf(papers: LibraryPaper[], collections: LibraryCollection[]): string {
+  const items = toCslItems(papers.map(paper => ({ ...paper.metadata, id: paper.arxivId })));
+  const lines: string[] = [];
+  const memos: string[] = [];
+  const about = (paper: LibraryPaper) => `https://arxiv.org/abs/${paper.arxivId}`;
+
+  papers.forEach((paper, index) => {
+    const item = items[index]!;
+    const date = item.issued?.['date-parts'][0];
+    const noteId = `#note_${index + 1}`;
+
+    lines.push(`  <rdf:Description rdf:about="${escapeXml(about(paper))}">`);
+    lines.push(`    <z:itemType>${item['container-title'] ? 'journalArticle' : 'preprint'}</z:itemType>`);
+    if (item['container-title']) {
+      lines.push(`    <dcterms:isPartOf><bib:Journal><dc:title>${escapeXml(item['container-title'])}</dc:title></bib:Journal></dcterms:isPartOf>`);
+    } else {
+      lines.push('    <dc:publisher><foaf:Organization><foaf:name>arXiv</foaf:name></foaf:Organization></dc:publisher>');
+    }
+    if (item.author.length > 0) {
+      lines.push('    <bib:authors><rdf:Seq>');
+      for (const author of item.author) {
+        const given = author.given ? `<foaf:givenName>${escapeXml(author.given)}</foaf:givenName>` : '';
+        lines.push(`      <rdf:li><foaf:Person><foaf:surname>${escapeXml(author.family)}</foaf:surname>${given}</foaf:Person></rdf:li>`);
+      }
+      lines.push('    </rdf:Seq></bib:authors>');
+    }
+    if (paper.notes) {
+      lines.push(`    <dcterms:isReferencedBy rdf:resource="${noteId}"/>`);
+      memos.push(`  <bib:Memo rdf:about="${noteId}"><rdf:value>${escapeXml(textToHtml(paper.notes))}</rdf:value></bib:Memo>`);
+    }
+    for (const tag of paper.tags) {
+      lines.push(`    <dc:subject>${escapeXml(tag)}</dc:subject>`);
+    }
+    lines.push(`    <dc:title>${escapeXml(item.title)}</dc:title>`);
+    if (item.abstract) lines.push(`    <dcterms:abstract>${escapeXml(item.abstract)}</dcterms:abstract>`);
+    if (date) lines.push(`    <dc:date>${formatDate(date)}</dc:date>`);
+    if (item.DOI) lines.push(`    <dc:identifier>DOI ${escapeXml(item.DOI)}</dc:identifier>`);
+    lines.push(`    <dc:identifier><dcterms:URI><rdf:value>${escapeXml(about(paper))}</rdf:value></dcterms:URI></dc:identifier>`);
+    // Zotero's "Extra" field, where its arXiv translator keeps the ID
+    lines.push(`    <dc:description>arXiv:${escapeXml(paper.arxivId)}</dc:description>`);
+    lines.push('  </rdf:Description>');
+  });
+
+  const collectionLines = collections.flatMap((collection, index) => {
+    const members = papers.filter(paper => paper.collectionIds.includes(collection.id));
+    if (members.length === 0) return [];
+    return [
+      `  <z:Collection rdf:about="#collection_${index + 1}">`,
+      `    <dc:title>${escapeXml(collection.name)}</dc:title>`,
+      ...members.map(paper => `    <dcterms:hasPart rdf:resource="${escapeXml(about(paper))}"/>`),
+      '  </z:Collection>'
+    ];
+  });
+
+  return [
+    '<rdf:RDF',
+    ` xmlns:rdf="${RDF}"`,
+    ` xmlns:z="${ZOTERO}"`,
+    ` xmlns:dc="${DC}"`,
+    ` xmlns:dcterms="${DCTERMS}"`,
+    ` xmlns:bib="${BIB}"`,
+    ` xmlns:foaf="${FOAF}">`,
+    ...lines,
+    ...memos,
+    ...collectionLines,
+    '</rdf:RDF>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,181 @@
+/**
+ * Browser-side storage for the personal library.
+ *
+ * The library is stored through the LibraryStore interface. In the browser
+ * the default implementation keeps papers and collections in IndexedDB
+ * (database "asxiv-library"); where IndexedDB is unavailable, such as during
+ * server rendering, the library lives in memory.
+ */
+
+import { LibraryCollection, LibraryPaper } from '@/types/library';
+
+export interface LibraryStore {
+  /** List every saved paper */
+  listPapers(): Promise<LibraryPaper[]>;
+  /** Get a saved paper, or null when it is not in the library */
+  getPaper(arxivId: string): Promise<LibraryPaper | null>;
+  /** Add or replace a paper */
+  putPaper(paper: LibraryPaper): Promise<void>;
+  /** Delete a paper; returns false when it was not in the library */
+  deletePaper(arxivId: string): Promise<boolean>;
+  /** List every collection */
+  listCollections(): Promise<LibraryCollection[]>;
+  /** Add or replace a collection */
+  putCollection(collection: LibraryCollection): Promise<void>;
+  /** Delete a collection; returns false when it did not exist */
+  deleteCollection(id: string): Promise<boolean>;
+}
+
+const DATABASE_NAME = 'asxiv-library';
+const DATABASE_VERSION = 1;
+const PAPERS = 'papers';
+const COLLECTIONS = 'collections';
+
+/**
+ * In-memory library store, used in tests and where IndexedDB is unavailable
+ */
+export class MemoryLibraryStore implements LibraryStore {
+  private readonly papers = new Map<string, LibraryPaper>();
+  private readonly collections = new Map<string, LibraryCollection>();
+
+  async listPapers(): Promise<LibraryPaper[]> {
+    return [...this.papers.values()];
+  }
+
+  async getPaper(arxivId: string): Promise<LibraryPaper | null> {
+    return this.papers.get(arxivId) ?? null;
+  }
+
+  async putPaper(paper: LibraryPaper): Promise<void> {
+    this.papers.set(paper.arxivId, paper);
+  }
+
+  async deletePaper(arxivId: string): Promise<boolean> {
+    return this.papers.delete(arxivId);
+  }
+
+  async listCollections(): Promise<LibraryCollection[]> {
+    return [...this.collections.values()];
+  }
+
+  async putCollection(collection: LibraryCollection): Promise<void> {
+    this.collections.set(collection.id, collection);
+  }
+
+  async deleteCollection(id: string): Promise<boolean> {
+    return this.collections.delete(id);
+  }
+}
+
+/**
+ * Wait for an IndexedDB request
+ * @param request - Pending request
+ * @returns Request result
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed library store: one object store for papers, keyed by
+ * arXiv ID, and one for collections, keyed by ID
+ */
+export class IndexedDBLibraryStore implements LibraryStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  async listPapers(): Promise<LibraryPaper[]> {
+    return this.run(PAPERS, 'readonly', store => store.getAll() as IDBRequest<LibraryPaper[]>);
+  }
+
+  async getPaper(arxivId: string): Promise<LibraryPaper | null> {
+    const paper = await this.run(PAPERS, 'readonly', store => store.get(arxivId) as IDBRequest<LibraryPaper | undefined>);
+    return paper ?? null;
+  }
+
+  async putPaper(paper: LibraryPaper): Promise<void> {
+    await this.run(PAPERS, 'readwrite', store => store.put(paper));
+  }
+
+  async deletePaper(arxivId: string): Promise<boolean> {
+    return this.deleteKey(PAPERS, arxivId);
+  }
+
+  async listCollections(): Promise<LibraryCollection[]> {
+    return this.run(COLLECTIONS, 'readonly', store => store.getAll() as IDBRequest<LibraryCollection[]>);
+  }
+
+  async putCollection(collection: LibraryCollection): Promise<void> {
+    await this.run(COLLECTIONS, 'readwrite', store => store.put(collection));
+  }
+
+  async deleteCollection(id: string): Promise<boolean> {
+    return this.deleteKey(COLLECTIONS, id);
+  }
+
+  private async deleteKey(storeName: string, key: string): Promise<boolean> {
+    const database = await this.open();
+    const transaction = database.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    // Counting first in the same transaction tells whether there was anything to delete
+    const count = await toPromise(store.count(key));
+    if (count > 0) {
+      await toPromise(store.delete(key));
+    }
+    return count > 0;
+  }
+
+  private async run<T>(storeName: string, mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return toPromise(request(database.transaction(storeName, mode).objectStore(storeName)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PAPERS)) {
+          database.createObjectStore(PAPERS, { keyPath: 'arxivId' });
+        }
+        if (!database.objectStoreNames.contains(COLLECTIONS)) {
+          database.createObjectStore(COLLECTIONS, { keyPath: 'id' });
+        }
+      };
+      this.database = toPromise(request);
+      // Let a later call try again after a failure (e.g. storage disabled in private browsing)
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
+
+let storeOverride: LibraryStore | null = null;
+let defaultStore: LibraryStore | null = null;
+
+/**
+ * Use a specific library store instead of the IndexedDB default
+ * (e.g. a MemoryLibraryStore in tests). Pass null to restore the default.
+ * @param store - Store to use, or null
+ */
+export function setLibraryStore(store: LibraryStore | null): void {
+  storeOverride = store;
+}
+
+/**
+ * Get the configured library store
+ * @returns Library store
+ */
+export function getLibraryStore(): LibraryStore {
+  if (storeOverride) return storeOverride;
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB === 'undefined' ? new MemoryLibraryStore() : new IndexedDBLibraryStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import type { GoogleGenAI, File as GeminiFile, FileState } from '@google/genai';
+import { isDocumentHandleFresh } from '../documents';
+import { GeminiFileManager, classifyFiles, getPaperKey } from '../geminiFiles';
+
+const state = (value: string) => value as FileState;
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+const anHourAgo = () => new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+function createClient(files: GeminiFile[] = []) {
+  const client = {
+    files: {
+      list: jest.fn(async () => (async function* () {
+        yield* files;
+      })()),
+      upload: jest.fn(),
+      get: jest.fn(),
+      delete: jest.fn(async () => ({}))
+    }
+  };
+  return { client, manager: new GeminiFileManager(client as unknown as GoogleGenAI, { pollIntervalMs: 1, activeTimeoutMs: 50 }) };
+}
+
+const upload = {
+  data: new ArrayBuffer(8),
+  mimeType: 'application/pdf',
+  name: 'arxiv-1706-03762-1700000000000',
+  displayName: 'arXiv-1706.03762.pdf'
+};
+
+describe('isDocumentHandleFresh', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('should treat handles without an expiry as fresh', () => {
+    expect(isDocumentHandleFresh({}, now)).toBe(true);
+  });
+
+  it('should reject handles that expire within the safety margin', () => {
+    expect(isDocumentHandleFresh({ expiresAt: '2024-01-01T00:05:00Z' }, now)).toBe(false);
+    expect(isDocumentHandleFresh({ expiresAt: '2024-01-02T00:00:00Z' }, now)).toBe(true);
+  });
+});
+
+describe('getPaperKey', () => {
+  it('should strip the files/ prefix and upload timestamp', () => {
+    expect(getPaperKey('files/arxiv-1706-03762-1700000000000')).toBe('arxiv-1706-03762');
+    expect(getPaperKey('arxiv-cs-0211011-1700000000000')).toBe('arxiv-cs-0211011');
+  });
+
+  it('should ignore files not uploaded for a paper', () => {
+    expect(getPaperKey('files/abc123')).toBeNull();
+  });
+});
+
+describe('classifyFiles', () => {
+  it('should mark failed, expired, processing and duplicate files', () => {
+    const files = classifyFiles([
+      { name: 'files/arxiv-1-1700000000002', state: state('ACTIVE'), createTime: '2024-01-03T00:00:00Z', expirationTime: inOneDay() },
+      { name: 'files/arxiv-1-1700000000001', state: state('ACTIVE'), createTime: '2024-01-02T00:00:00Z', expirationTime: inOneDay() },
+      { name: 'files/arxiv-2-1700000000000', state: state('FAILED'), createTime: '2024-01-01T00:00:00Z' },
+      { name: 'files/arxiv-3-1700000000000', state: state('ACTIVE'), createTime: '2024-01-01T00:00:00Z', expirationTime: anHourAgo() },
+      { name: 'files/arxiv-4-1700000000000', state: state('PROCESSING'), createTime: '2024-01-01T00:00:00Z', expirationTime: inOneDay() }
+    ]);
+
+    expect(files.map((file) => file.status)).toEqual(['active', 'duplicate', 'failed', 'expired', 'processing']);
+    expect(files[0]?.paperKey).toBe('arxiv-1');
+  });
+});
+
+describe('GeminiFileManager', () => {
+  it('should wait for uploads to become ACTIVE', async () => {
+    const { client, manager } = createClient();
+    client.files.upload.mockResolvedValue({ name: 'files/arxiv-1706-03762-1700000000000', state: 'PROCESSING' });
+    client.files.get
+      .mockResolvedValueOnce({ name: 'files/arxiv-1706-03762-1700000000000', state: 'PROCESSING' })
+      .mockResolvedValueOnce({ name: 'files/arxiv-1706-03762-1700000000000', state: 'ACTIVE', uri: 'https://example.test/1' });
+
+    const file = await manager.upload(upload);
+
+    expect(file.uri).toBe('https://example.test/1');
+    expect(client.files.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when processing fails or never finishes', async () => {
+    const { client, manager } = createClient();
+    client.files.get.mockResolvedValue({ name: 'files/x', state: 'FAILED', error: { message: 'bad pdf' } });
+
+    await expect(manager.waitForActive({ name: 'files/x', state: state('PROCESSING') }))
+      .rejects.toThrow('File processing failed for files/x: bad pdf');
+
+    client.files.get.mockResolvedValue({ name: 'files/y', state: 'PROCESSING' });
+    await expect(manager.waitForActive({ name: 'files/y', state: state('PROCESSING') }))
+      .rejects.toThrow('Timed out waiting for file files/y to finish processing');
+  });
+
+  it('should share concurrent uploads of the same paper', async () => {
+    const { client, manager } = createClient();
+    client.files.upload.mockResolvedValue({ name: 'files/arxiv-1706-03762-1700000000000', state: 'ACTIVE' });
+
+    const [first, second] = await Promise.all([
+      manager.upload(upload),
+      manager.upload({ ...upload, name: 'arxiv-1706-03762-1700000000001' })
+    ]);
+
+    expect(client.files.upload).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('should only find usable files, newest first', async () => {
+    const { manager } = createClient([
+      { name: 'files/arxiv-1706-03762-1700000000003', state: state('PROCESSING'), createTime: '2024-01-04T00:00:00Z' },
+      { name: 'files/arxiv-1706-03762-1700000000002', state: state('ACTIVE'), createTime: '2024-01-03T00:00:00Z', expirationTime: anHourAgo() },
+      { name: 'files/arxiv-1706-03762-1700000000001', state: state('ACTIVE'), createTime: '2024-01-02T00:00:00Z', expirationTime: inOneDay() }
+    ]);
+
+    const file = await manager.findUsable('arxiv-1706-03762');
+
+    expect(file?.name).toBe('files/arxiv-1706-03762-1700000000001');
+    expect(await manager.findUsable('arxiv-2301-00001')).toBeNull();
+  });
+
+  it('should purge stale files and keep the newest copy of each paper', async () => {
+    const { client, manager } = createClient([
+      { name: 'files/arxiv-1-1700000000002', state: state('ACTIVE'), createTime: '2024-01-03T00:00:00Z', expirationTime: inOneDay() },
+      { name: 'files/arxiv-1-1700000000001', state: state('ACTIVE'), createTime: '2024-01-02T00:00:00Z', expirationTime: inOneDay() },
+      { name: 'files/arxiv-2-1700000000000', state: state('FAILED'), createTime: '2024-01-01T00:00:00Z' }
+    ]);
+
+    const deleted = await manager.purge('stale');
+
+    expect(deleted).toEqual(['files/arxiv-1-1700000000001', 'files/arxiv-2-1700000000000']);
+    expect(client.files.delete).toHaveBeenCalledWith({ name: 'files/arxiv-1-1700000000001' });
+    expect(await manager.purge('all')).toHaveLength(3);
+  });
+});
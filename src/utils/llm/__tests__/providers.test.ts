@@ -0,0 +1,354 @@
+/**
+ * @jest-environment node
+ */
+import { Type } from '@google/genai';
+import { getLLMConfigError, getLLMProvider, setLLMProvider } from '..';
+import { FakeLLMProvider, sampleFromSchema } from '../fakeProvider';
+import { GeminiProvider, toGeminiSchema } from '../geminiProvider';
+import { MAX_STORED_DOCUMENTS, OpenAICompatibleProvider, toJsonSchema } from '../openAICompatibleProvider';
+import { JsonSchema } from '../types';
+
+const mockGenerateContent = jest.fn();
+const mockGenerateContentStream = jest.fn();
+
+// The Gemini SDK is mocked only here, where the Gemini provider itself is under test
+jest.mock('@google/genai', () => ({
+  ...jest.requireActual('@google/genai'),
+  GoogleGenAI: jest.fn().mockImplementation(() => ({
+    models: { generateContent: mockGenerateContent, generateContentStream: mockGenerateContentStream },
+    files: { list: jest.fn(), upload: jest.fn(), get: jest.fn(), delete: jest.fn() }
+  }))
+}));
+
+jest.mock('@/utils/pdfText', () => ({
+  extractPdfPages: jest.fn(async () => ['First page text', 'Second page text']),
+  formatPagesAsText: jest.requireActual('@/utils/pdfText').formatPagesAsText
+}));
+
+const responseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    responseType: { type: 'string', enum: ['welcome', 'answer'] },
+    content: { type: 'string' },
+    suggestedQuestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['content', 'responseType'],
+  propertyOrdering: ['content', 'suggestedQuestions', 'responseType']
+};
+
+describe('LLM provider selection', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_PROVIDER;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setLLMProvider(null);
+  });
+
+  it('should default to Gemini and require an API key', () => {
+    delete process.env.GEMINI_API_KEY;
+    expect(getLLMConfigError()).toBe('GEMINI_API_KEY is not configured');
+
+    process.env.GEMINI_API_KEY = 'test-key';
+    expect(getLLMConfigError()).toBeNull();
+    expect(getLLMProvider()).toBeInstanceOf(GeminiProvider);
+  });
+
+  it('should apply the caller default model only when GEMINI_MODEL is unset', () => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    delete process.env.GEMINI_MODEL;
+    expect(getLLMProvider({ geminiDefaultModel: 'gemini-2.5-flash' }).model).toBe('gemini-2.5-flash');
+
+    process.env.GEMINI_MODEL = 'gemini-2.5-pro';
+    expect(getLLMProvider({ geminiDefaultModel: 'gemini-2.5-flash' }).model).toBe('gemini-2.5-pro');
+  });
+
+  it('should select the OpenAI-compatible provider without a Gemini key', () => {
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.OPENAI_MODEL = 'qwen2.5:7b';
+    delete process.env.GEMINI_API_KEY;
+
+    expect(getLLMConfigError()).toBeNull();
+    const provider = getLLMProvider();
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.model).toBe('qwen2.5:7b');
+  });
+
+  it('should report unsupported providers', () => {
+    process.env.LLM_PROVIDER = 'mystery';
+    expect(getLLMConfigError()).toContain('Unsupported LLM_PROVIDER: mystery');
+  });
+
+  it('should prefer an explicitly set provider', () => {
+    const fake = new FakeLLMProvider();
+    setLLMProvider(fake);
+    delete process.env.GEMINI_API_KEY;
+
+    expect(getLLMConfigError()).toBeNull();
+    expect(getLLMProvider()).toBe(fake);
+  });
+});
+
+describe('schema conversion', () => {
+  it('should convert schemas to Gemini format', () => {
+    const geminiSchema = toGeminiSchema(responseSchema);
+    expect(geminiSchema.propertyOrdering).toEqual(['content', 'suggestedQuestions', 'responseType']);
+    expect(geminiSchema.properties?.suggestedQuestions?.items?.type).toBe(Type.STRING);
+  });
+
+  it('should order JSON Schema properties by propertyOrdering', () => {
+    const jsonSchema = toJsonSchema(responseSchema);
+    expect(Object.keys(jsonSchema.properties as object)).toEqual(['content', 'suggestedQuestions', 'responseType']);
+    expect(jsonSchema).not.toHaveProperty('propertyOrdering');
+  });
+});
+
+describe('GeminiProvider', () => {
+  const document = { name: 'files/arxiv-1706-03762-1', uri: 'https://example.test/files/1', mimeType: 'application/pdf' };
+
+  beforeEach(() => {
+    mockGenerateContent.mockReset();
+    mockGenerateContentStream.mockReset();
+  });
+
+  it('should send the configured model, multi-turn contents and the response schema', async () => {
+    mockGenerateContent.mockResolvedValue({ text: '{"content":"Hi","responseType":"answer"}' });
+
+    const provider = new GeminiProvider({ apiKey: 'test-key', model: 'gemini-experimental' });
+    const text = await provider.generate({
+      messages: [
+        { role: 'user', parts: [{ document }, { text: 'What is this paper about?' }] },
+        { role: 'assistant', parts: [{ text: 'Attention.' }] },
+        { role: 'user', parts: [{ text: 'Tell me more' }] }
+      ],
+      responseSchema
+    });
+
+    expect(text).toBe('{"content":"Hi","responseType":"answer"}');
+    const [params] = mockGenerateContent.mock.calls[0];
+    expect(params.model).toBe('gemini-experimental');
+    expect(params.contents.map((content: { role: string }) => content.role)).toEqual(['user', 'model', 'user']);
+    expect(params.contents[0].parts[0]).toEqual({ fileData: { fileUri: document.uri, mimeType: 'application/pdf' } });
+    expect(params.contents[0].parts[1]).toEqual({ text: 'What is this paper about?' });
+    expect(params.config.responseMimeType).toBe('application/json');
+    expect(params.config.responseSchema.propertyOrdering).toEqual(['content', 'suggestedQuestions', 'responseType']);
+  });
+
+  it('should default the model and leave plain-text requests unconfigured', async () => {
+    mockGenerateContent.mockResolvedValue({});
+
+    const provider = new GeminiProvider({ apiKey: 'test-key' });
+    expect(await provider.generate({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] })).toBe('');
+
+    const [params] = mockGenerateContent.mock.calls[0];
+    expect(params.model).toBe('gemini-2.5-flash-lite');
+    expect(params.config).toEqual({});
+  });
+
+  it('should stream the text of each chunk', async () => {
+    mockGenerateContentStream.mockResolvedValue((async function* () {
+      yield { text: 'Hel' };
+      yield { text: 'lo' };
+    })());
+
+    const provider = new GeminiProvider({ apiKey: 'test-key' });
+    const chunks: string[] = [];
+    for await (const chunk of await provider.generateStream({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('should surface API errors', async () => {
+    mockGenerateContent.mockRejectedValue(new Error('models/missing is not found'));
+
+    const provider = new GeminiProvider({ apiKey: 'test-key', model: 'missing' });
+    await expect(provider.generate({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] }))
+      .rejects.toThrow('models/missing is not found');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('should post chat completions with a JSON schema response format', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '{"content":"Hi","responseType":"answer"}' } }] })
+    });
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8080/v1/',
+      apiKey: 'secret',
+      model: 'local-model'
+    });
+    const text = await provider.generate({
+      messages: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      responseSchema
+    });
+
+    expect(text).toBe('{"content":"Hi","responseType":"answer"}');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('local-model');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    expect(body.response_format.type).toBe('json_schema');
+  });
+
+  it('should inline uploaded documents as page-marked text', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'ok' } }] })
+    });
+
+    const provider = new OpenAICompatibleProvider();
+    const handle = await provider.uploadDocument({
+      data: new ArrayBuffer(8),
+      mimeType: 'application/pdf',
+      name: 'arxiv-1706-03762-1',
+      displayName: 'arXiv-1706.03762.pdf'
+    });
+
+    expect(await provider.findDocument('arxiv-1706-03762')).toEqual(handle);
+
+    await provider.generate({
+      messages: [{ role: 'user', parts: [{ document: handle }, { text: 'Summarize' }] }]
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content).toContain('--- Page 2 ---\nSecond page text');
+    expect(body.messages[0].content).toContain('Summarize');
+  });
+
+  it('should keep only the most recently used documents', async () => {
+    const provider = new OpenAICompatibleProvider();
+    const upload = (name: string) =>
+      provider.uploadDocument({ data: new ArrayBuffer(8), mimeType: 'application/pdf', name, displayName: name });
+
+    await upload('kept-first');
+    for (let i = 0; i < MAX_STORED_DOCUMENTS - 1; i++) {
+      await upload(`filler-${i}-`);
+    }
+    // Using the first document makes the oldest filler the least recently used
+    expect(await provider.findDocument('kept-first')).not.toBeNull();
+    await upload('newest');
+
+    expect(await provider.findDocument('kept-first')).not.toBeNull();
+    expect(await provider.findDocument('newest')).not.toBeNull();
+    expect(await provider.findDocument('filler-0-')).toBeNull();
+    expect(await provider.findDocument('filler-1-')).not.toBeNull();
+  });
+
+  it('should stream deltas from server-sent events', async () => {
+    const encoder = new TextEncoder();
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'
+    ];
+    fetchMock.mockResolvedValue({
+      ok: true,
+      body: new ReadableStream({
+        start(controller) {
+          events.forEach((event) => controller.enqueue(encoder.encode(event)));
+          controller.close();
+        }
+      })
+    });
+
+    const provider = new OpenAICompatibleProvider();
+    const chunks: string[] = [];
+    for await (const chunk of await provider.generateStream({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('should keep a final event without a newline and skip events that are not JSON', async () => {
+    const encoder = new TextEncoder();
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: keep-alive\n\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}'
+    ];
+    fetchMock.mockResolvedValue({
+      ok: true,
+      body: new ReadableStream({
+        start(controller) {
+          events.forEach((event) => controller.enqueue(encoder.encode(event)));
+          controller.close();
+        }
+      })
+    });
+
+    const provider = new OpenAICompatibleProvider();
+    const chunks: string[] = [];
+    for await (const chunk of await provider.generateStream({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('should give up on a server that does not answer in time', async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+
+    const provider = new OpenAICompatibleProvider({ timeoutMs: 10 });
+    await expect(provider.generate({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] }))
+      .rejects.toThrow(/timed out|aborted/i);
+  });
+
+  it('should surface server errors', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: async () => 'model "missing" not found'
+    });
+
+    const provider = new OpenAICompatibleProvider({ model: 'missing' });
+    await expect(provider.generate({ messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] }))
+      .rejects.toThrow('OpenAI-compatible API error: 404 Not Found model "missing" not found');
+  });
+});
+
+describe('FakeLLMProvider', () => {
+  it('should return scripted responses in order and record requests', async () => {
+    const provider = new FakeLLMProvider({ responses: ['first', () => 'second'] });
+    const request = { messages: [{ role: 'user' as const, parts: [{ text: 'Hi' }] }] };
+
+    expect(await provider.generate(request)).toBe('first');
+    expect(await provider.generate(request)).toBe('second');
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should derive a schema-conforming response when no script remains', async () => {
+    const provider = new FakeLLMProvider();
+    const text = await provider.generate({ messages: [], responseSchema });
+    expect(JSON.parse(text)).toEqual({ content: 'Fake response', responseType: 'welcome' });
+    expect(sampleFromSchema({ type: 'array', items: { type: 'string' } })).toEqual([]);
+  });
+
+  it('should stream the response in fixed-size chunks', async () => {
+    const provider = new FakeLLMProvider({ responses: ['abcdefgh'], chunkSize: 3 });
+    const chunks: string[] = [];
+    for await (const chunk of await provider.generateStream({ messages: [] })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(['abc', 'def', 'gh']);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Helpers for working with uploaded document handles
+ */
+
+import { DocumentHandle } from './types';
+
+// Handles this close to expiring are not handed out, so a request never
+// attaches a document that disappears while it is being answered
+const EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+/**
+ * Check whether a document handle is still usable
+ * @param handle - Document handle
+ * @param now - Current time in milliseconds
+ * @returns True if the handle has no expiry or expires after the safety margin
+ */
+export function isDocumentHandleFresh(handle: Pick<DocumentHandle, 'expiresAt'>, now: number = Date.now()): boolean {
+  if (!handle.expiresAt) return true;
+  const expiresAt = Date.parse(handle.expiresAt);
+  return Number.isNaN(expiresAt) || expiresAt - now > EXPIRY_MARGIN_MS;
+}
@@ -0,0 +1,106 @@
+/**
+ * Deterministic in-memory LLM provider for tests and offline development
+ */
+
+import { DocumentHandle, DocumentUpload, GenerateRequest, JsonSchema, LLMProvider } from './types';
+
+export type FakeResponse = string | ((request: GenerateRequest) => string);
+
+export interface FakeProviderConfig {
+  /** Responses returned in order; once exhausted a response is derived from the schema */
+  responses?: FakeResponse[];
+  /** Size of the chunks produced by generateStream */
+  chunkSize?: number;
+  /** Treat uploads like provider-hosted documents, which are cached locally */
+  hostsDocuments?: boolean;
+}
+
+/**
+ * Build a minimal value that satisfies a schema (required properties only)
+ * @param schema - Schema to satisfy
+ * @returns Placeholder value
+ */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const properties = schema.properties ?? {};
+      return Object.fromEntries(
+        (schema.required ?? [])
+          .filter((key) => properties[key])
+          .map((key) => [key, sampleFromSchema(properties[key] as JsonSchema)])
+      );
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return schema.enum?.[0] ?? 'Fake response';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+  }
+}
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-model';
+  readonly hostsDocuments: boolean;
+
+  /** Every request received, in order */
+  readonly requests: GenerateRequest[] = [];
+  /** Every document uploaded, in order */
+  readonly uploads: DocumentUpload[] = [];
+
+  private readonly responses: FakeResponse[];
+  private readonly chunkSize: number;
+  private readonly documents = new Map<string, DocumentHandle>();
+
+  constructor({ responses = [], chunkSize = 16, hostsDocuments = false }: FakeProviderConfig = {}) {
+    this.responses = [...responses];
+    this.chunkSize = chunkSize;
+    this.hostsDocuments = hostsDocuments;
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    this.requests.push(request);
+    const next = this.responses.shift();
+    if (next !== undefined) {
+      return typeof next === 'function' ? next(request) : next;
+    }
+    return request.responseSchema
+      ? JSON.stringify(sampleFromSchema(request.responseSchema))
+      : 'Fake response';
+  }
+
+  async generateStream(request: GenerateRequest): Promise<AsyncIterable<string>> {
+    const text = await this.generate(request);
+    const chunkSize = this.chunkSize;
+    return (async function* () {
+      for (let index = 0; index < text.length; index += chunkSize) {
+        yield text.slice(index, index + chunkSize);
+      }
+    })();
+  }
+
+  async uploadDocument(upload: DocumentUpload): Promise<DocumentHandle> {
+    this.uploads.push(upload);
+    const handle: DocumentHandle = {
+      name: upload.name,
+      uri: `fake://${upload.name}`,
+      mimeType: upload.mimeType,
+      displayName: upload.displayName
+    };
+    this.documents.set(upload.name, handle);
+    return handle;
+  }
+
+  async findDocument(namePrefix: string): Promise<DocumentHandle | null> {
+    for (const [name, handle] of this.documents) {
+      if (name.startsWith(namePrefix)) {
+        return handle;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Lifecycle management for files uploaded to the Gemini Files API.
+ *
+ * Uploaded files are processed asynchronously (PROCESSING → ACTIVE or FAILED)
+ * and deleted by Gemini 48 hours after upload. The manager waits for uploads
+ * to become ACTIVE, never hands out failed or expiring files, shares
+ * concurrent uploads of the same paper and finds stale copies to delete.
+ */
+
+import { GoogleGenAI, File as GeminiFile } from '@google/genai';
+import { isDocumentHandleFresh } from './documents';
+import { DocumentUpload } from './types';
+
+export type ManagedFileStatus = 'active' | 'processing' | 'failed' | 'expired' | 'duplicate';
+
+export interface ManagedFile {
+  /** File resource name (e.g. "files/arxiv-1706-03762-1700000000000") */
+  name: string;
+  displayName: string | null;
+  /** Paper the file was uploaded for, as returned by getArxivFileName */
+  paperKey: string | null;
+  state: string;
+  sizeBytes: number | null;
+  createTime: string | null;
+  expirationTime: string | null;
+  status: ManagedFileStatus;
+}
+
+export type PurgeScope = 'stale' | 'all';
+
+export interface GeminiFileManagerConfig {
+  /** How long to wait for an upload to become ACTIVE */
+  activeTimeoutMs?: number;
+  /** Delay between state checks while waiting */
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_ACTIVE_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+// Uploads in progress by paper key, shared by all managers in this process
+const inFlightUploads = new Map<string, Promise<GeminiFile>>();
+
+/**
+ * Derive the paper key from an uploaded file name
+ * @param name - File name, with or without the "files/" prefix
+ * @returns Paper key (e.g. "arxiv-1706-03762"), or null for files not uploaded by asXiv
+ */
+export function getPaperKey(name: string): string | null {
+  const id = name.replace(/^files\//, '');
+  if (!id.startsWith('arxiv-')) return null;
+  // Uploads are named `${paperKey}-${Date.now()}`
+  return id.replace(/-\d{10,}$/, '');
+}
+
+function getState(file: GeminiFile): string {
+  return file.state ?? 'STATE_UNSPECIFIED';
+}
+
+function isUsable(file: GeminiFile): boolean {
+  return getState(file) === 'ACTIVE' && isDocumentHandleFresh({ expiresAt: file.expirationTime });
+}
+
+function byNewest(a: GeminiFile, b: GeminiFile): number {
+  return (b.createTime ?? '').localeCompare(a.createTime ?? '');
+}
+
+/**
+ * Classify files: the newest usable file per paper is active, older usable
+ * copies are duplicates
+ * @param files - Files reported by the Files API
+ * @returns Files with their lifecycle status
+ */
+export function classifyFiles(files: GeminiFile[]): ManagedFile[] {
+  const newestByPaper = new Map<string, string>();
+  for (const file of [...files].sort(byNewest)) {
+    const paperKey = getPaperKey(file.name ?? '');
+    if (paperKey && isUsable(file) && !newestByPaper.has(paperKey)) {
+      newestByPaper.set(paperKey, file.name ?? '');
+    }
+  }
+
+  return files.map((file) => {
+    const name = file.name ?? '';
+    const paperKey = getPaperKey(name);
+    const state = getState(file);
+
+    let status: ManagedFileStatus;
+    if (state === 'FAILED') {
+      status = 'failed';
+    } else if (!isDocumentHandleFresh({ expiresAt: file.expirationTime })) {
+      status = 'expired';
+    } else if (state === 'PROCESSING') {
+      status = 'processing';
+    } else if (paperKey && newestByPaper.get(paperKey) !== name) {
+      status = 'duplicate';
+    } else {
+      status = 'active';
+    }
+
+    return {
+      name,
+      displayName: file.displayName ?? null,
+      paperKey,
+      state,
+      sizeBytes: file.sizeBytes ? Number(file.sizeBytes) : null,
+      createTime: file.createTime ?? null,
+      expirationTime: file.expirationTime ?? null,
+      status
+    };
+  });
+}
+
+export class GeminiFileManager {
+  private readonly activeTimeoutMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    private readonly client: GoogleGenAI,
+    { activeTimeoutMs = DEFAULT_ACTIVE_TIMEOUT_MS, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS }: GeminiFileManagerConfig = {}
+  ) {
+    this.activeTimeoutMs = activeTimeoutMs;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Upload a document and wait until it can be used. Concurrent uploads of
+   * the same paper share a single upload.
+   * @param upload - Document to upload
+   * @returns ACTIVE file
+   */
+  async upload(upload: DocumentUpload): Promise<GeminiFile> {
+    const paperKey = getPaperKey(upload.name) ?? upload.name;
+    const pending = inFlightUploads.get(paperKey);
+    if (pending) return pending;
+
+    const task = (async () => {
+      const file = await this.client.files.upload({
+        file: new Blob([upload.data], { type: upload.mimeType }),
+        config: {
+          mimeType: upload.mimeType,
+          name: upload.name,
+          displayName: upload.displayName
+        }
+      });
+      return this.waitForActive(file);
+    })();
+
+    inFlightUploads.set(paperKey, task);
+    try {
+      return await task;
+    } finally {
+      inFlightUploads.delete(paperKey);
+    }
+  }
+
+  /**
+   * Poll a file until processing finishes
+   * @param file - Uploaded file
+   * @returns The file once ACTIVE
+   */
+  async waitForActive(file: GeminiFile): Promise<GeminiFile> {
+    const deadline = Date.now() + this.activeTimeoutMs;
+    let current = file;
+
+    while (getState(current) === 'PROCESSING') {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for file ${file.name} to finish processing`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+      current = await this.client.files.get({ name: file.name ?? '' });
+    }
+
+    if (getState(current) === 'FAILED') {
+      throw new Error(`File processing failed for ${file.name}: ${current.error?.message ?? 'unknown error'}`);
+    }
+    return current;
+  }
+
+  /**
+   * Find the newest usable upload matching a name prefix. Files that are
+   * still processing, failed or about to expire are skipped.
+   * @param namePrefix - File name prefix (usually a paper key)
+   * @returns Matching file, or null
+   */
+  async findUsable(namePrefix: string): Promise<GeminiFile | null> {
+    const matches = (await this.listFiles()).filter((file) => {
+      // The API reports names with a "files/" prefix that uploads don't include
+      const fileName = file.name?.replace(/^files\//, '');
+      return fileName?.startsWith(namePrefix) || file.displayName?.includes(namePrefix);
+    });
+    return matches.filter(isUsable).sort(byNewest)[0] ?? null;
+  }
+
+  /**
+   * List every uploaded file with its lifecycle status
+   * @returns Managed files, newest first
+   */
+  async list(): Promise<ManagedFile[]> {
+    return classifyFiles((await this.listFiles()).sort(byNewest));
+  }
+
+  /**
+   * Delete files
+   * @param scope - "stale" deletes failed, expired and duplicate files; "all" deletes everything
+   * @returns Names of the deleted files
+   */
+  async purge(scope: PurgeScope = 'stale'): Promise<string[]> {
+    const files = await this.list();
+    const targets = scope === 'all'
+      ? files
+      : files.filter((file) => file.status === 'failed' || file.status === 'expired' || file.status === 'duplicate');
+
+    const deleted: string[] = [];
+    for (const file of targets) {
+      await this.delete(file.name);
+      deleted.push(file.name);
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete a single file
+   * @param name - File resource name
+   */
+  async delete(name: string): Promise<void> {
+    await this.client.files.delete({ name });
+  }
+
+  private async listFiles(): Promise<GeminiFile[]> {
+    const files: GeminiFile[] = [];
+    for await (const file of await this.client.files.list()) {
+      files.push(file);
+    }
+    return files;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Google Gemini implementation of the LLM provider interface
+ */
+
+import { GoogleGenAI, createPartFromUri, Type, Content, Part, Schema, File as GeminiFile } from '@google/genai';
+import { GeminiFileManager } from './geminiFiles';
+import { DocumentHandle, DocumentUpload, GenerateRequest, JsonSchema, LLMMessage, LLMProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-lite';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string | undefined;
+}
+
+/**
+ * Convert a provider-neutral JSON schema into Gemini's schema format
+ * @param schema - JSON schema
+ * @returns Equivalent Gemini schema
+ */
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  const geminiSchema: Schema = {
+    type: Type[schema.type.toUpperCase() as keyof typeof Type]
+  };
+
+  if (schema.description) geminiSchema.description = schema.description;
+  if (schema.enum) geminiSchema.enum = schema.enum;
+  if (schema.required) geminiSchema.required = schema.required;
+  if (schema.propertyOrdering) geminiSchema.propertyOrdering = schema.propertyOrdering;
+  if (schema.items) geminiSchema.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    geminiSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+
+  return geminiSchema;
+}
+
+function toGeminiContents(messages: LLMMessage[]): Content[] {
+  return messages.map((message) => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: message.parts.map((part): Part =>
+      'document' in part
+        ? createPartFromUri(part.document.uri, part.document.mimeType)
+        : { text: part.text }
+    )
+  }));
+}
+
+function toDocumentHandle(file: GeminiFile): DocumentHandle {
+  return {
+    name: file.name || '',
+    uri: file.uri || '',
+    mimeType: file.mimeType || 'application/pdf',
+    displayName: file.displayName,
+    expiresAt: file.expirationTime
+  };
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly hostsDocuments = true;
+  readonly model: string;
+  /** Lifecycle management for uploaded files */
+  readonly files: GeminiFileManager;
+  private readonly client: GoogleGenAI;
+
+  constructor({ apiKey, model }: GeminiProviderConfig) {
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = model || DEFAULT_GEMINI_MODEL;
+    this.files = new GeminiFileManager(this.client);
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const result = await this.client.models.generateContent(this.buildParams(request));
+    return result.text ?? '';
+  }
+
+  async generateStream(request: GenerateRequest): Promise<AsyncIterable<string>> {
+    const chunks = await this.client.models.generateContentStream(this.buildParams(request));
+    return (async function* () {
+      for await (const chunk of chunks) {
+        yield chunk.text ?? '';
+      }
+    })();
+  }
+
+  async uploadDocument(upload: DocumentUpload): Promise<DocumentHandle> {
+    return toDocumentHandle(await this.files.upload(upload));
+  }
+
+  async findDocument(namePrefix: string): Promise<DocumentHandle | null> {
+    const file = await this.files.findUsable(namePrefix);
+    return file ? toDocumentHandle(file) : null;
+  }
+
+  // The model is sent as configured; the Gemini API rejects models it doesn't know
+  private buildParams(request: GenerateRequest) {
+    return {
+      model: this.model,
+      contents: toGeminiContents(request.messages),
+      config: request.responseSchema
+        ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.responseSchema)
+          }
+        : {}
+    };
+  }
+}
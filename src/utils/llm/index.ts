@@ -0,0 +1,84 @@
+/**
+ * LLM provider selection.
+ *
+ * The provider is chosen with the LLM_PROVIDER environment variable:
+ * - "gemini" (default): Google Gemini, configured with GEMINI_API_KEY / GEMINI_MODEL
+ * - "openai": any OpenAI-compatible server, configured with OPENAI_BASE_URL /
+ *   OPENAI_API_KEY / OPENAI_MODEL (defaults target a local Ollama)
+ * - "fake": deterministic offline provider
+ */
+
+import { FakeLLMProvider } from './fakeProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { isDocumentHandleFresh } from './documents';
+
+export interface LLMProviderOptions {
+  /** Gemini model to use when GEMINI_MODEL is not set */
+  geminiDefaultModel?: string;
+}
+
+const SUPPORTED_PROVIDERS = ['gemini', 'openai', 'fake'];
+
+let providerOverride: LLMProvider | null = null;
+
+function getProviderName(): string {
+  return (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+}
+
+/**
+ * Use a specific provider instance instead of the configured one (e.g. a
+ * FakeLLMProvider in tests). Pass null to restore environment-based selection.
+ * @param provider - Provider to use, or null
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Check that the configured provider has everything it needs
+ * @returns A human readable configuration error, or null when configured
+ */
+export function getLLMConfigError(): string | null {
+  if (providerOverride) return null;
+
+  const providerName = getProviderName();
+  if (!SUPPORTED_PROVIDERS.includes(providerName)) {
+    return `Unsupported LLM_PROVIDER: ${providerName}. Valid options are: ${SUPPORTED_PROVIDERS.join(', ')}`;
+  }
+  if (providerName === 'gemini' && !process.env.GEMINI_API_KEY) {
+    return 'GEMINI_API_KEY is not configured';
+  }
+  return null;
+}
+
+/**
+ * Create the provider selected by the environment
+ * @param options - Per-caller defaults
+ * @returns LLM provider instance
+ */
+export function getLLMProvider(options: LLMProviderOptions = {}): LLMProvider {
+  if (providerOverride) return providerOverride;
+
+  const providerName = getProviderName();
+  switch (providerName) {
+    case 'gemini':
+      return new GeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || '',
+        model: process.env.GEMINI_MODEL || options.geminiDefaultModel
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL
+      });
+    case 'fake':
+      return new FakeLLMProvider();
+    default:
+      throw new Error(`Unsupported LLM_PROVIDER: ${providerName}`);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * OpenAI-compatible implementation of the LLM provider interface.
+ *
+ * Works with any server exposing `/v1/chat/completions` (OpenAI, Ollama,
+ * llama.cpp, vLLM, ...). Local models generally cannot read PDFs, so uploaded
+ * documents are converted to per-page text and inlined into the prompt.
+ */
+
+import { extractPdfPages, formatPagesAsText } from '@/utils/pdfText';
+import { DocumentHandle, DocumentUpload, GenerateRequest, JsonSchema, LLMMessage, LLMProvider } from './types';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+// Local models can take minutes to answer; the limit covers the whole response, streamed or not
+export const DEFAULT_OPENAI_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Documents whose extracted text is kept; the least recently used are dropped first
+export const MAX_STORED_DOCUMENTS = 50;
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl?: string | undefined;
+  apiKey?: string | undefined;
+  model?: string | undefined;
+  /** How long a request may take, including reading the response */
+  timeoutMs?: number | undefined;
+}
+
+interface StoredDocument {
+  handle: DocumentHandle;
+  pages: string[];
+}
+
+interface ChatCompletionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Extracted document text, shared by all provider instances in this process.
+// Insertion order is use order: the first entry is the least recently used.
+const documentStore = new Map<string, StoredDocument>();
+
+function storeDocument(name: string, stored: StoredDocument): void {
+  documentStore.delete(name);
+  documentStore.set(name, stored);
+  while (documentStore.size > MAX_STORED_DOCUMENTS) {
+    documentStore.delete(documentStore.keys().next().value as string);
+  }
+}
+
+function touchStoredDocument(name: string): StoredDocument | undefined {
+  const stored = documentStore.get(name);
+  if (stored) {
+    storeDocument(name, stored);
+  }
+  return stored;
+}
+
+/**
+ * Convert a provider-neutral schema into standard JSON Schema, using
+ * propertyOrdering to order the properties object
+ * @param schema - Provider-neutral schema
+ * @returns JSON Schema object
+ */
+export function toJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = { type: schema.type };
+
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.enum) jsonSchema.enum = schema.enum;
+  if (schema.required) jsonSchema.required = schema.required;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    const properties = schema.properties;
+    const keys = schema.propertyOrdering ?? Object.keys(properties);
+    const orderedKeys = [...keys, ...Object.keys(properties).filter((key) => !keys.includes(key))];
+    jsonSchema.properties = Object.fromEntries(
+      orderedKeys
+        .filter((key) => properties[key])
+        .map((key) => [key, toJsonSchema(properties[key] as JsonSchema)])
+    );
+  }
+
+  return jsonSchema;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  // Extracted text is only held in this process
+  readonly hostsDocuments = false;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private readonly timeoutMs: number;
+
+  constructor({ baseUrl, apiKey, model, timeoutMs = DEFAULT_OPENAI_TIMEOUT_MS }: OpenAICompatibleProviderConfig = {}) {
+    this.baseUrl = (baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model || DEFAULT_OPENAI_MODEL;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const response = await this.postChatCompletion(request, false);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+
+  async generateStream(request: GenerateRequest): Promise<AsyncIterable<string>> {
+    const response = await this.postChatCompletion(request, true);
+    if (!response.body) {
+      throw new Error('OpenAI-compatible API returned an empty stream');
+    }
+    return readServerSentDeltas(response.body);
+  }
+
+  async uploadDocument(upload: DocumentUpload): Promise<DocumentHandle> {
+    const pages = await extractPdfPages(upload.data);
+    const handle: DocumentHandle = {
+      name: upload.name,
+      uri: `local://${upload.name}`,
+      mimeType: upload.mimeType,
+      displayName: upload.displayName
+    };
+    storeDocument(upload.name, { handle, pages });
+    return handle;
+  }
+
+  async findDocument(namePrefix: string): Promise<DocumentHandle | null> {
+    for (const name of documentStore.keys()) {
+      if (name.startsWith(namePrefix)) {
+        return touchStoredDocument(name)?.handle ?? null;
+      }
+    }
+    return null;
+  }
+
+  private toChatMessages(messages: LLMMessage[]): ChatCompletionMessage[] {
+    return messages.map((message) => ({
+      role: message.role,
+      content: message.parts
+        .map((part) => {
+          if ('text' in part) return part.text;
+          const stored = touchStoredDocument(part.document.name);
+          if (!stored) {
+            throw new Error(`Document ${part.document.name} is not available; upload it again`);
+          }
+          return `Document: ${part.document.displayName || part.document.name}\n\n${formatPagesAsText(stored.pages)}`;
+        })
+        .join('\n\n')
+    }));
+  }
+
+  private async postChatCompletion(request: GenerateRequest, stream: boolean): Promise<Response> {
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages: this.toChatMessages(request.messages),
+      stream
+    };
+
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: 'response',
+          schema: toJsonSchema(request.responseSchema)
+        }
+      };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      // A stalled server fails the request instead of holding the chat open
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Read content deltas from an OpenAI-style server-sent event stream
+ * @param body - Response body stream
+ * @returns Async iterable of content chunks
+ */
+async function* readServerSentDeltas(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    // The last event may not end with a newline
+    buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const payload = trimmed.slice('data:'.length).trim();
+      if (payload === '[DONE]') return;
+
+      const delta = parseDelta(payload);
+      if (delta) {
+        yield delta;
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Read the content delta of one server-sent event
+ * @param payload - Event data
+ * @returns Content delta, or null for events without content or that are not JSON
+ */
+function parseDelta(payload: string): string | null {
+  try {
+    const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+    return typeof delta === 'string' && delta ? delta : null;
+  } catch {
+    return null;
+  }
+}
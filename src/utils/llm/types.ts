@@ -0,0 +1,94 @@
+/**
+ * Provider-neutral types for talking to large language models
+ */
+
+/** Author of a conversation turn */
+export type LLMRole = 'user' | 'assistant';
+
+/** Reference to a document that has been made available to a provider */
+export interface DocumentHandle {
+  /** Provider-side name of the document (e.g. "files/arxiv-1706-03762-123") */
+  name: string;
+  /** URI used to attach the document to a request */
+  uri: string;
+  mimeType: string;
+  /** Human readable name */
+  displayName?: string | undefined;
+  /** ISO timestamp after which the provider discards the document, if it does */
+  expiresAt?: string | undefined;
+}
+
+/** A piece of a conversation turn: plain text or an attached document */
+export type LLMPart = { text: string } | { document: DocumentHandle };
+
+export interface LLMMessage {
+  role: LLMRole;
+  parts: LLMPart[];
+}
+
+/**
+ * Subset of JSON Schema used to request structured output.
+ * `propertyOrdering` controls the order in which properties are generated
+ * where the provider supports it (streaming relies on `content` coming first).
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  propertyOrdering?: string[];
+}
+
+export interface GenerateRequest {
+  messages: LLMMessage[];
+  /** When provided the response is JSON text matching this schema */
+  responseSchema?: JsonSchema;
+}
+
+/** A document to upload to the provider */
+export interface DocumentUpload {
+  data: ArrayBuffer;
+  mimeType: string;
+  /** Unique name for the stored document */
+  name: string;
+  displayName: string;
+}
+
+export interface LLMProvider {
+  /** Provider identifier (e.g. "gemini", "openai") */
+  readonly name: string;
+  /** Model used for generation */
+  readonly model: string;
+  /**
+   * Whether uploaded documents are stored by the provider itself and stay
+   * usable across server restarts (until they expire)
+   */
+  readonly hostsDocuments: boolean;
+
+  /**
+   * Generate a complete response
+   * @returns Response text (JSON text when a responseSchema is given)
+   */
+  generate(request: GenerateRequest): Promise<string>;
+
+  /**
+   * Generate a response incrementally
+   * @returns Async iterable of text chunks in arrival order
+   */
+  generateStream(request: GenerateRequest): Promise<AsyncIterable<string>>;
+
+  /**
+   * Make a document available for use in later requests
+   * @returns Handle to attach to message parts
+   */
+  uploadDocument(upload: DocumentUpload): Promise<DocumentHandle>;
+
+  /**
+   * Find a previously uploaded document
+   * @param namePrefix - Name (or name prefix) used when uploading
+   * @returns The document handle, or null when not found
+   */
+  findDocument(namePrefix: string): Promise<DocumentHandle | null>;
+}
@@ -1,32 +1,143 @@
+import { PageCitation } from '@/types/chat';
+import { getPdfViewerUrl, getVersionedArxivId, parseArxivId } from '@/utils/arxivUtils';
+
+// New (1706.03762) or old (cs/0211011) format arXiv ID, optionally prefixed with "arXiv:"
+// and with a version (1706.03762v2)
+const PAPER_ID_SOURCE = String.raw`(?:arXiv:)?(?:\d{4}\.\d{4,5}|[A-Za-z-]+\/\d{7})(?:v\d+)?`;
+const PAGE_REFERENCE_ITEM_SOURCE = String.raw`(?:${PAPER_ID_SOURCE}\s+)?page\s+\d+`;
+
+/**
+ * Matches a parenthesized page reference group: (page N), (page N, page M) or,
+ * when several papers are discussed, (1706.03762 page N, 1810.04805 page M)
+ * Group 1 holds the reference list; split it with parsePageReferenceList.
+ */
+export const PAGE_REFERENCE_PATTERN = new RegExp(
+  String.raw`\(\s*(${PAGE_REFERENCE_ITEM_SOURCE}(?:\s*,\s*${PAGE_REFERENCE_ITEM_SOURCE})*)\s*\)`,
+  'g'
+);
+
+export interface PageReference {
+  /** Paper the page belongs to, or null for the paper being viewed */
+  arxivId: string | null;
+  page: number;
+}
+
+/**
+ * Split the reference list captured by PAGE_REFERENCE_PATTERN
+ * @param list - Reference list, e.g. "page 2, 1810.04805 page 6"
+ * @returns One reference per page, in order
+ */
+export function parsePageReferenceList(list: string): PageReference[] {
+  return list.split(/\s*,\s*/).map((item) => {
+    const match = item.trim().match(/^(?:(?:arXiv:)?(\S+)\s+)?page\s+(\d+)$/);
+    return { arxivId: match?.[1] ?? null, page: Number(match?.[2]) };
+  });
+}
+
+/**
+ * Format a page reference the way the model writes it
+ * @param reference - Page reference
+ * @returns "page N" or "1706.03762 page N"
+ */
+export function formatPageReference({ arxivId, page }: PageReference): string {
+  return arxivId ? `${arxivId} page ${page}` : `page ${page}`;
+}
+
 /**
  * Processes text content to convert page references into markdown links
- * Supports formats: (page N) and (page N, page M)
+ * Supports formats: (page N), (page N, page M) and (1706.03762 page N)
  * @param content - The text content to process
- * @returns The processed content with page references converted to markdown links
+ * @param citations - Optional verification results, one per page reference in order;
+ *   verified links point to #page-N-verified and unverified ones to #page-N-unverified
+ * @returns The processed content with page references converted to markdown links;
+ *   references to a named paper point to #paper-<arxivId>-page-N
  */
-export function processPageReferences(content: string): string {
-  return content.replace(/\(\s*page\s+(\d+(?:\s*,\s*page\s+\d+)*)\s*\)/g, (match, pageList: string) => {
-    const pages = pageList.split(/\s*,\s*page\s+/);
-    const links = pages.map((pageNum: string) => `[page ${pageNum.trim()}](#page-${pageNum.trim()})`);
+export function processPageReferences(content: string, citations?: PageCitation[]): string {
+  let citationIndex = 0;
+  return content.replace(PAGE_REFERENCE_PATTERN, (match, referenceList: string) => {
+    const links = parsePageReferenceList(referenceList).map((reference) => {
+      const citation = citations?.[citationIndex++];
+      const suffix = citation ? (citation.verified ? '-verified' : '-unverified') : '';
+      const paper = reference.arxivId ? `paper-${reference.arxivId}-` : '';
+      return `[${formatPageReference(reference)}](#${paper}page-${reference.page}${suffix})`;
+    });
     return `(${links.join(', ')})`;
   });
 }
 
+export interface PageLink {
+  page: string;
+  /** Paper the link opens, or null for the paper being viewed */
+  arxivId: string | null;
+  verification: 'verified' | 'unverified' | null;
+}
+
+/**
+ * Parse a page link produced by processPageReferences
+ * @param href - Link target
+ * @returns Page number, paper and verification state, or null for other links
+ */
+export function parsePageLink(href: string | undefined): PageLink | null {
+  const match = href?.match(/^#(?:paper-(.+?)-)?page-(\d+)(?:-(verified|unverified))?$/);
+  if (!match?.[2]) return null;
+  return {
+    page: match[2],
+    arxivId: match[1] ?? null,
+    verification: (match[3] as 'verified' | 'unverified' | undefined) ?? null
+  };
+}
+
+export interface PageNavigationOptions {
+  /** Phrase for the PDF.js viewer to find and highlight */
+  highlight?: string | undefined;
+  /** Paper to open; when omitted the viewer stays on the current paper */
+  arxivId?: string | null | undefined;
+}
+
 /**
  * Handles clicking on a page reference link by navigating the PDF viewer
  * @param pageNum - The page number to navigate to
  * @param doc - Optional document object for testing
+ * @param options - Optional phrase to highlight and paper to open
  */
-export function handlePageNavigation(pageNum: string, doc?: Document): void {
+export function handlePageNavigation(pageNum: string, doc?: Document, { highlight, arxivId }: PageNavigationOptions = {}): void {
   if (typeof window === 'undefined' && !doc) return;
   
   const documentObj = doc || document;
   const pdfFrame = documentObj.getElementById('pdfFrame') as HTMLIFrameElement;
   if (pdfFrame && pdfFrame.src) {
-    const baseUrl = pdfFrame.src.split('#')[0];
-    const newUrl = `${baseUrl}#page=${pageNum}`;
+    const baseUrl = arxivId ? getPdfViewerUrl(arxivId) : pdfFrame.src.split('#')[0];
+    const search = highlight?.trim() ? `&search=${encodeURIComponent(highlight.trim())}&phrase=true` : '';
+    const newUrl = `${baseUrl}#page=${pageNum}${search}`;
     pdfFrame.src = newUrl;
   } else {
     console.error('PDF frame not found or has no src');
   }
 }
+
+export interface ViewerLocation {
+  arxivId: string;
+  /** Page in the URL fragment, or null when the viewer opens at its default page */
+  page: number | null;
+}
+
+/**
+ * Read the paper and page back from a PDF viewer URL, the inverse of
+ * getPdfViewerUrl plus the #page=N fragment handlePageNavigation adds
+ * @param src - PDF viewer URL
+ * @returns Paper and page, or null when the URL doesn't show an arXiv paper
+ */
+export function getViewerLocation(src: string): ViewerLocation | null {
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    return null;
+  }
+
+  const parsed = parseArxivId(url.searchParams.get('file') ?? '');
+  if (!parsed.isValid) return null;
+
+  const page = Number(new URLSearchParams(url.hash.slice(1)).get('page'));
+  return { arxivId: getVersionedArxivId(parsed), page: Number.isInteger(page) && page > 0 ? page : null };
+}
@@ -0,0 +1,376 @@
+/**
+ * Local cache of arXiv PDFs and the provider documents uploaded from them.
+ *
+ * Entries are keyed by getArxivFileName(id). Each entry records the PDF and
+ * its extracted page text stored on disk and, per provider, the uploaded
+ * document handle with its expiry, so a chat request can attach a paper
+ * with a single map lookup instead of listing every file the provider
+ * holds. The index lives in memory (persisted to index.json) in
+ * least-recently-used order; the oldest entries are evicted once the size
+ * or entry limits are exceeded.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DocumentHandle, isDocumentHandleFresh } from '@/utils/llm';
+
+export interface PaperCacheEntry {
+  /** Cache key, as returned by getArxivFileName */
+  key: string;
+  arxivId: string;
+  /** Size of the PDF on disk in bytes; 0 when only document handles are cached */
+  size: number;
+  /** Size of the extracted page text on disk in bytes */
+  textSize?: number;
+  /** Uploaded document handles by provider name */
+  documents: Record<string, DocumentHandle>;
+  lastAccessedAt: string;
+}
+
+export interface PaperCacheOptions {
+  directory: string;
+  /** Maximum total size of cached PDFs and page text in bytes */
+  maxBytes?: number;
+  /** Maximum number of cached papers */
+  maxEntries?: number;
+}
+
+export interface PaperCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export const DEFAULT_PAPER_CACHE_MAX_MB = 500;
+export const DEFAULT_PAPER_CACHE_MAX_ENTRIES = 500;
+
+const INDEX_FILE_NAME = 'index.json';
+
+export class PaperCache {
+  readonly directory: string;
+  readonly maxBytes: number;
+  readonly maxEntries: number;
+
+  // Insertion order is access order: the first entry is the least recently used
+  private entries: Map<string, PaperCacheEntry> | null = null;
+  private loading: Promise<Map<string, PaperCacheEntry>> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor({
+    directory,
+    maxBytes = DEFAULT_PAPER_CACHE_MAX_MB * 1024 * 1024,
+    maxEntries = DEFAULT_PAPER_CACHE_MAX_ENTRIES
+  }: PaperCacheOptions) {
+    this.directory = directory;
+    this.maxBytes = maxBytes;
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  /**
+   * Read a cached PDF
+   * @param key - Cache key
+   * @returns PDF bytes, or null when the PDF is not cached
+   */
+  async getPdf(key: string): Promise<ArrayBuffer | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry || entry.size === 0) return null;
+
+    try {
+      const data = await fs.readFile(this.pdfPath(key));
+      this.touch(entries, entry);
+      await this.persist();
+      return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      // The file was removed behind our back; forget it
+      entry.size = 0;
+      await this.persist();
+      return null;
+    }
+  }
+
+  /**
+   * Store a PDF, evicting the least recently used papers if needed.
+   * PDFs larger than the whole cache are not stored.
+   * @param key - Cache key
+   * @param arxivId - arXiv ID the PDF belongs to
+   * @param data - PDF bytes
+   */
+  async putPdf(key: string, arxivId: string, data: ArrayBuffer): Promise<void> {
+    if (data.byteLength > this.maxBytes) return;
+
+    const entries = await this.load();
+    await fs.mkdir(this.directory, { recursive: true });
+    const tempPath = `${this.pdfPath(key)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, Buffer.from(data));
+    await fs.rename(tempPath, this.pdfPath(key));
+
+    const entry = this.getOrCreateEntry(entries, key, arxivId);
+    entry.size = data.byteLength;
+    this.touch(entries, entry);
+    await this.evict(entries, key);
+    await this.persist();
+  }
+
+  /**
+   * Read the cached per-page text of a paper
+   * @param key - Cache key
+   * @returns Text of each page, or null when not cached
+   */
+  async getPages(key: string): Promise<string[] | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry?.textSize) return null;
+
+    try {
+      const pages = JSON.parse(await fs.readFile(this.pagesPath(key), 'utf8')) as string[];
+      this.touch(entries, entry);
+      await this.persist();
+      return pages;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      entry.textSize = 0;
+      await this.persist();
+      return null;
+    }
+  }
+
+  /**
+   * Store the per-page text extracted from a paper's PDF
+   * @param key - Cache key
+   * @param arxivId - arXiv ID the text belongs to
+   * @param pages - Text of each page
+   */
+  async putPages(key: string, arxivId: string, pages: string[]): Promise<void> {
+    const contents = JSON.stringify(pages);
+    const textSize = Buffer.byteLength(contents);
+    if (textSize > this.maxBytes) return;
+
+    const entries = await this.load();
+    await fs.mkdir(this.directory, { recursive: true });
+    const tempPath = `${this.pagesPath(key)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, this.pagesPath(key));
+
+    const entry = this.getOrCreateEntry(entries, key, arxivId);
+    entry.textSize = textSize;
+    this.touch(entries, entry);
+    await this.evict(entries, key);
+    await this.persist();
+  }
+
+  /**
+   * Look up the document a provider created from a paper
+   * @param key - Cache key
+   * @param providerName - Provider the document was uploaded to
+   * @returns Document handle, or null when missing or about to expire
+   */
+  async getDocument(key: string, providerName: string): Promise<DocumentHandle | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    const handle = entry?.documents[providerName];
+    if (!entry || !handle) return null;
+
+    if (!isDocumentHandleFresh(handle)) {
+      delete entry.documents[providerName];
+      await this.persist();
+      return null;
+    }
+
+    this.touch(entries, entry);
+    await this.persist();
+    return handle;
+  }
+
+  /**
+   * Remember the document a provider created from a paper
+   * @param key - Cache key
+   * @param arxivId - arXiv ID the document belongs to
+   * @param providerName - Provider the document was uploaded to
+   * @param handle - Document handle
+   */
+  async setDocument(key: string, arxivId: string, providerName: string, handle: DocumentHandle): Promise<void> {
+    const entries = await this.load();
+    const entry = this.getOrCreateEntry(entries, key, arxivId);
+    entry.documents[providerName] = handle;
+    this.touch(entries, entry);
+    await this.evict(entries, key);
+    await this.persist();
+  }
+
+  /**
+   * Forget provider documents that no longer exist (e.g. after they were deleted)
+   * @param providerName - Provider the documents were uploaded to
+   * @param documentNames - Names of the deleted documents
+   */
+  async removeDocuments(providerName: string, documentNames: string[]): Promise<void> {
+    const entries = await this.load();
+    let changed = false;
+    for (const entry of entries.values()) {
+      const handle = entry.documents[providerName];
+      if (handle && documentNames.includes(handle.name)) {
+        delete entry.documents[providerName];
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Remove a paper and its PDF from the cache
+   * @param key - Cache key
+   * @returns False when the paper was not cached
+   */
+  async delete(key: string): Promise<boolean> {
+    const entries = await this.load();
+    if (!entries.has(key)) return false;
+    await this.remove(entries, key);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * List cached papers, least recently used first
+   * @returns Copies of the cache entries
+   */
+  async list(): Promise<PaperCacheEntry[]> {
+    const entries = await this.load();
+    return [...entries.values()].map((entry) => ({ ...entry, documents: { ...entry.documents } }));
+  }
+
+  /**
+   * Summarize cache usage
+   * @returns Entry count, total size on disk and limits
+   */
+  async stats(): Promise<PaperCacheStats> {
+    const entries = await this.load();
+    return {
+      entries: entries.size,
+      bytes: totalSize(entries),
+      maxBytes: this.maxBytes,
+      maxEntries: this.maxEntries
+    };
+  }
+
+  private pdfPath(key: string): string {
+    return path.join(this.directory, `${key}.pdf`);
+  }
+
+  private pagesPath(key: string): string {
+    return path.join(this.directory, `${key}.pages.json`);
+  }
+
+  private getOrCreateEntry(entries: Map<string, PaperCacheEntry>, key: string, arxivId: string): PaperCacheEntry {
+    const existing = entries.get(key);
+    if (existing) return existing;
+
+    const entry: PaperCacheEntry = { key, arxivId, size: 0, documents: {}, lastAccessedAt: new Date().toISOString() };
+    entries.set(key, entry);
+    return entry;
+  }
+
+  private touch(entries: Map<string, PaperCacheEntry>, entry: PaperCacheEntry): void {
+    entry.lastAccessedAt = new Date().toISOString();
+    entries.delete(entry.key);
+    entries.set(entry.key, entry);
+  }
+
+  private async evict(entries: Map<string, PaperCacheEntry>, keepKey: string): Promise<void> {
+    for (const key of [...entries.keys()]) {
+      if (totalSize(entries) <= this.maxBytes && entries.size <= this.maxEntries) break;
+      if (key !== keepKey) {
+        await this.remove(entries, key);
+      }
+    }
+  }
+
+  private async remove(entries: Map<string, PaperCacheEntry>, key: string): Promise<void> {
+    entries.delete(key);
+    await fs.rm(this.pdfPath(key), { force: true });
+    await fs.rm(this.pagesPath(key), { force: true });
+  }
+
+  private async load(): Promise<Map<string, PaperCacheEntry>> {
+    if (this.entries) return this.entries;
+    if (!this.loading) {
+      this.loading = this.readIndex().then((entries) => {
+        this.entries = entries;
+        return entries;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<Map<string, PaperCacheEntry>> {
+    try {
+      const contents = await fs.readFile(path.join(this.directory, INDEX_FILE_NAME), 'utf8');
+      const stored = JSON.parse(contents) as PaperCacheEntry[];
+      return new Map(stored.map((entry) => [entry.key, entry]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      // A corrupt index only costs re-downloads, so start over rather than fail
+      console.warn('Paper cache: ignoring unreadable index', error);
+      return new Map();
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize index writes so an older snapshot never overwrites a newer one
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        if (!this.entries) return;
+        await fs.mkdir(this.directory, { recursive: true });
+        const indexPath = path.join(this.directory, INDEX_FILE_NAME);
+        const tempPath = `${indexPath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify([...this.entries.values()], null, 2), 'utf8');
+        await fs.rename(tempPath, indexPath);
+      });
+    return this.pendingWrite;
+  }
+}
+
+function totalSize(entries: Map<string, PaperCacheEntry>): number {
+  let bytes = 0;
+  for (const entry of entries.values()) {
+    bytes += entry.size + (entry.textSize ?? 0);
+  }
+  return bytes;
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+let cacheOverride: PaperCache | null = null;
+let defaultCache: PaperCache | null = null;
+
+/**
+ * Use a specific paper cache instead of the configured one (e.g. one in a
+ * temporary directory in tests). Pass null to restore the default.
+ * @param cache - Cache to use, or null
+ */
+export function setPaperCache(cache: PaperCache | null): void {
+  cacheOverride = cache;
+}
+
+/**
+ * Get the configured paper cache
+ * @returns Paper cache
+ */
+export function getPaperCache(): PaperCache {
+  if (cacheOverride) return cacheOverride;
+  if (!defaultCache) {
+    defaultCache = new PaperCache({
+      directory: process.env.PAPER_CACHE_DIR || path.join(process.cwd(), '.data', 'paper-cache'),
+      maxBytes: readPositiveNumber(process.env.PAPER_CACHE_MAX_MB, DEFAULT_PAPER_CACHE_MAX_MB) * 1024 * 1024,
+      maxEntries: Math.floor(readPositiveNumber(process.env.PAPER_CACHE_MAX_ENTRIES, DEFAULT_PAPER_CACHE_MAX_ENTRIES))
+    });
+  }
+  return defaultCache;
+}
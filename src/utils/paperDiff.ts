@@ -0,0 +1,247 @@
+/**
+ * Comparison of the extracted text of two versions of a paper.
+ *
+ * Page text is split into sections at headings such as "3.1 Attention" or
+ * "References", and sections into paragraphs. Sections are aligned by their
+ * titles, ignoring numbering, and paragraphs within aligned sections by their
+ * text, ignoring case, punctuation and line breaks. Both alignments use a
+ * longest common subsequence, so reworded paragraphs show up as a removed
+ * paragraph followed by the added one.
+ */
+
+import { DiffStats, PaperDiff, ParagraphChange, SectionDiff } from '@/types/diff';
+import { normalizeQuoteText } from '@/utils/citationVerification';
+
+export interface PaperSection {
+  // Heading line as it appears in the PDF ("" for the text before the first heading)
+  heading: string;
+  paragraphs: string[];
+}
+
+export type SequenceEdit =
+  | { type: 'unchanged'; from: number; to: number }
+  | { type: 'removed'; from: number }
+  | { type: 'added'; to: number };
+
+const UNNUMBERED_HEADINGS = new Set([
+  'abstract', 'introduction', 'related work', 'background', 'discussion', 'conclusion', 'conclusions',
+  'acknowledgments', 'acknowledgements', 'references', 'bibliography', 'appendix', 'appendices'
+]);
+
+// Section numbers: "3", "3.2.1", "A.1" (appendices) or "IV." (roman)
+const SECTION_NUMBER_SOURCE = String.raw`(?:\d{1,2}(?:\.\d+)*\.?|[A-Z](?:\.\d+)+|[IVX]+\.)`;
+const NUMBERED_HEADING_PATTERN = new RegExp(String.raw`^${SECTION_NUMBER_SOURCE}\s+[A-Z][^.!?]*$`);
+const SECTION_NUMBER_PATTERN = new RegExp(String.raw`^${SECTION_NUMBER_SOURCE}\s+`);
+
+const MAX_HEADING_WORDS = 10;
+// The last line of a paragraph usually stops well short of the column width
+const SHORT_LINE_RATIO = 0.8;
+
+/**
+ * Check whether a line of extracted text is a section heading
+ * @param line - Trimmed line
+ * @returns True for numbered headings and common unnumbered ones
+ */
+export function isSectionHeading(line: string): boolean {
+  if (UNNUMBERED_HEADINGS.has(line.replace(/[.:]$/, '').toLowerCase())) {
+    return true;
+  }
+  return NUMBERED_HEADING_PATTERN.test(line) && line.split(/\s+/).length <= MAX_HEADING_WORDS + 1;
+}
+
+/**
+ * Join two lines of a paragraph, rejoining words hyphenated across the break
+ */
+function joinLines(text: string, line: string): string {
+  return /[a-z]-$/.test(text) && /^[a-z]/.test(line) ? `${text.slice(0, -1)}${line}` : `${text} ${line}`;
+}
+
+/**
+ * Group lines into paragraphs. Paragraphs end at blank lines and at short
+ * lines that end a sentence.
+ * @param lines - Trimmed lines, with "" for blank lines
+ * @returns Paragraph texts
+ */
+function splitParagraphs(lines: string[]): string[] {
+  const lengths = lines.filter(Boolean).map((line) => line.length).sort((a, b) => a - b);
+  const typicalLength = lengths[Math.floor(lengths.length / 2)] ?? 0;
+
+  const paragraphs: string[] = [];
+  let current = '';
+  const endParagraph = () => {
+    if (current) paragraphs.push(current);
+    current = '';
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      endParagraph();
+      continue;
+    }
+    current = current ? joinLines(current, line) : line;
+    if (/[.!?:]$/.test(line) && line.length < typicalLength * SHORT_LINE_RATIO) {
+      endParagraph();
+    }
+  }
+  endParagraph();
+  return paragraphs;
+}
+
+/**
+ * Split a paper's page text into sections of paragraphs
+ * @param pages - Extracted text of each page, in page order
+ * @returns Sections in order; text before the first heading has an empty heading
+ */
+export function splitSections(pages: string[]): PaperSection[] {
+  const sections: PaperSection[] = [];
+  let heading = '';
+  let lines: string[] = [];
+  const endSection = () => {
+    const paragraphs = splitParagraphs(lines);
+    if (heading || paragraphs.length > 0) {
+      sections.push({ heading, paragraphs });
+    }
+    lines = [];
+  };
+
+  for (const page of pages) {
+    for (const rawLine of page.split('\n')) {
+      const line = rawLine.replace(/\s+/g, ' ').trim();
+      // Page numbers
+      if (/^\d{1,4}$/.test(line)) continue;
+
+      if (isSectionHeading(line)) {
+        endSection();
+        heading = line;
+      } else {
+        lines.push(line);
+      }
+    }
+  }
+  endSection();
+  return sections;
+}
+
+/**
+ * Find the edits that turn one sequence into another, keeping the longest
+ * common subsequence unchanged. Within a run of changes, removals come first.
+ * @param from - Keys of the older sequence
+ * @param to - Keys of the newer sequence
+ * @returns Edits in order
+ */
+export function diffSequences(from: string[], to: string[]): SequenceEdit[] {
+  const width = to.length + 1;
+  // lengths[i * width + j] is the LCS length of from[i..] and to[j..]
+  const lengths = new Uint32Array((from.length + 1) * width);
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = from[i] === to[j]
+        ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+        : Math.max(lengths[(i + 1) * width + j] ?? 0, lengths[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const edits: SequenceEdit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      edits.push({ type: 'unchanged', from: i++, to: j++ });
+    } else if (j >= to.length || (i < from.length && (lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0))) {
+      edits.push({ type: 'removed', from: i++ });
+    } else {
+      edits.push({ type: 'added', to: j++ });
+    }
+  }
+  return edits;
+}
+
+function sectionKey(section: PaperSection): string {
+  return normalizeQuoteText(section.heading.replace(SECTION_NUMBER_PATTERN, ''));
+}
+
+function diffParagraphs(from: string[], to: string[]): ParagraphChange[] {
+  return diffSequences(from.map(normalizeQuoteText), to.map(normalizeQuoteText)).map((edit) => {
+    if (edit.type === 'added') return { type: 'added', text: to[edit.to] ?? '' };
+    return { type: edit.type, text: from[edit.from] ?? '' };
+  });
+}
+
+/**
+ * Compare the text of two versions of a paper
+ * @param fromPages - Page texts of the older version
+ * @param toPages - Page texts of the newer version
+ * @returns Aligned sections with their paragraph changes, and totals
+ */
+export function diffPaperVersions(fromPages: string[], toPages: string[]): PaperDiff {
+  const fromSections = splitSections(fromPages);
+  const toSections = splitSections(toPages);
+
+  const sections = diffSequences(fromSections.map(sectionKey), toSections.map(sectionKey)).map((edit): SectionDiff => {
+    if (edit.type === 'added') {
+      const section = toSections[edit.to] ?? { heading: '', paragraphs: [] };
+      return { heading: section.heading, status: 'added', paragraphs: section.paragraphs.map((text) => ({ type: 'added', text })) };
+    }
+
+    const fromSection = fromSections[edit.from] ?? { heading: '', paragraphs: [] };
+    if (edit.type === 'removed') {
+      return { heading: fromSection.heading, status: 'removed', paragraphs: fromSection.paragraphs.map((text) => ({ type: 'removed', text })) };
+    }
+
+    const toSection = toSections[edit.to] ?? { heading: '', paragraphs: [] };
+    const paragraphs = diffParagraphs(fromSection.paragraphs, toSection.paragraphs);
+    return {
+      heading: toSection.heading,
+      ...(fromSection.heading !== toSection.heading && { previousHeading: fromSection.heading }),
+      status: paragraphs.every((paragraph) => paragraph.type === 'unchanged') ? 'unchanged' : 'modified',
+      paragraphs
+    };
+  });
+
+  return { sections, stats: countChanges(sections) };
+}
+
+function countChanges(sections: SectionDiff[]): DiffStats {
+  const stats: DiffStats = {
+    addedParagraphs: 0,
+    removedParagraphs: 0,
+    unchangedParagraphs: 0,
+    addedSections: 0,
+    removedSections: 0,
+    modifiedSections: 0
+  };
+
+  for (const section of sections) {
+    if (section.status === 'added') stats.addedSections++;
+    if (section.status === 'removed') stats.removedSections++;
+    if (section.status === 'modified') stats.modifiedSections++;
+    for (const paragraph of section.paragraphs) {
+      if (paragraph.type === 'added') stats.addedParagraphs++;
+      if (paragraph.type === 'removed') stats.removedParagraphs++;
+      if (paragraph.type === 'unchanged') stats.unchangedParagraphs++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Render the changed sections as a unified diff for the model to summarize
+ * @param diff - Paper diff
+ * @param maxLength - Longest text to return; later changes are cut off
+ * @returns Text with a "## heading (status)" block per changed section and
+ *   "-" / "+" prefixed removed and added paragraphs
+ */
+export function formatDiffAsText(diff: PaperDiff, maxLength: number): string {
+  const blocks = diff.sections
+    .filter((section) => section.status !== 'unchanged')
+    .map((section) => {
+      const heading = section.previousHeading !== undefined ? `${section.previousHeading} → ${section.heading}` : section.heading;
+      const changes = section.paragraphs
+        .filter((paragraph) => paragraph.type !== 'unchanged')
+        .map((paragraph) => `${paragraph.type === 'added' ? '+' : '-'} ${paragraph.text}`);
+      return [`## ${heading || 'Front matter'} (${section.status})`, ...changes].join('\n');
+    });
+
+  const text = blocks.join('\n\n');
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n[…remaining changes cut off]` : text;
+}
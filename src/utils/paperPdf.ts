@@ -0,0 +1,70 @@
+/**
+ * Downloading arXiv PDFs and extracting their page text, through the local
+ * paper cache
+ */
+
+import { getArxivClient } from '@/utils/arxivClient';
+import { getArxivFileName, getArxivPdfUrl } from '@/utils/arxivUtils';
+import { getPaperCache } from '@/utils/paperCache';
+import { extractPdfPages } from '@/utils/pdfText';
+
+/**
+ * Download a paper's PDF from arXiv and add it to the paper cache
+ * @param arxivId - Normalized arXiv ID, optionally with a version (e.g., "1706.03762v2")
+ * @returns PDF bytes, or null when arXiv has no PDF for the paper
+ */
+export async function downloadPaperPdf(arxivId: string): Promise<ArrayBuffer | null> {
+  const pdfBuffer = await getArxivClient().fetch(getArxivPdfUrl(arxivId), async (pdfResponse) => {
+    if (!pdfResponse.ok) {
+      if (pdfResponse.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to download PDF: ${pdfResponse.status} ${pdfResponse.statusText}`);
+    }
+    return pdfResponse.arrayBuffer();
+  });
+  if (!pdfBuffer) {
+    return null;
+  }
+
+  // Validate that it's actually a PDF
+  const pdfHeader = Buffer.from(pdfBuffer.slice(0, 4)).toString();
+
+  if (!pdfHeader.startsWith('%PDF')) {
+    throw new Error('Downloaded content is not a valid PDF file');
+  }
+
+  // Check file size
+  const fileSizeMB = pdfBuffer.byteLength / (1024 * 1024);
+
+  if (fileSizeMB > 2000) { // Files API has higher limits
+    throw new Error(`PDF file too large (${fileSizeMB.toFixed(2)} MB). Maximum size is ~2GB`);
+  }
+
+  await getPaperCache().putPdf(getArxivFileName(arxivId), arxivId, pdfBuffer);
+  return pdfBuffer;
+}
+
+/**
+ * Get the text of each page of a paper, extracting it from the PDF if needed
+ * @param arxivId - Normalized arXiv ID, optionally with a version (e.g., "1706.03762v2")
+ * @returns Page texts, or null when arXiv has no PDF for the paper
+ */
+export async function getPaperPages(arxivId: string): Promise<string[] | null> {
+  const baseFileName = getArxivFileName(arxivId);
+  const cache = getPaperCache();
+
+  const cachedPages = await cache.getPages(baseFileName);
+  if (cachedPages) {
+    return cachedPages;
+  }
+
+  const pdfBuffer = await cache.getPdf(baseFileName) ?? await downloadPaperPdf(arxivId);
+  if (!pdfBuffer) {
+    return null;
+  }
+
+  const pages = await extractPdfPages(pdfBuffer);
+  await cache.putPages(baseFileName, arxivId, pages);
+  return pages;
+}
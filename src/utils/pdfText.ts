@@ -0,0 +1,31 @@
+/**
+ * PDF text extraction utilities
+ */
+
+/**
+ * Extract the text of each page of a PDF
+ * @param data - Raw PDF bytes
+ * @returns Array of page texts (index 0 is page 1)
+ */
+export async function extractPdfPages(data: ArrayBuffer | Uint8Array): Promise<string[]> {
+  // Loaded lazily: pdf.js is large and only needed on the server when a PDF is processed
+  const { extractText, getDocumentProxy } = await import('unpdf');
+
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const bytes = data instanceof Uint8Array ? data.slice() : new Uint8Array(data.slice(0));
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text;
+}
+
+/**
+ * Render extracted pages as plain text with page markers, for models that
+ * cannot read PDFs directly
+ * @param pages - Page texts (index 0 is page 1)
+ * @returns Text with a "--- Page N ---" header before each page
+ */
+export function formatPagesAsText(pages: string[]): string {
+  return pages
+    .map((pageText, index) => `--- Page ${index + 1} ---\n${pageText.trim()}`)
+    .join('\n\n');
+}
@@ -0,0 +1,126 @@
+/**
+ * Chat personas: who the assistant is for a paper, built from the paper's
+ * arXiv categories.
+ *
+ * Persona templates are registered by category ("cs.CL"), archive
+ * ("cond-mat") or group ("physics") code; the most specific template for a
+ * category wins. Every archive has a default template from the taxonomy, and
+ * registerPersonaTemplate adds or replaces templates, e.g. to give cs.CL
+ * papers a computational linguist.
+ */
+
+import { getArxivArchive, getArxivCategory, getArxivTaxonomy } from '@/constants/arxivCategories';
+
+export interface PersonaTemplate {
+  /** Field of expertise, e.g. "Computer Science" */
+  field: string;
+  /** Who the assistant is; defaults to "<field> professor" */
+  role?: string | undefined;
+  /** What the assistant focuses on, e.g. "algorithms, computational methods, ..." */
+  focus: string;
+}
+
+// Most cross-listed categories and extra fields of expertise named in a persona
+const MAX_CROSS_LISTS = 3;
+const MAX_EXTRA_FIELDS = 2;
+
+/**
+ * Default templates: one per archive, from the expertise the taxonomy
+ * records for it
+ * @returns Templates keyed by archive code
+ */
+function getDefaultTemplates(): Map<string, PersonaTemplate> {
+  const defaults = getArxivTaxonomy()
+    .flatMap(group => group.archives)
+    .map((archive): [string, PersonaTemplate] => [
+      archive.code,
+      { field: archive.name, role: archive.role, focus: archive.expertise }
+    ]);
+  return new Map(defaults);
+}
+
+let templates = getDefaultTemplates();
+
+/**
+ * Add or replace the persona template for a category, archive or group
+ * @param code - Category, archive or group code, e.g. "cs.CL", "cs" or "physics"
+ * @param template - Persona template
+ */
+export function registerPersonaTemplate(code: string, template: PersonaTemplate): void {
+  templates.set(code, template);
+}
+
+/**
+ * Drop registered templates and go back to the defaults
+ */
+export function resetPersonaTemplates(): void {
+  templates = getDefaultTemplates();
+}
+
+/**
+ * Find the most specific template for a category
+ * @param code - Category or archive code, e.g. "cs.CL", "hep-th" or a legacy archive such as "alg-geom"
+ * @returns Template, or null when neither the code nor its archive or group has one
+ */
+export function getPersonaTemplate(code: string): PersonaTemplate | null {
+  const category = getArxivCategory(code);
+  const archive = getArxivArchive(category?.archive ?? code);
+  const keys = [code, category?.code, archive?.code, archive?.group];
+
+  for (const key of keys) {
+    const template = key ? templates.get(key) : undefined;
+    if (template) return template;
+  }
+  return null;
+}
+
+/**
+ * Build the persona for a paper from its categories: the primary category
+ * decides who the assistant is, and cross-listed categories from other
+ * fields add to its expertise (e.g. cs.CL + stat.ML)
+ * @param categories - Category codes, primary category first
+ * @returns Persona prompt fragment, or null when no category has a template
+ */
+export function buildPersona(categories: string[]): string | null {
+  const codes = Array.from(new Set(categories));
+  const [primaryCode, ...crossLists] = codes;
+  const primary = primaryCode ? getPersonaTemplate(primaryCode) : null;
+  if (!primaryCode || !primary) {
+    return null;
+  }
+
+  const extraFields: PersonaTemplate[] = [];
+  for (const code of crossLists) {
+    const template = getPersonaTemplate(code);
+    if (template && template !== primary && !extraFields.includes(template) && extraFields.length < MAX_EXTRA_FIELDS) {
+      extraFields.push(template);
+    }
+  }
+
+  const describe = (code: string) => {
+    const category = getArxivCategory(code);
+    return category ? `${category.name} (${category.code})` : code;
+  };
+  // Archive-level codes such as "cs" say nothing beyond the role
+  const primaryCategory = getArxivCategory(primaryCode);
+  const filing = [
+    ...(primaryCategory ? [`which is filed under ${describe(primaryCode)}`] : []),
+    ...(crossLists.length > 0 ? [`cross-listed in ${joinList(crossLists.slice(0, MAX_CROSS_LISTS).map(describe))}`] : [])
+  ];
+
+  const role = primary.role ?? `${primary.field} professor`;
+  const background = extraFields.length > 0 ? ` with a background in ${joinList(extraFields.map(template => template.field))}` : '';
+  const subject = filing.length > 0 ? `, ${filing.join(' and ')}` : '';
+  const focus = [primary, ...extraFields].map(template => template.focus.replace(/\.$/, ''));
+
+  return `You are a ${role}${background} helping a student understand this research paper${subject}. Focus on ${focus.join('; and on ')}.`;
+}
+
+/**
+ * Join items as "a", "a and b" or "a, b and c"
+ * @param items - Items to join
+ * @returns Joined text
+ */
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
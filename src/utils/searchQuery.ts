@@ -0,0 +1,323 @@
+/**
+ * Search query language: parses what users type in the search box into a
+ * query tree, and writes the tree back out as user syntax or as arXiv's
+ * search_query parameter.
+ *
+ *   au:hinton OR au:lecun AND ti:"deep learning" -cat:stat.ML
+ *
+ * Terms are words or "quoted phrases", optionally prefixed with a field
+ * (ti:, au:, abs:, co:, jr:, cat:, rn:, id:, all:, or title:, author: ...).
+ * Terms next to each other are ANDed and -term excludes a term (ANDNOT).
+ * AND and ANDNOT bind tighter than OR; parentheses group.
+ */
+
+export type SearchField = 'all' | 'ti' | 'au' | 'abs' | 'co' | 'jr' | 'cat' | 'rn' | 'id';
+
+export interface SearchTerm {
+  type: 'term';
+  field: SearchField;
+  value: string;
+  // Quoted in the query: the words must appear together
+  phrase: boolean;
+}
+
+export interface SearchOperation {
+  type: 'and' | 'or' | 'andnot';
+  left: SearchQueryNode;
+  right: SearchQueryNode;
+}
+
+export type SearchQueryNode = SearchTerm | SearchOperation;
+
+export interface SearchQueryFields {
+  query?: string | undefined;
+  author?: string | undefined;
+  title?: string | undefined;
+  abstract?: string | undefined;
+  comment?: string | undefined;
+  journal?: string | undefined;
+  reportNumber?: string | undefined;
+  category?: string | undefined;
+}
+
+const FIELD_NAMES: Record<string, SearchField> = {
+  all: 'all',
+  ti: 'ti',
+  title: 'ti',
+  au: 'au',
+  author: 'au',
+  abs: 'abs',
+  abstract: 'abs',
+  co: 'co',
+  comment: 'co',
+  jr: 'jr',
+  journal: 'jr',
+  cat: 'cat',
+  category: 'cat',
+  rn: 'rn',
+  id: 'id'
+};
+
+const OPERATORS = ['AND', 'OR', 'ANDNOT'] as const;
+type Operator = typeof OPERATORS[number];
+
+type Token =
+  | { kind: 'term'; term: SearchTerm }
+  | { kind: 'operator'; operator: Operator }
+  | { kind: 'minus' }
+  | { kind: 'open' }
+  | { kind: 'close' };
+
+// Values that can be written without quotes in either syntax
+const BARE_VALUE = /^[\p{L}\p{N}][\p{L}\p{N}._'*?+-]*$/u;
+
+/**
+ * Split a query into terms, operators and parentheses
+ * @param text - Query as typed
+ * @param defaultField - Field for terms without a prefix
+ * @returns Tokens in order
+ */
+function tokenize(text: string, defaultField: SearchField): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const char = text[position] as string;
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open' });
+      position++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close' });
+      position++;
+    } else if (char === '-' && /[^\s)]/.test(text[position + 1] ?? ' ')) {
+      tokens.push({ kind: 'minus' });
+      position++;
+    } else {
+      const prefix = text.slice(position).match(/^([a-z]+):/i);
+      const field = prefix?.[1] ? FIELD_NAMES[prefix[1].toLowerCase()] : undefined;
+      if (prefix && field) {
+        position += prefix[0].length;
+      }
+
+      if (text[position] === '"') {
+        const end = text.indexOf('"', position + 1);
+        if (end === -1) {
+          throw new Error('Unclosed quote in search query');
+        }
+        const value = text.slice(position + 1, end).replace(/\s+/g, ' ').trim();
+        position = end + 1;
+        if (value) {
+          tokens.push({ kind: 'term', term: { type: 'term', field: field ?? defaultField, value, phrase: true } });
+        }
+        continue;
+      }
+
+      const word = text.slice(position).match(/^[^\s()"]+/)?.[0] ?? '';
+      if (!word) {
+        throw new Error(`Missing value after ${prefix?.[0] ?? 'field'} in search query`);
+      }
+      position += word.length;
+
+      if (!field && (OPERATORS as readonly string[]).includes(word)) {
+        tokens.push({ kind: 'operator', operator: word as Operator });
+      } else {
+        tokens.push({ kind: 'term', term: { type: 'term', field: field ?? defaultField, value: word, phrase: false } });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query typed by a user
+ * @param text - Query, e.g. `au:hinton OR au:lecun AND ti:"deep learning" -cat:stat.ML`
+ * @param defaultField - Field for terms without a prefix
+ * @returns Query tree, or null if the query is empty
+ * @throws Error describing the problem when the query is malformed
+ */
+export function parseSearchQuery(text: string, defaultField: SearchField = 'all'): SearchQueryNode | null {
+  const tokens = tokenize(text, defaultField);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+
+  const parsePrimary = (): SearchQueryNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new Error('Search query ends unexpectedly');
+    }
+    if (token.kind === 'term') {
+      return token.term;
+    }
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (peek()?.kind !== 'close') {
+        throw new Error('Missing closing parenthesis in search query');
+      }
+      index++;
+      return node;
+    }
+    if (token.kind === 'close') {
+      throw new Error('Unexpected ) in search query');
+    }
+    if (token.kind === 'operator') {
+      throw new Error(`Unexpected ${token.operator} in search query`);
+    }
+    throw new Error('Exclusions need a term to exclude from, e.g. transformers -cat:stat.ML');
+  };
+
+  const parseAnd = (): SearchQueryNode => {
+    let node = parsePrimary();
+
+    for (let token = peek(); token; token = peek()) {
+      let type: 'and' | 'andnot';
+      if (token.kind === 'operator' && token.operator !== 'OR') {
+        index++;
+        type = token.operator === 'ANDNOT' ? 'andnot' : 'and';
+        // "a AND -b" reads as "a ANDNOT b"
+        if (type === 'and' && peek()?.kind === 'minus') {
+          index++;
+          type = 'andnot';
+        }
+      } else if (token.kind === 'minus') {
+        index++;
+        type = 'andnot';
+      } else if (token.kind === 'term' || token.kind === 'open') {
+        type = 'and';
+      } else {
+        break;
+      }
+      node = { type, left: node, right: parsePrimary() };
+    }
+
+    return node;
+  };
+
+  const parseOr = (): SearchQueryNode => {
+    let node = parseAnd();
+    for (let token = peek(); token?.kind === 'operator' && token.operator === 'OR'; token = peek()) {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const tree = parseOr();
+  if (index < tokens.length) {
+    throw new Error('Unexpected ) in search query');
+  }
+  return tree;
+}
+
+/**
+ * List the terms of a query tree
+ * @param node - Query tree
+ * @returns Terms from left to right
+ */
+export function getSearchTerms(node: SearchQueryNode): SearchTerm[] {
+  return node.type === 'term' ? [node] : [...getSearchTerms(node.left), ...getSearchTerms(node.right)];
+}
+
+/**
+ * Combine the search box and the advanced form into one query. Each form
+ * field is parsed as a query of its own, defaulting to that field, so
+ * `hinton OR lecun` in the author box finds either author.
+ * @param fields - Query text per field
+ * @returns Query tree, or null if every field is empty
+ * @throws Error describing the problem when a field is malformed
+ */
+export function buildSearchQuery(fields: SearchQueryFields): SearchQueryNode | null {
+  const parts = [
+    parseSearchQuery(fields.query ?? '', 'all'),
+    parseSearchQuery(fields.author ?? '', 'au'),
+    parseSearchQuery(fields.title ?? '', 'ti'),
+    parseSearchQuery(fields.abstract ?? '', 'abs'),
+    parseSearchQuery(fields.comment ?? '', 'co'),
+    parseSearchQuery(fields.journal ?? '', 'jr'),
+    parseSearchQuery(fields.reportNumber ?? '', 'rn'),
+    parseSearchQuery(fields.category ?? '', 'cat')
+  ].filter((part): part is SearchQueryNode => part !== null);
+
+  return parts.reduce<SearchQueryNode | null>(
+    (tree, part) => (tree ? { type: 'and', left: tree, right: part } : part),
+    null
+  );
+}
+
+/**
+ * Write a term's value, quoting it when it isn't a plain word
+ * @param term - Term to write
+ * @returns Value, quoted if needed
+ */
+function formatValue(term: SearchTerm): string {
+  const isOperator = (OPERATORS as readonly string[]).includes(term.value.toUpperCase());
+  if (!term.phrase && !isOperator && BARE_VALUE.test(term.value)) {
+    return term.value;
+  }
+  // Neither syntax can escape a quote inside a phrase, so quotes are dropped
+  return `"${term.value.replace(/"/g, '').replace(/\s+/g, ' ').trim()}"`;
+}
+
+/**
+ * Write a query tree, parenthesizing every nested operation that isn't
+ * a continuation of the same operator on the left
+ * @param node - Query tree
+ * @param writeTerm - Writes a single term
+ * @param writeOperation - Joins two written operands
+ * @returns Query text
+ */
+function writeQuery(
+  node: SearchQueryNode,
+  writeTerm: (term: SearchTerm) => string,
+  writeOperation: (type: SearchOperation['type'], left: string, right: string) => string
+): string {
+  if (node.type === 'term') {
+    return writeTerm(node);
+  }
+
+  const operand = (child: SearchQueryNode, isRight: boolean): string => {
+    const text = writeQuery(child, writeTerm, writeOperation);
+    return child.type !== 'term' && (isRight || child.type !== node.type) ? `(${text})` : text;
+  };
+
+  return writeOperation(node.type, operand(node.left, false), operand(node.right, true));
+}
+
+/**
+ * Convert a query tree to arXiv's search_query syntax. The result is a
+ * plain string; URLSearchParams takes care of URL encoding.
+ * @param node - Query tree
+ * @returns search_query value, e.g. `au:hinton OR (au:lecun AND ti:"deep learning")`
+ */
+export function toArxivSearchQuery(node: SearchQueryNode): string {
+  return writeQuery(
+    node,
+    (term) => `${term.field}:${formatValue(term)}`,
+    (type, left, right) => `${left} ${type.toUpperCase()} ${right}`
+  );
+}
+
+/**
+ * Convert a query tree back to the syntax users type, which parses to the
+ * same tree
+ * @param node - Query tree
+ * @param defaultField - Field whose prefix can be left out
+ * @returns Query text, e.g. `attention -cat:stat.ML`
+ */
+export function formatSearchQuery(node: SearchQueryNode, defaultField: SearchField = 'all'): string {
+  return writeQuery(
+    node,
+    (term) => `${term.field === defaultField ? '' : `${term.field}:`}${formatValue(term)}`,
+    (type, left, right) => {
+      if (type === 'andnot') return `${left} -${right}`;
+      return type === 'or' ? `${left} OR ${right}` : `${left} ${right}`;
+    }
+  );
+}